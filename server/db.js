@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
+import { runMigrations, schemaStatus } from './migrations.js';
 
 // ----- Resolve __dirname under ESM -----
 const __dirname = path.dirname(new URL(import.meta.url).pathname);
@@ -28,40 +29,10 @@ db.pragma('journal_mode = WAL');
 db.pragma('synchronous = NORMAL');
 db.pragma('busy_timeout = 5000');
 
-// ----- Schema initialization -----
-db.exec(`
-CREATE TABLE IF NOT EXISTS settings (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  section TEXT NOT NULL,
-  name TEXT NOT NULL,
-  value TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL,
-  UNIQUE(section, name)
-);
-`);
-
-db.exec(`
-CREATE TABLE IF NOT EXISTS logs (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  level TEXT NOT NULL,
-  message TEXT NOT NULL,
-  context TEXT,
-  created_at TEXT NOT NULL
-);
-`);
-db.exec("CREATE INDEX IF NOT EXISTS idx_logs_created_at ON logs(created_at)");
-db.exec("CREATE INDEX IF NOT EXISTS idx_logs_level ON logs(level)");
-
-db.exec(`
-CREATE TABLE IF NOT EXISTS secrets (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  name TEXT NOT NULL UNIQUE,
-  value_encrypted TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
-);
-`);
+// ----- Schema -----
+// Tables are created and changed only by the versioned migrations in
+// migrations.js; add a migration there instead of editing the schema here.
+runMigrations(db);
 
 // ==============================================================
 // SETTINGS API
@@ -114,66 +85,131 @@ function deleteSetting(section, name, callback) {
 }
 
 // ==============================================================
-// PAAPI CONFIG (FULLY FIXED — no recursion)
+// PAAPI PROFILES API
 // ==============================================================
+// Credentials are kept in the secrets table, named after the profile
+// (services/paapi.js). region/host are overrides: NULL means the values
+// of the marketplace catalog.
 
-function getPaapiConfig(callback) {
-  listSettings("paapi", (err, rows) => {
-    if (err) return callback(err);
-    if (!rows || rows.length === 0) return callback(null, null);
+const PROFILE_COLUMNS = {
+  marketplace: "marketplace",
+  partnerTag: "partner_tag",
+  region: "region",
+  host: "host"
+};
 
-    const map = new Map(rows.map(r => [r.name, r.value]));
-    const any = rows[0];
+// Keep exactly one default while any profile exists: promote the oldest
+// one when the default was removed.
+function ensureDefaultPaapiProfile() {
+  if (db.prepare("SELECT 1 FROM paapi_profiles WHERE is_default=1").get()) return;
+  db.prepare(`
+    UPDATE paapi_profiles SET is_default=1
+    WHERE id=(SELECT id FROM paapi_profiles ORDER BY id LIMIT 1)
+  `).run();
+}
 
-    callback(null, {
-      accessKey: map.get("accessKey") || "",
-      secretKey: map.get("secretKey") || "",
-      partnerTag: map.get("partnerTag") || "",
-      marketplace: map.get("marketplace") || "",
-      region: map.get("region") || "",
-      host: map.get("host") || "",
-      createdAt: any.created_at,
-      updatedAt: any.updated_at
-    });
-  });
+function setDefaultPaapiProfileSync(name) {
+  db.prepare("UPDATE paapi_profiles SET is_default=0 WHERE is_default=1").run();
+  return db.prepare("UPDATE paapi_profiles SET is_default=1 WHERE name=?").run(name).changes > 0;
+}
+
+function listPaapiProfiles(callback) {
+  try {
+    const rows = db.prepare("SELECT * FROM paapi_profiles ORDER BY is_default DESC, name").all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
 }
 
-function upsertPaapiConfig(config, callback) {
+// A profile by name, or the default profile when name is empty.
+function getPaapiProfile(name, callback) {
   try {
-    const fields = [
-      "accessKey", "secretKey", "partnerTag",
-      "marketplace", "region", "host"
-    ];
+    const row = name
+      ? db.prepare("SELECT * FROM paapi_profiles WHERE name=?").get(name)
+      : db.prepare("SELECT * FROM paapi_profiles WHERE is_default=1").get();
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
 
+// profile: { name, marketplace, partnerTag, region?, host?, isDefault? }
+// The first profile always becomes the default.
+function insertPaapiProfile(profile, callback) {
+  try {
     const now = new Date().toISOString();
+    const id = db.transaction(() => {
+      const info = db.prepare(`
+        INSERT INTO paapi_profiles (name, marketplace, partner_tag, region, host, is_default, created_at, updated_at)
+        VALUES(?,?,?,?,?,0,?,?)
+      `).run(
+        profile.name,
+        profile.marketplace,
+        profile.partnerTag,
+        profile.region || null,
+        profile.host || null,
+        now,
+        now
+      );
+      if (profile.isDefault) setDefaultPaapiProfileSync(profile.name);
+      ensureDefaultPaapiProfile();
+      return info.lastInsertRowid;
+    })();
+    callback(null, id);
+  } catch (e) {
+    callback(e);
+  }
+}
 
-    const stmt = db.prepare(`
-      INSERT INTO settings (section, name, value, created_at, updated_at)
-      VALUES ('paapi', ?, ?, ?, ?)
-      ON CONFLICT(section, name) DO UPDATE SET
-        value = excluded.value,
-        updated_at = excluded.updated_at
-    `);
+// Update the given fields of a profile (region/host null to clear the
+// override); the name cannot change. Calls back with false when it does
+// not exist.
+function updatePaapiProfile(name, fields, callback) {
+  try {
+    const sets = [];
+    const params = [];
+    for (const [field, column] of Object.entries(PROFILE_COLUMNS)) {
+      if (fields[field] === undefined) continue;
+      sets.push(`${column}=?`);
+      params.push(fields[field]);
+    }
+    sets.push("updated_at=?");
+    params.push(new Date().toISOString(), name);
 
-    db.transaction(() => {
-      for (const field of fields) {
-        const val = (config[field] || "").trim();
-        stmt.run(field, val, now, now);
-      }
+    const found = db.transaction(() => {
+      const changed = db.prepare(`UPDATE paapi_profiles SET ${sets.join(", ")} WHERE name=?`).run(...params).changes > 0;
+      if (changed && fields.isDefault) setDefaultPaapiProfileSync(name);
+      return changed;
     })();
+    callback(null, found);
+  } catch (e) {
+    callback(e);
+  }
+}
 
-    callback(null);
-  } catch (err) {
-    callback(err);
+function setDefaultPaapiProfile(name, callback) {
+  try {
+    const found = db.transaction(() => {
+      if (!db.prepare("SELECT 1 FROM paapi_profiles WHERE name=?").get(name)) return false;
+      return setDefaultPaapiProfileSync(name);
+    })();
+    callback(null, found);
+  } catch (e) {
+    callback(e);
   }
 }
 
-function deletePaapiConfig(callback) {
+function deletePaapiProfile(name, callback) {
   try {
-    db.prepare("DELETE FROM settings WHERE section='paapi'").run();
-    callback(null);
-  } catch (err) {
-    callback(err);
+    const found = db.transaction(() => {
+      const changed = db.prepare("DELETE FROM paapi_profiles WHERE name=?").run(name).changes > 0;
+      ensureDefaultPaapiProfile();
+      return changed;
+    })();
+    callback(null, found);
+  } catch (e) {
+    callback(e);
   }
 }
 
@@ -181,40 +217,180 @@ function deletePaapiConfig(callback) {
 // LOGGING API
 // ==============================================================
 
-function logEvent(level, message, context, callback) {
+// entry: { level, source, message, context, createdAt? }
+function logEvent(entry, callback) {
   try {
-    const now = new Date().toISOString();
-    const ctx = context ? JSON.stringify(context) : null;
+    const now = entry.createdAt || new Date().toISOString();
+    const ctx = entry.context ? JSON.stringify(entry.context) : null;
     const info = db.prepare(`
-      INSERT INTO logs(level, message, context, created_at)
-      VALUES(?,?,?,?)
-    `).run(level, message, ctx, now);
+      INSERT INTO logs(level, source, message, context, created_at)
+      VALUES(?,?,?,?,?)
+    `).run(entry.level, entry.source || null, entry.message, ctx, now);
     callback(null, info.lastInsertRowid);
   } catch (e) {
     callback(e);
   }
 }
 
+// Quote every word of a user search so FTS5 never sees its query syntax;
+// words match as prefixes and must all be present.
+const ftsQuery = (text) =>
+  String(text)
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replace(/"/g, '""')}"*`)
+    .join(" ");
+
+/**
+ * WHERE clause for a logs filter, shared by listing and bulk deletion:
+ *   levels   level names to include (all when empty)
+ *   sources  source modules to include (all when empty)
+ *   since / until  ISO timestamps, inclusive
+ *   q        full-text search over message and context
+ *   context  { key: value } pairs matched against context fields; a key
+ *            also matches its plural list field (asin -> asins), and
+ *            lists match when they contain the value
+ *   before   only rows with a smaller id
+ *   after    only rows with a larger id
+ * Returns { sql, params }; sql is "" when nothing is filtered.
+ */
+function logFilterSql(options) {
+  const where = [];
+  const params = [];
+
+  if (options.levels && options.levels.length) {
+    where.push(`level IN (${options.levels.map(() => "?").join(",")})`);
+    params.push(...options.levels);
+  }
+  if (options.sources && options.sources.length) {
+    where.push(`source IN (${options.sources.map(() => "?").join(",")})`);
+    params.push(...options.sources);
+  }
+  if (options.since) {
+    where.push("created_at >= ?");
+    params.push(options.since);
+  }
+  if (options.until) {
+    where.push("created_at <= ?");
+    params.push(options.until);
+  }
+  if (options.q && ftsQuery(options.q)) {
+    where.push("id IN (SELECT rowid FROM logs_fts WHERE logs_fts MATCH ?)");
+    params.push(ftsQuery(options.q));
+  }
+  for (const [key, value] of Object.entries(options.context || {})) {
+    where.push(
+      "(EXISTS (SELECT 1 FROM json_each(logs.context, ?) WHERE CAST(value AS TEXT) = ?)" +
+      " OR EXISTS (SELECT 1 FROM json_each(logs.context, ?) WHERE CAST(value AS TEXT) = ?))"
+    );
+    params.push(`$.${key}`, String(value), `$.${key}s`, String(value));
+  }
+  if (options.before) {
+    where.push("id < ?");
+    params.push(options.before);
+  }
+  if (options.after) {
+    where.push("id > ?");
+    params.push(options.after);
+  }
+
+  return { sql: where.length ? " WHERE " + where.join(" AND ") : "", params };
+}
+
+/**
+ * Newest-first page of logs matching a logFilterSql filter; `limit` is
+ * the page size (1-1000, default 100) and `before` the cursor.
+ * Returns { rows, nextCursor }, nextCursor being null on the last page.
+ */
 function listLogs(options, callback) {
   try {
     const limit = Math.min(Math.max(options.limit || 100, 1), 1000);
-    let sql = "SELECT * FROM logs";
-    const params = [];
+    const filter = logFilterSql(options);
 
-    if (options.level) {
-      sql += " WHERE level=?";
-      params.push(options.level);
-    }
-    sql += " ORDER BY created_at DESC, id DESC LIMIT ?";
-    params.push(limit);
+    const rows = db
+      .prepare(`SELECT * FROM logs${filter.sql} ORDER BY id DESC LIMIT ?`)
+      .all(...filter.params, limit + 1);
+    const hasMore = rows.length > limit;
+    if (hasMore) rows.pop();
+    callback(null, { rows, nextCursor: hasMore ? rows[rows.length - 1].id : null });
+  } catch (e) {
+    callback(e);
+  }
+}
 
-    const rows = db.prepare(sql).all(...params);
+// Oldest-first batch of up to `limit` logs matching a filter, for purges
+// that archive rows before deleting them.
+function selectLogBatch(options, limit, callback) {
+  try {
+    const filter = logFilterSql(options);
+    const rows = db
+      .prepare(`SELECT * FROM logs${filter.sql} ORDER BY id ASC LIMIT ?`)
+      .all(...filter.params, limit);
     callback(null, rows);
   } catch (e) {
     callback(e);
   }
 }
 
+// Delete every log matching a filter; returns the count.
+function deleteLogsWhere(options, callback) {
+  try {
+    const filter = logFilterSql(options);
+    const info = db.prepare(`DELETE FROM logs${filter.sql}`).run(...filter.params);
+    callback(null, info.changes);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteLogIds(ids, callback) {
+  try {
+    const stmt = db.prepare("DELETE FROM logs WHERE id=?");
+    const tx = db.transaction((list) => {
+      for (const id of list) stmt.run(id);
+    });
+    tx(ids);
+    callback(null, ids.length);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Id of the newest `keep`-th row of a level; rows with a smaller id are
+// beyond a max-rows limit. Null when the level has fewer rows than that.
+function logRowCutoffId(level, keep, callback) {
+  try {
+    const row = db
+      .prepare("SELECT id FROM logs WHERE level=? ORDER BY id DESC LIMIT 1 OFFSET ?")
+      .get(level, keep - 1);
+    callback(null, row ? row.id : null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Row counts per level.
+function countLogsByLevel(callback) {
+  try {
+    const rows = db.prepare("SELECT level, COUNT(*) AS n FROM logs GROUP BY level").all();
+    callback(null, Object.fromEntries(rows.map((r) => [r.level, r.n])));
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Distinct source modules, for the log viewer's filter.
+function listLogSources(callback) {
+  try {
+    const rows = db
+      .prepare("SELECT DISTINCT source FROM logs WHERE source IS NOT NULL ORDER BY source")
+      .all();
+    callback(null, rows.map((r) => r.source));
+  } catch (e) {
+    callback(e);
+  }
+}
+
 function deleteLog(id, callback) {
   try {
     db.prepare("DELETE FROM logs WHERE id=?").run(id);
@@ -224,6 +400,16 @@ function deleteLog(id, callback) {
   }
 }
 
+// Delete logs created before `before` (ISO timestamp); returns the count.
+function pruneLogs(before, callback) {
+  try {
+    const info = db.prepare("DELETE FROM logs WHERE created_at < ?").run(before);
+    callback(null, info.changes);
+  } catch (e) {
+    callback(e);
+  }
+}
+
 // ==============================================================
 // SECRETS API
 // ==============================================================
@@ -262,6 +448,20 @@ function upsertSecret(name, valueEncrypted, callback) {
   }
 }
 
+// Swap in re-encrypted values (key rotation); updated_at is left alone
+// because the plaintext did not change. updates: [{ id, valueEncrypted }]
+function reencryptSecrets(updates, callback) {
+  try {
+    const stmt = db.prepare("UPDATE secrets SET value_encrypted=? WHERE id=?");
+    db.transaction(() => {
+      for (const u of updates) stmt.run(u.valueEncrypted, u.id);
+    })();
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
 function deleteSecret(name, callback) {
   try {
     db.prepare("DELETE FROM secrets WHERE name=?").run(name);
@@ -271,24 +471,1194 @@ function deleteSecret(name, callback) {
   }
 }
 
+// ==============================================================
+// CONFIG IMPORT API
+// ==============================================================
+
+// Apply an imported configuration in one transaction, so a failed import
+// changes nothing. changes:
+// { settings: { upsert: [{ section, name, value }], remove: [{ section, name }] },
+//   secrets:  { upsert: [{ name, valueEncrypted }], remove: [name] },
+//   profiles: { upsert: [{ name, marketplace, partnerTag, region, host, isDefault }],
+//               remove: [name] } }
+function applyConfigChanges(changes, callback) {
+  try {
+    const now = new Date().toISOString();
+    const upsertSettingStmt = db.prepare(`
+      INSERT INTO settings (section, name, value, created_at, updated_at)
+      VALUES(?,?,?,?,?)
+      ON CONFLICT(section, name) DO UPDATE SET
+        value=excluded.value,
+        updated_at=excluded.updated_at
+    `);
+    const deleteSettingStmt = db.prepare("DELETE FROM settings WHERE section=? AND name=?");
+    const upsertSecretStmt = db.prepare(`
+      INSERT INTO secrets(name, value_encrypted, created_at, updated_at)
+      VALUES(?,?,?,?)
+      ON CONFLICT(name) DO UPDATE SET
+        value_encrypted=excluded.value_encrypted,
+        updated_at=excluded.updated_at
+    `);
+    const deleteSecretStmt = db.prepare("DELETE FROM secrets WHERE name=?");
+    const upsertProfileStmt = db.prepare(`
+      INSERT INTO paapi_profiles (name, marketplace, partner_tag, region, host, is_default, created_at, updated_at)
+      VALUES(?,?,?,?,?,0,?,?)
+      ON CONFLICT(name) DO UPDATE SET
+        marketplace=excluded.marketplace,
+        partner_tag=excluded.partner_tag,
+        region=excluded.region,
+        host=excluded.host,
+        updated_at=excluded.updated_at
+    `);
+    const deleteProfileStmt = db.prepare("DELETE FROM paapi_profiles WHERE name=?");
+
+    db.transaction(() => {
+      for (const s of changes.settings.remove) deleteSettingStmt.run(s.section, s.name);
+      for (const s of changes.settings.upsert) upsertSettingStmt.run(s.section, s.name, s.value, now, now);
+      for (const name of changes.secrets.remove) deleteSecretStmt.run(name);
+      for (const s of changes.secrets.upsert) upsertSecretStmt.run(s.name, s.valueEncrypted, now, now);
+      for (const name of changes.profiles.remove) deleteProfileStmt.run(name);
+      for (const p of changes.profiles.upsert) {
+        upsertProfileStmt.run(p.name, p.marketplace, p.partnerTag, p.region || null, p.host || null, now, now);
+      }
+      const preferred = changes.profiles.upsert.find((p) => p.isDefault);
+      if (preferred) setDefaultPaapiProfileSync(preferred.name);
+      ensureDefaultPaapiProfile();
+    })();
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// PIPELINES API
+// ==============================================================
+
+function listPipelines(callback) {
+  try {
+    const rows = db.prepare("SELECT * FROM pipelines ORDER BY name").all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getPipeline(id, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM pipelines WHERE id=?").get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function createPipeline(name, description, steps, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO pipelines(name, description, steps, created_at, updated_at)
+      VALUES(?,?,?,?,?)
+    `).run(name, description || null, JSON.stringify(steps), now, now);
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function updatePipeline(id, name, description, steps, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE pipelines SET name=?, description=?, steps=?, updated_at=?
+      WHERE id=?
+    `).run(name, description || null, JSON.stringify(steps), now, id);
+    callback(null, info.changes > 0);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deletePipeline(id, callback) {
+  try {
+    db.prepare("DELETE FROM pipelines WHERE id=?").run(id);
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function createPipelineRun(pipelineId, input, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO pipeline_runs(pipeline_id, status, input, started_at)
+      VALUES(?, 'running', ?, ?)
+    `).run(pipelineId, input ? JSON.stringify(input) : null, now);
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function finishPipelineRun(id, { status, output, steps, error }, callback) {
+  try {
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE pipeline_runs
+      SET status=?, output=?, steps=?, error=?, finished_at=?
+      WHERE id=?
+    `).run(
+      status,
+      output ? JSON.stringify(output) : null,
+      steps ? JSON.stringify(steps) : null,
+      error || null,
+      now,
+      id
+    );
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Runs left 'running' by a previous process: their job is re-queued and
+// starts a new run, so these are closed as failed.
+function failInterruptedPipelineRuns(callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE pipeline_runs SET status='failed', error='Interrupted by a server restart', finished_at=?
+      WHERE status='running'
+    `).run(now);
+    callback(null, info.changes);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getPipelineRun(id, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM pipeline_runs WHERE id=?").get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function listPipelineRuns(pipelineId, limit, callback) {
+  try {
+    const n = Math.min(Math.max(limit || 20, 1), 200);
+    const rows = db.prepare(`
+      SELECT id, pipeline_id, status, error, started_at, finished_at
+      FROM pipeline_runs WHERE pipeline_id=?
+      ORDER BY id DESC LIMIT ?
+    `).all(pipelineId, n);
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// JOBS API
+// ==============================================================
+
+function createJob(type, input, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO jobs(type, status, input, progress, created_at, updated_at)
+      VALUES(?, 'queued', ?, ?, ?, ?)
+    `).run(
+      type,
+      input ? JSON.stringify(input) : null,
+      JSON.stringify({ done: 0, total: 0 }),
+      now,
+      now
+    );
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getJob(id, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM jobs WHERE id=?").get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function listJobs(options, callback) {
+  try {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 500);
+    const where = [];
+    const params = [];
+
+    if (options.status) {
+      where.push("status=?");
+      params.push(options.status);
+    }
+    if (options.type) {
+      where.push("type=?");
+      params.push(options.type);
+    }
+
+    let sql = "SELECT id, type, status, progress, error, created_at, started_at, finished_at, updated_at FROM jobs";
+    if (where.length) sql += " WHERE " + where.join(" AND ");
+    sql += " ORDER BY id DESC LIMIT ?";
+    params.push(limit);
+
+    const rows = db.prepare(sql).all(...params);
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Atomically move the oldest queued job to 'running' and return it.
+function claimNextJob(callback) {
+  try {
+    const now = new Date().toISOString();
+    const row = db.transaction(() => {
+      const next = db.prepare("SELECT * FROM jobs WHERE status='queued' ORDER BY id LIMIT 1").get();
+      if (!next) return null;
+      db.prepare(`
+        UPDATE jobs SET status='running', started_at=?, updated_at=? WHERE id=?
+      `).run(now, now, next.id);
+      return { ...next, status: 'running', started_at: now, updated_at: now };
+    })();
+    callback(null, row);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function updateJobProgress(id, progress, result, callback) {
+  try {
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE jobs SET progress=?, result=COALESCE(?, result), updated_at=? WHERE id=?
+    `).run(
+      JSON.stringify(progress),
+      result !== undefined ? JSON.stringify(result) : null,
+      now,
+      id
+    );
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function finishJob(id, { status, result, error }, callback) {
+  try {
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE jobs
+      SET status=?, result=COALESCE(?, result), error=?, finished_at=?, updated_at=?
+      WHERE id=?
+    `).run(
+      status,
+      result !== undefined ? JSON.stringify(result) : null,
+      error || null,
+      now,
+      now,
+      id
+    );
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Jobs left 'running' by a previous process go back to the queue.
+function requeueRunningJobs(callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE jobs SET status='queued', started_at=NULL, updated_at=? WHERE status='running'
+    `).run(now);
+    callback(null, info.changes);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// PRODUCTS API
+// ==============================================================
+
+const PRODUCT_SORT_COLUMNS = {
+  asin: 'asin',
+  title: 'title',
+  brand: 'brand',
+  rating: 'rating',
+  reviews: 'review_count',
+  fetched_at: 'fetched_at'
+};
+
+// products: { asin, marketplace, title, brand, features[], rating, reviewCount, raw }
+function upsertProducts(products, callback) {
+  try {
+    const now = new Date().toISOString();
+    const stmt = db.prepare(`
+      INSERT INTO products(asin, marketplace, title, brand, features, rating, review_count,
+                           raw, fetched_at, created_at, updated_at)
+      VALUES(?,?,?,?,?,?,?,?,?,?,?)
+      ON CONFLICT(asin, marketplace) DO UPDATE SET
+        title=excluded.title,
+        brand=excluded.brand,
+        features=excluded.features,
+        rating=excluded.rating,
+        review_count=excluded.review_count,
+        raw=excluded.raw,
+        fetched_at=excluded.fetched_at,
+        updated_at=excluded.updated_at
+    `);
+
+    db.transaction(() => {
+      for (const p of products) {
+        stmt.run(
+          p.asin,
+          p.marketplace,
+          p.title || null,
+          p.brand || null,
+          JSON.stringify(p.features || []),
+          p.rating ?? null,
+          p.reviewCount ?? null,
+          JSON.stringify(p.raw),
+          now,
+          now,
+          now
+        );
+      }
+    })();
+
+    callback(null, products.length);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function listProducts(options, callback) {
+  try {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 500);
+    const offset = Math.max(options.offset || 0, 0);
+    const column = PRODUCT_SORT_COLUMNS[options.sort] || 'fetched_at';
+    const order = options.order === 'asc' ? 'ASC' : 'DESC';
+
+    const where = [];
+    const params = [];
+    if (options.marketplace) {
+      where.push("marketplace=?");
+      params.push(options.marketplace);
+    }
+    if (options.q) {
+      where.push("(asin LIKE ? OR title LIKE ? OR brand LIKE ?)");
+      const like = `%${options.q}%`;
+      params.push(like, like, like);
+    }
+    const whereSql = where.length ? " WHERE " + where.join(" AND ") : "";
+
+    const total = db.prepare(`SELECT COUNT(*) AS n FROM products${whereSql}`).get(...params).n;
+    const rows = db.prepare(`
+      SELECT id, asin, marketplace, title, brand, rating, review_count, fetched_at, updated_at
+      FROM products${whereSql}
+      ORDER BY ${column} IS NULL, ${column} ${order}, id DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset);
+
+    callback(null, { total, rows });
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getProduct(asin, marketplace, callback) {
+  try {
+    const row = marketplace
+      ? db.prepare("SELECT * FROM products WHERE asin=? AND marketplace=?").get(asin, marketplace)
+      : db.prepare("SELECT * FROM products WHERE asin=? ORDER BY fetched_at DESC LIMIT 1").get(asin);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteProduct(asin, marketplace, callback) {
+  try {
+    if (marketplace) {
+      db.prepare("DELETE FROM products WHERE asin=? AND marketplace=?").run(asin, marketplace);
+    } else {
+      db.prepare("DELETE FROM products WHERE asin=?").run(asin);
+    }
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// PRICE TRACKING API
+// ==============================================================
+
+// Tracked ASINs with their latest and previous price snapshot.
+function listTrackedAsins(callback) {
+  try {
+    const rows = db.prepare(`
+      WITH ranked AS (
+        SELECT *, ROW_NUMBER() OVER (
+          PARTITION BY asin, marketplace ORDER BY fetched_at DESC, id DESC
+        ) AS rn
+        FROM price_history
+      )
+      SELECT t.*,
+             l.amount AS last_amount,
+             l.currency AS last_currency,
+             l.display_amount AS last_display_amount,
+             l.availability_type AS last_availability_type,
+             l.availability_message AS last_availability_message,
+             l.fetched_at AS last_fetched_at,
+             p.amount AS prev_amount
+      FROM tracked_asins t
+      LEFT JOIN ranked l ON l.asin=t.asin AND l.marketplace=t.marketplace AND l.rn=1
+      LEFT JOIN ranked p ON p.asin=t.asin AND p.marketplace=t.marketplace AND p.rn=2
+      ORDER BY t.asin
+    `).all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getTrackedAsin(id, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM tracked_asins WHERE id=?").get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Adds ASINs that are not tracked yet; returns how many were added.
+function addTrackedAsins(asins, marketplace, { label, inContent }, callback) {
+  try {
+    const now = new Date().toISOString();
+    const stmt = db.prepare(`
+      INSERT OR IGNORE INTO tracked_asins(asin, marketplace, label, in_content, active, created_at, updated_at)
+      VALUES(?,?,?,?,1,?,?)
+    `);
+
+    let added = 0;
+    db.transaction(() => {
+      for (const asin of asins) {
+        added += stmt.run(asin, marketplace, label || null, inContent ? 1 : 0, now, now).changes;
+      }
+    })();
+
+    callback(null, added);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// fields: { label?, inContent?, active? }
+function updateTrackedAsin(id, fields, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE tracked_asins SET
+        label=COALESCE(?, label),
+        in_content=COALESCE(?, in_content),
+        active=COALESCE(?, active),
+        updated_at=?
+      WHERE id=?
+    `).run(
+      fields.label === undefined ? null : fields.label,
+      fields.inContent === undefined ? null : (fields.inContent ? 1 : 0),
+      fields.active === undefined ? null : (fields.active ? 1 : 0),
+      now,
+      id
+    );
+    callback(null, info.changes > 0);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteTrackedAsin(id, callback) {
+  try {
+    db.prepare("DELETE FROM tracked_asins WHERE id=?").run(id);
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// snapshots: { asin, marketplace, amount, currency, displayAmount, availabilityType, availabilityMessage }
+function insertPriceSnapshots(snapshots, callback) {
+  try {
+    const now = new Date().toISOString();
+    const stmt = db.prepare(`
+      INSERT INTO price_history(asin, marketplace, amount, currency, display_amount,
+                                availability_type, availability_message, fetched_at)
+      VALUES(?,?,?,?,?,?,?,?)
+    `);
+
+    db.transaction(() => {
+      for (const s of snapshots) {
+        stmt.run(
+          s.asin,
+          s.marketplace,
+          s.amount ?? null,
+          s.currency || null,
+          s.displayAmount || null,
+          s.availabilityType || null,
+          s.availabilityMessage || null,
+          now
+        );
+      }
+    })();
+
+    callback(null, snapshots.length);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getPriceHistory(asin, marketplace, since, callback) {
+  try {
+    const rows = db.prepare(`
+      SELECT amount, currency, display_amount, availability_type, availability_message, fetched_at
+      FROM price_history
+      WHERE asin=? AND marketplace=? AND fetched_at >= ?
+      ORDER BY fetched_at ASC, id ASC
+    `).all(asin, marketplace, since);
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// SCHEDULES API
+// ==============================================================
+
+function listSchedules(callback) {
+  try {
+    const rows = db.prepare("SELECT * FROM schedules ORDER BY name").all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getSchedule(id, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM schedules WHERE id=?").get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Enabled schedules whose next run is due at `now` (ISO timestamp).
+function listDueSchedules(now, callback) {
+  try {
+    const rows = db.prepare(`
+      SELECT * FROM schedules
+      WHERE enabled=1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+      ORDER BY next_run_at
+    `).all(now);
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// schedule: { name, cron, operation, params, enabled, nextRunAt }
+function createSchedule(schedule, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO schedules(name, cron, operation, params, enabled, next_run_at, created_at, updated_at)
+      VALUES(?,?,?,?,?,?,?,?)
+    `).run(
+      schedule.name,
+      schedule.cron,
+      schedule.operation,
+      JSON.stringify(schedule.params || {}),
+      schedule.enabled ? 1 : 0,
+      schedule.nextRunAt,
+      now,
+      now
+    );
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function updateSchedule(id, schedule, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE schedules
+      SET name=?, cron=?, operation=?, params=?, enabled=?, next_run_at=?, updated_at=?
+      WHERE id=?
+    `).run(
+      schedule.name,
+      schedule.cron,
+      schedule.operation,
+      JSON.stringify(schedule.params || {}),
+      schedule.enabled ? 1 : 0,
+      schedule.nextRunAt,
+      now,
+      id
+    );
+    callback(null, info.changes > 0);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteSchedule(id, callback) {
+  try {
+    db.prepare("DELETE FROM schedules WHERE id=?").run(id);
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+/**
+ * Record that a schedule fired: stores the run (with its job id, if the
+ * job could be queued) and advances next_run_at. Returns the run id.
+ */
+function startScheduleRun(scheduleId, { jobId, status, error, nextRunAt }, callback) {
+  try {
+    const now = new Date().toISOString();
+    let runId;
+    db.transaction(() => {
+      runId = db.prepare(`
+        INSERT INTO schedule_runs(schedule_id, job_id, status, error, started_at, finished_at)
+        VALUES(?,?,?,?,?,?)
+      `).run(scheduleId, jobId || null, status, error || null, now, status === 'running' ? null : now)
+        .lastInsertRowid;
+
+      db.prepare(`
+        UPDATE schedules
+        SET last_run_at=?, last_status=?, last_error=?, next_run_at=?, updated_at=?
+        WHERE id=?
+      `).run(now, status, error || null, nextRunAt, now, scheduleId);
+    })();
+    callback(null, runId);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Store a run's outcome and mirror it on the schedule.
+function finishScheduleRun(runId, { status, error }, callback) {
+  try {
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      const run = db.prepare("SELECT schedule_id FROM schedule_runs WHERE id=?").get(runId);
+      db.prepare(`
+        UPDATE schedule_runs SET status=?, error=?, finished_at=? WHERE id=?
+      `).run(status, error || null, now, runId);
+      if (run) {
+        db.prepare(`
+          UPDATE schedules SET last_status=?, last_error=? WHERE id=?
+        `).run(status, error || null, run.schedule_id);
+      }
+    })();
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function listScheduleRuns(scheduleId, limit, callback) {
+  try {
+    const rows = db.prepare(`
+      SELECT * FROM schedule_runs WHERE schedule_id=? ORDER BY id DESC LIMIT ?
+    `).all(scheduleId, Math.min(Math.max(limit || 20, 1), 200));
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Runs still waiting on their job, e.g. after a restart.
+function listRunningScheduleRuns(callback) {
+  try {
+    const rows = db.prepare("SELECT * FROM schedule_runs WHERE status='running'").all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// USERS & SESSIONS API
+// ==============================================================
+
+const USER_COLUMNS = "id, username, role, disabled, last_login_at, created_at, updated_at";
+
+function countUsers(callback) {
+  try {
+    const row = db.prepare("SELECT COUNT(*) AS n FROM users").get();
+    callback(null, row.n);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function listUsers(callback) {
+  try {
+    const rows = db.prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`).all();
+    callback(null, rows);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function getUser(id, callback) {
+  try {
+    const row = db.prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id=?`).get(id);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Includes password_hash; only for verifying a login.
+function getUserByUsername(username, callback) {
+  try {
+    const row = db.prepare("SELECT * FROM users WHERE username=?").get(username);
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// user: { username, passwordHash, role }
+function createUser(user, callback) {
+  try {
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO users(username, password_hash, role, disabled, created_at, updated_at)
+      VALUES(?,?,?,0,?,?)
+    `).run(user.username, user.passwordHash, user.role, now, now);
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+/**
+ * Update a user; omitted fields keep their value. Disabling a user or
+ * changing their password also ends their sessions. Returns whether the
+ * user exists.
+ */
+function updateUser(id, { role, passwordHash, disabled }, callback) {
+  try {
+    const now = new Date().toISOString();
+    let found = false;
+    db.transaction(() => {
+      const info = db.prepare(`
+        UPDATE users
+        SET role=COALESCE(?, role), password_hash=COALESCE(?, password_hash),
+            disabled=COALESCE(?, disabled), updated_at=?
+        WHERE id=?
+      `).run(
+        role ?? null,
+        passwordHash ?? null,
+        disabled === undefined ? null : disabled ? 1 : 0,
+        now,
+        id
+      );
+      found = info.changes > 0;
+      if (found && (passwordHash || disabled)) {
+        db.prepare("DELETE FROM sessions WHERE user_id=?").run(id);
+      }
+    })();
+    callback(null, found);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteUser(id, callback) {
+  try {
+    db.prepare("DELETE FROM users WHERE id=?").run(id);
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Admins that can still sign in.
+function countActiveAdmins(callback) {
+  try {
+    const row = db.prepare("SELECT COUNT(*) AS n FROM users WHERE role='admin' AND disabled=0").get();
+    callback(null, row.n);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function createSession(userId, tokenHash, expiresAt, callback) {
+  try {
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO sessions(token_hash, user_id, created_at, expires_at) VALUES(?,?,?,?)
+      `).run(tokenHash, userId, now, expiresAt);
+      db.prepare("UPDATE users SET last_login_at=? WHERE id=?").run(now, userId);
+    })();
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// The unexpired session's user, or null. Disabled users have no sessions.
+function getSessionUser(tokenHash, callback) {
+  try {
+    const row = db.prepare(`
+      SELECT u.id, u.username, u.role, s.expires_at
+      FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash=? AND s.expires_at > ? AND u.disabled=0
+    `).get(tokenHash, new Date().toISOString());
+    callback(null, row || null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function deleteSession(tokenHash, callback) {
+  try {
+    db.prepare("DELETE FROM sessions WHERE token_hash=?").run(tokenHash);
+    callback(null);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+function pruneSessions(callback) {
+  try {
+    const info = db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(new Date().toISOString());
+    callback(null, info.changes);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// AUDIT LOG API
+// ==============================================================
+
+// entry: { actorId, actor, action, targetType, target, diff }
+function insertAuditEntry(entry, callback) {
+  try {
+    const info = db.prepare(`
+      INSERT INTO audit_log(actor_id, actor, action, target_type, target, diff, created_at)
+      VALUES(?,?,?,?,?,?,?)
+    `).run(
+      entry.actorId ?? null,
+      entry.actor,
+      entry.action,
+      entry.targetType,
+      entry.target,
+      entry.diff ? JSON.stringify(entry.diff) : null,
+      new Date().toISOString()
+    );
+    callback(null, info.lastInsertRowid);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+/**
+ * options: { actor, action, targetType, q, since, until, limit, offset }
+ * `q` matches the target; since/until are ISO timestamps. A limit of 0
+ * returns every matching row (exports).
+ */
+function listAuditEntries(options, callback) {
+  try {
+    const where = [];
+    const params = [];
+    if (options.actor) {
+      where.push("actor=?");
+      params.push(options.actor);
+    }
+    if (options.action) {
+      where.push("action=?");
+      params.push(options.action);
+    }
+    if (options.targetType) {
+      where.push("target_type=?");
+      params.push(options.targetType);
+    }
+    if (options.q) {
+      where.push("target LIKE ?");
+      params.push(`%${options.q}%`);
+    }
+    if (options.since) {
+      where.push("created_at >= ?");
+      params.push(options.since);
+    }
+    if (options.until) {
+      where.push("created_at <= ?");
+      params.push(options.until);
+    }
+    const whereSql = where.length ? " WHERE " + where.join(" AND ") : "";
+
+    const total = db.prepare(`SELECT COUNT(*) AS n FROM audit_log${whereSql}`).get(...params).n;
+    let sql = `SELECT * FROM audit_log${whereSql} ORDER BY id DESC`;
+    if (options.limit !== 0) {
+      sql += " LIMIT ? OFFSET ?";
+      params.push(Math.min(Math.max(options.limit || 50, 1), 500), Math.max(options.offset || 0, 0));
+    }
+    const rows = db.prepare(sql).all(...params);
+
+    callback(null, { total, rows });
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Distinct actors and actions, for filter dropdowns.
+function listAuditFacets(callback) {
+  try {
+    const actors = db.prepare("SELECT DISTINCT actor FROM audit_log ORDER BY actor").all().map((r) => r.actor);
+    const actions = db.prepare("SELECT DISTINCT action FROM audit_log ORDER BY action").all().map((r) => r.action);
+    callback(null, { actors, actions });
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// HEALTH API
+// ==============================================================
+
+// Current and latest schema version with the applied migrations.
+function getSchemaStatus(callback) {
+  try {
+    callback(null, schemaStatus(db));
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Write (and commit) one row; fails when the DB is read-only or locked.
+function probeDbWrite(callback) {
+  try {
+    const now = new Date().toISOString();
+    db.prepare(`
+      INSERT INTO health_probe (id, checked_at) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET checked_at=excluded.checked_at
+    `).run(now);
+    callback(null, now);
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// Journal mode and page usage, for the storage health check.
+function getDbStorageInfo(callback) {
+  try {
+    callback(null, {
+      journalMode: db.pragma("journal_mode", { simple: true }),
+      pageSize: db.pragma("page_size", { simple: true }),
+      pageCount: db.pragma("page_count", { simple: true }),
+      freelistCount: db.pragma("freelist_count", { simple: true })
+    });
+  } catch (e) {
+    callback(e);
+  }
+}
+
+// ==============================================================
+// BACKUP API
+// ==============================================================
+
+// Online snapshot of the live database (SQLite backup API), consistent
+// even while it is being written. The copy is switched out of WAL mode so
+// it is one self-contained file.
+function backupDatabase(destination, callback) {
+  db.backup(destination)
+    .then(() => {
+      const copy = new Database(destination);
+      try {
+        copy.pragma("journal_mode = DELETE");
+      } finally {
+        copy.close();
+      }
+      callback(null);
+    })
+    .catch((e) => callback(e));
+}
+
+// Integrity check and schema version of a database file, opened read-only.
+// result: { integrity: "ok" | [problems], schemaVersion }
+function inspectDatabaseFile(file, callback) {
+  let other;
+  try {
+    other = new Database(file, { readonly: true, fileMustExist: true });
+    const problems = other.pragma("integrity_check").map((r) => r.integrity_check);
+    const hasVersions = other
+      .prepare("SELECT 1 FROM sqlite_master WHERE type='table' AND name='schema_migrations'")
+      .get();
+    const schemaVersion = hasVersions
+      ? other.prepare("SELECT MAX(version) AS v FROM schema_migrations").get().v || 0
+      : 0;
+    callback(null, {
+      integrity: problems.length === 1 && problems[0] === 'ok' ? 'ok' : problems,
+      schemaVersion
+    });
+  } catch (e) {
+    callback(e);
+  } finally {
+    if (other) other.close();
+  }
+}
+
+// Copy a snapshot over the live database through the backup API, then
+// bring it up to the current schema. The open connection keeps working
+// and sees the restored data. The audit trail is append-only, so entries
+// written after the snapshot was taken are carried over with their ids.
+function restoreDatabase(source, callback) {
+  let snapshot;
+  let newerAudit;
+  try {
+    snapshot = new Database(source, { readonly: true, fileMustExist: true });
+    const hasAudit = snapshot
+      .prepare("SELECT 1 FROM sqlite_master WHERE type='table' AND name='audit_log'")
+      .get();
+    const lastId = hasAudit ? snapshot.prepare("SELECT MAX(id) AS id FROM audit_log").get().id || 0 : 0;
+    newerAudit = db.prepare("SELECT * FROM audit_log WHERE id > ? ORDER BY id").all(lastId);
+  } catch (e) {
+    if (snapshot) snapshot.close();
+    return callback(e);
+  }
+  snapshot
+    .backup(dbPath)
+    .then(() => {
+      snapshot.close();
+      runMigrations(db);
+      const insert = db.prepare(
+        `INSERT INTO audit_log (id, actor_id, actor, action, target_type, target, diff, created_at)
+         VALUES (@id, @actor_id, @actor, @action, @target_type, @target, @diff, @created_at)`
+      );
+      db.transaction(() => {
+        for (const row of newerAudit) insert.run(row);
+      })();
+      callback(null);
+    })
+    .catch((e) => {
+      if (snapshot.open) snapshot.close();
+      callback(e);
+    });
+}
+
 // ==============================================================
 // EXPORTS
 // ==============================================================
 
 export {
   db,
+  dbPath,
   listSettings,
   getSetting,
   upsertSetting,
   deleteSetting,
-  getPaapiConfig,
-  upsertPaapiConfig,
-  deletePaapiConfig,
+  listPaapiProfiles,
+  getPaapiProfile,
+  insertPaapiProfile,
+  updatePaapiProfile,
+  setDefaultPaapiProfile,
+  deletePaapiProfile,
   logEvent,
   listLogs,
+  selectLogBatch,
+  deleteLogsWhere,
+  deleteLogIds,
+  logRowCutoffId,
+  countLogsByLevel,
+  listLogSources,
   deleteLog,
+  pruneLogs,
   listSecrets,
   getSecret,
   upsertSecret,
-  deleteSecret
+  reencryptSecrets,
+  deleteSecret,
+  applyConfigChanges,
+  listPipelines,
+  getPipeline,
+  createPipeline,
+  updatePipeline,
+  deletePipeline,
+  createPipelineRun,
+  finishPipelineRun,
+  failInterruptedPipelineRuns,
+  getPipelineRun,
+  listPipelineRuns,
+  createJob,
+  getJob,
+  listJobs,
+  claimNextJob,
+  updateJobProgress,
+  finishJob,
+  requeueRunningJobs,
+  upsertProducts,
+  listProducts,
+  getProduct,
+  deleteProduct,
+  listTrackedAsins,
+  getTrackedAsin,
+  addTrackedAsins,
+  updateTrackedAsin,
+  deleteTrackedAsin,
+  insertPriceSnapshots,
+  getPriceHistory,
+  listSchedules,
+  getSchedule,
+  listDueSchedules,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  startScheduleRun,
+  finishScheduleRun,
+  listScheduleRuns,
+  listRunningScheduleRuns,
+  countUsers,
+  listUsers,
+  getUser,
+  getUserByUsername,
+  createUser,
+  updateUser,
+  deleteUser,
+  countActiveAdmins,
+  createSession,
+  getSessionUser,
+  deleteSession,
+  pruneSessions,
+  insertAuditEntry,
+  listAuditEntries,
+  listAuditFacets,
+  probeDbWrite,
+  getDbStorageInfo,
+  getSchemaStatus,
+  backupDatabase,
+  inspectDatabaseFile,
+  restoreDatabase
 };
\ No newline at end of file
@@ -1,18 +1,10 @@
 import express from 'express';
 import cors from 'cors';
-import crypto from 'crypto';
 import {
-  db,
   listSettings,
   getSetting,
   upsertSetting,
   deleteSetting,
-  getPaapiConfig,
-  upsertPaapiConfig,
-  deletePaapiConfig,
-  logEvent,
-  listLogs,
-  deleteLog,
   listSecrets,
   getSecret,
   upsertSecret,
@@ -20,19 +12,61 @@ import {
 } from './db.js';
 
 import amazonRoutes from './routes/amazon.js';
+import pipelineRoutes from './routes/pipelines.js';
+import jobRoutes from './routes/jobs.js';
+import paapiRoutes from './routes/paapi.js';
+import catalogRoutes from './routes/catalog.js';
+import trackingRoutes from './routes/tracking.js';
+import scheduleRoutes from './routes/schedules.js';
+import extractRoutes from './routes/extract.js';
+import exportRoutes from './routes/export.js';
+import authRoutes from './routes/auth.js';
+import auditRoutes from './routes/audit.js';
+import logRoutes from './routes/logs.js';
+import systemRoutes from './routes/system.js';
+import configRoutes from './routes/config.js';
+import { authorizeApi, bootstrapAdmin } from './services/auth.js';
+import { recordAudit, isSensitiveName } from './services/audit.js';
+import { createLogger, logRequests } from './services/logger.js';
+import { recordRequests } from './services/metrics.js';
+import { validateSetting, normalizeSetting, describeRegistry } from './services/settingsRegistry.js';
+import {
+  encryptSecret,
+  decryptSecret,
+  secretKeyId,
+  describeKeys,
+  reencryptAll
+} from './services/secrets.js';
+import { startJobWorker, startPriceTracker, startLogRetention } from './services/jobs.js';
+import { startScheduler } from './services/scheduler.js';
+import { migratePaapiCredentials } from './services/paapi.js';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
+const log = createLogger('server');
 
 app.use(cors());
+// First, so every request is logged, including ones rejected by auth.
+app.use(logRequests);
+app.use(recordRequests);
+// Every /api route below needs a session; see ROUTE_ROLES in services/auth.js.
+app.use('/api', authorizeApi);
+// Mounted before the app-wide JSON parser: they parse their own larger bodies.
+app.use('/api', extractRoutes);
+app.use('/api', exportRoutes);
+app.use('/api', configRoutes);
 app.use(express.json());
+app.use('/api', authRoutes);
 app.use('/api', amazonRoutes);
-
-// ---------- Request logger ----------
-app.use((req, _res, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
-  next();
-});
+app.use('/api', pipelineRoutes);
+app.use('/api', jobRoutes);
+app.use('/api', paapiRoutes);
+app.use('/api', catalogRoutes);
+app.use('/api', trackingRoutes);
+app.use('/api', scheduleRoutes);
+app.use('/api', auditRoutes);
+app.use('/api', logRoutes);
+app.use('/api', systemRoutes);
 
 // ---------- Promisified wrappers ----------
 const listSettingsAsync = (section) =>
@@ -55,36 +89,6 @@ const deleteSettingAsync = (section, name) =>
     deleteSetting(section, name, (err) => (err ? reject(err) : resolve()));
   });
 
-const getPaapiConfigAsync = () =>
-  new Promise((resolve, reject) => {
-    getPaapiConfig((err, cfg) => (err ? reject(err) : resolve(cfg || null)));
-  });
-
-const upsertPaapiConfigAsync = (cfg) =>
-  new Promise((resolve, reject) => {
-    upsertPaapiConfig(cfg, (err) => (err ? reject(err) : resolve()));
-  });
-
-const deletePaapiConfigAsync = () =>
-  new Promise((resolve, reject) => {
-    deletePaapiConfig((err) => (err ? reject(err) : resolve()));
-  });
-
-const logEventAsync = (level, message, context) =>
-  new Promise((resolve, reject) => {
-    logEvent(level, message, context, (err, id) => (err ? reject(err) : resolve(id)));
-  });
-
-const listLogsAsync = (opts) =>
-  new Promise((resolve, reject) => {
-    listLogs(opts, (err, rows) => (err ? reject(err) : resolve(rows || [])));
-  });
-
-const deleteLogAsync = (id) =>
-  new Promise((resolve, reject) => {
-    deleteLog(id, (err) => (err ? reject(err) : resolve()));
-  });
-
 const listSecretsAsync = () =>
   new Promise((resolve, reject) => {
     listSecrets((err, rows) => (err ? reject(err) : resolve(rows || [])));
@@ -105,41 +109,6 @@ const deleteSecretAsync = (name) =>
     deleteSecret(name, (err) => (err ? reject(err) : resolve()));
   });
 
-// ---------- System health ----------
-app.get('/api/system/health', async (req, res) => {
-  const startedAt = process.env.APP_STARTED_AT || new Date().toISOString();
-  const dbPath = process.env.EXTERNAL_DB_PATH || 'internal: ./server/data/workflow.db';
-
-  try {
-    const row = db.prepare('SELECT 1 AS ok').get();
-    const ok = row && row.ok === 1;
-    res.json({
-      status: ok ? 'ok' : 'degraded',
-      uptimeSeconds: process.uptime(),
-      timestamp: new Date().toISOString(),
-      db: { ok, path: dbPath },
-      startedAt
-    });
-  } catch (err) {
-    console.error('Health check DB error:', err);
-    res.json({
-      status: 'degraded',
-      error: String(err),
-      db: { ok: false, path: dbPath },
-      startedAt
-    });
-  }
-});
-
-// ---------- DB info ----------
-app.get('/api/system/db-info', (req, res) => {
-  res.json({
-    usingExternal: !!process.env.EXTERNAL_DB_PATH,
-    dbPath: process.env.EXTERNAL_DB_PATH || 'internal: ./server/data/workflow.db',
-    timestamp: new Date().toISOString()
-  });
-});
-
 // ---------- Settings API ----------
 app.get('/api/settings', async (req, res) => {
   try {
@@ -147,11 +116,16 @@ app.get('/api/settings', async (req, res) => {
     const rows = await listSettingsAsync(section);
     res.json(rows);
   } catch (err) {
-    console.error('DB error (listSettings):', err);
+    log.error('DB error (listSettings)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
 
+// Declared settings with their types and defaults; see services/settingsRegistry.js.
+app.get('/api/settings/registry', (req, res) => {
+  res.json(describeRegistry());
+});
+
 app.get('/api/settings/:section/:name', async (req, res) => {
   const { section, name } = req.params;
   try {
@@ -159,7 +133,7 @@ app.get('/api/settings/:section/:name', async (req, res) => {
     if (!row) return res.status(404).json({ error: 'Not found' });
     res.json(row);
   } catch (err) {
-    console.error('DB error (getSetting):', err);
+    log.error('DB error (getSetting)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
@@ -170,14 +144,25 @@ app.put('/api/settings/:section/:name', async (req, res) => {
   if (typeof value !== 'string') {
     return res.status(400).json({ error: 'value must be a string' });
   }
-  if (!value.trim()) {
-    return res.status(400).json({ error: 'value cannot be empty' });
+  const invalid = validateSetting(section, name, value.trim());
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
   }
+  const stored = normalizeSetting(section, name, value.trim());
   try {
-    await upsertSettingAsync(section, name, value.trim());
-    res.status(200).json({ ok: true });
+    const before = await getSettingAsync(section, name);
+    await upsertSettingAsync(section, name, stored);
+    await recordAudit(req, {
+      action: before ? 'setting.update' : 'setting.create',
+      targetType: 'setting',
+      target: `${section}/${name}`,
+      before: before && { value: before.value },
+      after: { value: stored },
+      sensitive: isSensitiveName(name) ? ['value'] : []
+    });
+    res.status(200).json({ ok: true, value: stored });
   } catch (err) {
-    console.error('DB error (upsertSetting):', err);
+    log.error('DB error (upsertSetting)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
@@ -185,164 +170,97 @@ app.put('/api/settings/:section/:name', async (req, res) => {
 app.delete('/api/settings/:section/:name', async (req, res) => {
   const { section, name } = req.params;
   try {
+    const before = await getSettingAsync(section, name);
     await deleteSettingAsync(section, name);
+    if (before) {
+      await recordAudit(req, {
+        action: 'setting.delete',
+        targetType: 'setting',
+        target: `${section}/${name}`,
+        before: { value: before.value },
+        sensitive: isSensitiveName(name) ? ['value'] : []
+      });
+    }
     res.status(204).send();
   } catch (err) {
-    console.error('DB error (deleteSetting):', err);
-    res.status(500).json({ error: 'Database error' });
-  }
-});
-
-// ---------- PAAPI config ----------
-app.get('/api/config/paapi', async (req, res) => {
-  try {
-    const cfg = await getPaapiConfigAsync();
-    if (!cfg) return res.json(null);
-
-    res.json({
-      accessKey: cfg.accessKey || '',
-      secretKey: cfg.secretKey || '',
-      partnerTag: cfg.partnerTag || '',
-      marketplace: cfg.marketplace || 'www.amazon.com',
-      region: cfg.region || 'us-east-1',
-      host: cfg.host || 'webservices.amazon.com',
-      createdAt: cfg.createdAt,
-      updatedAt: cfg.updatedAt
-    });
-  } catch (err) {
-    console.error('DB error (getPaapiConfig):', err);
+    log.error('DB error (deleteSetting)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
 
-app.put('/api/config/paapi', async (req, res) => {
-  const { accessKey, secretKey, partnerTag, marketplace, region, host } = req.body || {};
-
-  if (typeof accessKey !== 'string' || typeof secretKey !== 'string') {
-    return res.status(400).json({ error: 'accessKey and secretKey must be strings' });
-  }
-
-  const cfg = {
-    accessKey: accessKey.trim(),
-    secretKey: secretKey.trim(),
-    partnerTag: (partnerTag || '').trim(),
-    marketplace: (marketplace || '').trim(),
-    region: (region || '').trim(),
-    host: (host || '').trim()
+// ---------- Secrets (AES-256-GCM, see services/secrets.js) ----------
+const mapSecret = (row, withValue) => {
+  const base = {
+    id: row.id,
+    name: row.name,
+    key_id: secretKeyId(row.value_encrypted),
+    created_at: row.created_at,
+    updated_at: row.updated_at
   };
-
-  try {
-    await upsertPaapiConfigAsync(cfg);
-    res.json({ ok: true });
-  } catch (err) {
-    console.error('DB error (upsertPaapiConfig):', err);
-    res.status(500).json({ error: 'Database error' });
+  if (withValue) {
+    try {
+      base.value = decryptSecret(row.value_encrypted);
+    } catch (e) {
+      base.value = null;
+      base.error = e.message;
+    }
   }
-});
+  return base;
+};
 
-app.delete('/api/config/paapi', async (req, res) => {
+// Old value for the audit diff (compared in memory, stored redacted);
+// an undecryptable value still counts as "changed".
+const auditSecretValue = (row) => {
   try {
-    await deletePaapiConfigAsync();
-    res.status(204).send();
-  } catch (err) {
-    console.error('DB error (deletePaapiConfig):', err);
-    res.status(500).json({ error: 'Database error' });
+    return decryptSecret(row.value_encrypted);
+  } catch {
+    return row.value_encrypted;
   }
-});
+};
 
-// ---------- Logs API ----------
-app.get('/api/logs', async (req, res) => {
-  const limit = parseInt(req.query.limit, 10) || 100;
-  const level = req.query.level || null;
-  try {
-    const rows = await listLogsAsync({ limit, level });
-    res.json(rows);
-  } catch (err) {
-    console.error('DB error (listLogs):', err);
-    res.status(500).json({ error: 'Database error' });
-  }
-});
-
-app.post('/api/logs', async (req, res) => {
-  const { level = 'info', message, context } = req.body || {};
-  if (!message || typeof message !== 'string') {
-    return res.status(400).json({ error: 'message is required' });
-  }
+// List secrets
+app.get('/api/secrets', async (req, res) => {
+  const includeValues = req.query.includeValues === '1';
   try {
-    const id = await logEventAsync(level, message, context);
-    res.status(201).json({ ok: true, id });
+    const rows = await listSecretsAsync();
+    const mapped = rows.map((r) => mapSecret(r, includeValues));
+    res.json(mapped);
   } catch (err) {
-    console.error('DB error (logEvent):', err);
+    log.error('DB error (listSecrets)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
 
-app.delete('/api/logs/:id', async (req, res) => {
-  const id = parseInt(req.params.id, 10);
+// Configured keys and how many secrets each one protects
+app.get('/api/secrets/keys', async (req, res) => {
   try {
-    await deleteLogAsync(id);
-    res.status(204).send();
+    res.json(await describeKeys());
   } catch (err) {
-    console.error('DB error (deleteLog):', err);
+    log.error('DB error (listSecrets)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
 
-// ---------- Secrets (AES-256-GCM) ----------
-const SECRET_KEY = process.env.SECRET_ENC_KEY || null;
-
-function getAesKey() {
-  if (!SECRET_KEY || SECRET_KEY.length < 32) return null;
-  return Buffer.from(SECRET_KEY.slice(0, 32), 'utf8');
-}
-
-function encryptSecret(plaintext) {
-  const key = getAesKey();
-  if (!key) throw new Error('SECRET_ENC_KEY not set or too short (>=32 chars required)');
-  const iv = crypto.randomBytes(12);
-  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-  const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
-  const tag = cipher.getAuthTag();
-  return `${iv.toString('base64')}:${enc.toString('base64')}:${tag.toString('base64')}`;
-}
-
-function decryptSecret(serialized) {
-  const key = getAesKey();
-  if (!key) throw new Error('SECRET_ENC_KEY not set or too short (>=32 chars required)');
-  const [ivB64, encB64, tagB64] = serialized.split(':');
-  const iv = Buffer.from(ivB64, 'base64');
-  const enc = Buffer.from(encB64, 'base64');
-  const tag = Buffer.from(tagB64, 'base64');
-  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
-  decipher.setAuthTag(tag);
-  const dec = Buffer.concat([decipher.update(enc), decipher.final()]);
-  return dec.toString('utf8');
-}
-
-// List secrets
-app.get('/api/secrets', async (req, res) => {
-  const includeValues = req.query.includeValues === '1';
+// Re-encrypt all secrets under the active key (or body.keyId); rows that
+// cannot be decrypted are reported in `failed` and left as they are.
+app.post('/api/secrets/reencrypt', async (req, res) => {
+  const { keyId } = req.body || {};
   try {
-    const rows = await listSecretsAsync();
-    const mapped = rows.map((r) => {
-      const base = {
-        id: r.id,
-        name: r.name,
-        created_at: r.created_at,
-        updated_at: r.updated_at
-      };
-      if (includeValues) {
-        try {
-          base.value = decryptSecret(r.value_encrypted);
-        } catch {
-          base.value = null;
-        }
+    const result = await reencryptAll(keyId);
+    if (result.error) return res.status(400).json({ error: result.error });
+    await recordAudit(req, {
+      action: 'secret.reencrypt',
+      targetType: 'secret',
+      target: '*',
+      after: {
+        keyId: result.keyId,
+        reencrypted: result.reencrypted,
+        failed: result.failed.map((f) => f.name)
       }
-      return base;
     });
-    res.json(mapped);
+    res.json(result);
   } catch (err) {
-    console.error('DB error (listSecrets):', err);
+    log.error('DB error (reencryptSecrets)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
@@ -354,25 +272,9 @@ app.get('/api/secrets/:name', async (req, res) => {
   try {
     const row = await getSecretAsync(name);
     if (!row) return res.status(404).json({ error: 'Not found' });
-
-    const base = {
-      id: row.id,
-      name: row.name,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    };
-
-    if (includeValue) {
-      try {
-        base.value = decryptSecret(row.value_encrypted);
-      } catch {
-        base.value = null;
-      }
-    }
-
-    res.json(base);
+    res.json(mapSecret(row, includeValue));
   } catch (err) {
-    console.error('DB error (getSecret):', err);
+    log.error('DB error (getSecret)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
@@ -387,11 +289,20 @@ app.put('/api/secrets/:name', async (req, res) => {
   }
 
   try {
+    const row = await getSecretAsync(name);
     const enc = encryptSecret(value.trim());
     await upsertSecretAsync(name, enc);
+    await recordAudit(req, {
+      action: row ? 'secret.update' : 'secret.create',
+      targetType: 'secret',
+      target: name,
+      before: row && { value: auditSecretValue(row), key_id: secretKeyId(row.value_encrypted) },
+      after: { value: value.trim(), key_id: secretKeyId(enc) },
+      sensitive: ['value']
+    });
     res.json({ ok: true });
   } catch (e) {
-    console.error('Encryption/DB error (upsertSecret):', e);
+    log.error('Encryption/DB error (upsertSecret)', { err: e });
     res.status(500).json({ error: 'Encryption or database error' });
   }
 });
@@ -400,156 +311,32 @@ app.put('/api/secrets/:name', async (req, res) => {
 app.delete('/api/secrets/:name', async (req, res) => {
   const { name } = req.params;
   try {
+    const row = await getSecretAsync(name);
     await deleteSecretAsync(name);
+    if (row) {
+      await recordAudit(req, {
+        action: 'secret.delete',
+        targetType: 'secret',
+        target: name,
+        before: { value: auditSecretValue(row), key_id: secretKeyId(row.value_encrypted) },
+        sensitive: ['value']
+      });
+    }
     res.status(204).send();
   } catch (err) {
-    console.error('DB error (deleteSecret):', err);
+    log.error('DB error (deleteSecret)', { err });
     res.status(500).json({ error: 'Database error' });
   }
 });
 
-// ---------- PAAPI signing helper ----------
-function signPaapiRequest({ accessKey, secretKey, region, host, path, body }) {
-  const service = 'ProductAdvertisingAPI';
-  const method = 'POST';
-  const now = new Date();
-  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
-  const dateStamp = amzDate.slice(0, 8);
-
-  const payload = JSON.stringify(body);
-  const payloadHash = crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
-
-  const canonicalHeaders =
-    'content-encoding:amz-1.0\n' +
-    'content-type:application/json; charset=utf-8\n' +
-    `host:${host}\n` +
-    `x-amz-date:${amzDate}\n` +
-    'x-amz-target:com.amazon.paapi5.v1.ProductAdvertisingAPIv1.GetItems\n';
-
-  const signedHeaders = 'content-encoding;content-type;host;x-amz-date;x-amz-target';
-
-  const canonicalRequest = [
-    method,
-    path,
-    '',
-    canonicalHeaders,
-    signedHeaders,
-    payloadHash
-  ].join('\n');
-
-  const algorithm = 'AWS4-HMAC-SHA256';
-  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
-
-  const stringToSign = [
-    algorithm,
-    amzDate,
-    credentialScope,
-    crypto.createHash('sha256').update(canonicalRequest, 'utf8').digest('hex')
-  ].join('\n');
-
-  const kDate = crypto.createHmac('sha256', 'AWS4' + secretKey).update(dateStamp).digest();
-  const kRegion = crypto.createHmac('sha256', kDate).update(region).digest();
-  const kService = crypto.createHmac('sha256', kRegion).update(service).digest();
-  const kSigning = crypto.createHmac('sha256', kService).update('aws4_request').digest();
-
-  const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
-
-  const authorizationHeader =
-    `${algorithm} Credential=${accessKey}/${credentialScope}, ` +
-    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
-
-  return { authorizationHeader, amzDate, payload };
-}
-
-// ---------- PAAPI GetItems ----------
-app.post('/api/paapi/get-items', async (req, res) => {
-  const { asins } = req.body || {};
-  if (!Array.isArray(asins) || !asins.length) {
-    return res.status(400).json({ error: 'asins must be a non-empty array' });
-  }
-
-  try {
-    const cfg = await getPaapiConfigAsync();
-    if (!cfg || !cfg.accessKey || !cfg.secretKey) {
-      return res.status(400).json({ error: 'PA API not configured' });
-    }
-
-    const partnerTag = cfg.partnerTag.trim();
-    if (!partnerTag) {
-      return res.status(400).json({ error: 'partnerTag not configured' });
-    }
-
-    const marketplace = cfg.marketplace || 'www.amazon.com';
-    const region = cfg.region || 'us-east-1';
-    const host = cfg.host || 'webservices.amazon.com';
-    const path = '/paapi5/getitems';
-
-    const body = {
-      ItemIds: asins,
-      Resources: [
-        'CustomerReviews.Count',
-        'CustomerReviews.StarRating',
-        'ItemInfo.ByLineInfo',
-        'ItemInfo.ContentInfo',
-        'ItemInfo.ContentRating',
-        'ItemInfo.Classifications',
-        'ItemInfo.ExternalIds',
-        'ItemInfo.Features',
-        'ItemInfo.ManufactureInfo',
-        'ItemInfo.ProductInfo',
-        'ItemInfo.TechnicalInfo',
-        'ItemInfo.Title',
-        'ItemInfo.TradeInInfo'
-      ],
-      PartnerTag: partnerTag,
-      PartnerType: 'Associates',
-      Marketplace: marketplace
-    };
-
-    const { authorizationHeader, amzDate, payload } = signPaapiRequest({
-      accessKey: cfg.accessKey,
-      secretKey: cfg.secretKey,
-      region,
-      host,
-      path,
-      body
-    });
-
-    const url = `https://${host}${path}`;
-    const fetchFn = global.fetch ?? (await import('node-fetch')).default;
-
-    const resp = await fetchFn(url, {
-      method: 'POST',
-      headers: {
-        'content-encoding': 'amz-1.0',
-        'content-type': 'application/json; charset=utf-8',
-        host,
-        'x-amz-date': amzDate,
-        'x-amz-target': 'com.amazon.paapi5.v1.ProductAdvertisingAPIv1.GetItems',
-        Authorization: authorizationHeader
-      },
-      body: payload
-    });
-
-    const data = await resp.json().catch(() => ({}));
-
-    if (!resp.ok) {
-      return res.status(resp.status).json({
-        error: data || 'PA API error',
-        statusCode: resp.status
-      });
-    }
-
-    const items = (data.ItemsResult && data.ItemsResult.Items) || data.Items || [];
-    res.json({ items });
-  } catch (e) {
-    console.error('PA API request failed:', e);
-    res.status(500).json({ error: 'PA API request failed' });
-  }
-});
-
 // ---------- Start server ----------
 app.listen(PORT, () => {
   process.env.APP_STARTED_AT = new Date().toISOString();
-  console.log(`SELJI Workflow Engine API listening on port ${PORT}`);
+  log.info(`SELJI Workflow Engine API listening on port ${PORT}`, { port: Number(PORT) });
+  bootstrapAdmin();
+  migratePaapiCredentials();
+  startJobWorker().catch((err) => log.error('Failed to start job worker', { err }));
+  startPriceTracker();
+  startLogRetention();
+  startScheduler().catch((err) => log.error('Failed to start scheduler', { err }));
 });
\ No newline at end of file
@@ -0,0 +1,411 @@
+// Versioned schema migrations, applied in order at startup by db.js.
+//
+// Each migration is { version, name, up(db) }. Versions are consecutive
+// integers; once released, a migration is never edited or renumbered:
+// change the schema by appending a new one. Applied versions are recorded
+// in `schema_migrations`.
+//
+// Every pending migration runs in its own transaction, so a failure
+// leaves the database at the last good version. Foreign keys are
+// switched off around each one (and checked before it commits), which
+// is what SQLite needs to rebuild a table to change its columns:
+//   CREATE TABLE new_x (...); INSERT INTO new_x SELECT ... FROM x;
+//   DROP TABLE x; ALTER TABLE new_x RENAME TO x; then recreate indexes
+//
+// A database carrying a version this code does not know was written by
+// a newer release; startup is refused rather than risk corrupting it.
+
+import { createConsoleLogger } from './services/logConsole.js';
+
+// Migrations run before the `logs` table can be used, so console only.
+const log = createConsoleLogger('migrations');
+
+const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'baseline',
+    // Adopts databases created before versioning, so it only creates
+    // what is missing and must stay idempotent.
+    up(db) {
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS settings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        section TEXT NOT NULL,
+        name TEXT NOT NULL,
+        value TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(section, name)
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        level TEXT NOT NULL,
+        source TEXT,
+        message TEXT NOT NULL,
+        context TEXT,
+        created_at TEXT NOT NULL
+      );
+      `);
+      // `source` was added after the first release; older databases lack it.
+      if (!db.prepare("PRAGMA table_info(logs)").all().some((c) => c.name === 'source')) {
+        db.exec("ALTER TABLE logs ADD COLUMN source TEXT");
+      }
+      db.exec("CREATE INDEX IF NOT EXISTS idx_logs_created_at ON logs(created_at)");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_logs_level ON logs(level)");
+      db.exec("CREATE INDEX IF NOT EXISTS idx_logs_source ON logs(source)");
+
+      // Full-text index over message and context, kept in sync by triggers.
+      // Logs written before it existed are indexed once when it is created.
+      const logsFtsExists = !!db
+        .prepare("SELECT 1 FROM sqlite_master WHERE type='table' AND name='logs_fts'")
+        .get();
+      db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS logs_fts USING fts5(
+        message,
+        context,
+        content='logs',
+        content_rowid='id'
+      );
+      CREATE TRIGGER IF NOT EXISTS logs_fts_insert AFTER INSERT ON logs BEGIN
+        INSERT INTO logs_fts(rowid, message, context) VALUES (new.id, new.message, new.context);
+      END;
+      CREATE TRIGGER IF NOT EXISTS logs_fts_delete AFTER DELETE ON logs BEGIN
+        INSERT INTO logs_fts(logs_fts, rowid, message, context) VALUES ('delete', old.id, old.message, old.context);
+      END;
+      CREATE TRIGGER IF NOT EXISTS logs_fts_update AFTER UPDATE ON logs BEGIN
+        INSERT INTO logs_fts(logs_fts, rowid, message, context) VALUES ('delete', old.id, old.message, old.context);
+        INSERT INTO logs_fts(rowid, message, context) VALUES (new.id, new.message, new.context);
+      END;
+      `);
+      if (!logsFtsExists) db.exec("INSERT INTO logs_fts(logs_fts) VALUES ('rebuild')");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS secrets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        value_encrypted TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS pipelines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        steps TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS pipeline_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pipeline_id INTEGER NOT NULL REFERENCES pipelines(id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        input TEXT,
+        output TEXT,
+        steps TEXT,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_pipeline_runs_pipeline ON pipeline_runs(pipeline_id, id)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        input TEXT,
+        progress TEXT,
+        result TEXT,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        finished_at TEXT,
+        updated_at TEXT NOT NULL
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, id)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS products (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asin TEXT NOT NULL,
+        marketplace TEXT NOT NULL,
+        title TEXT,
+        brand TEXT,
+        features TEXT,
+        rating REAL,
+        review_count INTEGER,
+        raw TEXT NOT NULL,
+        fetched_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(asin, marketplace)
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_products_fetched_at ON products(fetched_at)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS tracked_asins (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asin TEXT NOT NULL,
+        marketplace TEXT NOT NULL,
+        label TEXT,
+        in_content INTEGER NOT NULL DEFAULT 0,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE(asin, marketplace)
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS price_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asin TEXT NOT NULL,
+        marketplace TEXT NOT NULL,
+        amount REAL,
+        currency TEXT,
+        display_amount TEXT,
+        availability_type TEXT,
+        availability_message TEXT,
+        fetched_at TEXT NOT NULL
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_price_history_asin ON price_history(asin, marketplace, fetched_at)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        cron TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        params TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_status TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS schedule_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id INTEGER NOT NULL,
+        job_id INTEGER,
+        status TEXT NOT NULL,
+        error TEXT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        FOREIGN KEY(schedule_id) REFERENCES schedules(id) ON DELETE CASCADE
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        disabled INTEGER NOT NULL DEFAULT 0,
+        last_login_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `);
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_hash TEXT NOT NULL UNIQUE,
+        user_id INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at)");
+
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_id INTEGER,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target TEXT NOT NULL,
+        diff TEXT,
+        created_at TEXT NOT NULL
+      );
+      `);
+      db.exec("CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at)");
+      // Append-only: entries can be added but never changed or removed.
+      db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      `);
+      db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      `);
+
+      // Single row rewritten by the health check to prove the DB is writable.
+      db.exec(`
+      CREATE TABLE IF NOT EXISTS health_probe (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        checked_at TEXT NOT NULL
+      );
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'paapi_profiles',
+    // The single PA API config in the `paapi` settings section becomes the
+    // profile "default", and its credentials move to that profile's secret
+    // names. Plaintext credentials from older releases stay in settings:
+    // migratePaapiCredentials() encrypts them, which needs the secrets key.
+    up(db) {
+      db.exec(`
+      CREATE TABLE paapi_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        marketplace TEXT NOT NULL,
+        partner_tag TEXT NOT NULL,
+        region TEXT,
+        host TEXT,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `);
+      // At most one default profile.
+      db.exec("CREATE UNIQUE INDEX idx_paapi_profiles_default ON paapi_profiles(is_default) WHERE is_default = 1");
+
+      const rows = db.prepare("SELECT name, value FROM settings WHERE section='paapi'").all();
+      const legacy = new Map(rows.map((r) => [r.name, (r.value || '').trim()]));
+      const hasSecrets = !!db
+        .prepare("SELECT 1 FROM secrets WHERE name IN ('paapi.accessKey', 'paapi.secretKey')")
+        .get();
+      if (!rows.length && !hasSecrets) return;
+
+      const now = new Date().toISOString();
+      db.prepare(`
+        INSERT INTO paapi_profiles (name, marketplace, partner_tag, region, host, is_default, created_at, updated_at)
+        VALUES ('default', ?, ?, ?, ?, 1, ?, ?)
+      `).run(
+        legacy.get('marketplace') || 'www.amazon.com',
+        legacy.get('partnerTag') || '',
+        legacy.get('region') || null,
+        legacy.get('host') || null,
+        now,
+        now
+      );
+      db.exec(`
+      UPDATE secrets SET name='paapi.default.accessKey' WHERE name='paapi.accessKey';
+      UPDATE secrets SET name='paapi.default.secretKey' WHERE name='paapi.secretKey';
+      DELETE FROM settings WHERE section='paapi' AND name IN ('partnerTag', 'marketplace', 'region', 'host');
+      `);
+    }
+  }
+];
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+class SchemaVersionError extends Error {
+  constructor(version) {
+    super(
+      `Database schema version ${version} is newer than this release supports (${LATEST_VERSION}). ` +
+        'Upgrade the application, or restore a backup taken before the upgrade.'
+    );
+    this.name = 'SchemaVersionError';
+    this.version = version;
+  }
+}
+
+function ensureMigrationsTable(db) {
+  db.exec(`
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL,
+    duration_ms INTEGER
+  );
+  `);
+}
+
+// Applied migrations, oldest first.
+const appliedMigrations = (db) =>
+  db.prepare("SELECT version, name, applied_at, duration_ms FROM schema_migrations ORDER BY version").all();
+
+/**
+ * Bring the schema up to LATEST_VERSION. Throws SchemaVersionError when
+ * the database is newer than the code, and rethrows a failed migration's
+ * error after rolling it back.
+ */
+function runMigrations(db) {
+  ensureMigrationsTable(db);
+
+  const current = db.prepare("SELECT MAX(version) AS v FROM schema_migrations").get().v || 0;
+  if (current > LATEST_VERSION) throw new SchemaVersionError(current);
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    const started = Date.now();
+    db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        const violations = db.pragma('foreign_key_check');
+        if (violations.length) {
+          throw new Error(`foreign key check failed on ${violations[0].table} (${violations.length} row(s))`);
+        }
+        db.prepare("INSERT INTO schema_migrations (version, name, applied_at, duration_ms) VALUES (?,?,?,?)")
+          .run(migration.version, migration.name, new Date().toISOString(), Date.now() - started);
+      })();
+    } catch (e) {
+      e.message = `Migration ${migration.version} (${migration.name}) failed: ${e.message}`;
+      throw e;
+    } finally {
+      db.pragma('foreign_keys = ON');
+    }
+    log.info(`Applied schema migration ${migration.version} (${migration.name})`, {
+      version: migration.version,
+      name: migration.name,
+      durationMs: Date.now() - started
+    });
+  }
+}
+
+/**
+ * { version, latest, migrations: [{ version, name, appliedAt, durationMs }] }
+ */
+function schemaStatus(db) {
+  const migrations = appliedMigrations(db).map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: m.applied_at,
+    durationMs: m.duration_ms
+  }));
+  return {
+    version: migrations.length ? migrations[migrations.length - 1].version : 0,
+    latest: LATEST_VERSION,
+    migrations
+  };
+}
+
+export { MIGRATIONS, LATEST_VERSION, SchemaVersionError, runMigrations, schemaStatus };
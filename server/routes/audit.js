@@ -0,0 +1,97 @@
+import express from 'express';
+import { listAuditEntries, listAuditFacets } from '../db.js';
+import { renderExport, sendExport } from '../services/exporter.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/audit');
+
+const AUDIT_EXPORT_FORMATS = ['csv', 'xlsx-csv', 'json'];
+
+// ---------- Promisified wrappers ----------
+const listAuditEntriesAsync = (options) =>
+  new Promise((resolve, reject) => {
+    listAuditEntries(options, (err, result) => (err ? reject(err) : resolve(result)));
+  });
+
+const listAuditFacetsAsync = () =>
+  new Promise((resolve, reject) => {
+    listAuditFacets((err, facets) => (err ? reject(err) : resolve(facets)));
+  });
+
+// ---------- Row mappers ----------
+const parseJson = (text, fallback = null) => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const mapAuditEntry = (row) => ({
+  id: row.id,
+  createdAt: row.created_at,
+  actor: row.actor,
+  actorId: row.actor_id,
+  action: row.action,
+  targetType: row.target_type,
+  target: row.target,
+  diff: parseJson(row.diff, {})
+});
+
+// Filters shared by the list and the export.
+const readFilters = (query) => ({
+  actor: String(query.actor || '').trim() || undefined,
+  action: String(query.action || '').trim() || undefined,
+  targetType: String(query.targetType || '').trim() || undefined,
+  q: String(query.q || '').trim() || undefined,
+  since: String(query.since || '').trim() || undefined,
+  until: String(query.until || '').trim() || undefined
+});
+
+// GET /api/audit?actor=&action=&targetType=&q=&since=&until=&limit=&offset=
+router.get('/audit', async (req, res) => {
+  try {
+    const { total, rows } = await listAuditEntriesAsync({
+      ...readFilters(req.query),
+      limit: parseInt(req.query.limit, 10) || 50,
+      offset: parseInt(req.query.offset, 10) || 0
+    });
+    res.json({ total, entries: rows.map(mapAuditEntry) });
+  } catch (err) {
+    log.error('DB error (listAuditEntries)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/audit/facets', async (req, res) => {
+  try {
+    res.json(await listAuditFacetsAsync());
+  } catch (err) {
+    log.error('DB error (listAuditFacets)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// GET /api/audit/export?format=csv&<filters> -> every matching entry
+router.get('/audit/export', async (req, res) => {
+  const format = req.query.format || 'csv';
+  if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of: ${AUDIT_EXPORT_FORMATS.join(', ')}` });
+  }
+
+  try {
+    const { rows } = await listAuditEntriesAsync({ ...readFilters(req.query), limit: 0 });
+    const file = renderExport('audit', format, rows.map(mapAuditEntry), {
+      basename: `audit-${new Date().toISOString().slice(0, 10)}`
+    });
+    if (file.error) return res.status(400).json({ error: file.error });
+    sendExport(res, file);
+  } catch (err) {
+    log.error('DB error (listAuditEntries)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,274 @@
+import express from 'express';
+import {
+  countUsers,
+  listUsers,
+  getUser,
+  createUser,
+  updateUser,
+  deleteUser,
+  countActiveAdmins
+} from '../db.js';
+import {
+  ROLES,
+  hashPassword,
+  validateUserInput,
+  checkCredentials,
+  login,
+  logout,
+  setupFirstAdmin
+} from '../services/auth.js';
+import { recordAudit } from '../services/audit.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/auth');
+
+// ---------- Promisified wrappers ----------
+const countUsersAsync = () =>
+  new Promise((resolve, reject) => {
+    countUsers((err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const listUsersAsync = () =>
+  new Promise((resolve, reject) => {
+    listUsers((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getUserAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getUser(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const createUserAsync = (user) =>
+  new Promise((resolve, reject) => {
+    createUser(user, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const updateUserAsync = (id, fields) =>
+  new Promise((resolve, reject) => {
+    updateUser(id, fields, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const deleteUserAsync = (id) =>
+  new Promise((resolve, reject) => {
+    deleteUser(id, (err) => (err ? reject(err) : resolve()));
+  });
+
+const countActiveAdminsAsync = () =>
+  new Promise((resolve, reject) => {
+    countActiveAdmins((err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+// ---------- Row mappers ----------
+const mapUser = (row) => ({
+  id: row.id,
+  username: row.username,
+  role: row.role,
+  disabled: !!row.disabled,
+  last_login_at: row.last_login_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+// Would this change leave nobody able to administer the app?
+const removesLastAdmin = async (row, { role, disabled, deleting = false }) => {
+  if (row.role !== 'admin' || row.disabled) return false;
+  const losesAdmin = deleting || disabled === true || (role !== undefined && role !== 'admin');
+  return losesAdmin && (await countActiveAdminsAsync()) <= 1;
+};
+
+// ---------- Session ----------
+router.get('/auth/status', async (req, res) => {
+  try {
+    const n = await countUsersAsync();
+    res.json({ setupRequired: n === 0, roles: ROLES });
+  } catch (err) {
+    log.error('DB error (countUsers)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// Creates the first admin and signs them in; 409 once any user exists.
+router.post('/auth/setup', async (req, res) => {
+  const { username, password } = req.body || {};
+  const invalid = validateUserInput({ username, password, role: 'admin' });
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const user = await setupFirstAdmin(username, password);
+    if (!user) return res.status(409).json({ error: 'Setup has already been completed' });
+    const session = await login(username, password);
+    await recordAudit({ user: session.user }, {
+      action: 'user.create',
+      targetType: 'user',
+      target: username,
+      after: { role: 'admin', password }
+    });
+    res.status(201).json(session);
+  } catch (err) {
+    log.error('DB error (setupFirstAdmin)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/auth/login', async (req, res) => {
+  const { username, password } = req.body || {};
+  if (!username || !password) {
+    return res.status(400).json({ error: 'username and password are required' });
+  }
+
+  try {
+    const session = await login(username, password);
+    if (!session) {
+      log.warn('Failed sign-in', { username: String(username) });
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    log.info('Signed in', { username: session.user.username });
+    res.json(session);
+  } catch (err) {
+    log.error('DB error (login)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/auth/logout', async (req, res) => {
+  try {
+    await logout(req.token);
+    res.status(204).send();
+  } catch (err) {
+    log.error('DB error (logout)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/auth/me', (req, res) => {
+  res.json(req.user);
+});
+
+// Changing the password ends every session of the user, so a new token
+// is returned for the current client.
+router.post('/auth/password', async (req, res) => {
+  const { currentPassword, newPassword } = req.body || {};
+  const invalid = validateUserInput({ password: newPassword }, { partial: true });
+  if (invalid || newPassword === undefined) {
+    return res.status(400).json({ error: invalid || 'newPassword is required' });
+  }
+
+  try {
+    if (!(await checkCredentials(req.user.username, currentPassword))) {
+      return res.status(403).json({ error: 'Current password is incorrect' });
+    }
+    await updateUserAsync(req.user.id, { passwordHash: await hashPassword(newPassword) });
+    await recordAudit(req, {
+      action: 'user.password',
+      targetType: 'user',
+      target: req.user.username,
+      before: { password: currentPassword },
+      after: { password: newPassword }
+    });
+    res.json(await login(req.user.username, newPassword));
+  } catch (err) {
+    log.error('DB error (updateUser)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Users (admin) ----------
+router.get('/users', async (req, res) => {
+  try {
+    const rows = await listUsersAsync();
+    res.json(rows.map(mapUser));
+  } catch (err) {
+    log.error('DB error (listUsers)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/users', async (req, res) => {
+  const { username, password, role } = req.body || {};
+  const invalid = validateUserInput({ username, password, role });
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const id = await createUserAsync({ username, passwordHash: await hashPassword(password), role });
+    await recordAudit(req, {
+      action: 'user.create',
+      targetType: 'user',
+      target: username,
+      after: { role, password }
+    });
+    res.status(201).json({ ok: true, id });
+  } catch (err) {
+    if (err.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'A user with this username already exists' });
+    }
+    log.error('DB error (createUser)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// body: { role?, password?, disabled? }
+router.put('/users/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const { role, password, disabled } = req.body || {};
+  const invalid = validateUserInput({ role, password }, { partial: true });
+  if (invalid) return res.status(400).json({ error: invalid });
+  if (disabled !== undefined && typeof disabled !== 'boolean') {
+    return res.status(400).json({ error: 'disabled must be a boolean' });
+  }
+
+  try {
+    const row = await getUserAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    if (await removesLastAdmin(row, { role, disabled })) {
+      return res.status(409).json({ error: 'At least one active admin is required' });
+    }
+
+    await updateUserAsync(id, {
+      role,
+      disabled,
+      passwordHash: password !== undefined ? await hashPassword(password) : undefined
+    });
+    const updated = await getUserAsync(id);
+    await recordAudit(req, {
+      action: 'user.update',
+      targetType: 'user',
+      target: row.username,
+      // A new password always shows as changed (stored redacted)
+      before: { role: row.role, disabled: !!row.disabled, password: password !== undefined ? '' : undefined },
+      after: { role: updated.role, disabled: !!updated.disabled, password }
+    });
+    res.json(mapUser(updated));
+  } catch (err) {
+    log.error('DB error (updateUser)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.delete('/users/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (id === req.user.id) {
+    return res.status(409).json({ error: 'You cannot delete your own account' });
+  }
+
+  try {
+    const row = await getUserAsync(id);
+    if (!row) return res.status(204).send();
+    if (await removesLastAdmin(row, { deleting: true })) {
+      return res.status(409).json({ error: 'At least one active admin is required' });
+    }
+    await deleteUserAsync(id);
+    await recordAudit(req, {
+      action: 'user.delete',
+      targetType: 'user',
+      target: row.username,
+      before: { role: row.role, disabled: !!row.disabled }
+    });
+    res.status(204).send();
+  } catch (err) {
+    log.error('DB error (deleteUser)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,84 @@
+import express from 'express';
+import { listProducts, getProduct, deleteProduct } from '../db.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/catalog');
+
+// ---------- Promisified wrappers ----------
+const listProductsAsync = (options) =>
+  new Promise((resolve, reject) => {
+    listProducts(options, (err, result) => (err ? reject(err) : resolve(result)));
+  });
+
+const getProductAsync = (asin, marketplace) =>
+  new Promise((resolve, reject) => {
+    getProduct(asin, marketplace, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const deleteProductAsync = (asin, marketplace) =>
+  new Promise((resolve, reject) => {
+    deleteProduct(asin, marketplace, (err) => (err ? reject(err) : resolve()));
+  });
+
+const mapProductRow = (row) => ({
+  asin: row.asin,
+  marketplace: row.marketplace,
+  title: row.title,
+  brand: row.brand,
+  rating: row.rating,
+  reviewCount: row.review_count,
+  fetchedAt: row.fetched_at,
+  updatedAt: row.updated_at
+});
+
+// ---------- Products ----------
+
+// GET /api/products?q=&sort=&order=&limit=&offset=&marketplace=
+router.get('/products', async (req, res) => {
+  try {
+    const { total, rows } = await listProductsAsync({
+      q: String(req.query.q || '').trim(),
+      sort: req.query.sort,
+      order: req.query.order,
+      limit: parseInt(req.query.limit, 10) || 50,
+      offset: parseInt(req.query.offset, 10) || 0,
+      marketplace: req.query.marketplace || null
+    });
+    res.json({ total, products: rows.map(mapProductRow) });
+  } catch (err) {
+    log.error('DB error (listProducts)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// GET /api/products/:asin?marketplace=
+router.get('/products/:asin', async (req, res) => {
+  try {
+    const row = await getProductAsync(req.params.asin.toUpperCase(), req.query.marketplace || null);
+    if (!row) return res.status(404).json({ error: 'Product not found' });
+
+    res.json({
+      ...mapProductRow(row),
+      features: JSON.parse(row.features || '[]'),
+      createdAt: row.created_at,
+      raw: JSON.parse(row.raw)
+    });
+  } catch (err) {
+    log.error('DB error (getProduct)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// DELETE /api/products/:asin?marketplace=
+router.delete('/products/:asin', async (req, res) => {
+  try {
+    await deleteProductAsync(req.params.asin.toUpperCase(), req.query.marketplace || null);
+    res.json({ ok: true });
+  } catch (err) {
+    log.error('DB error (deleteProduct)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import express from 'express';
+import { exportConfig, importConfig } from '../services/configBundle.js';
+import { recordAudit } from '../services/audit.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/config');
+
+// Bundles are small, but larger than express.json()'s 100 kB default
+// allows once many settings and secrets are stored.
+const MAX_BUNDLE_SIZE = '5mb';
+
+function sendConfigError(res, e, what) {
+  if (e.status) return res.status(e.status).json({ error: e.message });
+  log.error(`${what} failed`, { err: e });
+  res.status(500).json({ error: `${what} failed: ${e.message}` });
+}
+
+// POST /api/config/export { passphrase } -> bundle, as a file download
+router.post('/config/export', express.json({ limit: MAX_BUNDLE_SIZE }), async (req, res) => {
+  try {
+    const bundle = await exportConfig((req.body || {}).passphrase);
+    await recordAudit(req, {
+      action: 'config.export',
+      targetType: 'config',
+      target: 'bundle',
+      after: {
+        settings: bundle.settings.length,
+        paapiProfiles: bundle.paapiProfiles.map((p) => p.name).join(', ') || null,
+        // secret names only; a field named "secrets" would be redacted
+        encryptedValues: Object.keys(bundle.secrets.values).join(', ') || null
+      }
+    });
+    const stamp = bundle.exportedAt.slice(0, 19).replace(/[:T]/g, '-');
+    res.setHeader('Content-Disposition', `attachment; filename="selji-config-${stamp}.json"`);
+    res.json(bundle);
+  } catch (e) {
+    sendConfigError(res, e, 'Export');
+  }
+});
+
+// POST /api/config/import { bundle, passphrase, mode?: merge|replace, dryRun?: true }
+// -> the diff; applied only with dryRun: false. See services/configBundle.js.
+router.post('/config/import', express.json({ limit: MAX_BUNDLE_SIZE }), async (req, res) => {
+  const { bundle, passphrase, mode, dryRun = true } = req.body || {};
+  try {
+    const plan = await importConfig({ bundle, passphrase, mode, dryRun: dryRun !== false });
+    if (plan.applied) {
+      const names = (list) => list.map((s) => `${s.section}/${s.name}`).join(', ') || null;
+      await recordAudit(req, {
+        action: 'config.import',
+        targetType: 'config',
+        target: plan.mode,
+        after: {
+          exportedAt: plan.bundle.exportedAt,
+          settingsAdded: names(plan.settings.added),
+          settingsChanged: names(plan.settings.changed),
+          settingsRemoved: names(plan.settings.removed),
+          profilesAdded: plan.profiles.added.join(', ') || null,
+          profilesChanged: plan.profiles.changed.map((p) => p.name).join(', ') || null,
+          profilesRemoved: plan.profiles.removed.join(', ') || null,
+          encryptedWritten: [...plan.secrets.added, ...plan.secrets.changed].join(', ') || null,
+          encryptedRemoved: plan.secrets.removed.join(', ') || null
+        }
+      });
+      log.info(`Imported configuration bundle (${plan.mode})`, {
+        added: plan.settings.added.length,
+        changed: plan.settings.changed.length,
+        removed: plan.settings.removed.length
+      });
+    }
+    res.json(plan);
+  } catch (e) {
+    sendConfigError(res, e, 'Import');
+  }
+});
+
+export default router;
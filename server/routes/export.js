@@ -0,0 +1,56 @@
+import express from 'express';
+import { DATASET_TYPES, FORMAT_TYPES, renderExport, sendExport } from '../services/exporter.js';
+import { getJobById } from '../services/jobs.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/export');
+
+// Result sets (PA API items especially) easily exceed the app-wide 100kb
+// JSON limit, so this route parses its own body.
+const MAX_EXPORT_SIZE = '25mb';
+
+// Job type -> dataset and rows of its result.
+const JOB_DATASETS = {
+  'expand-urls': (result) => ['expansions', result.results || []],
+  'paapi-get-items': (result) => ['items', result.items || []]
+};
+
+router.get('/export/formats', (req, res) => {
+  res.json({ datasets: DATASET_TYPES, formats: FORMAT_TYPES });
+});
+
+// POST /api/export { dataset, format, rows, filename? } -> file download
+router.post('/export', express.json({ limit: MAX_EXPORT_SIZE }), (req, res) => {
+  const { dataset, format, rows, filename } = req.body || {};
+  const basename = typeof filename === 'string' && /^[\w.-]+$/.test(filename) ? filename : undefined;
+
+  const file = renderExport(dataset, format, rows, { basename });
+  if (file.error) return res.status(400).json({ error: file.error });
+  sendExport(res, file);
+});
+
+// GET /api/jobs/:id/export?format=csv -> export a finished job's result
+router.get('/jobs/:id/export', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const job = await getJobById(id);
+    if (!job) return res.status(404).json({ error: 'Not found' });
+
+    const toDataset = JOB_DATASETS[job.type];
+    if (!toDataset) return res.status(400).json({ error: `${job.type} jobs cannot be exported` });
+    if (!job.result) return res.status(409).json({ error: 'Job has no result yet' });
+
+    const [dataset, rows] = toDataset(job.result);
+    const file = renderExport(dataset, req.query.format || 'csv', rows, {
+      basename: `job-${id}-${dataset}`
+    });
+    if (file.error) return res.status(400).json({ error: file.error });
+    sendExport(res, file);
+  } catch (err) {
+    log.error('DB error (getJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import express from 'express';
+import { extractAsinAaid } from '../services/extractor.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/extract');
+
+// Editor pages are far larger than the app-wide 100kb JSON limit. The
+// HTML can be posted as JSON { html } or as a raw text/html body.
+const MAX_HTML_SIZE = '10mb';
+
+router.post(
+  '/extract/asin-aaid',
+  express.json({ limit: MAX_HTML_SIZE }),
+  express.text({ type: 'text/html', limit: MAX_HTML_SIZE }),
+  (req, res) => {
+    const html = typeof req.body === 'string' ? req.body : req.body && req.body.html;
+    if (typeof html !== 'string' || !html.trim()) {
+      return res.status(400).json({ error: 'html is required' });
+    }
+
+    try {
+      res.json(extractAsinAaid(html));
+    } catch (err) {
+      log.error('Extraction failed', { err });
+      res.status(500).json({ error: 'Failed to parse HTML' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,125 @@
+import express from 'express';
+import { listJobs } from '../db.js';
+import {
+  JOB_TYPES,
+  TERMINAL_STATUSES,
+  jobEvents,
+  jobRole,
+  mapJob,
+  submitJob,
+  getJobById,
+  cancelJob
+} from '../services/jobs.js';
+import { hasRole } from '../services/auth.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/jobs');
+
+const listJobsAsync = (opts) =>
+  new Promise((resolve, reject) => {
+    listJobs(opts, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+router.get('/jobs', async (req, res) => {
+  const limit = parseInt(req.query.limit, 10) || 50;
+  const status = req.query.status || null;
+  const type = req.query.type || null;
+  try {
+    const rows = await listJobsAsync({ limit, status, type });
+    res.json(rows.map(mapJob));
+  } catch (err) {
+    log.error('DB error (listJobs)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/jobs', async (req, res) => {
+  const { type, input } = req.body || {};
+  if (typeof type !== 'string' || !JOB_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of: ${JOB_TYPES.join(', ')}` });
+  }
+  if (!hasRole(req.user, jobRole(type))) {
+    return res.status(403).json({ error: `Requires ${jobRole(type)} role` });
+  }
+  try {
+    const { id, error } = await submitJob(type, input);
+    if (error) return res.status(400).json({ error });
+    res.status(202).json({ ok: true, id });
+  } catch (err) {
+    log.error('DB error (submitJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/jobs/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const job = await getJobById(id);
+    if (!job) return res.status(404).json({ error: 'Not found' });
+    res.json(job);
+  } catch (err) {
+    log.error('DB error (getJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/jobs/:id/cancel', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const found = await getJobById(id);
+    if (!found) return res.status(404).json({ error: 'Not found' });
+    if (!hasRole(req.user, jobRole(found.type))) {
+      return res.status(403).json({ error: `Requires ${jobRole(found.type)} role` });
+    }
+    const job = await cancelJob(id);
+    res.json(job);
+  } catch (err) {
+    log.error('DB error (cancelJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Progress stream (Server-Sent Events) ----------
+// Sends the current job state immediately, then every update until the
+// job reaches a terminal status.
+router.get('/jobs/:id/events', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+
+  let job;
+  try {
+    job = await getJobById(id);
+  } catch (err) {
+    log.error('DB error (getJob)', { err });
+    return res.status(500).json({ error: 'Database error' });
+  }
+  if (!job) return res.status(404).json({ error: 'Not found' });
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const send = (data) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  send(job);
+  if (TERMINAL_STATUSES.includes(job.status)) return res.end();
+
+  const onUpdate = (update) => {
+    send(update);
+    if (TERMINAL_STATUSES.includes(update.status)) cleanup();
+  };
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  function cleanup() {
+    clearInterval(heartbeat);
+    jobEvents.off(`job:${id}`, onUpdate);
+    res.end();
+  }
+
+  jobEvents.on(`job:${id}`, onUpdate);
+  req.on('close', cleanup);
+});
+
+export default router;
@@ -0,0 +1,239 @@
+import express from 'express';
+import { listLogs, listLogSources, deleteLog, countLogsByLevel } from '../db.js';
+import { appendLog, createLogger, isLogLevel, logEvents, LOG_LEVELS } from '../services/logger.js';
+import { ARCHIVE_DIR, loadRetentionPolicy, purgeMatchingLogs } from '../services/logRetention.js';
+import { submitJob } from '../services/jobs.js';
+
+const router = express.Router();
+const log = createLogger('routes/logs');
+
+// Rows sent to a live-tail client that reconnects or resumes, at most.
+const LIVE_REPLAY_LIMIT = 500;
+
+// ---------- Promisified wrappers ----------
+const listLogsAsync = (opts) =>
+  new Promise((resolve, reject) => {
+    listLogs(opts, (err, page) => (err ? reject(err) : resolve(page)));
+  });
+
+const listLogSourcesAsync = () =>
+  new Promise((resolve, reject) => {
+    listLogSources((err, sources) => (err ? reject(err) : resolve(sources || [])));
+  });
+
+const countLogsByLevelAsync = () =>
+  new Promise((resolve, reject) => {
+    countLogsByLevel((err, counts) => (err ? reject(err) : resolve(counts)));
+  });
+
+const deleteLogAsync = (id) =>
+  new Promise((resolve, reject) => {
+    deleteLog(id, (err) => (err ? reject(err) : resolve()));
+  });
+
+// ---------- Helpers ----------
+const parseJson = (text, fallback = null) => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const mapLog = (row) => ({ ...row, context: parseJson(row.context) });
+
+// "a,b" or repeated ?x=a&x=b -> ['a', 'b']
+const listParam = (value) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v ?? '').split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const CONTEXT_KEY = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Filters shared by every logs query:
+ *   level=info,warn  source=services/paapi  since=<ISO>  until=<ISO>
+ *   q=<full-text>    ctx.<key>=<value> (e.g. ctx.asin=B0..., ctx.jobId=12)
+ * Returns { error } for invalid input.
+ */
+function readLogFilters(query) {
+  const levels = listParam(query.level);
+  const invalid = levels.find((l) => !isLogLevel(l));
+  if (invalid) return { error: `level must be one of: ${LOG_LEVELS.join(', ')}` };
+
+  for (const key of ['since', 'until']) {
+    if (query[key] && Number.isNaN(Date.parse(query[key]))) {
+      return { error: `${key} must be an ISO date/time` };
+    }
+  }
+
+  const context = {};
+  for (const [name, value] of Object.entries(query)) {
+    if (!name.startsWith('ctx.')) continue;
+    const key = name.slice('ctx.'.length);
+    if (!CONTEXT_KEY.test(key)) return { error: `invalid context key "${key}"` };
+    if (String(value).trim()) context[key] = String(value).trim();
+  }
+
+  return {
+    filters: {
+      levels,
+      sources: listParam(query.source),
+      since: query.since ? new Date(query.since).toISOString() : null,
+      until: query.until ? new Date(query.until).toISOString() : null,
+      q: String(query.q || '').trim() || null,
+      context
+    }
+  };
+}
+
+// ---------- Routes ----------
+
+// GET /api/logs?<filters>&before=<cursor>&limit=100 -> entries
+// With paged=1 -> { entries, nextCursor }; the bare array stays the default
+// for clients written before cursor pagination.
+router.get('/logs', async (req, res) => {
+  const { filters, error } = readLogFilters(req.query);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const { rows, nextCursor } = await listLogsAsync({
+      ...filters,
+      before: parseInt(req.query.before, 10) || null,
+      limit: parseInt(req.query.limit, 10) || 100
+    });
+    const entries = rows.map(mapLog);
+    res.json(req.query.paged === '1' ? { entries, nextCursor } : entries);
+  } catch (err) {
+    log.error('DB error (listLogs)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/logs/sources', async (req, res) => {
+  try {
+    res.json(await listLogSourcesAsync());
+  } catch (err) {
+    log.error('DB error (listLogSources)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Live tail (Server-Sent Events) ----------
+// Streams every new log row as it is written. Each event carries the row
+// id, so a reconnecting EventSource (Last-Event-ID) or a client resuming
+// with ?after=<id> first gets the rows it missed, up to LIVE_REPLAY_LIMIT.
+// Filtering is left to the client.
+router.get('/logs/stream', async (req, res) => {
+  const after = parseInt(req.get('Last-Event-ID') || req.query.after, 10) || null;
+
+  let missed = [];
+  if (after) {
+    try {
+      const { rows } = await listLogsAsync({ after, limit: LIVE_REPLAY_LIMIT });
+      missed = rows.reverse().map(mapLog);
+    } catch (err) {
+      log.error('DB error (listLogs)', { err });
+      return res.status(500).json({ error: 'Database error' });
+    }
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const send = (entry) => res.write(`id: ${entry.id}\ndata: ${JSON.stringify(entry)}\n\n`);
+  missed.forEach(send);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  logEvents.on('entry', send);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    logEvents.off('entry', send);
+    res.end();
+  });
+});
+
+router.post('/logs', async (req, res) => {
+  const { level = 'info', source = 'manual', message, context } = req.body || {};
+  if (!message || typeof message !== 'string') {
+    return res.status(400).json({ error: 'message is required' });
+  }
+  if (!isLogLevel(level)) {
+    return res.status(400).json({ error: `level must be one of: ${LOG_LEVELS.join(', ')}` });
+  }
+  try {
+    const id = await appendLog({ level, source: String(source), message, context });
+    res.status(201).json({ ok: true, id });
+  } catch (err) {
+    log.error('DB error (logEvent)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// DELETE /api/logs?<filters>&archive=1 -> { deleted, archive }
+// Deletes every row matching the filters; with no filters at all, only
+// when ?all=1 is given.
+router.delete('/logs', async (req, res) => {
+  const { filters, error } = readLogFilters(req.query);
+  if (error) return res.status(400).json({ error });
+
+  const filtered =
+    filters.levels.length ||
+    filters.sources.length ||
+    filters.since ||
+    filters.until ||
+    filters.q ||
+    Object.keys(filters.context).length;
+  if (!filtered && req.query.all !== '1') {
+    return res.status(400).json({ error: 'Give at least one filter, or all=1 to delete every log' });
+  }
+
+  try {
+    res.json(await purgeMatchingLogs(filters, { archive: req.query.archive === '1' }));
+  } catch (err) {
+    log.error('Bulk log delete failed', { err });
+    res.status(500).json({ error: 'Failed to delete logs' });
+  }
+});
+
+// ---------- Retention ----------
+router.get('/logs/retention', async (req, res) => {
+  try {
+    const [policy, counts] = await Promise.all([loadRetentionPolicy(), countLogsByLevelAsync()]);
+    res.json({ policy, counts, archiveDir: ARCHIVE_DIR });
+  } catch (err) {
+    log.error('DB error (countLogsByLevel)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// Apply the retention rules now, as a background job.
+router.post('/logs/retention/run', async (req, res) => {
+  try {
+    const { id } = await submitJob('apply-log-retention', {});
+    res.status(202).json({ ok: true, id });
+  } catch (err) {
+    log.error('DB error (submitJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.delete('/logs/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    await deleteLogAsync(id);
+    res.status(204).send();
+  } catch (err) {
+    log.error('DB error (deleteLog)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,305 @@
+import express from 'express';
+import {
+  SEARCH_SORT_OPTIONS,
+  loadPaapiConfig,
+  listProfiles,
+  getProfile,
+  createProfile,
+  updateProfile,
+  setDefaultProfile,
+  deleteProfile,
+  describeDefaultConfig,
+  saveDefaultConfig,
+  clearDefaultConfig,
+  getItems,
+  resolveVariations,
+  buildSearchBody,
+  searchItems
+} from '../services/paapi.js';
+import { MARKETPLACES } from '../services/marketplaces.js';
+import { recordAudit } from '../services/audit.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/paapi');
+
+// Map a paapiError onto the HTTP response: PA API rejections keep their
+// status and payload, config problems become a plain message.
+function sendPaapiError(res, e) {
+  if (e.status && e.details !== undefined) {
+    return res.status(e.status).json({
+      error: e.details || 'PA API error',
+      statusCode: e.status
+    });
+  }
+  if (e.status) {
+    return res.status(e.status).json({ error: e.message });
+  }
+  log.error('PA API request failed', { err: e });
+  res.status(500).json({ error: 'PA API request failed' });
+}
+
+// ---------- PAAPI profiles ----------
+// accessKey/secretKey are write-only: reads report accessKeySet/secretKeySet,
+// writes store them encrypted and keep the current value when left empty.
+
+// Audit view of a profile: credentials appear by name only, never by value.
+const credentialNames = (accessKey, secretKey) =>
+  [accessKey && 'accessKey', secretKey && 'secretKey'].filter(Boolean).join(', ') || null;
+
+const auditableProfile = (p) => ({
+  marketplace: p.marketplace,
+  partnerTag: p.partnerTag,
+  region: p.region,
+  host: p.host,
+  isDefault: p.isDefault,
+  stored: credentialNames(p.accessKeySet, p.secretKeySet)
+});
+
+// Moving the default changes two profiles, so each side gets its own
+// entry: the one losing the flag and the one gaining it.
+const auditDefaultFlag = (req, name, isDefault) =>
+  recordAudit(req, {
+    action: 'paapi-profile.default',
+    targetType: 'paapi-profile',
+    target: name,
+    before: { isDefault: !isDefault },
+    after: { isDefault }
+  });
+
+// After a create or update: audit the previous default losing its flag.
+async function auditDefaultTaken(req, previous, profile) {
+  if (previous && profile.isDefault && previous.name !== profile.name) {
+    await auditDefaultFlag(req, previous.name, false);
+  }
+}
+
+// After a delete: audit the profile that took over the default.
+async function auditDefaultPromoted(req, deleted) {
+  if (!deleted.isDefault) return;
+  const current = await getProfile(null);
+  if (current) await auditDefaultFlag(req, current.name, true);
+}
+
+// Credentials, when given, must be strings.
+function credentialTypeError(body) {
+  const { accessKey, secretKey } = body || {};
+  if (
+    (accessKey !== undefined && typeof accessKey !== 'string') ||
+    (secretKey !== undefined && typeof secretKey !== 'string')
+  ) {
+    return 'accessKey and secretKey must be strings';
+  }
+  return null;
+}
+
+router.get('/paapi/marketplaces', (req, res) => {
+  res.json({ marketplaces: MARKETPLACES });
+});
+
+router.get('/config/paapi/profiles', async (req, res) => {
+  try {
+    res.json({ profiles: await listProfiles() });
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.get('/config/paapi/profiles/:name', async (req, res) => {
+  try {
+    const profile = await getProfile(req.params.name);
+    if (!profile) return res.status(404).json({ error: 'Not found' });
+    res.json(profile);
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+// POST { name, marketplace, partnerTag, region?, host?, accessKey?, secretKey?, isDefault? }
+router.post('/config/paapi/profiles', async (req, res) => {
+  const invalid = credentialTypeError(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const { accessKey, secretKey } = req.body || {};
+  try {
+    const previous = await getProfile(null);
+    const profile = await createProfile(req.body || {});
+    await recordAudit(req, {
+      action: 'paapi-profile.create',
+      targetType: 'paapi-profile',
+      target: profile.name,
+      after: { ...auditableProfile(profile), replaced: credentialNames(accessKey, secretKey) }
+    });
+    await auditDefaultTaken(req, previous, profile);
+    res.status(201).json(profile);
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.put('/config/paapi/profiles/:name', async (req, res) => {
+  const invalid = credentialTypeError(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const { accessKey, secretKey } = req.body || {};
+  try {
+    const previous = await getProfile(null);
+    const before = await getProfile(req.params.name);
+    const profile = await updateProfile(req.params.name, req.body || {});
+    await recordAudit(req, {
+      action: 'paapi-profile.update',
+      targetType: 'paapi-profile',
+      target: profile.name,
+      before: before && auditableProfile(before),
+      after: {
+        ...auditableProfile(profile),
+        replaced: credentialNames((accessKey || '').trim(), (secretKey || '').trim())
+      }
+    });
+    await auditDefaultTaken(req, previous, profile);
+    res.json(profile);
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.post('/config/paapi/profiles/:name/default', async (req, res) => {
+  try {
+    const previous = await getProfile(null);
+    await setDefaultProfile(req.params.name);
+    const profile = await getProfile(req.params.name);
+    if (previous?.name !== profile.name) {
+      if (previous) await auditDefaultFlag(req, previous.name, false);
+      await auditDefaultFlag(req, profile.name, true);
+    }
+    res.json(profile);
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.delete('/config/paapi/profiles/:name', async (req, res) => {
+  try {
+    const before = await getProfile(req.params.name);
+    await deleteProfile(req.params.name);
+    await recordAudit(req, {
+      action: 'paapi-profile.delete',
+      targetType: 'paapi-profile',
+      target: before.name,
+      before: auditableProfile(before)
+    });
+    await auditDefaultPromoted(req, before);
+    res.status(204).send();
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+// ---------- Single PAAPI config (before profiles) ----------
+// Kept for existing clients: the default profile in the former shape
+// { accessKeySet, secretKeySet, partnerTag, marketplace, region, host }.
+router.get('/config/paapi', async (req, res) => {
+  try {
+    res.json(await describeDefaultConfig());
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.put('/config/paapi', async (req, res) => {
+  const invalid = credentialTypeError(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const { accessKey, secretKey } = req.body || {};
+  try {
+    const { before, profile } = await saveDefaultConfig(req.body || {});
+    await recordAudit(req, {
+      action: before ? 'paapi-profile.update' : 'paapi-profile.create',
+      targetType: 'paapi-profile',
+      target: profile.name,
+      before: before && auditableProfile(before),
+      after: {
+        ...auditableProfile(profile),
+        replaced: credentialNames((accessKey || '').trim(), (secretKey || '').trim())
+      }
+    });
+    res.json({ ok: true });
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+router.delete('/config/paapi', async (req, res) => {
+  try {
+    const before = await clearDefaultConfig();
+    if (before) {
+      await recordAudit(req, {
+        action: 'paapi-profile.delete',
+        targetType: 'paapi-profile',
+        target: before.name,
+        before: auditableProfile(before)
+      });
+      await auditDefaultPromoted(req, before);
+    }
+    res.status(204).send();
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+// ---------- PAAPI GetItems ----------
+// Every PA API call takes an optional `profile`; the default profile is
+// used without one.
+router.post('/paapi/get-items', async (req, res) => {
+  const { asins, profile } = req.body || {};
+  if (!Array.isArray(asins) || !asins.length) {
+    return res.status(400).json({ error: 'asins must be a non-empty array' });
+  }
+
+  try {
+    const cfg = await loadPaapiConfig(profile);
+    const { items, errors, statuses } = await getItems(cfg, asins);
+    res.json({ profile: cfg.profile, items, errors, statuses });
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+// ---------- PAAPI GetVariations ----------
+router.post('/paapi/variations', async (req, res) => {
+  const { asins, prefer, profile } = req.body || {};
+  if (!Array.isArray(asins) || !asins.length) {
+    return res.status(400).json({ error: 'asins must be a non-empty array' });
+  }
+  if (prefer !== undefined && !['first', 'parent'].includes(prefer)) {
+    return res.status(400).json({ error: 'prefer must be "first" or "parent"' });
+  }
+
+  try {
+    const cfg = await loadPaapiConfig(profile);
+    const result = await resolveVariations(cfg, asins, { prefer });
+    res.json({ profile: cfg.profile, ...result });
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+// ---------- PAAPI SearchItems ----------
+router.get('/paapi/search-options', (req, res) => {
+  res.json({ sortBy: SEARCH_SORT_OPTIONS });
+});
+
+router.post('/paapi/search-items', async (req, res) => {
+  try {
+    const cfg = await loadPaapiConfig((req.body || {}).profile);
+    const { body, error } = buildSearchBody(cfg, req.body || {});
+    if (error) return res.status(400).json({ error });
+
+    const result = await searchItems(cfg, body);
+    res.json({ profile: cfg.profile, ...result });
+  } catch (e) {
+    sendPaapiError(res, e);
+  }
+});
+
+export default router;
@@ -0,0 +1,216 @@
+import express from 'express';
+import {
+  listPipelines,
+  getPipeline,
+  createPipeline,
+  updatePipeline,
+  deletePipeline,
+  getPipelineRun,
+  listPipelineRuns
+} from '../db.js';
+import { STEPS, validateSteps } from '../services/pipelines.js';
+import { submitJob } from '../services/jobs.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/pipelines');
+
+// ---------- Promisified wrappers ----------
+const listPipelinesAsync = () =>
+  new Promise((resolve, reject) => {
+    listPipelines((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getPipelineAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getPipeline(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const createPipelineAsync = (name, description, steps) =>
+  new Promise((resolve, reject) => {
+    createPipeline(name, description, steps, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const updatePipelineAsync = (id, name, description, steps) =>
+  new Promise((resolve, reject) => {
+    updatePipeline(id, name, description, steps, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const deletePipelineAsync = (id) =>
+  new Promise((resolve, reject) => {
+    deletePipeline(id, (err) => (err ? reject(err) : resolve()));
+  });
+
+const getPipelineRunAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getPipelineRun(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const listPipelineRunsAsync = (pipelineId, limit) =>
+  new Promise((resolve, reject) => {
+    listPipelineRuns(pipelineId, limit, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+// ---------- Row mappers ----------
+const parseJson = (text, fallback = null) => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const mapPipeline = (row) => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  steps: parseJson(row.steps, []),
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const mapRun = (row) => ({
+  id: row.id,
+  pipeline_id: row.pipeline_id,
+  status: row.status,
+  input: parseJson(row.input),
+  output: parseJson(row.output),
+  steps: parseJson(row.steps, []),
+  error: row.error,
+  started_at: row.started_at,
+  finished_at: row.finished_at
+});
+
+const readPipelineBody = (body) => {
+  const { name, description, steps } = body || {};
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+  const stepError = validateSteps(steps);
+  if (stepError) return { error: stepError };
+  return {
+    name: name.trim(),
+    description: typeof description === 'string' ? description.trim() : '',
+    steps: steps.map((s) => ({ type: s.type, options: s.options || {} }))
+  };
+};
+
+// ---------- Step catalog ----------
+router.get('/pipelines/steps', (req, res) => {
+  res.json(Object.entries(STEPS).map(([type, def]) => ({ type, label: def.label })));
+});
+
+// ---------- Pipelines CRUD ----------
+router.get('/pipelines', async (req, res) => {
+  try {
+    const rows = await listPipelinesAsync();
+    res.json(rows.map(mapPipeline));
+  } catch (err) {
+    log.error('DB error (listPipelines)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/pipelines/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const row = await getPipelineAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    res.json(mapPipeline(row));
+  } catch (err) {
+    log.error('DB error (getPipeline)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/pipelines', async (req, res) => {
+  const parsed = readPipelineBody(req.body);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const id = await createPipelineAsync(parsed.name, parsed.description, parsed.steps);
+    res.status(201).json({ ok: true, id });
+  } catch (err) {
+    if (err.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'A pipeline with this name already exists' });
+    }
+    log.error('DB error (createPipeline)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.put('/pipelines/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const parsed = readPipelineBody(req.body);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+  try {
+    const found = await updatePipelineAsync(id, parsed.name, parsed.description, parsed.steps);
+    if (!found) return res.status(404).json({ error: 'Not found' });
+    res.json({ ok: true });
+  } catch (err) {
+    if (err.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'A pipeline with this name already exists' });
+    }
+    log.error('DB error (updatePipeline)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.delete('/pipelines/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    await deletePipelineAsync(id);
+    res.status(204).send();
+  } catch (err) {
+    log.error('DB error (deletePipeline)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Runs ----------
+// Runs are background jobs ("run-pipeline"): follow the job, then read the
+// run through the runId in its result.
+router.post('/pipelines/:id/run', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const { input } = req.body || {};
+
+  try {
+    const row = await getPipelineAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+
+    const { id: jobId, error } = await submitJob('run-pipeline', { pipelineId: id, input: input || {} });
+    if (error) return res.status(400).json({ error });
+    res.status(202).json({ ok: true, jobId });
+  } catch (err) {
+    log.error('DB error (submitJob)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/pipelines/:id/runs', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const limit = parseInt(req.query.limit, 10) || 20;
+  try {
+    const rows = await listPipelineRunsAsync(id, limit);
+    res.json(rows);
+  } catch (err) {
+    log.error('DB error (listPipelineRuns)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/pipeline-runs/:runId', async (req, res) => {
+  const runId = parseInt(req.params.runId, 10);
+  try {
+    const row = await getPipelineRunAsync(runId);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    res.json(mapRun(row));
+  } catch (err) {
+    log.error('DB error (getPipelineRun)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
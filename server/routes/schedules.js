@@ -0,0 +1,241 @@
+import express from 'express';
+import {
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  listScheduleRuns
+} from '../db.js';
+import {
+  OPERATIONS,
+  operationRole,
+  validateSchedule,
+  computeNextRun,
+  fireSchedule
+} from '../services/scheduler.js';
+import { hasRole } from '../services/auth.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/schedules');
+
+// ---------- Promisified wrappers ----------
+const listSchedulesAsync = () =>
+  new Promise((resolve, reject) => {
+    listSchedules((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getScheduleAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getSchedule(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const createScheduleAsync = (schedule) =>
+  new Promise((resolve, reject) => {
+    createSchedule(schedule, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const updateScheduleAsync = (id, schedule) =>
+  new Promise((resolve, reject) => {
+    updateSchedule(id, schedule, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const deleteScheduleAsync = (id) =>
+  new Promise((resolve, reject) => {
+    deleteSchedule(id, (err) => (err ? reject(err) : resolve()));
+  });
+
+const listScheduleRunsAsync = (scheduleId, limit) =>
+  new Promise((resolve, reject) => {
+    listScheduleRuns(scheduleId, limit, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+// ---------- Row mappers ----------
+const parseJson = (text, fallback = null) => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const mapSchedule = (row) => ({
+  id: row.id,
+  name: row.name,
+  cron: row.cron,
+  operation: row.operation,
+  params: parseJson(row.params, {}),
+  enabled: !!row.enabled,
+  next_run_at: row.next_run_at,
+  last_run_at: row.last_run_at,
+  last_status: row.last_status,
+  last_error: row.last_error,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+const readScheduleBody = (body) => {
+  const { name, cron, operation, params, enabled } = body || {};
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+  const schedule = {
+    name: name.trim(),
+    cron: typeof cron === 'string' ? cron.trim() : '',
+    operation,
+    params: params || {},
+    enabled: enabled !== false
+  };
+  const invalid = validateSchedule(schedule);
+  if (invalid) return { error: invalid };
+  return { ...schedule, nextRunAt: computeNextRun(schedule.cron, schedule.enabled) };
+};
+
+// Answers 403 and returns true when the user may not manage schedules of
+// this operation (those that queue admin-only jobs).
+function denyOperation(req, res, operation) {
+  const role = operationRole(operation);
+  if (hasRole(req.user, role)) return false;
+  res.status(403).json({ error: `Requires ${role} role` });
+  return true;
+}
+
+// ---------- Operation catalog ----------
+router.get('/schedules/operations', (req, res) => {
+  res.json(Object.entries(OPERATIONS).map(([type, op]) => ({
+    type,
+    label: op.label,
+    params: op.params,
+    role: operationRole(type)
+  })));
+});
+
+// ---------- Schedules CRUD ----------
+router.get('/schedules', async (req, res) => {
+  try {
+    const rows = await listSchedulesAsync();
+    res.json(rows.map(mapSchedule));
+  } catch (err) {
+    log.error('DB error (listSchedules)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.get('/schedules/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const row = await getScheduleAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    res.json(mapSchedule(row));
+  } catch (err) {
+    log.error('DB error (getSchedule)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.post('/schedules', async (req, res) => {
+  const parsed = readScheduleBody(req.body);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+  if (denyOperation(req, res, parsed.operation)) return;
+
+  try {
+    const id = await createScheduleAsync(parsed);
+    res.status(201).json({ ok: true, id, next_run_at: parsed.nextRunAt });
+  } catch (err) {
+    if (err.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'A schedule with this name already exists' });
+    }
+    log.error('DB error (createSchedule)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.put('/schedules/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const parsed = readScheduleBody(req.body);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+  if (denyOperation(req, res, parsed.operation)) return;
+
+  try {
+    const row = await getScheduleAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    if (denyOperation(req, res, row.operation)) return;
+    await updateScheduleAsync(id, parsed);
+    res.json({ ok: true, next_run_at: parsed.nextRunAt });
+  } catch (err) {
+    if (err.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      return res.status(409).json({ error: 'A schedule with this name already exists' });
+    }
+    log.error('DB error (updateSchedule)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.delete('/schedules/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const row = await getScheduleAsync(id);
+    if (row && denyOperation(req, res, row.operation)) return;
+    await deleteScheduleAsync(id);
+    res.status(204).send();
+  } catch (err) {
+    log.error('DB error (deleteSchedule)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Pause / resume ----------
+// Resuming computes the next run from now, so missed slots are not replayed.
+async function setEnabled(req, res, enabled) {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const row = await getScheduleAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    if (denyOperation(req, res, row.operation)) return;
+
+    const schedule = mapSchedule(row);
+    const nextRunAt = computeNextRun(schedule.cron, enabled);
+    await updateScheduleAsync(id, { ...schedule, enabled, nextRunAt });
+    res.json({ ok: true, enabled, next_run_at: nextRunAt });
+  } catch (err) {
+    log.error('DB error (updateSchedule)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+}
+
+router.post('/schedules/:id/pause', (req, res) => setEnabled(req, res, false));
+router.post('/schedules/:id/resume', (req, res) => setEnabled(req, res, true));
+
+// ---------- Runs ----------
+router.post('/schedules/:id/run', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    const row = await getScheduleAsync(id);
+    if (!row) return res.status(404).json({ error: 'Not found' });
+    if (denyOperation(req, res, row.operation)) return;
+
+    const result = await fireSchedule(row, { manual: true });
+    if (result.error) return res.status(400).json({ error: result.error });
+    if (result.skipped) return res.status(409).json({ error: 'Previous run still in progress' });
+    res.status(202).json({ ok: true, run_id: result.runId, job_id: result.jobId });
+  } catch (err) {
+    log.error('Schedule run failed', { err });
+    res.status(500).json({ error: 'Schedule run failed' });
+  }
+});
+
+router.get('/schedules/:id/runs', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const limit = parseInt(req.query.limit, 10) || 20;
+  try {
+    const rows = await listScheduleRunsAsync(id, limit);
+    res.json(rows);
+  } catch (err) {
+    log.error('DB error (listScheduleRuns)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,153 @@
+import express from 'express';
+import { getSchemaStatus } from '../db.js';
+import { runHealthChecks } from '../services/health.js';
+import { hasRole } from '../services/auth.js';
+import { metricsSnapshot, renderPrometheus } from '../services/metrics.js';
+import {
+  loadBackupSettings,
+  listBackups,
+  backupFile,
+  createBackup,
+  deleteBackup,
+  restoreBackup
+} from '../services/backup.js';
+import { recordAudit } from '../services/audit.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/system');
+
+const DB_PATH_LABEL = process.env.EXTERNAL_DB_PATH || 'internal: ./server/data/workflow.db';
+
+// ---------- Promisified wrappers ----------
+const getSchemaStatusAsync = () =>
+  new Promise((resolve, reject) => {
+    getSchemaStatus((err, status) => (err ? reject(err) : resolve(status)));
+  });
+
+// ---------- System health ----------
+// GET /api/system/health -> { status, uptimeSeconds, timestamp, startedAt, db, checks }
+// status is ok | degraded | down; see services/health.js for the checks.
+// Only admins see key ids and the names of undecryptable secrets.
+router.get('/system/health', async (req, res) => {
+  const startedAt = process.env.APP_STARTED_AT || new Date().toISOString();
+
+  try {
+    const { status, checks } = await runHealthChecks({ includeSecretDetails: hasRole(req.user, 'admin') });
+    res.json({
+      status,
+      uptimeSeconds: process.uptime(),
+      timestamp: new Date().toISOString(),
+      db: { ok: checks.database.status === 'ok', path: DB_PATH_LABEL },
+      checks,
+      startedAt
+    });
+  } catch (err) {
+    log.error('Health check error', { err });
+    res.json({
+      status: 'down',
+      error: String(err),
+      db: { ok: false, path: DB_PATH_LABEL },
+      startedAt
+    });
+  }
+});
+
+// ---------- DB info ----------
+// schema: { version, latest, migrations: [{ version, name, appliedAt, durationMs }] }
+router.get('/system/db-info', async (req, res) => {
+  try {
+    const schema = await getSchemaStatusAsync();
+    res.json({
+      usingExternal: !!process.env.EXTERNAL_DB_PATH,
+      dbPath: DB_PATH_LABEL,
+      schemaVersion: schema.version,
+      schema,
+      timestamp: new Date().toISOString()
+    });
+  } catch (err) {
+    log.error('DB error (getSchemaStatus)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// ---------- Backups (admin only, see ROUTE_ROLES) ----------
+
+// Errors with a status (unknown backup, one already running, bad
+// snapshot) keep it; anything else is a 500 naming the failure.
+function sendBackupError(res, e, what) {
+  if (e.status) return res.status(e.status).json({ error: e.message });
+  log.error(`${what} failed`, { err: e });
+  res.status(500).json({ error: `${what} failed: ${e.message}` });
+}
+
+// GET /api/system/backups -> { dir, keep, backups }
+router.get('/system/backups', async (req, res) => {
+  try {
+    const [{ dir, keep }, backups] = await Promise.all([loadBackupSettings(), listBackups()]);
+    res.json({ dir, keep, backups });
+  } catch (e) {
+    sendBackupError(res, e, 'Listing backups');
+  }
+});
+
+// Take a snapshot now -> the new backup plus the names it pruned.
+router.post('/system/backups', async (req, res) => {
+  try {
+    res.status(201).json(await createBackup('manual'));
+  } catch (e) {
+    sendBackupError(res, e, 'Backup');
+  }
+});
+
+router.get('/system/backups/:name/download', async (req, res) => {
+  try {
+    const file = await backupFile(req.params.name);
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.download(file, req.params.name);
+  } catch (e) {
+    sendBackupError(res, e, 'Download');
+  }
+});
+
+// Replaces the whole database, sessions included: signed-in users who do
+// not exist in the snapshot are signed out.
+router.post('/system/backups/:name/restore', async (req, res) => {
+  try {
+    const result = await restoreBackup(req.params.name);
+    // Written after the restore so it lands in the restored audit trail.
+    await recordAudit(req, {
+      action: 'database.restore',
+      targetType: 'backup',
+      target: result.restored,
+      after: { preRestore: result.preRestore, schemaVersion: result.schemaVersion }
+    });
+    res.json(result);
+  } catch (e) {
+    sendBackupError(res, e, 'Restore');
+  }
+});
+
+router.delete('/system/backups/:name', async (req, res) => {
+  try {
+    await deleteBackup(req.params.name);
+    await recordAudit(req, {
+      action: 'backup.delete',
+      targetType: 'backup',
+      target: req.params.name,
+      before: { name: req.params.name }
+    });
+    res.status(204).send();
+  } catch (e) {
+    sendBackupError(res, e, 'Deleting the backup');
+  }
+});
+
+// ---------- Metrics ----------
+// Prometheus text format by default, ?format=json for the System Health tab.
+router.get('/metrics', (req, res) => {
+  if (req.query.format === 'json') return res.json(metricsSnapshot());
+  res.type('text/plain; version=0.0.4').send(renderPrometheus());
+});
+
+export default router;
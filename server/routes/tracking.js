@@ -0,0 +1,150 @@
+import express from 'express';
+import {
+  listTrackedAsins,
+  getTrackedAsin,
+  addTrackedAsins,
+  updateTrackedAsin,
+  deleteTrackedAsin,
+  getPriceHistory
+} from '../db.js';
+import { DEFAULT_MARKETPLACE, loadPaapiConfig } from '../services/paapi.js';
+import { mapTrackedAsin } from '../services/tracking.js';
+import { createLogger } from '../services/logger.js';
+
+const router = express.Router();
+const log = createLogger('routes/tracking');
+
+const ASIN_PATTERN = /^(B0[A-Z0-9]{8}|\d{9}[\dX])$/;
+
+// ---------- Promisified wrappers ----------
+const listTrackedAsinsAsync = () =>
+  new Promise((resolve, reject) => {
+    listTrackedAsins((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getTrackedAsinAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getTrackedAsin(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const addTrackedAsinsAsync = (asins, marketplace, options) =>
+  new Promise((resolve, reject) => {
+    addTrackedAsins(asins, marketplace, options, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const updateTrackedAsinAsync = (id, fields) =>
+  new Promise((resolve, reject) => {
+    updateTrackedAsin(id, fields, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const deleteTrackedAsinAsync = (id) =>
+  new Promise((resolve, reject) => {
+    deleteTrackedAsin(id, (err) => (err ? reject(err) : resolve()));
+  });
+
+const getPriceHistoryAsync = (asin, marketplace, since) =>
+  new Promise((resolve, reject) => {
+    getPriceHistory(asin, marketplace, since, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+// ---------- Tracked ASINs ----------
+
+router.get('/tracking', async (req, res) => {
+  try {
+    const rows = await listTrackedAsinsAsync();
+    res.json({ tracked: rows.map(mapTrackedAsin) });
+  } catch (err) {
+    log.error('DB error (listTrackedAsins)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// POST /api/tracking { asins: string[], label?, inContent?, marketplace? }
+router.post('/tracking', async (req, res) => {
+  const { asins, label, inContent, marketplace } = req.body || {};
+  if (!Array.isArray(asins) || !asins.length) {
+    return res.status(400).json({ error: 'asins must be a non-empty array' });
+  }
+
+  const ids = Array.from(new Set(asins.map((a) => String(a).trim().toUpperCase()).filter(Boolean)));
+  const invalid = ids.filter((a) => !ASIN_PATTERN.test(a));
+  if (invalid.length) {
+    return res.status(400).json({ error: `Invalid ASINs: ${invalid.join(', ')}` });
+  }
+
+  // Track in the configured marketplace unless one is given explicitly.
+  const cfg = await loadPaapiConfig().catch(() => null);
+  const target = (typeof marketplace === 'string' && marketplace.trim())
+    || (cfg && cfg.marketplace)
+    || DEFAULT_MARKETPLACE;
+
+  try {
+    const added = await addTrackedAsinsAsync(ids, target, {
+      label: typeof label === 'string' ? label.trim() : null,
+      inContent: !!inContent
+    });
+    res.status(201).json({ ok: true, added, skipped: ids.length - added });
+  } catch (err) {
+    log.error('DB error (addTrackedAsins)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// PUT /api/tracking/:id { label?, inContent?, active? }
+router.put('/tracking/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const { label, inContent, active } = req.body || {};
+  try {
+    const found = await updateTrackedAsinAsync(id, {
+      label: typeof label === 'string' ? label.trim() : undefined,
+      inContent: typeof inContent === 'boolean' ? inContent : undefined,
+      active: typeof active === 'boolean' ? active : undefined
+    });
+    if (!found) return res.status(404).json({ error: 'Not found' });
+    res.json({ ok: true });
+  } catch (err) {
+    log.error('DB error (updateTrackedAsin)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+router.delete('/tracking/:id', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  try {
+    await deleteTrackedAsinAsync(id);
+    res.json({ ok: true });
+  } catch (err) {
+    log.error('DB error (deleteTrackedAsin)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+// GET /api/tracking/:id/history?days=90
+router.get('/tracking/:id/history', async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const days = Math.min(Math.max(parseInt(req.query.days, 10) || 90, 1), 3650);
+  const since = new Date(Date.now() - days * 86400000).toISOString();
+  try {
+    const tracked = await getTrackedAsinAsync(id);
+    if (!tracked) return res.status(404).json({ error: 'Not found' });
+
+    const rows = await getPriceHistoryAsync(tracked.asin, tracked.marketplace, since);
+    res.json({
+      asin: tracked.asin,
+      marketplace: tracked.marketplace,
+      history: rows.map((r) => ({
+        amount: r.amount,
+        currency: r.currency,
+        displayAmount: r.display_amount,
+        availabilityType: r.availability_type,
+        availabilityMessage: r.availability_message,
+        fetchedAt: r.fetched_at
+      }))
+    });
+  } catch (err) {
+    log.error('DB error (getPriceHistory)', { err });
+    res.status(500).json({ error: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,299 @@
+import fetch from 'node-fetch';
+import { listSettings } from '../db.js';
+import { sleep, mapPool, createRateLimiter } from './throttle.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/amazon');
+
+const BROWSER_UA =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 ' +
+    '(KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36';
+
+/**
+* Robust fetch with:
+* - Timeout (ms)
+* - Retry attempts
+* - Exponential backoff
+* - Browser UA spoofing
+* - `beforeRequest(url)`, awaited before every attempt (rate limiting)
+*/
+async function robustFetch(url, { timeout = 6000, retries = 3, backoff = 500, redirect = 'follow', beforeRequest } = {}) {
+    for (let attempt = 1; attempt <= retries; attempt++) {
+        if (beforeRequest) await beforeRequest(url);
+
+        const controller = new AbortController();
+        const id = setTimeout(() => controller.abort(), timeout);
+
+        try {
+            const resp = await fetch(url, {
+                method: 'GET',
+                redirect,
+                signal: controller.signal,
+                headers: {
+                    'User-Agent': BROWSER_UA,
+                    'Accept': 'text/html,application/xhtml+xml',
+                    'Accept-Language': 'en-US,en;q=0.9',
+                    'Cache-Control': 'no-cache'
+                }
+            });
+
+            clearTimeout(id);
+
+            // Successful response → return
+            return resp;
+        } catch (err) {
+            clearTimeout(id);
+
+            const isLast = attempt === retries;
+
+            const isAbort = err.name === 'AbortError';
+            const transient =
+                isAbort ||
+                err.code === 'ECONNRESET' ||
+                err.code === 'ENOTFOUND' ||
+                err.code === 'ECONNREFUSED';
+
+            if (isLast || !transient) {
+                // Final attempt or non-retryable error
+                throw err;
+            }
+
+            // Retry with exponential backoff
+            await new Promise((res) => setTimeout(res, backoff * attempt));
+        }
+    }
+
+    throw new Error('robustFetch: unexpected fallthrough');
+}
+
+const MAX_REDIRECTS = 10;
+const isRedirect = (status) => [301, 302, 303, 307, 308].includes(status);
+
+/**
+* Follow the redirect chain of a short link hop by hop, so every request
+* (retries included) goes through `beforeRequest` with the host it is
+* actually sent to. Resolves with the last URL reached.
+*/
+async function expandShortAmazonUrl(url, { beforeRequest } = {}) {
+    try {
+        let current = url;
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            const resp = await robustFetch(current, {
+                timeout: 7000,
+                retries: 4,
+                backoff: 800,
+                redirect: 'manual',
+                beforeRequest
+            });
+
+            const location = resp.headers.get('location');
+            if (!isRedirect(resp.status) || !location) return current;
+
+            await resp.arrayBuffer().catch(() => null);
+            current = new URL(location, current).href;
+        }
+        log.warn('Too many redirects', { url, finalUrl: current });
+        return current;
+    } catch (err) {
+        log.warn('Failed to expand URL', { url, err });
+        return url; // graceful fallback
+    }
+}
+
+const extractAsin = (finalUrl) => {
+    if (!finalUrl) return null;
+
+    const patterns = [
+        /\/dp\/([A-Z0-9]{10})(?=[/?]|$|\?)/i,
+        /\/gp\/product\/([A-Z0-9]{10})(?=[/?]|$|\?)/i,
+        /\/gp\/aw\/d\/([A-Z0-9]{10})(?=[/?]|$|\?)/i,
+        /\/product\/([A-Z0-9]{10})(?=[/?]|$|\?)/i
+    ];
+
+    for (const p of patterns) {
+        const m = finalUrl.match(p);
+        if (m && m[1]) return m[1].toUpperCase();
+    }
+
+    const fallback = finalUrl.match(/\/([A-Z0-9]{10})(?=[/?]|$|\?)/i);
+    return fallback?.[1]?.toUpperCase() || null;
+};
+
+const expandSingleUrl = async (url, { beforeRequest } = {}) => {
+    const started = Date.now();
+    const finalUrl = await expandShortAmazonUrl(url, { beforeRequest });
+    const asin = extractAsin(finalUrl);
+
+    const context = { url, finalUrl, asin, durationMs: Date.now() - started };
+    if (asin) log.debug('Expanded URL', context);
+    else log.warn('No ASIN in expanded URL', context);
+
+    return {
+        url,
+        finalUrl,
+        asin,
+        error: asin ? null : 'ASIN not found'
+    };
+};
+
+// ----- Expansion throttling (settings section "expander") -----
+const EXPANDER_DEFAULTS = {
+    concurrency: 6,
+    jitterMs: 300,
+    rateLimits: {
+        'a.co': 2,
+        'amzn.to': 2,
+        'amazon.com': 1
+    },
+    defaultRate: 2
+};
+
+/**
+* Read the expander throttling settings:
+*   expander/concurrency        parallel requests (1-32)
+*   expander/jitterMs           random delay added before each request
+*   expander/rateLimit.<host>   requests per second for a host and its subdomains
+*   expander/rateLimit.default  requests per second for any other host
+* Missing or invalid values fall back to EXPANDER_DEFAULTS.
+*/
+const loadExpanderSettings = () =>
+    new Promise((resolve) => {
+        listSettings('expander', (err, rows) => {
+            const cfg = {
+                ...EXPANDER_DEFAULTS,
+                rateLimits: { ...EXPANDER_DEFAULTS.rateLimits }
+            };
+            if (err) {
+                log.error('DB error (loadExpanderSettings)', { err });
+                return resolve(cfg);
+            }
+
+            for (const { name, value } of rows || []) {
+                const n = Number(value);
+                if (!Number.isFinite(n) || n < 0) continue;
+
+                if (name === 'concurrency') {
+                    cfg.concurrency = Math.min(Math.max(Math.floor(n), 1), 32);
+                } else if (name === 'jitterMs') {
+                    cfg.jitterMs = n;
+                } else if (name === 'rateLimit.default') {
+                    cfg.defaultRate = n;
+                } else if (name.startsWith('rateLimit.')) {
+                    cfg.rateLimits[name.slice('rateLimit.'.length).toLowerCase()] = n;
+                }
+            }
+            resolve(cfg);
+        });
+    });
+
+// Map a URL to its rate-limit bucket: the configured host it belongs to,
+// or "default".
+const hostBucket = (url, rateLimits) => {
+    let host;
+    try {
+        host = new URL(url).hostname.toLowerCase();
+    } catch {
+        return 'default';
+    }
+    for (const key of Object.keys(rateLimits)) {
+        if (host === key || host.endsWith('.' + key)) return key;
+    }
+    return 'default';
+};
+
+// One limiter for the whole process, so concurrent expand jobs, pipeline
+// runs and requests share each host's budget. Rates are passed on every
+// wait, as read from the settings of the calling batch.
+const expanderLimiter = createRateLimiter();
+
+// Wait for a slot on the bucket of the host `url` is sent to, plus jitter.
+const waitForHost = async (url, cfg) => {
+    const bucket = hostBucket(url, cfg.rateLimits);
+    const rate = bucket in cfg.rateLimits ? cfg.rateLimits[bucket] : cfg.defaultRate;
+    await expanderLimiter.wait(bucket, rate);
+    if (cfg.jitterMs > 0) await sleep(Math.floor(Math.random() * cfg.jitterMs));
+};
+
+/**
+* Expand a list of URLs through a bounded concurrency pool with per-host
+* rate limiting of every request, redirect hops and retries included,
+* never throwing: failures are reported per URL in the
+* `error` field. Results keep the input order.
+*
+* `onResult(result, index)` fires as each URL finishes (in completion
+* order); once `isCancelled()` is true no new URLs are started and the
+* unprocessed ones are left out of the result.
+*/
+const expandUrls = async (urls, { onResult, isCancelled, settings } = {}) => {
+    const started = Date.now();
+    const cfg = settings || await loadExpanderSettings();
+    const beforeRequest = (target) => waitForHost(target, cfg);
+
+    const results = await mapPool(urls, cfg.concurrency, async (u, index) => {
+        let r;
+        try {
+            r = await expandSingleUrl(u, { beforeRequest });
+        } catch (e) {
+            r = {
+                url: u,
+                finalUrl: null,
+                asin: null,
+                error: e.message || 'Expansion failed'
+            };
+        }
+        if (onResult) await onResult(r, index);
+        return r;
+    }, { isCancelled });
+
+    const finished = results.filter(Boolean);
+    log.info(`Expanded ${finished.length} of ${urls.length} URL(s)`, {
+        urls: urls.length,
+        expanded: finished.length,
+        withAsin: finished.filter((r) => r.asin).length,
+        durationMs: Date.now() - started
+    });
+    return finished;
+};
+
+/**
+* Pull short/long Amazon URLs out of free text (comma, space or newline
+* separated). Bare a.co / amzn.to links get an https:// prefix.
+*/
+const parseUrls = (raw) => {
+    if (!raw || !String(raw).trim()) return [];
+
+    const tokens = String(raw)
+        .split(/[\s,]+/)
+        .map((t) => t.trim())
+        .filter(Boolean);
+
+    const seen = new Set();
+    const urls = [];
+    for (const token of tokens) {
+        let value = token.replace(/[;,]+$/, '');
+        if (!/^https?:\/\//i.test(value)) {
+            if (/^(a\.co|amzn\.to)\//i.test(value)) {
+                value = 'https://' + value;
+            } else {
+                continue;
+            }
+        }
+        if (!seen.has(value)) {
+            seen.add(value);
+            urls.push(value);
+        }
+    }
+
+    return urls;
+};
+
+export {
+    EXPANDER_DEFAULTS,
+    robustFetch,
+    expandShortAmazonUrl,
+    extractAsin,
+    expandSingleUrl,
+    expandUrls,
+    loadExpanderSettings,
+    parseUrls
+};
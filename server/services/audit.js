@@ -0,0 +1,72 @@
+// Append-only audit trail for configuration, secret, credential and user
+// changes. Each entry stores who did what to which target and a diff of
+// the fields that changed, { field: { before, after } }. Sensitive values
+// never reach the table: they are compared in memory and stored as
+// REDACTED, so the diff still shows that they changed.
+
+import { insertAuditEntry } from '../db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/audit');
+
+const REDACTED = '[redacted]';
+
+// Field or setting names whose values are always redacted.
+const SENSITIVE_NAME = /(secret|password|passphrase|token|access.?key|api.?key|credential)/i;
+
+const isSensitiveName = (name) => SENSITIVE_NAME.test(String(name || ''));
+
+const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields that differ between two flat objects (either may be null for
+ * creates/deletes), with values of `sensitive` and sensitive-looking
+ * fields replaced by REDACTED.
+ */
+function diffFields(before, after, sensitive = []) {
+  const diff = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    const a = before ? before[key] : undefined;
+    const b = after ? after[key] : undefined;
+    if (same(a, b)) continue;
+
+    const hide = sensitive.includes(key) || isSensitiveName(key);
+    const show = (v) => (v === undefined || v === null ? null : hide ? REDACTED : v);
+    diff[key] = { before: show(a), after: show(b) };
+  }
+  return diff;
+}
+
+// Who made the request: the signed-in user, or "system" for startup work.
+const auditActor = (req) =>
+  req?.user ? { id: req.user.id, username: req.user.username } : { id: null, username: 'system' };
+
+/**
+ * Record one change. Never throws: a failed audit write is logged, the
+ * change itself has already happened.
+ *
+ * entry: { action, targetType, target, before, after, sensitive? }
+ */
+function recordAudit(req, { action, targetType, target, before = null, after = null, sensitive = [] }) {
+  const actor = auditActor(req);
+  return new Promise((resolve) => {
+    insertAuditEntry(
+      {
+        actorId: actor.id,
+        actor: actor.username,
+        action,
+        targetType,
+        target: String(target),
+        diff: diffFields(before, after, sensitive)
+      },
+      (err) => {
+        if (err) log.error('DB error (insertAuditEntry)', { err });
+        resolve();
+      }
+    );
+  });
+}
+
+export { REDACTED, isSensitiveName, diffFields, recordAudit };
@@ -0,0 +1,319 @@
+// Local user accounts, token sessions and role checks for /api.
+//
+// Passwords are stored as scrypt hashes ("scrypt$N$r$p$salt$hash").
+// Logging in issues a random bearer token; only its SHA-256 is stored in
+// `sessions`, so a copy of the database cannot be replayed as a login.
+//
+// Roles are ordered viewer < editor < admin. Reads need viewer, writes
+// need editor, and the routes in ROUTE_ROLES need more (or less).
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import {
+  countUsers,
+  getUserByUsername,
+  createUser,
+  createSession,
+  getSessionUser,
+  deleteSession,
+  pruneSessions
+} from '../db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/auth');
+
+const scrypt = promisify(crypto.scrypt);
+
+const ROLES = ['viewer', 'editor', 'admin'];
+const MIN_PASSWORD_LENGTH = 8;
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Paths are relative to /api and matched in lower case. Routes not listed
+// here need viewer for GET/HEAD and editor for anything else; the first
+// match wins.
+const ROUTE_ROLES = [
+  { path: /^\/secrets(\/|$)/, role: 'admin' },
+  { path: /^\/config\/paapi(\/|$)/, methods: WRITE_METHODS, role: 'admin' },
+  { path: /^\/config\/(export|import)$/, role: 'admin' },
+  { path: /^\/users(\/|$)/, role: 'admin' },
+  { path: /^\/audit(\/|$)/, role: 'admin' },
+  { path: /^\/settings(\/|$)/, methods: WRITE_METHODS, role: 'admin' },
+  { path: /^\/logs(\/|$)/, methods: ['DELETE'], role: 'admin' },
+  { path: /^\/logs\/retention\//, methods: WRITE_METHODS, role: 'admin' },
+  { path: /^\/system\/backups(\/|$)/, role: 'admin' },
+  // POSTs that only render their body and change nothing
+  { path: /^\/(export|extract\/asin-aaid)$/, methods: ['POST'], role: 'viewer' },
+  { path: /^\/auth\//, role: 'viewer' }
+];
+
+// Reachable without a session: first-run setup and login itself.
+const PUBLIC_ROUTES = [/^\/auth\/(status|login|setup)$/];
+
+// Also reachable with METRICS_TOKEN instead of a session, so Prometheus
+// can scrape without a login that expires.
+const METRICS_ROUTE = /^\/metrics$/;
+const MIN_METRICS_TOKEN_LENGTH = 32;
+
+// ---------- Promisified wrappers ----------
+const countUsersAsync = () =>
+  new Promise((resolve, reject) => {
+    countUsers((err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const getUserByUsernameAsync = (username) =>
+  new Promise((resolve, reject) => {
+    getUserByUsername(username, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const createUserAsync = (user) =>
+  new Promise((resolve, reject) => {
+    createUser(user, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const createSessionAsync = (userId, tokenHash, expiresAt) =>
+  new Promise((resolve, reject) => {
+    createSession(userId, tokenHash, expiresAt, (err) => (err ? reject(err) : resolve()));
+  });
+
+const getSessionUserAsync = (tokenHash) =>
+  new Promise((resolve, reject) => {
+    getSessionUser(tokenHash, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const deleteSessionAsync = (tokenHash) =>
+  new Promise((resolve, reject) => {
+    deleteSession(tokenHash, (err) => (err ? reject(err) : resolve()));
+  });
+
+// ---------- Passwords ----------
+async function hashPassword(password) {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N, r, p });
+  return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, N, r, p, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p)
+  });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Hash compared against when the username is unknown, so a failed login
+// takes as long whether or not the account exists.
+let dummyHash = null;
+
+// ---------- Validation ----------
+const isValidRole = (role) => ROLES.includes(role);
+
+const hasRole = (user, role) =>
+  !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+
+/**
+ * Validate a new account. Returns an error message, or null when the
+ * input is acceptable. `partial` allows omitting fields (updates).
+ */
+function validateUserInput({ username, password, role }, { partial = false } = {}) {
+  if (!partial || username !== undefined) {
+    if (typeof username !== 'string' || !/^[A-Za-z0-9._@-]{3,64}$/.test(username)) {
+      return 'username must be 3-64 characters: letters, digits, . _ @ -';
+    }
+  }
+  if (!partial || password !== undefined) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+  }
+  if (!partial || role !== undefined) {
+    if (!isValidRole(role)) return `role must be one of: ${ROLES.join(', ')}`;
+  }
+  return null;
+}
+
+// ---------- Sessions ----------
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// ---------- Metrics scrape token ----------
+function loadMetricsTokenHash() {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return null;
+  if (token.length < MIN_METRICS_TOKEN_LENGTH) {
+    log.warn(`Ignoring METRICS_TOKEN: it must be >= ${MIN_METRICS_TOKEN_LENGTH} chars`);
+    return null;
+  }
+  return Buffer.from(hashToken(token), 'hex');
+}
+
+const METRICS_TOKEN_HASH = loadMetricsTokenHash();
+
+const isMetricsScrape = (method, path, token) =>
+  !!METRICS_TOKEN_HASH &&
+  (method === 'GET' || method === 'HEAD') &&
+  METRICS_ROUTE.test(path) &&
+  crypto.timingSafeEqual(Buffer.from(hashToken(token), 'hex'), METRICS_TOKEN_HASH);
+
+/**
+ * The user row for a username/password pair, or null when either is
+ * wrong or the account is disabled.
+ */
+async function checkCredentials(username, password) {
+  const user = await getUserByUsernameAsync(String(username || ''));
+  if (!user) {
+    dummyHash = dummyHash || (await hashPassword(crypto.randomBytes(16).toString('hex')));
+    await verifyPassword(String(password || ''), dummyHash);
+    return null;
+  }
+  if (!(await verifyPassword(String(password || ''), user.password_hash)) || user.disabled) {
+    return null;
+  }
+  return user;
+}
+
+/**
+ * Check credentials and open a session. Returns { token, expiresAt, user }
+ * or null when the login is rejected.
+ */
+async function login(username, password) {
+  const user = await checkCredentials(username, password);
+  if (!user) return null;
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 3600 * 1000).toISOString();
+  await createSessionAsync(user.id, hashToken(token), expiresAt);
+
+  return {
+    token,
+    expiresAt,
+    user: { id: user.id, username: user.username, role: user.role }
+  };
+}
+
+async function logout(token) {
+  if (token) await deleteSessionAsync(hashToken(token));
+}
+
+/**
+ * Create the first admin. Only succeeds while there are no users, so the
+ * setup endpoint cannot be used once the app has been claimed.
+ */
+async function setupFirstAdmin(username, password) {
+  // Hash first: the count and insert then run without yielding to I/O,
+  // so two concurrent setups cannot both succeed.
+  const passwordHash = await hashPassword(password);
+  if ((await countUsersAsync()) > 0) return null;
+  const id = await createUserAsync({ username, passwordHash, role: 'admin' });
+  return { id, username, role: 'admin' };
+}
+
+/**
+ * On startup, create an admin from ADMIN_USERNAME / ADMIN_PASSWORD when
+ * the users table is empty. Without them the first visitor is asked to
+ * create one in the UI.
+ */
+async function bootstrapAdmin() {
+  pruneSessions((err) => {
+    if (err) log.error('DB error (pruneSessions)', { err });
+  });
+
+  try {
+    if ((await countUsersAsync()) > 0) return;
+
+    const username = process.env.ADMIN_USERNAME;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!username || !password) {
+      log.warn('No user accounts yet: open the app to create the first admin.');
+      return;
+    }
+
+    const error = validateUserInput({ username, password, role: 'admin' });
+    if (error) {
+      log.error(`ADMIN_USERNAME/ADMIN_PASSWORD rejected: ${error}`, { username });
+      return;
+    }
+    await setupFirstAdmin(username, password);
+    log.info(`Created admin user "${username}" from ADMIN_USERNAME.`, { username });
+  } catch (err) {
+    log.error('Failed to bootstrap admin user', { err });
+  }
+}
+
+// ---------- Middleware ----------
+
+// Bearer header, or ?access_token= for EventSource, which cannot send headers.
+function requestToken(req) {
+  const header = req.get('Authorization') || '';
+  const m = /^Bearer\s+(\S+)$/i.exec(header);
+  if (m) return m[1];
+  return typeof req.query.access_token === 'string' ? req.query.access_token : null;
+}
+
+function requiredRole(method, path) {
+  for (const rule of ROUTE_ROLES) {
+    if (rule.path.test(path) && (!rule.methods || rule.methods.includes(method))) {
+      return rule.role;
+    }
+  }
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'editor';
+}
+
+/**
+ * Mounted on /api: resolves the session into req.user and applies
+ * ROUTE_ROLES. Responds 401 without a valid session and 403 when the
+ * user's role is too low. A metrics scrape with METRICS_TOKEN passes
+ * without a session (and without req.user).
+ */
+async function authorizeApi(req, res, next) {
+  // Express routes paths case-insensitively, so /Secrets reaches the
+  // /secrets handlers: match the rules the same way.
+  const path = req.path.toLowerCase();
+  if (req.method === 'OPTIONS' || PUBLIC_ROUTES.some((re) => re.test(path))) {
+    return next();
+  }
+
+  const token = requestToken(req);
+  if (!token) return res.status(401).json({ error: 'Authentication required' });
+  if (isMetricsScrape(req.method, path, token)) return next();
+
+  try {
+    const session = await getSessionUserAsync(hashToken(token));
+    if (!session) return res.status(401).json({ error: 'Session expired or invalid' });
+
+    req.user = { id: session.id, username: session.username, role: session.role };
+    req.token = token;
+  } catch (err) {
+    log.error('DB error (getSessionUser)', { err });
+    return res.status(500).json({ error: 'Database error' });
+  }
+
+  const role = requiredRole(req.method, path);
+  if (!hasRole(req.user, role)) {
+    return res.status(403).json({ error: `Requires ${role} role` });
+  }
+  next();
+}
+
+export {
+  ROLES,
+  hashPassword,
+  verifyPassword,
+  hasRole,
+  validateUserInput,
+  checkCredentials,
+  login,
+  logout,
+  setupFirstAdmin,
+  bootstrapAdmin,
+  authorizeApi
+};
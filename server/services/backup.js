@@ -0,0 +1,256 @@
+// Online database backups: verified snapshots, generations and restore.
+//
+// Snapshots are taken with SQLite's online backup API, so they are
+// consistent even while the server writes (a plain file copy of a WAL
+// database is not). Each snapshot is written as <name>.partial, checked
+// with PRAGMA integrity_check and only then renamed to
+//   backup-<timestamp>[-<reason>].db
+// next to a <name>.json sidecar { createdAt, reason, sizeBytes,
+// schemaVersion, integrity, durationMs }. A snapshot that fails the
+// check is deleted and the backup fails.
+//
+// Settings (section "backup"):
+//   dir    where snapshots go (default: a "backups" directory next to the DB)
+//   keep   generations kept; older snapshots are deleted after each
+//          backup (default 7, 0 = keep all). "pre-restore" snapshots do
+//          not count and are never pruned: they are the way back from a
+//          restore, and are deleted by hand.
+// Scheduled backups use the scheduler's "backup-database" operation.
+
+import fs from 'fs';
+import path from 'path';
+import {
+  dbPath,
+  listSettings,
+  backupDatabase,
+  inspectDatabaseFile,
+  restoreDatabase
+} from '../db.js';
+import { LATEST_VERSION } from '../migrations.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/backup');
+
+const BACKUP_DEFAULTS = {
+  dir: path.join(path.dirname(dbPath), 'backups'),
+  keep: 7
+};
+
+const BACKUP_NAME = /^backup-[A-Za-z0-9-]+\.db$/;
+
+// ---------- Promisified wrappers ----------
+const backupDatabaseAsync = (destination) =>
+  new Promise((resolve, reject) => {
+    backupDatabase(destination, (err) => (err ? reject(err) : resolve()));
+  });
+
+const inspectDatabaseFileAsync = (file) =>
+  new Promise((resolve, reject) => {
+    inspectDatabaseFile(file, (err, info) => (err ? reject(err) : resolve(info)));
+  });
+
+const restoreDatabaseAsync = (source) =>
+  new Promise((resolve, reject) => {
+    restoreDatabase(source, (err) => (err ? reject(err) : resolve()));
+  });
+
+const loadBackupSettings = () =>
+  new Promise((resolve) => {
+    listSettings('backup', (err, rows) => {
+      if (err) log.error('DB error (loadBackupSettings)', { err });
+      const values = {};
+      for (const { name, value } of rows || []) values[name] = value;
+
+      const keep = Number(values.keep);
+      resolve({
+        dir: (values.dir || '').trim() || BACKUP_DEFAULTS.dir,
+        keep: values.keep !== undefined && Number.isInteger(keep) && keep >= 0 ? keep : BACKUP_DEFAULTS.keep
+      });
+    });
+  });
+
+// An Error carrying an HTTP status for the routes, like paapiError.
+function backupError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+// ---------- One operation at a time ----------
+// A backup and a restore must never overlap, nor two of either.
+let running = null;
+
+async function exclusive(what, fn) {
+  if (running) throw backupError(409, `A ${running} is already running`);
+  running = what;
+  try {
+    return await fn();
+  } finally {
+    running = null;
+  }
+}
+
+// ---------- Listing ----------
+const readMeta = (file) => {
+  try {
+    return JSON.parse(fs.readFileSync(`${file}.json`, 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Snapshots in the backup directory, newest first:
+ * [{ name, createdAt, reason, sizeBytes, schemaVersion, integrity, durationMs }]
+ * Snapshots without a sidecar (copied in by hand) are listed from the file
+ * alone, with integrity "unknown".
+ */
+async function listBackups() {
+  const { dir } = await loadBackupSettings();
+  let names;
+  try {
+    names = fs.readdirSync(dir).filter((n) => BACKUP_NAME.test(n));
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+
+  return names
+    .map((name) => {
+      const file = path.join(dir, name);
+      const stat = fs.statSync(file);
+      const meta = readMeta(file) || {};
+      return {
+        name,
+        createdAt: meta.createdAt || stat.mtime.toISOString(),
+        reason: meta.reason || null,
+        sizeBytes: stat.size,
+        schemaVersion: meta.schemaVersion ?? null,
+        integrity: meta.integrity || 'unknown',
+        durationMs: meta.durationMs ?? null
+      };
+    })
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0));
+}
+
+/**
+ * Absolute path of a snapshot by name; throws 404 for unknown or
+ * malformed names (names never contain a path).
+ */
+async function backupFile(name) {
+  const { dir } = await loadBackupSettings();
+  const file = path.join(dir, String(name || ''));
+  if (!BACKUP_NAME.test(String(name || '')) || !fs.existsSync(file)) {
+    throw backupError(404, 'Backup not found');
+  }
+  return file;
+}
+
+// ---------- Backup ----------
+async function snapshot(dir, reason) {
+  fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = `backup-${stamp}${reason === 'scheduled' || reason === 'manual' ? '' : `-${reason}`}.db`;
+  const file = path.join(dir, name);
+  const partial = `${file}.partial`;
+  const started = Date.now();
+
+  try {
+    await backupDatabaseAsync(partial);
+    const { integrity, schemaVersion } = await inspectDatabaseFileAsync(partial);
+    if (integrity !== 'ok') {
+      throw new Error(`Snapshot failed integrity_check: ${integrity.slice(0, 3).join('; ')}`);
+    }
+    fs.renameSync(partial, file);
+
+    const meta = {
+      createdAt: new Date(started).toISOString(),
+      reason,
+      sizeBytes: fs.statSync(file).size,
+      schemaVersion,
+      integrity,
+      durationMs: Date.now() - started
+    };
+    fs.writeFileSync(`${file}.json`, JSON.stringify(meta, null, 2));
+    log.info(`Database backed up to ${name}`, { backup: name, reason, durationMs: meta.durationMs, sizeBytes: meta.sizeBytes });
+    return { name, ...meta };
+  } catch (err) {
+    fs.rmSync(partial, { force: true });
+    throw err;
+  }
+}
+
+// Delete all but the newest `keep` snapshots (0 keeps everything),
+// leaving pre-restore snapshots alone.
+async function pruneBackups(keep) {
+  if (!keep) return [];
+  const { dir } = await loadBackupSettings();
+  const removed = (await listBackups())
+    .filter((b) => b.reason !== 'pre-restore')
+    .slice(keep)
+    .map((b) => b.name);
+  for (const name of removed) {
+    const file = path.join(dir, name);
+    fs.rmSync(file, { force: true });
+    fs.rmSync(`${file}.json`, { force: true });
+  }
+  if (removed.length) log.info(`Pruned ${removed.length} old backup(s)`, { removed });
+  return removed;
+}
+
+/**
+ * Take a verified snapshot and prune old generations.
+ * reason: "manual" | "scheduled". Returns the snapshot plus `pruned` names.
+ */
+function createBackup(reason = 'manual') {
+  return exclusive('backup', async () => {
+    const { dir, keep } = await loadBackupSettings();
+    const backup = await snapshot(dir, reason);
+    return { ...backup, pruned: await pruneBackups(keep) };
+  });
+}
+
+async function deleteBackup(name) {
+  const file = await backupFile(name);
+  fs.rmSync(file);
+  fs.rmSync(`${file}.json`, { force: true });
+  log.info(`Deleted backup ${name}`, { backup: name });
+}
+
+// ---------- Restore ----------
+
+/**
+ * Replace the live database with a snapshot. The snapshot is checked
+ * first (integrity, and not newer than this code's schema), and the
+ * current database is saved as a "pre-restore" snapshot so the restore
+ * can be undone. Snapshots from older releases are migrated forward, and
+ * audit entries written since the snapshot are kept.
+ * Returns { restored, preRestore, schemaVersion }.
+ */
+function restoreBackup(name) {
+  return exclusive('restore', async () => {
+    const file = await backupFile(name);
+    const { integrity, schemaVersion } = await inspectDatabaseFileAsync(file);
+    if (integrity !== 'ok') {
+      throw backupError(400, `Backup failed integrity_check: ${integrity.slice(0, 3).join('; ')}`);
+    }
+    if (schemaVersion > LATEST_VERSION) {
+      throw backupError(400, `Backup has schema version ${schemaVersion}, newer than this release (${LATEST_VERSION})`);
+    }
+
+    const { dir } = await loadBackupSettings();
+    const preRestore = await snapshot(dir, 'pre-restore');
+
+    const started = Date.now();
+    await restoreDatabaseAsync(file);
+    log.warn(`Database restored from ${name}`, {
+      backup: name,
+      preRestore: preRestore.name,
+      schemaVersion,
+      durationMs: Date.now() - started
+    });
+    return { restored: name, preRestore: preRestore.name, schemaVersion };
+  });
+}
+
+export { BACKUP_DEFAULTS, loadBackupSettings, listBackups, backupFile, createBackup, deleteBackup, restoreBackup };
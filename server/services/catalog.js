@@ -0,0 +1,41 @@
+import { upsertProducts } from '../db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/catalog');
+
+const upsertProductsAsync = (products) =>
+  new Promise((resolve, reject) => {
+    upsertProducts(products, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+// Flatten a PA API item into the columns of the `products` table.
+function productRecord(item, marketplace) {
+  const info = item.ItemInfo || {};
+  return {
+    asin: String(item.ASIN).toUpperCase(),
+    marketplace,
+    title: info.Title?.DisplayValue || null,
+    brand: info.ByLineInfo?.Brand?.DisplayValue || info.ByLineInfo?.Manufacturer?.DisplayValue || null,
+    features: info.Features?.DisplayValues || [],
+    rating: item.CustomerReviews?.StarRating?.Value ?? null,
+    reviewCount: item.CustomerReviews?.Count ?? null,
+    raw: item
+  };
+}
+
+/**
+ * Upsert GetItems results into the product catalog. Never throws: a
+ * catalog write failure must not fail the PA API call that produced it.
+ */
+async function saveItemsToCatalog(marketplace, items) {
+  const records = items.filter((it) => it && it.ASIN).map((it) => productRecord(it, marketplace));
+  if (!records.length) return 0;
+  try {
+    return await upsertProductsAsync(records);
+  } catch (e) {
+    log.error('DB error (upsertProducts)', { err: e });
+    return 0;
+  }
+}
+
+export { productRecord, saveItemsToCatalog };
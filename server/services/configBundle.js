@@ -0,0 +1,349 @@
+// Configuration bundles: settings, PA API profiles and secrets as one
+// versioned JSON document, for moving a setup between installations
+// (e.g. from the dev compose stack to prod).
+//
+// Bundle (format "selji-config", version 2):
+//   { format, version, exportedAt,
+//     settings:      [{ section, name, value }],
+//     paapiProfiles: [{ name, marketplace, partnerTag, region, host, isDefault }],
+//     secrets:       { kdf, check, values: { <name>: "iv:ciphertext:tag" } } }
+// Secrets (the PA API credentials included, as paapi.<profile>.accessKey
+// and paapi.<profile>.secretKey) are decrypted with this server's key and
+// re-encrypted under a passphrase the user chooses; see
+// createPassphraseCipher(). `check` encrypts a fixed string, so a wrong
+// passphrase is reported before any value is read. Version 1 bundles
+// held a single PA API config (`paapi`); it is imported as the profile
+// "default".
+//
+// Import compares a bundle with the current configuration and, unless it
+// is a dry run, applies it in one transaction:
+//   merge    add and update what the bundle holds, keep everything else
+//   replace  also delete settings, profiles and secrets the bundle does
+//            not hold
+// Settings are validated against the settings registry and profiles like
+// the profile API does; a bundle with an invalid entry is not applied.
+
+import {
+  listSettings,
+  listSecrets,
+  applyConfigChanges
+} from '../db.js';
+import { encryptSecret, decryptSecret, createPassphraseCipher } from './secrets.js';
+import { validateSetting, normalizeSetting } from './settingsRegistry.js';
+import { listProfiles, checkProfile, credentialSecrets } from './paapi.js';
+
+const BUNDLE_FORMAT = 'selji-config';
+const BUNDLE_VERSION = 2;
+const IMPORT_MODES = ['merge', 'replace'];
+
+const PROFILE_FIELDS = ['marketplace', 'partnerTag', 'region', 'host', 'isDefault'];
+const CHECK_PLAINTEXT = BUNDLE_FORMAT;
+
+// ---------- Promisified wrappers ----------
+const listSettingsAsync = () =>
+  new Promise((resolve, reject) => {
+    listSettings(null, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const listSecretsAsync = () =>
+  new Promise((resolve, reject) => {
+    listSecrets((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const applyConfigChangesAsync = (changes) =>
+  new Promise((resolve, reject) => {
+    applyConfigChanges(changes, (err) => (err ? reject(err) : resolve()));
+  });
+
+// An Error carrying an HTTP status for the routes, like paapiError.
+function configError(status, message) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function passphraseCipher(passphrase, kdf) {
+  try {
+    return createPassphraseCipher(passphrase, kdf);
+  } catch (err) {
+    throw configError(400, err.message);
+  }
+}
+
+const settingKey = (section, name) => `${section}/${name}`;
+
+// ---------- Export ----------
+
+/**
+ * Build a bundle of the current configuration, secrets encrypted under
+ * `passphrase`. Fails (400) when a stored secret cannot be decrypted,
+ * rather than leaving it out of the bundle.
+ */
+async function exportConfig(passphrase) {
+  const cipher = passphraseCipher(passphrase);
+  const [settings, profiles, secrets] = await Promise.all([
+    listSettingsAsync(),
+    listProfiles(),
+    listSecretsAsync()
+  ]);
+
+  const values = {};
+  const unreadable = [];
+  for (const row of secrets) {
+    try {
+      values[row.name] = cipher.encrypt(decryptSecret(row.value_encrypted));
+    } catch (err) {
+      unreadable.push(`${row.name} (${err.message})`);
+    }
+  }
+  if (unreadable.length) {
+    throw configError(400, `Cannot export secrets that do not decrypt: ${unreadable.join('; ')}`);
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: settings.map(({ section, name, value }) => ({ section, name, value })),
+    paapiProfiles: profiles.map((p) => ({
+      name: p.name,
+      marketplace: p.marketplace,
+      partnerTag: p.partnerTag,
+      region: p.region,
+      host: p.host,
+      isDefault: p.isDefault
+    })),
+    secrets: {
+      kdf: cipher.kdf,
+      check: cipher.encrypt(CHECK_PLAINTEXT),
+      values
+    }
+  };
+}
+
+// ---------- Import ----------
+
+// The single PA API config of a version 1 bundle as the profile
+// "default", or null when it held none.
+function legacyProfile(paapi) {
+  const fields = Object.fromEntries(
+    ['marketplace', 'partnerTag', 'region', 'host'].map((f) => [f, String(paapi?.[f] || '').trim()])
+  );
+  if (!fields.marketplace && !fields.partnerTag) return null;
+  return { name: 'default', ...fields, marketplace: fields.marketplace || 'www.amazon.com', isDefault: true };
+}
+
+// Version 1 named the PA API credentials without a profile.
+const LEGACY_SECRET_NAMES = {
+  'paapi.accessKey': credentialSecrets('default').accessKey,
+  'paapi.secretKey': credentialSecrets('default').secretKey
+};
+
+// Check the bundle's shape and open its secrets. Returns the settings,
+// PA API profiles and decrypted secrets it holds.
+function readBundle(bundle, passphrase) {
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw configError(400, `Not a configuration bundle (format must be "${BUNDLE_FORMAT}")`);
+  }
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) {
+    throw configError(400, 'Bundle has no valid version');
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw configError(400, `Bundle version ${bundle.version} is newer than this release supports (${BUNDLE_VERSION})`);
+  }
+  if (!Array.isArray(bundle.settings)) throw configError(400, 'Bundle settings must be an array');
+  const legacy = bundle.version === 1;
+
+  const settings = [];
+  for (const s of bundle.settings) {
+    if (!s || typeof s.section !== 'string' || typeof s.name !== 'string' || typeof s.value !== 'string') {
+      throw configError(400, 'Bundle settings must be { section, name, value } strings');
+    }
+    if (legacy && s.section === 'paapi') continue;
+    settings.push({ section: s.section, name: s.name, value: s.value.trim() });
+  }
+
+  let profiles;
+  if (legacy) {
+    profiles = [legacyProfile(bundle.paapi)].filter(Boolean);
+  } else {
+    if (!Array.isArray(bundle.paapiProfiles)) throw configError(400, 'Bundle paapiProfiles must be an array');
+    profiles = bundle.paapiProfiles.map((p) => {
+      if (!p || typeof p.name !== 'string') throw configError(400, 'Bundle paapiProfiles need a name');
+      const text = (value) => (typeof value === 'string' ? value.trim() : '');
+      return {
+        name: text(p.name).toLowerCase(),
+        marketplace: text(p.marketplace).toLowerCase(),
+        partnerTag: text(p.partnerTag),
+        region: text(p.region) || null,
+        host: text(p.host).toLowerCase() || null,
+        isDefault: !!p.isDefault
+      };
+    });
+  }
+
+  const sealed = bundle.secrets || {};
+  const cipher = passphraseCipher(passphrase, sealed.kdf);
+  try {
+    if (cipher.decrypt(sealed.check) !== CHECK_PLAINTEXT) throw new Error();
+  } catch {
+    throw configError(400, 'Wrong passphrase for this bundle');
+  }
+  const secrets = new Map();
+  for (const [name, value] of Object.entries(sealed.values || {})) {
+    try {
+      secrets.set((legacy && LEGACY_SECRET_NAMES[name]) || name, cipher.decrypt(value));
+    } catch (err) {
+      throw configError(400, `Secret "${name}" cannot be decrypted: ${err.message}`);
+    }
+  }
+
+  return { settings, profiles, secrets };
+}
+
+/**
+ * Compare a bundle with the current configuration and, unless dryRun,
+ * apply it. Returns
+ *   { mode, dryRun, applied, bundle: { version, exportedAt },
+ *     settings: { added, changed, removed, unchanged },
+ *     profiles: { added, changed, removed, unchanged },
+ *     secrets:  { added, changed, removed, unchanged },
+ *     invalid:  [{ section, name, error }] }
+ * where settings list { section, name, value } (changed: before/after),
+ * profiles list names (changed: { name, fields }) and secrets list names
+ * only; secret values never leave the server. Invalid profiles are
+ * reported under the section "paapi-profile".
+ */
+async function importConfig({ bundle, passphrase, mode = 'merge', dryRun = true }) {
+  if (!IMPORT_MODES.includes(mode)) {
+    throw configError(400, `mode must be one of ${IMPORT_MODES.join(', ')}`);
+  }
+  const incoming = readBundle(bundle, passphrase);
+
+  // ----- settings -----
+  // Empty values (older PA API configs stored unset fields as "") count as unset.
+  const current = new Map(
+    (await listSettingsAsync()).filter((s) => s.value !== '').map((s) => [settingKey(s.section, s.name), s])
+  );
+  const settings = { added: [], changed: [], removed: [], unchanged: 0 };
+  const invalid = [];
+  const upsertSettings = [];
+  const seenSettings = new Set();
+
+  for (const s of incoming.settings) {
+    const key = settingKey(s.section, s.name);
+    seenSettings.add(key);
+    const error = validateSetting(s.section, s.name, s.value);
+    if (error) {
+      invalid.push({ section: s.section, name: s.name, error });
+      continue;
+    }
+    const value = normalizeSetting(s.section, s.name, s.value);
+    const before = current.get(key);
+    if (!before) settings.added.push({ section: s.section, name: s.name, value });
+    else if (before.value !== value) settings.changed.push({ section: s.section, name: s.name, before: before.value, after: value });
+    else {
+      settings.unchanged++;
+      continue;
+    }
+    upsertSettings.push({ section: s.section, name: s.name, value });
+  }
+  if (mode === 'replace') {
+    for (const [key, s] of current) {
+      if (!seenSettings.has(key)) settings.removed.push({ section: s.section, name: s.name, value: s.value });
+    }
+  }
+
+  // ----- PA API profiles -----
+  const currentProfiles = new Map((await listProfiles()).map((p) => [p.name, p]));
+  const profiles = { added: [], changed: [], removed: [], unchanged: 0 };
+  const upsertProfiles = [];
+  const seenProfiles = new Set();
+
+  for (const p of incoming.profiles) {
+    if (seenProfiles.has(p.name)) {
+      invalid.push({ section: 'paapi-profile', name: p.name, error: `profile ${p.name} is listed twice` });
+      continue;
+    }
+    seenProfiles.add(p.name);
+    const error = checkProfile(p);
+    if (error) {
+      invalid.push({ section: 'paapi-profile', name: p.name, error: `profile ${p.name}: ${error}` });
+      continue;
+    }
+    const before = currentProfiles.get(p.name);
+    // A bundle can make a profile the default, but not take that away:
+    // some profile is always the default.
+    const fields = before
+      ? PROFILE_FIELDS.filter((f) => (f === 'isDefault' ? p.isDefault && !before.isDefault : before[f] !== p[f]))
+      : [];
+    if (!before) profiles.added.push(p.name);
+    else if (fields.length) profiles.changed.push({ name: p.name, fields });
+    else {
+      profiles.unchanged++;
+      continue;
+    }
+    upsertProfiles.push(p);
+  }
+  if (mode === 'replace') {
+    for (const name of currentProfiles.keys()) {
+      if (!seenProfiles.has(name)) profiles.removed.push(name);
+    }
+  }
+
+  // ----- secrets -----
+  const currentSecrets = await listSecretsAsync();
+  const secrets = { added: [], changed: [], removed: [], unchanged: 0 };
+  const upsertSecrets = [];
+
+  for (const [name, value] of incoming.secrets) {
+    const row = currentSecrets.find((r) => r.name === name);
+    let before = null;
+    try {
+      before = row ? decryptSecret(row.value_encrypted) : null;
+    } catch {
+      // an unreadable secret is replaced by the bundle's value
+    }
+    if (row && before === value) {
+      secrets.unchanged++;
+      continue;
+    }
+    (row ? secrets.changed : secrets.added).push(name);
+    upsertSecrets.push({ name, value });
+  }
+  if (mode === 'replace') {
+    for (const row of currentSecrets) {
+      if (!incoming.secrets.has(row.name)) secrets.removed.push(row.name);
+    }
+  }
+
+  const plan = {
+    mode,
+    dryRun: !!dryRun,
+    applied: false,
+    bundle: { version: bundle.version, exportedAt: bundle.exportedAt || null },
+    settings,
+    profiles,
+    secrets,
+    invalid
+  };
+  if (dryRun) return plan;
+
+  if (invalid.length) {
+    throw configError(400, `Bundle has ${invalid.length} invalid entr${invalid.length === 1 ? 'y' : 'ies'}; nothing was imported`);
+  }
+  let encrypted;
+  try {
+    encrypted = upsertSecrets.map(({ name, value }) => ({ name, valueEncrypted: encryptSecret(value) }));
+  } catch (err) {
+    throw configError(400, `Cannot store the bundle's secrets: ${err.message}`);
+  }
+  await applyConfigChangesAsync({
+    settings: { upsert: upsertSettings, remove: settings.removed },
+    secrets: { upsert: encrypted, remove: secrets.removed },
+    profiles: { upsert: upsertProfiles, remove: profiles.removed }
+  });
+  return { ...plan, applied: true };
+}
+
+export { BUNDLE_FORMAT, BUNDLE_VERSION, IMPORT_MODES, exportConfig, importConfig };
@@ -0,0 +1,126 @@
+// Five-field cron expressions evaluated in server local time:
+//
+//   minute hour day-of-month month day-of-week
+//
+// Fields accept `*`, numbers, ranges (1-5), lists (1,15) and steps (*/15,
+// 8-18/2). Day-of-week is 0-6 with 0 (or 7) = Sunday. As in classic cron,
+// when both day fields are restricted a day matches if either one does.
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MACROS = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+// Give up looking for a match after this many days (e.g. "0 0 31 2 *").
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(text, { name, min, max }) {
+  const values = new Set();
+
+  for (const part of text.split(',')) {
+    const m = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`invalid ${name} "${part}"`);
+
+    let lo = min;
+    let hi = max;
+    if (m[1] !== '*') {
+      const [a, b] = m[1].split('-').map(Number);
+      lo = a;
+      hi = b === undefined ? (m[2] ? max : a) : b;
+    }
+    const step = m[2] ? Number(m[2]) : 1;
+
+    if (lo < min || hi > max || lo > hi || step < 1) {
+      throw new Error(`${name} out of range "${part}" (${min}-${max})`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws an Error with a readable message when
+ * the expression is invalid.
+ */
+function parseCron(expr) {
+  const source = String(expr || '').trim();
+  const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minute, hour, dom, month, dow] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (dow.has(7)) {
+    dow.delete(7);
+    dow.add(0);
+  }
+
+  return {
+    minute,
+    hour,
+    dom,
+    month,
+    dow,
+    domAny: fields[2] === '*',
+    dowAny: fields[4] === '*'
+  };
+}
+
+function dayMatches(cron, date) {
+  const domOk = cron.dom.has(date.getDate());
+  const dowOk = cron.dow.has(date.getDay());
+  if (cron.domAny && cron.dowAny) return true;
+  if (cron.domAny) return dowOk;
+  if (cron.dowAny) return domOk;
+  return domOk || dowOk;
+}
+
+/**
+ * The first time strictly after `from` that matches the parsed
+ * expression, or null if none is found within the lookahead window.
+ */
+function nextRun(cron, from = new Date()) {
+  const d = new Date(from.getTime());
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+
+  const limit = from.getTime() + MAX_LOOKAHEAD_DAYS * 86400000;
+  while (d.getTime() <= limit) {
+    if (!cron.month.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(cron, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return d;
+  }
+  return null;
+}
+
+export { parseCron, nextRun };
@@ -0,0 +1,155 @@
+// Shared export formats for result sets. Used by POST /api/export, the
+// job export endpoint and the pipeline `export` step.
+//
+// Datasets and their rows:
+//   mappings    { asin, aaid, strategy }      ASIN & AAID extractor
+//   expansions  { url, finalUrl, asin, error } short URL expander
+//   items       raw PA API items, flattened to ITEM_COLUMNS
+//   audit       audit_log rows, diff as JSON text
+//
+// Formats:
+//   csv       RFC 4180 CSV (LF line endings)
+//   xlsx-csv  CSV that opens cleanly in Excel: UTF-8 BOM, CRLF, digit-only
+//             values kept as text, formula-like values neutralised
+//   json      pretty-printed JSON array of the (flattened) rows
+//   aaid-txt  legacy aaid.txt: ASIN=AAID, one per line (mappings only)
+//   asin-txt  legacy asin.txt: comma-separated unique ASIN list
+
+const ITEM_COLUMNS = [
+  'asin',
+  'title',
+  'brand',
+  'price',
+  'currency',
+  'availability',
+  'rating',
+  'reviews',
+  'url',
+  'features'
+];
+
+const DATASETS = {
+  mappings: {
+    columns: ['asin', 'aaid', 'strategy'],
+    row: (m) => ({ asin: m.asin, aaid: m.aaid, strategy: m.strategy || '' })
+  },
+  expansions: {
+    columns: ['url', 'finalUrl', 'asin', 'error'],
+    row: (r) => ({ url: r.url, finalUrl: r.finalUrl || '', asin: r.asin || '', error: r.error || '' })
+  },
+  items: {
+    columns: ITEM_COLUMNS,
+    row: flattenItem
+  },
+  audit: {
+    columns: ['id', 'createdAt', 'actor', 'action', 'targetType', 'target', 'diff'],
+    row: (e) => ({ ...e, diff: e.diff ? JSON.stringify(e.diff) : '' })
+  }
+};
+
+const FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  'xlsx-csv': { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json', extension: 'json' },
+  'aaid-txt': { contentType: 'text/plain; charset=utf-8', filename: 'aaid.txt' },
+  'asin-txt': { contentType: 'text/plain; charset=utf-8', filename: 'asin.txt' }
+};
+
+const DATASET_TYPES = Object.keys(DATASETS);
+const FORMAT_TYPES = Object.keys(FORMATS);
+
+// Flatten a PA API item into one export row.
+function flattenItem(item) {
+  const info = item.ItemInfo || {};
+  const listing = item.Offers?.Listings?.[0];
+  return {
+    asin: item.ASIN,
+    title: info.Title?.DisplayValue || '',
+    brand: info.ByLineInfo?.Brand?.DisplayValue || '',
+    price: listing?.Price?.Amount ?? '',
+    currency: listing?.Price?.Currency || '',
+    availability: listing?.Availability?.Message || listing?.Availability?.Type || '',
+    rating: item.CustomerReviews?.StarRating?.Value ?? '',
+    reviews: item.CustomerReviews?.Count ?? '',
+    url: item.DetailPageURL || '',
+    features: (info.Features?.DisplayValues || []).join(' | ')
+  };
+}
+
+const csvCell = (v) => `"${String(v ?? '').replace(/"/g, '""')}"`;
+
+// Excel drops leading zeros from ISBN-style ASINs and evaluates cells
+// starting with = + - @ as formulas.
+const excelCell = (v) => {
+  const text = String(v ?? '');
+  if (/^\d+$/.test(text)) return `="${text}"`;
+  if (/^[=+\-@]/.test(text)) return csvCell(`'${text}`);
+  return csvCell(text);
+};
+
+function toCsv(columns, rows, cell, eol) {
+  return [columns, ...rows.map((r) => columns.map((c) => r[c]))]
+    .map((line) => line.map(cell).join(','))
+    .join(eol);
+}
+
+const uniqueAsins = (rows) =>
+  Array.from(new Set(rows.map((r) => String(r.asin || '').trim()).filter(Boolean)));
+
+// Send a rendered export as a file download.
+function sendExport(res, file) {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  // Lets the cross-origin frontend read the file name.
+  res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+  res.send(file.content);
+}
+
+/**
+ * Render `rows` of a dataset in a format. Returns
+ * { filename, contentType, content }, or { error } for an unknown
+ * dataset/format or a format the dataset does not support.
+ */
+function renderExport(dataset, format, rows, { basename = dataset } = {}) {
+  const def = DATASETS[dataset];
+  if (!def) return { error: `dataset must be one of: ${DATASET_TYPES.join(', ')}` };
+  const fmt = FORMATS[format];
+  if (!fmt) return { error: `format must be one of: ${FORMAT_TYPES.join(', ')}` };
+  if (!Array.isArray(rows)) return { error: 'rows must be an array' };
+
+  const flat = rows.filter(Boolean).map(def.row);
+  let content;
+
+  switch (format) {
+    case 'csv':
+      content = toCsv(def.columns, flat, csvCell, '\n');
+      break;
+    case 'xlsx-csv':
+      content = '\uFEFF' + toCsv(def.columns, flat, excelCell, '\r\n');
+      break;
+    case 'json':
+      content = JSON.stringify(flat, null, 2);
+      break;
+    case 'aaid-txt':
+      if (dataset !== 'mappings') return { error: 'aaid-txt is only available for mappings' };
+      content = flat.map((m) => `${m.asin}=${m.aaid}`).join('\n');
+      break;
+    case 'asin-txt':
+      content = uniqueAsins(flat).join(',');
+      break;
+  }
+
+  return {
+    filename: fmt.filename || `${basename}.${fmt.extension}`,
+    contentType: fmt.contentType,
+    content
+  };
+}
+
+export {
+  DATASET_TYPES,
+  FORMAT_TYPES,
+  flattenItem,
+  renderExport,
+  sendExport
+};
@@ -0,0 +1,81 @@
+import { load } from 'cheerio';
+
+const ASIN_BUTTON = 'button.input.tocopy[data-prefix="ASIN"]';
+const ID_BUTTON = 'button.input.tocopy[data-prefix="ID"]';
+const TILE_SELECTOR = '.product_tile_editorbar, .product_tile';
+
+/**
+ * Extract ASIN -> AAID pairs from SELJI product editor HTML.
+ *
+ * Strategies, in order:
+ *   tile   ASIN and ID buttons inside the same product tile
+ *          (`.product_tile_editorbar`, `.product_tile`). Innermost tiles
+ *          are paired first; a tile is only used when it holds the same
+ *          number of ASIN and ID buttons.
+ *   index  the remaining buttons, paired by their global order.
+ *
+ * Mirrors `extractMappings` in src/components/AsinAaidExtractor.tsx.
+ * Returns { mappings: { asin, aaid, strategy }[], counts, unpaired };
+ * mappings are unique by ASIN (first pair wins) in document order.
+ */
+function extractAsinAaid(html) {
+  const $ = load(String(html || ''));
+  const asinButtons = $(ASIN_BUTTON).toArray();
+  const idButtons = $(ID_BUTTON).toArray();
+  const order = new Map($('button').toArray().map((el, i) => [el, i]));
+  const value = (el) => ($(el).attr('value') || '').trim();
+
+  const used = new Set();
+  const pairs = [];
+
+  const tiles = $(TILE_SELECTOR)
+    .toArray()
+    .sort((a, b) => $(b).parents().length - $(a).parents().length);
+
+  for (const tile of tiles) {
+    const asins = $(tile).find(ASIN_BUTTON).toArray().filter((el) => !used.has(el));
+    const ids = $(tile).find(ID_BUTTON).toArray().filter((el) => !used.has(el));
+    if (!asins.length || asins.length !== ids.length) continue;
+
+    asins.forEach((el, i) => {
+      pairs.push({ asinEl: el, idEl: ids[i], strategy: 'tile' });
+      used.add(el);
+      used.add(ids[i]);
+    });
+  }
+
+  const restAsins = asinButtons.filter((el) => !used.has(el));
+  const restIds = idButtons.filter((el) => !used.has(el));
+  const len = Math.min(restAsins.length, restIds.length);
+  for (let i = 0; i < len; i++) {
+    pairs.push({ asinEl: restAsins[i], idEl: restIds[i], strategy: 'index' });
+  }
+
+  pairs.sort((a, b) => order.get(a.asinEl) - order.get(b.asinEl));
+
+  const seen = new Set();
+  const mappings = [];
+  for (const p of pairs) {
+    const asin = value(p.asinEl);
+    const aaid = value(p.idEl);
+    if (!asin || !aaid || seen.has(asin)) continue;
+    seen.add(asin);
+    mappings.push({ asin, aaid, strategy: p.strategy });
+  }
+
+  return {
+    mappings,
+    counts: {
+      asinButtons: asinButtons.length,
+      idButtons: idButtons.length,
+      tile: mappings.filter((m) => m.strategy === 'tile').length,
+      index: mappings.filter((m) => m.strategy === 'index').length
+    },
+    unpaired: {
+      asins: restAsins.slice(len).map(value).filter(Boolean),
+      ids: restIds.slice(len).map(value).filter(Boolean)
+    }
+  };
+}
+
+export { extractAsinAaid };
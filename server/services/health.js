@@ -0,0 +1,297 @@
+// Component health checks for GET /api/system/health.
+//
+// Each check returns { status, message, details?, durationMs } with status
+//   ok     working as expected
+//   warn   working, but needs attention (not configured, running low)
+//   fail   broken
+// The overall status is "down" when a critical check (database, disk)
+// fails: the service cannot work. Any other failure or warning, e.g. no
+// outbound network for the probe, makes it "degraded"; else "ok".
+// Key ids and the names of secrets that fail to decrypt are only
+// reported when asked for (admins); otherwise the encryption check
+// carries counts only.
+//
+// Settings (section "health"):
+//   probeUrl        URL fetched to prove outbound HTTP works
+//                   (default https://www.amazon.com/, "off" to skip)
+//   probeTimeoutMs  probe timeout (default 5000)
+//   walWarnMb       warn when the WAL file is larger (default 64)
+//   minFreeDiskMb   fail below this much free disk next to the DB, warn
+//                   below twice as much (default 1024)
+
+import fs from 'fs';
+import path from 'path';
+import fetch from 'node-fetch';
+import { dbPath, listSettings, probeDbWrite, getDbStorageInfo } from '../db.js';
+import { verifySecrets } from './secrets.js';
+import { listProfiles, loadPaapiConfig } from './paapi.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/health');
+
+const HEALTH_DEFAULTS = {
+  probeUrl: 'https://www.amazon.com/',
+  probeTimeoutMs: 5000,
+  walWarnMb: 64,
+  minFreeDiskMb: 1024
+};
+
+// The probe leaves the network, so its result is reused for a while
+// rather than refetched on every health poll.
+const PROBE_CACHE_MS = 60000;
+
+const MB = 1024 * 1024;
+
+// ---------- Promisified wrappers ----------
+const probeDbWriteAsync = () =>
+  new Promise((resolve, reject) => {
+    probeDbWrite((err, at) => (err ? reject(err) : resolve(at)));
+  });
+
+const getDbStorageInfoAsync = () =>
+  new Promise((resolve, reject) => {
+    getDbStorageInfo((err, info) => (err ? reject(err) : resolve(info)));
+  });
+
+const loadHealthSettings = () =>
+  new Promise((resolve) => {
+    listSettings('health', (err, rows) => {
+      if (err) log.error('DB error (loadHealthSettings)', { err });
+      const values = {};
+      for (const { name, value } of rows || []) values[name] = value;
+
+      const number = (name) => {
+        const n = Number(values[name]);
+        return values[name] !== undefined && Number.isFinite(n) && n >= 0 ? n : HEALTH_DEFAULTS[name];
+      };
+
+      resolve({
+        probeUrl: (values.probeUrl || '').trim() || HEALTH_DEFAULTS.probeUrl,
+        probeTimeoutMs: number('probeTimeoutMs'),
+        walWarnMb: number('walWarnMb'),
+        minFreeDiskMb: number('minFreeDiskMb')
+      });
+    });
+  });
+
+const mb = (bytes) => Math.round((bytes / MB) * 10) / 10;
+
+// ---------- Checks ----------
+
+async function checkDatabase() {
+  const checkedAt = await probeDbWriteAsync();
+  return { status: 'ok', message: 'Read/write', details: { path: dbPath, checkedAt } };
+}
+
+async function checkStorage(settings) {
+  const info = await getDbStorageInfoAsync();
+  const size = (file) => {
+    try {
+      return fs.statSync(file).size;
+    } catch {
+      return 0;
+    }
+  };
+  const dbBytes = size(dbPath);
+  const walBytes = size(`${dbPath}-wal`);
+  const details = {
+    journalMode: info.journalMode,
+    dbMb: mb(dbBytes),
+    walMb: mb(walBytes),
+    freePages: info.freelistCount
+  };
+
+  if (info.journalMode !== 'wal') {
+    return { status: 'warn', message: `Journal mode is ${info.journalMode}, expected wal`, details };
+  }
+  if (settings.walWarnMb && walBytes > settings.walWarnMb * MB) {
+    return {
+      status: 'warn',
+      message: `WAL is ${mb(walBytes)} MB (over ${settings.walWarnMb} MB); checkpoints may be blocked by long readers`,
+      details
+    };
+  }
+  return { status: 'ok', message: `DB ${mb(dbBytes)} MB, WAL ${mb(walBytes)} MB`, details };
+}
+
+async function checkDisk(settings) {
+  const dir = path.dirname(dbPath);
+  const stats = await fs.promises.statfs(dir);
+  const freeBytes = stats.bavail * stats.bsize;
+  const totalBytes = stats.blocks * stats.bsize;
+  const details = { path: dir, freeMb: mb(freeBytes), totalMb: mb(totalBytes) };
+  const message = `${mb(freeBytes)} MB free of ${mb(totalBytes)} MB`;
+
+  if (freeBytes < settings.minFreeDiskMb * MB) {
+    return { status: 'fail', message: `${message} (below ${settings.minFreeDiskMb} MB)`, details };
+  }
+  if (freeBytes < settings.minFreeDiskMb * 2 * MB) {
+    return { status: 'warn', message: `${message} (running low)`, details };
+  }
+  return { status: 'ok', message, details };
+}
+
+async function checkEncryption() {
+  const result = await verifySecrets();
+  const details = {
+    keyIds: result.keyIds,
+    activeKeyId: result.activeKeyId,
+    secrets: result.total,
+    legacy: result.legacy,
+    failed: result.failed
+  };
+
+  if (!result.activeKeyId) {
+    return {
+      status: result.total ? 'fail' : 'warn',
+      message: result.total
+        ? `No encryption key configured; ${result.total} stored secret(s) are unreadable`
+        : 'No encryption key configured (set SECRET_ENC_KEY or SECRET_ENC_KEYS)',
+      details
+    };
+  }
+  if (!result.roundTrip) {
+    return { status: 'fail', message: 'The active key failed an encrypt/decrypt round trip', details };
+  }
+  if (result.failed.length) {
+    return { status: 'fail', message: `${result.failed.length} secret(s) cannot be decrypted`, details };
+  }
+  if (result.legacy) {
+    return { status: 'warn', message: `${result.legacy} secret(s) still use the unversioned format; re-encrypt them`, details };
+  }
+  return { status: 'ok', message: `Active key works, ${result.total} secret(s) readable`, details };
+}
+
+// The encryption check without key ids or secret names.
+function summarizeEncryption({ details, ...result }) {
+  if (!details) return result;
+  return {
+    ...result,
+    details: {
+      keys: details.keyIds.length,
+      secrets: details.secrets,
+      legacy: details.legacy,
+      failed: details.failed.length
+    }
+  };
+}
+
+async function checkPaapiConfig() {
+  const profiles = await listProfiles();
+  if (!profiles.length) {
+    return { status: 'warn', message: 'No PA API profile configured', details: { profiles: [] } };
+  }
+
+  const summaries = profiles.map((p) => ({
+    name: p.name,
+    isDefault: p.isDefault,
+    marketplace: p.marketplace,
+    host: p.endpoint.host,
+    missing: [
+      !p.accessKeySet && 'accessKey',
+      !p.secretKeySet && 'secretKey',
+      !p.partnerTag && 'partnerTag'
+    ].filter(Boolean)
+  }));
+  const details = { profiles: summaries };
+
+  // Complete profiles must load, which proves their credentials decrypt.
+  for (const p of summaries.filter((x) => !x.missing.length)) {
+    try {
+      await loadPaapiConfig(p.name);
+    } catch (err) {
+      return { status: 'fail', message: err.message, details };
+    }
+  }
+  const incomplete = summaries.filter((p) => p.missing.length);
+  if (incomplete.length) {
+    const list = incomplete.map((p) => `${p.name} (${p.missing.join(', ')})`).join('; ');
+    return { status: 'warn', message: `Not configured: ${list}`, details };
+  }
+  const def = summaries.find((p) => p.isDefault) || summaries[0];
+  return {
+    status: 'ok',
+    message: `${summaries.length} profile(s); default ${def.name}: ${def.marketplace} via ${def.host}`,
+    details
+  };
+}
+
+let probeCache = null;
+
+async function checkOutbound(settings) {
+  const url = settings.probeUrl;
+  if (url === 'off') return { status: 'ok', message: 'Probe disabled', details: { url: null } };
+  if (probeCache && probeCache.url === url && Date.now() - probeCache.at < PROBE_CACHE_MS) {
+    return probeCache.result;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.probeTimeoutMs);
+  const started = Date.now();
+  let result;
+  try {
+    // Any HTTP response proves DNS, routing and TLS work.
+    const resp = await fetch(url, { method: 'HEAD', redirect: 'manual', signal: controller.signal });
+    result = {
+      status: 'ok',
+      message: `HTTP ${resp.status} in ${Date.now() - started} ms`,
+      details: { url, httpStatus: resp.status, checkedAt: new Date().toISOString() }
+    };
+  } catch (err) {
+    result = {
+      status: 'fail',
+      message: err.name === 'AbortError' ? `No response within ${settings.probeTimeoutMs} ms` : err.message,
+      details: { url, checkedAt: new Date().toISOString() }
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+
+  probeCache = { url, at: Date.now(), result };
+  return result;
+}
+
+const CHECKS = {
+  database: checkDatabase,
+  storage: checkStorage,
+  disk: checkDisk,
+  encryption: checkEncryption,
+  paapi: checkPaapiConfig,
+  outbound: checkOutbound
+};
+
+// Checks whose failure means the service is down rather than degraded.
+const CRITICAL_CHECKS = ['database', 'disk'];
+
+/**
+ * Run every check; a check that throws is reported as failed with its
+ * error. Returns { status, checks: { <name>: result } }.
+ */
+/**
+ * Run every check. { status, checks }; with includeSecretDetails the
+ * encryption check names key ids and the secrets that fail to decrypt.
+ */
+async function runHealthChecks({ includeSecretDetails = false } = {}) {
+  const settings = await loadHealthSettings();
+  const entries = await Promise.all(
+    Object.entries(CHECKS).map(async ([name, check]) => {
+      const started = Date.now();
+      let result;
+      try {
+        result = await check(settings);
+      } catch (err) {
+        log.error(`Health check ${name} failed`, { err });
+        result = { status: 'fail', message: err.message || String(err) };
+      }
+      return [name, { ...result, durationMs: Date.now() - started }];
+    })
+  );
+
+  const checks = Object.fromEntries(entries);
+  if (!includeSecretDetails) checks.encryption = summarizeEncryption(checks.encryption);
+  const critical = entries.some(([name, r]) => r.status === 'fail' && CRITICAL_CHECKS.includes(name));
+  const status = critical ? 'down' : entries.some(([, r]) => r.status !== 'ok') ? 'degraded' : 'ok';
+  return { status, checks };
+}
+
+export { HEALTH_DEFAULTS, runHealthChecks };
@@ -0,0 +1,484 @@
+import { EventEmitter } from 'events';
+import {
+  createJob,
+  getJob,
+  listJobs,
+  claimNextJob,
+  updateJobProgress,
+  finishJob,
+  requeueRunningJobs,
+  pruneLogs,
+  getPipeline,
+  createPipelineRun,
+  finishPipelineRun,
+  failInterruptedPipelineRuns
+} from '../db.js';
+import { expandUrls } from './amazon.js';
+import { GET_ITEMS_MAX_IDS, loadPaapiConfig, listProfiles, getItems } from './paapi.js';
+import { loadTrackingSettings, activeTrackedAsins } from './tracking.js';
+import { loadRetentionPolicy, applyRetention } from './logRetention.js';
+import { createBackup } from './backup.js';
+import { runPipeline } from './pipelines.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/jobs');
+
+// ---------- Promisified wrappers ----------
+const createJobAsync = (type, input) =>
+  new Promise((resolve, reject) => {
+    createJob(type, input, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const getJobAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getJob(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const listJobsAsync = (options) =>
+  new Promise((resolve, reject) => {
+    listJobs(options, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const claimNextJobAsync = () =>
+  new Promise((resolve, reject) => {
+    claimNextJob((err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const updateJobProgressAsync = (id, progress, result) =>
+  new Promise((resolve, reject) => {
+    updateJobProgress(id, progress, result, (err) => (err ? reject(err) : resolve()));
+  });
+
+const finishJobAsync = (id, outcome) =>
+  new Promise((resolve, reject) => {
+    finishJob(id, outcome, (err) => (err ? reject(err) : resolve()));
+  });
+
+const requeueRunningJobsAsync = () =>
+  new Promise((resolve, reject) => {
+    requeueRunningJobs((err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const getPipelineAsync = (id) =>
+  new Promise((resolve, reject) => {
+    getPipeline(id, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const createPipelineRunAsync = (pipelineId, input) =>
+  new Promise((resolve, reject) => {
+    createPipelineRun(pipelineId, input, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const finishPipelineRunAsync = (id, result) =>
+  new Promise((resolve, reject) => {
+    finishPipelineRun(id, result, (err) => (err ? reject(err) : resolve()));
+  });
+
+const failInterruptedPipelineRunsAsync = () =>
+  new Promise((resolve, reject) => {
+    failInterruptedPipelineRuns((err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const pruneLogsAsync = (before) =>
+  new Promise((resolve, reject) => {
+    pruneLogs(before, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const TERMINAL_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+// Emits `job:<id>` with the mapped job after every state change.
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Ids of running jobs that were asked to stop.
+const cancelRequests = new Set();
+
+const parseJson = (text, fallback = null) => {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const mapJob = (row) => ({
+  id: row.id,
+  type: row.type,
+  status: row.status,
+  input: parseJson(row.input),
+  progress: parseJson(row.progress, { done: 0, total: 0 }),
+  result: parseJson(row.result),
+  error: row.error,
+  created_at: row.created_at,
+  started_at: row.started_at,
+  finished_at: row.finished_at,
+  updated_at: row.updated_at
+});
+
+async function publish(id) {
+  const row = await getJobAsync(id);
+  if (row) jobEvents.emit(`job:${id}`, mapJob(row));
+}
+
+/**
+ * Job handlers by type. A handler receives the job input and a context
+ * with `progress(done, total, partialResult?)` and `isCancelled()`, and
+ * resolves with the final result. `role` is the role needed to submit or
+ * cancel the job (default editor): jobs that do what an admin-only route
+ * does need admin too.
+ */
+const HANDLERS = {
+  'expand-urls': {
+    validate(input) {
+      if (!input || !Array.isArray(input.urls) || !input.urls.length) {
+        return 'input.urls must be a non-empty array';
+      }
+      return null;
+    },
+    async run(input, ctx) {
+      const { urls } = input;
+      const partial = new Array(urls.length);
+      let done = 0;
+      await ctx.progress(0, urls.length, { results: [] });
+
+      // URLs finish out of order under the concurrency pool; partial
+      // results are reported in input order.
+      const results = await expandUrls(urls, {
+        isCancelled: ctx.isCancelled,
+        onResult: async (r, index) => {
+          partial[index] = r;
+          done += 1;
+          await ctx.progress(done, urls.length, { results: partial.filter(Boolean) });
+        }
+      });
+
+      return { results };
+    }
+  },
+
+  'paapi-get-items': {
+    validate(input) {
+      if (!input || !Array.isArray(input.asins) || !input.asins.length) {
+        return 'input.asins must be a non-empty array';
+      }
+      if (input.profile !== undefined && input.profile !== null && typeof input.profile !== 'string') {
+        return 'input.profile must be a profile name';
+      }
+      return null;
+    },
+    async run(input, ctx) {
+      const cfg = await loadPaapiConfig(input.profile);
+      // Progress is counted in GetItems chunks of 10 ASINs.
+      const result = await getItems(cfg, input.asins, {
+        isCancelled: ctx.isCancelled,
+        onChunk: (done, total) => ctx.progress(done, total)
+      });
+      return { profile: cfg.profile, ...result };
+    }
+  },
+
+  // Progress is counted in steps; the run id is reported from the start,
+  // so it is known even when the run fails.
+  'run-pipeline': {
+    validate(input) {
+      if (!input || !Number.isInteger(input.pipelineId)) {
+        return 'input.pipelineId must be a pipeline id';
+      }
+      if (input.input !== undefined && (typeof input.input !== 'object' || input.input === null)) {
+        return 'input.input must be an object';
+      }
+      return null;
+    },
+    async run(input, ctx) {
+      const row = await getPipelineAsync(input.pipelineId);
+      if (!row) throw new Error(`Pipeline ${input.pipelineId} not found`);
+
+      const steps = parseJson(row.steps, []);
+      const runInput = input.input || {};
+      const runId = await createPipelineRunAsync(row.id, runInput);
+      await ctx.progress(0, steps.length, { runId });
+
+      const result = await runPipeline(steps, runInput, {
+        isCancelled: ctx.isCancelled,
+        onStep: (done, total) => ctx.progress(done, total, { runId })
+      });
+      await finishPipelineRunAsync(runId, result);
+      if (result.status === 'failed') throw new Error(result.error);
+      return { runId, status: result.status };
+    }
+  },
+
+  'refresh-prices': {
+    validate() {
+      return null;
+    },
+    // Each marketplace with tracked ASINs is refreshed through its own
+    // profile; one whose credentials fail is reported and skipped.
+    async run(input, ctx) {
+      const targets = await priceRefreshTargets();
+      const totalChunks = targets.reduce((n, t) => n + Math.ceil(t.asins.length / GET_ITEMS_MAX_IDS), 0);
+      const result = { checked: 0, returned: 0, statuses: [], marketplaces: [] };
+
+      let chunksDone = 0;
+      for (const target of targets) {
+        if (ctx.isCancelled()) break;
+        const summary = { marketplace: target.marketplace, profile: target.profile, checked: target.asins.length };
+        try {
+          const cfg = await loadPaapiConfig(target.profile);
+          // getItems records a price snapshot for every tracked ASIN it returns.
+          const { items, statuses } = await getItems(cfg, target.asins, {
+            isCancelled: ctx.isCancelled,
+            onChunk: (done) => ctx.progress(chunksDone + done, totalChunks)
+          });
+          summary.returned = items.length;
+          result.returned += items.length;
+          result.statuses.push(...statuses);
+        } catch (e) {
+          if (targets.length === 1) throw e;
+          summary.returned = 0;
+          summary.error = e.message;
+          log.warn(`Price refresh of ${target.marketplace} failed`, { profile: target.profile, err: e });
+        }
+        chunksDone += Math.ceil(target.asins.length / GET_ITEMS_MAX_IDS);
+        result.checked += target.asins.length;
+        result.marketplaces.push(summary);
+      }
+      return result;
+    }
+  },
+
+  'prune-logs': {
+    role: 'admin',
+    validate(input) {
+      const days = input && input.olderThanDays;
+      if (!Number.isFinite(days) || days < 1) {
+        return 'input.olderThanDays must be a number >= 1';
+      }
+      return null;
+    },
+    async run(input) {
+      const before = new Date(Date.now() - input.olderThanDays * 86400000).toISOString();
+      const deleted = await pruneLogsAsync(before);
+      return { deleted, before };
+    }
+  },
+
+  'apply-log-retention': {
+    role: 'admin',
+    validate() {
+      return null;
+    },
+    async run() {
+      return applyRetention();
+    }
+  },
+
+  // Admin-only like /system/backups: every backup also prunes old generations.
+  'backup-database': {
+    role: 'admin',
+    validate() {
+      return null;
+    },
+    async run() {
+      return createBackup('scheduled');
+    }
+  }
+};
+
+const JOB_TYPES = Object.keys(HANDLERS);
+
+// Role needed to submit or cancel a job of this type.
+const jobRole = (type) => HANDLERS[type]?.role || 'editor';
+
+// Error message for an unknown type or invalid input, otherwise null.
+function validateJobInput(type, input) {
+  const handler = HANDLERS[type];
+  if (!handler) return `unknown job type "${type}"`;
+  return handler.validate(input);
+}
+
+/**
+ * Queue a job. Returns `{ error }` for an unknown type or invalid input,
+ * otherwise `{ id }`.
+ */
+async function submitJob(type, input) {
+  const invalid = validateJobInput(type, input);
+  if (invalid) return { error: invalid };
+
+  const id = await createJobAsync(type, input);
+  await publish(id);
+  setImmediate(tick);
+  return { id };
+}
+
+async function getJobById(id) {
+  const row = await getJobAsync(id);
+  return row ? mapJob(row) : null;
+}
+
+/**
+ * Cancel a queued job immediately, or flag a running one so its handler
+ * stops at the next checkpoint. Returns the job, or null if not found.
+ */
+async function cancelJob(id) {
+  const row = await getJobAsync(id);
+  if (!row) return null;
+
+  if (row.status === 'queued') {
+    await finishJobAsync(id, { status: 'cancelled', error: 'Cancelled before start' });
+    await publish(id);
+  } else if (row.status === 'running') {
+    cancelRequests.add(id);
+  }
+  return getJobById(id);
+}
+
+async function runJob(row) {
+  const handler = HANDLERS[row.type];
+  const id = row.id;
+  const isCancelled = () => cancelRequests.has(id);
+
+  const ctx = {
+    isCancelled,
+    async progress(done, total, partialResult) {
+      await updateJobProgressAsync(id, { done, total }, partialResult);
+      await publish(id);
+    }
+  };
+
+  const started = Date.now();
+  log.info(`Job ${id} (${row.type}) started`, { jobId: id, type: row.type });
+  try {
+    if (!handler) throw new Error(`No handler for job type "${row.type}"`);
+    const result = await handler.run(parseJson(row.input, {}), ctx);
+    const status = isCancelled() ? 'cancelled' : 'succeeded';
+    await finishJobAsync(id, status === 'cancelled'
+      ? { status, result, error: 'Cancelled' }
+      : { status, result });
+    log.info(`Job ${id} (${row.type}) ${status}`, { jobId: id, type: row.type, durationMs: Date.now() - started });
+  } catch (e) {
+    log.error(`Job ${id} (${row.type}) failed`, { jobId: id, type: row.type, durationMs: Date.now() - started, err: e });
+    await finishJobAsync(id, { status: 'failed', error: e.message || 'Job failed' });
+  } finally {
+    cancelRequests.delete(id);
+  }
+  await publish(id);
+}
+
+let busy = false;
+
+// Run queued jobs one at a time until the queue is empty.
+async function tick() {
+  if (busy) return;
+  busy = true;
+  try {
+    let row = await claimNextJobAsync();
+    while (row) {
+      await publish(row.id);
+      await runJob(row);
+      row = await claimNextJobAsync();
+    }
+  } catch (e) {
+    log.error('Job worker error', { err: e });
+  } finally {
+    busy = false;
+  }
+}
+
+/**
+ * Start the worker loop. Jobs interrupted by a restart are re-queued and
+ * the queue is polled every `intervalMs` in case a submit was missed.
+ */
+async function startJobWorker({ intervalMs = 2000 } = {}) {
+  const interrupted = await failInterruptedPipelineRunsAsync();
+  if (interrupted) log.warn(`Closed ${interrupted} interrupted pipeline run(s)`, { interrupted });
+  const requeued = await requeueRunningJobsAsync();
+  if (requeued) log.info(`Re-queued ${requeued} interrupted job(s)`, { requeued });
+  setInterval(tick, intervalMs).unref();
+  setImmediate(tick);
+}
+
+/**
+ * Marketplaces with active tracked ASINs and the profile that refreshes
+ * each: the default profile where it covers the marketplace, else the
+ * first profile by name. Marketplaces without a profile are left alone.
+ */
+async function priceRefreshTargets() {
+  const targets = [];
+  const covered = new Set();
+  for (const profile of await listProfiles()) {
+    if (covered.has(profile.marketplace)) continue;
+    covered.add(profile.marketplace);
+    const asins = await activeTrackedAsins(profile.marketplace);
+    if (asins.length) targets.push({ marketplace: profile.marketplace, profile: profile.name, asins });
+  }
+  return targets;
+}
+
+/**
+ * Queue a `refresh-prices` job whenever the last one is older than
+ * tracking/intervalMinutes. The check runs every minute, so interval
+ * changes apply without a restart; an interval of 0 turns it off.
+ */
+async function checkPriceRefresh() {
+  try {
+    const { intervalMinutes } = await loadTrackingSettings();
+    if (!intervalMinutes) return;
+
+    const [last] = await listJobsAsync({ type: 'refresh-prices', limit: 1 });
+    if (last && !TERMINAL_STATUSES.includes(last.status)) return;
+    if (last && Date.now() - Date.parse(last.created_at) < intervalMinutes * 60000) return;
+
+    // Nothing to do until a PA API profile covers something tracked.
+    if (!(await priceRefreshTargets()).length) return;
+
+    await submitJob('refresh-prices', {});
+  } catch (e) {
+    log.error('Price refresh check failed', { err: e });
+  }
+}
+
+function startPriceTracker({ checkMs = 60000 } = {}) {
+  setInterval(checkPriceRefresh, checkMs).unref();
+}
+
+/**
+ * Queue an `apply-log-retention` job whenever the last one is older than
+ * logRetention/intervalMinutes (0 = off). Like the price check, interval
+ * changes apply without a restart.
+ */
+async function checkLogRetention() {
+  try {
+    const { intervalMinutes } = await loadRetentionPolicy();
+    if (!intervalMinutes) return;
+
+    const [last] = await listJobsAsync({ type: 'apply-log-retention', limit: 1 });
+    if (last && !TERMINAL_STATUSES.includes(last.status)) return;
+    if (last && Date.now() - Date.parse(last.created_at) < intervalMinutes * 60000) return;
+
+    await submitJob('apply-log-retention', {});
+  } catch (e) {
+    log.error('Log retention check failed', { err: e });
+  }
+}
+
+function startLogRetention({ checkMs = 60000 } = {}) {
+  setInterval(checkLogRetention, checkMs).unref();
+  setImmediate(checkLogRetention);
+}
+
+export {
+  JOB_TYPES,
+  TERMINAL_STATUSES,
+  jobEvents,
+  jobRole,
+  mapJob,
+  validateJobInput,
+  submitJob,
+  getJobById,
+  cancelJob,
+  startJobWorker,
+  startPriceTracker,
+  startLogRetention
+};
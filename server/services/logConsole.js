@@ -0,0 +1,44 @@
+// Console sink of the structured logger. It does not touch the database,
+// so code that runs before the database is ready (schema migrations) can
+// log in the same format; services/logger.js adds the `logs` table on top.
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+const isLogLevel = (level) => LOG_LEVELS.includes(level);
+
+const DEFAULT_MIN_LEVEL = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info';
+
+const CONSOLE = {
+  debug: console.log,
+  info: console.log,
+  warn: console.warn,
+  error: console.error
+};
+
+// Print one entry; `context` is already flattened (see logger.js).
+function printLog(source, level, message, context) {
+  const { stack, ...shown } = context || {};
+  CONSOLE[level](
+    `[${new Date().toISOString()}] ${level.toUpperCase()} ${source}: ${message}`,
+    ...(Object.keys(shown).length ? [JSON.stringify(shown)] : []),
+    ...(stack ? [`\n${stack}`] : [])
+  );
+}
+
+/**
+ * Console-only logger with the shape of createLogger(source), filtered by
+ * LOG_LEVEL (the logging/minLevel setting needs the database).
+ */
+function createConsoleLogger(source) {
+  const logger = {};
+  for (const level of LOG_LEVELS) {
+    logger[level] = (message, context) => {
+      if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(DEFAULT_MIN_LEVEL)) {
+        printLog(source, level, message, context);
+      }
+    };
+  }
+  return logger;
+}
+
+export { LOG_LEVELS, DEFAULT_MIN_LEVEL, isLogLevel, printLog, createConsoleLogger };
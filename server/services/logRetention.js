@@ -0,0 +1,239 @@
+// Log retention: per-level age and row limits stored in settings, bulk
+// purges by filter, and optional archiving of purged rows.
+//
+// Settings (section "logRetention"; 0 or unset means no limit):
+//   maxAgeDays            delete rows older than this many days
+//   maxAgeDays.<level>    per-level override, e.g. maxAgeDays.debug = 3
+//   maxRows.<level>       keep at most this many rows of a level
+//   archive               "true" to archive rows before deleting them
+//   intervalMinutes       how often retention runs (default 60, 0 = off)
+//
+// Archives are gzip-compressed NDJSON, one log row per line, written to
+// a log-archive directory next to the database; each purge writes one
+// logs-<timestamp>.ndjson.gz file (none when nothing was deleted). Every
+// batch is appended as its own gzip member and synced to disk before its
+// rows are deleted, so a failed write (disk full, permissions) stops the
+// purge without losing rows; gunzip/zcat read the members as one file.
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import {
+  dbPath,
+  listSettings,
+  listLogs,
+  selectLogBatch,
+  deleteLogsWhere,
+  deleteLogIds,
+  logRowCutoffId
+} from '../db.js';
+import { createLogger, LOG_LEVELS } from './logger.js';
+
+const log = createLogger('services/logRetention');
+
+const ARCHIVE_DIR = path.join(path.dirname(dbPath), 'log-archive');
+const ARCHIVE_BATCH = 1000;
+
+const gzip = promisify(zlib.gzip);
+
+const RETENTION_DEFAULTS = {
+  maxAgeDays: 0,
+  archive: false,
+  intervalMinutes: 60
+};
+
+// ---------- Promisified wrappers ----------
+const listLogsAsync = (options) =>
+  new Promise((resolve, reject) => {
+    listLogs(options, (err, page) => (err ? reject(err) : resolve(page)));
+  });
+
+const selectLogBatchAsync = (options, limit) =>
+  new Promise((resolve, reject) => {
+    selectLogBatch(options, limit, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const deleteLogsWhereAsync = (options) =>
+  new Promise((resolve, reject) => {
+    deleteLogsWhere(options, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const deleteLogIdsAsync = (ids) =>
+  new Promise((resolve, reject) => {
+    deleteLogIds(ids, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+const logRowCutoffIdAsync = (level, keep) =>
+  new Promise((resolve, reject) => {
+    logRowCutoffId(level, keep, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+// ---------- Policy ----------
+
+/**
+ * Read the logRetention settings into
+ * { maxAgeDays: { <level>: days }, maxRows: { <level>: rows }, archive, intervalMinutes }
+ * with 0 meaning no limit. Invalid values are ignored.
+ */
+const loadRetentionPolicy = () =>
+  new Promise((resolve) => {
+    listSettings('logRetention', (err, rows) => {
+      const values = {};
+      if (err) log.error('DB error (loadRetentionPolicy)', { err });
+      for (const { name, value } of rows || []) values[name] = value;
+
+      const number = (name, fallback) => {
+        const n = Number(values[name]);
+        return values[name] !== undefined && Number.isFinite(n) && n >= 0 ? n : fallback;
+      };
+
+      const defaultAge = number('maxAgeDays', RETENTION_DEFAULTS.maxAgeDays);
+      const policy = {
+        maxAgeDays: {},
+        maxRows: {},
+        archive: values.archive !== undefined
+          ? ['true', '1', 'yes'].includes(String(values.archive).toLowerCase())
+          : RETENTION_DEFAULTS.archive,
+        intervalMinutes: number('intervalMinutes', RETENTION_DEFAULTS.intervalMinutes)
+      };
+      for (const level of LOG_LEVELS) {
+        policy.maxAgeDays[level] = number(`maxAgeDays.${level}`, defaultAge);
+        policy.maxRows[level] = Math.floor(number(`maxRows.${level}`, 0));
+      }
+      resolve(policy);
+    });
+  });
+
+// ---------- Archives ----------
+
+/**
+ * Lazily opened archive file: nothing is created until rows are written.
+ * write(rows) resolves once the rows are on disk and rejects when they
+ * are not; after a failure every write rejects. close() resolves to the
+ * file name, or null when nothing was archived.
+ */
+function createArchive() {
+  let handle = null;
+  let filename = null;
+  let failed = null;
+
+  return {
+    async write(rows) {
+      if (failed) throw failed;
+      try {
+        if (!handle) {
+          fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+          filename = `logs-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson.gz`;
+          handle = await fs.promises.open(path.join(ARCHIVE_DIR, filename), 'wx');
+        }
+        const chunk = rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+        await handle.appendFile(await gzip(chunk));
+        await handle.datasync();
+      } catch (err) {
+        failed = new Error(`Log archive ${filename || ARCHIVE_DIR} failed: ${err.message}`);
+        throw failed;
+      }
+    },
+    async close() {
+      if (!handle) return null;
+      const open = handle;
+      handle = null;
+      await open.close();
+      return filename;
+    }
+  };
+}
+
+// ---------- Purge ----------
+
+/**
+ * Delete the logs matching `filter` (see logFilterSql in db.js). Rows
+ * written after the purge starts are never touched. With an `archive`
+ * (createArchive()), each batch is deleted only once it is archived, and
+ * a failed archive write rejects with that batch and the rest kept.
+ * Returns the number of rows deleted.
+ */
+async function purgeLogs(filter, archive = null) {
+  const { rows: [newest] } = await listLogsAsync({ limit: 1 });
+  if (!newest) return 0;
+  const bounded = {
+    ...filter,
+    before: filter.before ? Math.min(filter.before, newest.id + 1) : newest.id + 1
+  };
+
+  if (!archive) return deleteLogsWhereAsync(bounded);
+
+  let deleted = 0;
+  for (;;) {
+    const rows = await selectLogBatchAsync(bounded, ARCHIVE_BATCH);
+    if (!rows.length) break;
+    await archive.write(rows);
+    deleted += await deleteLogIdsAsync(rows.map((r) => r.id));
+    if (rows.length < ARCHIVE_BATCH) break;
+  }
+  return deleted;
+}
+
+/**
+ * Bulk delete by filter, archiving first when `archive` is set.
+ * Returns { deleted, archive } (archive: file name or null).
+ */
+async function purgeMatchingLogs(filter, { archive = false } = {}) {
+  const file = archive ? createArchive() : null;
+  let deleted;
+  try {
+    deleted = await purgeLogs(filter, file);
+  } catch (err) {
+    if (file) await file.close().catch(() => {});
+    throw err;
+  }
+  const archived = file ? await file.close() : null;
+  log.info(`Deleted ${deleted} log row(s) by filter`, { deleted, archive: archived });
+  return { deleted, archive: archived };
+}
+
+/**
+ * Apply the retention policy: per level, delete rows older than its max
+ * age and rows beyond its max row count. Returns
+ * { deleted: { <level>: n }, total, archive }.
+ */
+async function applyRetention() {
+  const started = Date.now();
+  const policy = await loadRetentionPolicy();
+  const file = policy.archive ? createArchive() : null;
+  const deleted = {};
+
+  try {
+    for (const level of LOG_LEVELS) {
+      deleted[level] = 0;
+
+      const days = policy.maxAgeDays[level];
+      if (days > 0) {
+        const cutoff = new Date(Date.now() - days * 86400000).toISOString();
+        // `until` is inclusive; rows exactly at the cutoff go too.
+        deleted[level] += await purgeLogs({ levels: [level], until: cutoff }, file);
+      }
+
+      const maxRows = policy.maxRows[level];
+      if (maxRows > 0) {
+        const cutoffId = await logRowCutoffIdAsync(level, maxRows);
+        if (cutoffId) deleted[level] += await purgeLogs({ levels: [level], before: cutoffId }, file);
+      }
+    }
+  } catch (err) {
+    // Rows not yet archived are kept; the next run picks them up.
+    if (file) await file.close().catch(() => {});
+    log.error('Log retention stopped', { deleted, err });
+    throw err;
+  }
+
+  const archive = file ? await file.close() : null;
+  const total = Object.values(deleted).reduce((a, b) => a + b, 0);
+  if (total) {
+    log.info(`Log retention deleted ${total} row(s)`, { deleted, archive, durationMs: Date.now() - started });
+  }
+  return { deleted, total, archive };
+}
+
+export { ARCHIVE_DIR, RETENTION_DEFAULTS, loadRetentionPolicy, purgeMatchingLogs, applyRetention };
@@ -0,0 +1,133 @@
+// Structured server logging into the `logs` table.
+//
+// createLogger(source) returns { debug, info, warn, error }, each taking
+// (message, context?). Entries at or above the minimum level are written
+// to `logs` with their source module and echoed to the console. Context
+// is free-form JSON; by convention it uses
+//   asin / asins, url, jobId, scheduleId, status, durationMs
+// and an `err` Error is flattened into { error, status?, details?, stack? }.
+//
+// The minimum level is the `logging/minLevel` setting, falling back to the
+// LOG_LEVEL environment variable and then "info". It is re-read at most
+// every LEVEL_CACHE_MS, so a changed setting applies without a restart.
+//
+// Every row written (by a logger or POST /api/logs) is also emitted as
+// `entry` on logEvents, which feeds the live log stream.
+
+import { EventEmitter } from 'events';
+import { logEvent, getSetting } from '../db.js';
+import { LOG_LEVELS, DEFAULT_MIN_LEVEL, isLogLevel, printLog } from './logConsole.js';
+
+const LEVEL_CACHE_MS = 10000;
+
+let cachedLevel = null;
+let cachedAt = 0;
+
+function minLevel() {
+  if (cachedLevel && Date.now() - cachedAt < LEVEL_CACHE_MS) return cachedLevel;
+
+  cachedLevel = DEFAULT_MIN_LEVEL;
+  cachedAt = Date.now();
+  getSetting('logging', 'minLevel', (err, row) => {
+    if (err) console.error('DB error (getSetting logging/minLevel):', err);
+    else if (row && isLogLevel(row.value)) cachedLevel = row.value;
+  });
+  return cachedLevel;
+}
+
+// Turn `err` into plain fields; stacks are only kept for errors.
+function normalizeContext(level, context) {
+  if (!context) return null;
+  const { err, ...rest } = context;
+  if (err) {
+    rest.error = err.message || String(err);
+    if (err.status && rest.status === undefined) rest.status = err.status;
+    if (err.details) rest.details = err.details;
+    if (level === 'error' && err.stack) rest.stack = err.stack;
+  }
+  return Object.keys(rest).length ? rest : null;
+}
+
+// Emits `entry` with each written row, shaped like GET /api/logs entries.
+const logEvents = new EventEmitter();
+// One listener per open live-tail connection.
+logEvents.setMaxListeners(0);
+
+/**
+ * Write one row to `logs` and publish it on logEvents; resolves to its id.
+ * entry: { level, source, message, context }
+ */
+function appendLog({ level, source = null, message, context = null }) {
+  const row = { level, source, message, context, created_at: new Date().toISOString() };
+  return new Promise((resolve, reject) => {
+    logEvent({ ...row, createdAt: row.created_at }, (err, id) => {
+      if (err) return reject(err);
+      logEvents.emit('entry', { id, ...row });
+      resolve(id);
+    });
+  });
+}
+
+function write(source, level, message, context) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel())) return;
+
+  const ctx = normalizeContext(level, context);
+  printLog(source, level, message, ctx);
+
+  // Never throws: a failed log write only reaches the console.
+  appendLog({ level, source, message, context: ctx }).catch((err) => {
+    console.error('DB error (logEvent):', err);
+  });
+}
+
+/**
+ * Logger for one module; `source` names it in the `logs` table
+ * (e.g. "services/paapi", "routes/jobs").
+ */
+function createLogger(source) {
+  const logger = {};
+  for (const level of LOG_LEVELS) {
+    logger[level] = (message, context) => write(source, level, message, context);
+  }
+  return logger;
+}
+
+// ---------- Request logging ----------
+const httpLog = createLogger('http');
+
+// EventSource clients send their session token in the query string.
+const safeUrl = (url) => url.replace(/([?&]access_token=)[^&]*/g, '$1[redacted]');
+
+/**
+ * Express middleware logging every request once its response is done:
+ * errors (5xx) at error, rejected requests (4xx) at warn, other writes at
+ * info and reads at debug.
+ */
+function logRequests(req, res, next) {
+  const started = Date.now();
+
+  res.on('close', () => {
+    const status = res.statusCode;
+    const level =
+      status >= 500
+        ? 'error'
+        : status >= 400
+        ? 'warn'
+        : req.method === 'GET' || req.method === 'HEAD'
+        ? 'debug'
+        : 'info';
+    const url = safeUrl(req.originalUrl);
+
+    httpLog[level](`${req.method} ${url} ${status}`, {
+      method: req.method,
+      url,
+      status,
+      durationMs: Date.now() - started,
+      user: req.user?.username,
+      ...(res.writableFinished ? {} : { aborted: true })
+    });
+  });
+  next();
+}
+
+export { LOG_LEVELS, DEFAULT_MIN_LEVEL, isLogLevel, logEvents, appendLog, createLogger, logRequests };
@@ -0,0 +1,39 @@
+// PA API 5 locales: the marketplace domain a request names, and the
+// endpoint host and AWS region it must be sent to and signed for. A PA
+// API profile only picks a marketplace; host and region come from here
+// unless the profile overrides them. `decimals` is the number of minor
+// units of the marketplace currency, for prices sent in the smallest
+// unit (1999 cents, but 1999 yen).
+
+const MARKETPLACES = [
+  { marketplace: 'www.amazon.com.au', country: 'AU', label: 'Australia', host: 'webservices.amazon.com.au', region: 'us-west-2', currency: 'AUD', decimals: 2 },
+  { marketplace: 'www.amazon.com.be', country: 'BE', label: 'Belgium', host: 'webservices.amazon.com.be', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.com.br', country: 'BR', label: 'Brazil', host: 'webservices.amazon.com.br', region: 'us-east-1', currency: 'BRL', decimals: 2 },
+  { marketplace: 'www.amazon.ca', country: 'CA', label: 'Canada', host: 'webservices.amazon.ca', region: 'us-east-1', currency: 'CAD', decimals: 2 },
+  { marketplace: 'www.amazon.eg', country: 'EG', label: 'Egypt', host: 'webservices.amazon.eg', region: 'eu-west-1', currency: 'EGP', decimals: 2 },
+  { marketplace: 'www.amazon.fr', country: 'FR', label: 'France', host: 'webservices.amazon.fr', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.de', country: 'DE', label: 'Germany', host: 'webservices.amazon.de', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.in', country: 'IN', label: 'India', host: 'webservices.amazon.in', region: 'eu-west-1', currency: 'INR', decimals: 2 },
+  { marketplace: 'www.amazon.it', country: 'IT', label: 'Italy', host: 'webservices.amazon.it', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.co.jp', country: 'JP', label: 'Japan', host: 'webservices.amazon.co.jp', region: 'us-west-2', currency: 'JPY', decimals: 0 },
+  { marketplace: 'www.amazon.com.mx', country: 'MX', label: 'Mexico', host: 'webservices.amazon.com.mx', region: 'us-east-1', currency: 'MXN', decimals: 2 },
+  { marketplace: 'www.amazon.nl', country: 'NL', label: 'Netherlands', host: 'webservices.amazon.nl', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.pl', country: 'PL', label: 'Poland', host: 'webservices.amazon.pl', region: 'eu-west-1', currency: 'PLN', decimals: 2 },
+  { marketplace: 'www.amazon.sa', country: 'SA', label: 'Saudi Arabia', host: 'webservices.amazon.sa', region: 'eu-west-1', currency: 'SAR', decimals: 2 },
+  { marketplace: 'www.amazon.sg', country: 'SG', label: 'Singapore', host: 'webservices.amazon.sg', region: 'us-west-2', currency: 'SGD', decimals: 2 },
+  { marketplace: 'www.amazon.es', country: 'ES', label: 'Spain', host: 'webservices.amazon.es', region: 'eu-west-1', currency: 'EUR', decimals: 2 },
+  { marketplace: 'www.amazon.se', country: 'SE', label: 'Sweden', host: 'webservices.amazon.se', region: 'eu-west-1', currency: 'SEK', decimals: 2 },
+  { marketplace: 'www.amazon.com.tr', country: 'TR', label: 'Turkey', host: 'webservices.amazon.com.tr', region: 'eu-west-1', currency: 'TRY', decimals: 2 },
+  { marketplace: 'www.amazon.ae', country: 'AE', label: 'United Arab Emirates', host: 'webservices.amazon.ae', region: 'eu-west-1', currency: 'AED', decimals: 2 },
+  { marketplace: 'www.amazon.co.uk', country: 'UK', label: 'United Kingdom', host: 'webservices.amazon.co.uk', region: 'eu-west-1', currency: 'GBP', decimals: 2 },
+  { marketplace: 'www.amazon.com', country: 'US', label: 'United States', host: 'webservices.amazon.com', region: 'us-east-1', currency: 'USD', decimals: 2 }
+];
+
+const MARKETPLACE_INDEX = new Map(MARKETPLACES.map((m) => [m.marketplace, m]));
+
+// Catalog entry of a marketplace domain, or null when it is not listed.
+function findMarketplace(marketplace) {
+  return MARKETPLACE_INDEX.get(String(marketplace || '').trim().toLowerCase()) || null;
+}
+
+export { MARKETPLACES, findMarketplace };
@@ -0,0 +1,260 @@
+// In-process request and PA API metrics for GET /api/metrics.
+//
+// Counters live in memory and start from zero on every restart, which is
+// what Prometheus expects from a counter. Requests are labelled with the
+// matched route pattern (/api/logs/:id, not /api/logs/42) so the label set
+// stays small; requests no route matched (404s, auth rejections) share the
+// route "unmatched".
+//
+// PA API calls are labelled by operation and outcome:
+//   ok, throttled (429), error (any other HTTP error), network-error
+
+const STARTED_AT = new Date().toISOString();
+
+// Upper bounds in seconds, as in Prometheus' default buckets.
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const PAAPI_OUTCOMES = ['ok', 'throttled', 'error', 'network-error'];
+
+// `${method} ${route}` -> { method, route, statuses: { <code>: n }, latency }
+const httpRoutes = new Map();
+// operation -> { operation, outcomes: { <outcome>: n }, latency }
+const paapiOperations = new Map();
+
+// ---------- Histograms ----------
+const createHistogram = () => ({
+  buckets: new Array(LATENCY_BUCKETS.length).fill(0),
+  sum: 0,
+  count: 0,
+  max: 0
+});
+
+function observe(histogram, seconds) {
+  for (let i = 0; i < LATENCY_BUCKETS.length; i++) {
+    if (seconds <= LATENCY_BUCKETS[i]) histogram.buckets[i]++;
+  }
+  histogram.sum += seconds;
+  histogram.count++;
+  histogram.max = Math.max(histogram.max, seconds);
+}
+
+const toMs = (seconds) => Math.round(seconds * 1000 * 10) / 10;
+
+// Upper bound of the bucket holding quantile `q`, in ms (the max when it
+// falls past the last bucket). An estimate, like histogram_quantile().
+function quantileMs(histogram, q) {
+  if (!histogram.count) return null;
+  const rank = q * histogram.count;
+  for (let i = 0; i < LATENCY_BUCKETS.length; i++) {
+    if (histogram.buckets[i] >= rank) return toMs(Math.min(LATENCY_BUCKETS[i], histogram.max));
+  }
+  return toMs(histogram.max);
+}
+
+const averageMs = (histogram) => (histogram.count ? toMs(histogram.sum / histogram.count) : null);
+
+// ---------- Recording ----------
+
+/**
+ * Express middleware counting every request by route and status once
+ * its response is done.
+ */
+function recordRequests(req, res, next) {
+  const started = process.hrtime.bigint();
+
+  res.on('close', () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const key = `${req.method} ${route}`;
+
+    let entry = httpRoutes.get(key);
+    if (!entry) {
+      entry = { method: req.method, route, statuses: {}, latency: createHistogram() };
+      httpRoutes.set(key, entry);
+    }
+    entry.statuses[res.statusCode] = (entry.statuses[res.statusCode] || 0) + 1;
+    observe(entry.latency, seconds);
+  });
+  next();
+}
+
+/**
+ * Count one PA API call. outcome: ok | throttled | error | network-error
+ */
+function recordPaapiCall(operation, outcome, durationMs) {
+  let entry = paapiOperations.get(operation);
+  if (!entry) {
+    entry = { operation, outcomes: {}, latency: createHistogram() };
+    paapiOperations.set(operation, entry);
+  }
+  entry.outcomes[outcome] = (entry.outcomes[outcome] || 0) + 1;
+  observe(entry.latency, durationMs / 1000);
+}
+
+// ---------- Reading ----------
+const sum = (values) => values.reduce((a, b) => a + b, 0);
+
+const rate = (part, whole) => (whole ? Math.round((part / whole) * 10000) / 10000 : 0);
+
+function routeSummary(entry) {
+  const codes = Object.entries(entry.statuses);
+  const count = sum(codes.map(([, n]) => n));
+  const errors = sum(codes.filter(([code]) => code >= 500).map(([, n]) => n));
+  const clientErrors = sum(codes.filter(([code]) => code >= 400 && code < 500).map(([, n]) => n));
+  return {
+    method: entry.method,
+    route: entry.route,
+    count,
+    errors,
+    clientErrors,
+    errorRate: rate(errors, count),
+    avgMs: averageMs(entry.latency),
+    p95Ms: quantileMs(entry.latency, 0.95),
+    maxMs: toMs(entry.latency.max)
+  };
+}
+
+function operationSummary(entry) {
+  const outcome = (name) => entry.outcomes[name] || 0;
+  const calls = sum(Object.values(entry.outcomes));
+  const errors = outcome('error') + outcome('network-error');
+  return {
+    operation: entry.operation,
+    calls,
+    ok: outcome('ok'),
+    throttled: outcome('throttled'),
+    errors,
+    errorRate: rate(errors + outcome('throttled'), calls),
+    avgMs: averageMs(entry.latency),
+    p95Ms: quantileMs(entry.latency, 0.95)
+  };
+}
+
+/**
+ * Metrics as JSON for the System Health tab. Error rates count 5xx
+ * responses, and PA API calls that did not succeed (throttling included).
+ */
+function metricsSnapshot() {
+  const routes = [...httpRoutes.values()].map(routeSummary).sort((a, b) => b.count - a.count);
+  const operations = [...paapiOperations.values()].map(operationSummary).sort((a, b) => b.calls - a.calls);
+
+  const requests = sum(routes.map((r) => r.count));
+  const requestErrors = sum(routes.map((r) => r.errors));
+  const allRequests = createHistogram();
+  for (const entry of httpRoutes.values()) {
+    entry.latency.buckets.forEach((n, i) => (allRequests.buckets[i] += n));
+    allRequests.sum += entry.latency.sum;
+    allRequests.count += entry.latency.count;
+    allRequests.max = Math.max(allRequests.max, entry.latency.max);
+  }
+
+  const calls = sum(operations.map((o) => o.calls));
+  const callErrors = sum(operations.map((o) => o.errors));
+  const throttled = sum(operations.map((o) => o.throttled));
+  const memory = process.memoryUsage();
+
+  return {
+    since: STARTED_AT,
+    requests: {
+      total: requests,
+      errors: requestErrors,
+      clientErrors: sum(routes.map((r) => r.clientErrors)),
+      errorRate: rate(requestErrors, requests),
+      avgMs: averageMs(allRequests),
+      p95Ms: quantileMs(allRequests, 0.95),
+      routes
+    },
+    paapi: {
+      calls,
+      errors: callErrors,
+      throttled,
+      errorRate: rate(callErrors + throttled, calls),
+      operations
+    },
+    process: {
+      uptimeSeconds: Math.round(process.uptime()),
+      rssBytes: memory.rss,
+      heapUsedBytes: memory.heapUsed
+    }
+  };
+}
+
+// ---------- Prometheus text format ----------
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const labels = (pairs) =>
+  `{${Object.entries(pairs)
+    .map(([k, v]) => `${k}="${escapeLabel(v)}"`)
+    .join(',')}}`;
+
+function histogramLines(name, labelPairs, histogram) {
+  const lines = LATENCY_BUCKETS.map(
+    (le, i) => `${name}_bucket${labels({ ...labelPairs, le })} ${histogram.buckets[i]}`
+  );
+  lines.push(`${name}_bucket${labels({ ...labelPairs, le: '+Inf' })} ${histogram.count}`);
+  lines.push(`${name}_sum${labels(labelPairs)} ${histogram.sum}`);
+  lines.push(`${name}_count${labels(labelPairs)} ${histogram.count}`);
+  return lines;
+}
+
+function metric(name, type, help, lines) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...lines];
+}
+
+/**
+ * Metrics in the Prometheus text exposition format (version 0.0.4).
+ */
+function renderPrometheus() {
+  const routes = [...httpRoutes.values()];
+  const operations = [...paapiOperations.values()];
+  const memory = process.memoryUsage();
+
+  const out = [
+    ...metric(
+      'selji_http_requests_total',
+      'counter',
+      'HTTP requests by method, matched route and status code.',
+      routes.flatMap((r) =>
+        Object.entries(r.statuses).map(
+          ([status, n]) => `selji_http_requests_total${labels({ method: r.method, route: r.route, status })} ${n}`
+        )
+      )
+    ),
+    ...metric(
+      'selji_http_request_duration_seconds',
+      'histogram',
+      'HTTP request latency by method and matched route.',
+      routes.flatMap((r) =>
+        histogramLines('selji_http_request_duration_seconds', { method: r.method, route: r.route }, r.latency)
+      )
+    ),
+    ...metric(
+      'selji_paapi_calls_total',
+      'counter',
+      'PA API calls by operation and outcome (ok, throttled, error, network-error).',
+      operations.flatMap((o) =>
+        PAAPI_OUTCOMES.filter((outcome) => o.outcomes[outcome]).map(
+          (outcome) => `selji_paapi_calls_total${labels({ operation: o.operation, outcome })} ${o.outcomes[outcome]}`
+        )
+      )
+    ),
+    ...metric(
+      'selji_paapi_call_duration_seconds',
+      'histogram',
+      'PA API call latency by operation.',
+      operations.flatMap((o) => histogramLines('selji_paapi_call_duration_seconds', { operation: o.operation }, o.latency))
+    ),
+    ...metric('selji_process_uptime_seconds', 'gauge', 'Seconds since the server started.', [
+      `selji_process_uptime_seconds ${process.uptime()}`
+    ]),
+    ...metric('selji_process_resident_memory_bytes', 'gauge', 'Resident set size.', [
+      `selji_process_resident_memory_bytes ${memory.rss}`
+    ]),
+    ...metric('selji_nodejs_heap_used_bytes', 'gauge', 'V8 heap in use.', [
+      `selji_nodejs_heap_used_bytes ${memory.heapUsed}`
+    ])
+  ];
+  return out.join('\n') + '\n';
+}
+
+export { recordRequests, recordPaapiCall, metricsSnapshot, renderPrometheus };
@@ -0,0 +1,996 @@
+import crypto from 'crypto';
+import {
+  listPaapiProfiles,
+  getPaapiProfile,
+  insertPaapiProfile,
+  updatePaapiProfile,
+  setDefaultPaapiProfile,
+  deletePaapiProfile,
+  getSetting,
+  deleteSetting,
+  listSettings
+} from '../db.js';
+import { sleep, mapPool, createRateLimiter } from './throttle.js';
+import { saveItemsToCatalog } from './catalog.js';
+import { recordTrackedPrices } from './tracking.js';
+import { readSecret, hasSecret, writeSecret, removeSecret } from './secrets.js';
+import { findMarketplace } from './marketplaces.js';
+import { recordAudit } from './audit.js';
+import { createLogger } from './logger.js';
+import { recordPaapiCall } from './metrics.js';
+
+const log = createLogger('services/paapi');
+
+const DEFAULT_MARKETPLACE = 'www.amazon.com';
+
+const GET_ITEMS_RESOURCES = [
+  'CustomerReviews.Count',
+  'CustomerReviews.StarRating',
+  'Images.Primary.Large',
+  'ItemInfo.ByLineInfo',
+  'ItemInfo.ContentInfo',
+  'ItemInfo.ContentRating',
+  'ItemInfo.Classifications',
+  'ItemInfo.ExternalIds',
+  'ItemInfo.Features',
+  'ItemInfo.ManufactureInfo',
+  'ItemInfo.ProductInfo',
+  'ItemInfo.TechnicalInfo',
+  'ItemInfo.Title',
+  'ItemInfo.TradeInInfo',
+  'Offers.Listings.Availability.Message',
+  'Offers.Listings.Availability.Type',
+  'Offers.Listings.Price'
+];
+
+// Profile names are part of secret names and URLs, so they are short
+// lowercase slugs and cannot be renamed.
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const REGION_PATTERN = /^[a-z]{2}-[a-z]+-\d$/;
+const HOST_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// Credentials live in the encrypted secrets table, one pair per profile;
+// the rest of a profile (partner tag, marketplace, ...) in paapi_profiles.
+const credentialSecrets = (profile) => ({
+  accessKey: `paapi.${profile}.accessKey`,
+  secretKey: `paapi.${profile}.secretKey`
+});
+
+// PA API 5 accepts at most 10 ItemIds per GetItems call.
+const GET_ITEMS_MAX_IDS = 10;
+
+// Error carrying the HTTP status the API layer should answer with.
+function paapiError(status, message, details) {
+  const err = new Error(message);
+  err.status = status;
+  if (details !== undefined) err.details = details;
+  return err;
+}
+
+// ---------- Promisified wrappers ----------
+const listPaapiProfilesAsync = () =>
+  new Promise((resolve, reject) => {
+    listPaapiProfiles((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getPaapiProfileAsync = (name) =>
+  new Promise((resolve, reject) => {
+    getPaapiProfile(name, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const insertPaapiProfileAsync = (profile) =>
+  new Promise((resolve, reject) => {
+    insertPaapiProfile(profile, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const updatePaapiProfileAsync = (name, fields) =>
+  new Promise((resolve, reject) => {
+    updatePaapiProfile(name, fields, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const setDefaultPaapiProfileAsync = (name) =>
+  new Promise((resolve, reject) => {
+    setDefaultPaapiProfile(name, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const deletePaapiProfileAsync = (name) =>
+  new Promise((resolve, reject) => {
+    deletePaapiProfile(name, (err, found) => (err ? reject(err) : resolve(found)));
+  });
+
+const getSettingAsync = (section, name) =>
+  new Promise((resolve, reject) => {
+    getSetting(section, name, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const deleteSettingAsync = (section, name) =>
+  new Promise((resolve, reject) => {
+    deleteSetting(section, name, (err) => (err ? reject(err) : resolve()));
+  });
+
+// ---------- Profiles ----------
+const profileName = (name) => String(name || '').trim().toLowerCase();
+
+// Host and region of a profile: its overrides, else the marketplace catalog.
+function resolveEndpoint(row) {
+  const known = findMarketplace(row.marketplace);
+  return {
+    region: row.region || known?.region || null,
+    host: row.host || known?.host || null
+  };
+}
+
+/**
+ * Load a PA API profile by name, or the default profile when no name is
+ * given, with its decrypted credentials. Throws a 400 paapiError when the
+ * profile does not exist, or its credentials are incomplete or cannot be
+ * decrypted.
+ */
+async function loadPaapiConfig(profile) {
+  const name = profileName(profile);
+  const row = await getPaapiProfileAsync(name || null);
+  if (!row) {
+    throw paapiError(400, name ? `PA API profile "${name}" not found` : 'PA API not configured');
+  }
+
+  const secrets = credentialSecrets(row.name);
+  let accessKey;
+  let secretKey;
+  try {
+    accessKey = await readSecret(secrets.accessKey);
+    secretKey = await readSecret(secrets.secretKey);
+  } catch (err) {
+    throw paapiError(400, `PA API credentials of profile "${row.name}" cannot be decrypted: ${err.message}`);
+  }
+  if (!accessKey || !secretKey) {
+    throw paapiError(400, `PA API profile "${row.name}" has no credentials`);
+  }
+
+  const partnerTag = (row.partner_tag || '').trim();
+  if (!partnerTag) {
+    throw paapiError(400, `partnerTag not configured for PA API profile "${row.name}"`);
+  }
+
+  return {
+    profile: row.name,
+    accessKey,
+    secretKey,
+    partnerTag,
+    marketplace: row.marketplace,
+    ...resolveEndpoint(row)
+  };
+}
+
+/**
+ * A profile as exposed over the API: credentials are write-only, so only
+ * whether they are set is reported. region/host are the overrides (null
+ * when the catalog values apply); endpoint holds the values in use.
+ */
+async function describeProfile(row) {
+  const secrets = credentialSecrets(row.name);
+  return {
+    name: row.name,
+    isDefault: !!row.is_default,
+    marketplace: row.marketplace,
+    partnerTag: row.partner_tag,
+    region: row.region,
+    host: row.host,
+    endpoint: resolveEndpoint(row),
+    accessKeySet: await hasSecret(secrets.accessKey),
+    secretKeySet: await hasSecret(secrets.secretKey),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Every profile, the default first.
+async function listProfiles() {
+  const rows = await listPaapiProfilesAsync();
+  return Promise.all(rows.map(describeProfile));
+}
+
+// One profile by name (the default without one), or null.
+async function getProfile(name) {
+  const row = await getPaapiProfileAsync(profileName(name));
+  return row ? describeProfile(row) : null;
+}
+
+const optionalString = (value) => (typeof value === 'string' ? value.trim() : undefined);
+
+// Trim the writable fields of a request body; absent fields stay undefined.
+function profileFields(body = {}) {
+  const fields = {};
+  for (const field of ['marketplace', 'partnerTag', 'region', 'host', 'accessKey', 'secretKey']) {
+    fields[field] = optionalString(body[field]);
+  }
+  if (fields.marketplace) fields.marketplace = fields.marketplace.toLowerCase();
+  if (fields.host) fields.host = fields.host.toLowerCase();
+  if (body.isDefault !== undefined) fields.isDefault = !!body.isDefault;
+  return fields;
+}
+
+/**
+ * Check a profile as it would be stored (a name only when one is given).
+ * Returns an error message or null.
+ */
+function checkProfile({ name, marketplace, partnerTag, region, host }) {
+  if (name !== undefined && !PROFILE_NAME_PATTERN.test(name)) {
+    return 'name must be 1-32 letters, digits, "-" or "_", starting with a letter or digit';
+  }
+  if (!marketplace) return 'marketplace is required';
+  if (!partnerTag) return 'partnerTag is required';
+  if (region && !REGION_PATTERN.test(region)) return 'region must be an AWS region, e.g. eu-west-1';
+  if (host && !HOST_PATTERN.test(host)) return 'host must be a host name, e.g. webservices.amazon.de';
+  if (!findMarketplace(marketplace) && (!region || !host)) {
+    return `${marketplace} is not in the marketplace catalog; give its region and host`;
+  }
+  return null;
+}
+
+async function writeCredentials(name, { accessKey, secretKey }) {
+  const secrets = credentialSecrets(name);
+  if (accessKey) await writeSecret(secrets.accessKey, accessKey);
+  if (secretKey) await writeSecret(secrets.secretKey, secretKey);
+}
+
+/**
+ * Create a profile. accessKey/secretKey are encrypted into the secrets
+ * table; the first profile becomes the default. Throws 400 for an invalid
+ * profile and 409 when the name is taken.
+ */
+async function createProfile(body = {}) {
+  const name = profileName(body.name);
+  const fields = profileFields(body);
+  const invalid = checkProfile({ name, ...fields });
+  if (invalid) throw paapiError(400, invalid);
+  if (await getPaapiProfileAsync(name)) throw paapiError(409, `PA API profile "${name}" already exists`);
+
+  await writeCredentials(name, fields);
+  await insertPaapiProfileAsync({
+    name,
+    marketplace: fields.marketplace,
+    partnerTag: fields.partnerTag,
+    region: fields.region || null,
+    host: fields.host || null,
+    isDefault: fields.isDefault
+  });
+  return getProfile(name);
+}
+
+/**
+ * Update a profile. Fields left out keep their value; an empty region or
+ * host clears the override, and an empty accessKey/secretKey keeps the
+ * stored credential. Throws 404 for an unknown profile.
+ */
+async function updateProfile(name, body = {}) {
+  const row = await getPaapiProfileAsync(profileName(name));
+  if (!row) throw paapiError(404, `PA API profile "${profileName(name)}" not found`);
+
+  const fields = profileFields(body);
+  const merged = {
+    marketplace: fields.marketplace ?? row.marketplace,
+    partnerTag: fields.partnerTag ?? row.partner_tag,
+    region: fields.region ?? row.region,
+    host: fields.host ?? row.host
+  };
+  const invalid = checkProfile(merged);
+  if (invalid) throw paapiError(400, invalid);
+
+  await writeCredentials(row.name, fields);
+  await updatePaapiProfileAsync(row.name, {
+    marketplace: fields.marketplace,
+    partnerTag: fields.partnerTag,
+    region: fields.region === undefined ? undefined : fields.region || null,
+    host: fields.host === undefined ? undefined : fields.host || null,
+    isDefault: fields.isDefault
+  });
+  return getProfile(row.name);
+}
+
+async function setDefaultProfile(name) {
+  if (!(await setDefaultPaapiProfileAsync(profileName(name)))) {
+    throw paapiError(404, `PA API profile "${profileName(name)}" not found`);
+  }
+}
+
+// Delete a profile and its credentials. Another profile becomes the
+// default when this one was.
+async function deleteProfile(name) {
+  const row = await getPaapiProfileAsync(profileName(name));
+  if (!row) throw paapiError(404, `PA API profile "${profileName(name)}" not found`);
+
+  const secrets = credentialSecrets(row.name);
+  await removeSecret(secrets.accessKey);
+  await removeSecret(secrets.secretKey);
+  await deletePaapiProfileAsync(row.name);
+}
+
+// ---------- Single config (the API before profiles) ----------
+// GET/PUT/DELETE /api/config/paapi keep working on the default profile.
+
+/**
+ * The default profile in the shape of the former single PA API config:
+ * region and host are the values in use. Without profiles this is the
+ * empty config of a fresh install.
+ */
+async function describeDefaultConfig() {
+  const row = await getPaapiProfileAsync(null);
+  const profile = row ? await describeProfile(row) : null;
+  const endpoint = profile ? profile.endpoint : resolveEndpoint({ marketplace: DEFAULT_MARKETPLACE });
+  return {
+    accessKeySet: !!profile?.accessKeySet,
+    secretKeySet: !!profile?.secretKeySet,
+    partnerTag: profile?.partnerTag || '',
+    marketplace: profile?.marketplace || DEFAULT_MARKETPLACE,
+    region: endpoint.region,
+    host: endpoint.host,
+    createdAt: profile?.createdAt || null,
+    updatedAt: profile?.updatedAt || null
+  };
+}
+
+/**
+ * Save a former single config into the default profile, or into a new
+ * default profile "default" when there is none. Like before, fields left
+ * out fall back to their defaults. region/host equal to the catalog
+ * values are not stored as overrides, so a GET-then-PUT round trip keeps
+ * following the catalog. Resolves with { before, profile }.
+ */
+async function saveDefaultConfig(body = {}) {
+  const fields = profileFields(body);
+  const marketplace = fields.marketplace || DEFAULT_MARKETPLACE;
+  const known = findMarketplace(marketplace);
+  const update = {
+    marketplace,
+    partnerTag: fields.partnerTag || '',
+    region: fields.region && fields.region !== known?.region ? fields.region : '',
+    host: fields.host && fields.host !== known?.host ? fields.host : '',
+    accessKey: fields.accessKey,
+    secretKey: fields.secretKey
+  };
+
+  const row = await getPaapiProfileAsync(null);
+  if (!row) {
+    return { before: null, profile: await createProfile({ name: 'default', ...update, isDefault: true }) };
+  }
+  const before = await describeProfile(row);
+  return { before, profile: await updateProfile(row.name, update) };
+}
+
+// Delete the default profile; resolves with it, or null when there is none.
+async function clearDefaultConfig() {
+  const row = await getPaapiProfileAsync(null);
+  if (!row) return null;
+  const before = await describeProfile(row);
+  await deleteProfile(row.name);
+  return before;
+}
+
+/**
+ * Move credentials saved by older versions as plaintext `paapi` settings
+ * into the default profile's secrets. A plaintext row is only removed
+ * once its value is stored encrypted (or an encrypted value already
+ * exists), so nothing is lost when no encryption key is configured yet.
+ */
+async function migratePaapiCredentials() {
+  let profile;
+  try {
+    profile = await getPaapiProfileAsync(null);
+  } catch (err) {
+    return log.error('Failed to load the default PA API profile', { err });
+  }
+  if (!profile) return;
+
+  for (const [field, secretName] of Object.entries(credentialSecrets(profile.name))) {
+    try {
+      const row = await getSettingAsync('paapi', field);
+      if (!row) continue;
+
+      const value = (row.value || '').trim();
+      if (value && !(await hasSecret(secretName))) {
+        await writeSecret(secretName, value);
+        await recordAudit(null, {
+          action: 'paapi-config.migrate',
+          targetType: 'secret',
+          target: secretName,
+          before: { setting: `paapi/${field}` },
+          after: { value },
+          sensitive: ['value']
+        });
+        log.info(`Moved PA API ${field} from settings into encrypted secrets.`, { field, profile: profile.name });
+      }
+      await deleteSettingAsync('paapi', field);
+    } catch (err) {
+      log.error(`Failed to migrate PA API ${field} into secrets`, { field, err });
+    }
+  }
+}
+
+const paapiTarget = (operation) => `com.amazon.paapi5.v1.ProductAdvertisingAPIv1.${operation}`;
+
+// ---------- PAAPI signing helper ----------
+// Signs a request for any PA API operation (GetItems, SearchItems, ...);
+// `operation` ends up in the signed x-amz-target header.
+function signPaapiRequest({ accessKey, secretKey, region, host, path, body, operation }) {
+  const service = 'ProductAdvertisingAPI';
+  const method = 'POST';
+  const now = new Date();
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const payload = JSON.stringify(body);
+  const payloadHash = crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
+
+  const canonicalHeaders =
+    'content-encoding:amz-1.0\n' +
+    'content-type:application/json; charset=utf-8\n' +
+    `host:${host}\n` +
+    `x-amz-date:${amzDate}\n` +
+    `x-amz-target:${paapiTarget(operation)}\n`;
+
+  const signedHeaders = 'content-encoding;content-type;host;x-amz-date;x-amz-target';
+
+  const canonicalRequest = [
+    method,
+    path,
+    '',
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const algorithm = 'AWS4-HMAC-SHA256';
+  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`;
+
+  const stringToSign = [
+    algorithm,
+    amzDate,
+    credentialScope,
+    crypto.createHash('sha256').update(canonicalRequest, 'utf8').digest('hex')
+  ].join('\n');
+
+  const kDate = crypto.createHmac('sha256', 'AWS4' + secretKey).update(dateStamp).digest();
+  const kRegion = crypto.createHmac('sha256', kDate).update(region).digest();
+  const kService = crypto.createHmac('sha256', kRegion).update(service).digest();
+  const kSigning = crypto.createHmac('sha256', kService).update('aws4_request').digest();
+
+  const signature = crypto.createHmac('sha256', kSigning).update(stringToSign).digest('hex');
+
+  const authorizationHeader =
+    `${algorithm} Credential=${accessKey}/${credentialScope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  return { authorizationHeader, amzDate, payload };
+}
+
+// ---------- Throttling (settings section "paapiThrottle") ----------
+const THROTTLE_DEFAULTS = {
+  tps: 1,
+  maxRetries: 2
+};
+
+/**
+ * Read PA API throttling settings:
+ *   paapiThrottle/tps         requests per second allowed by the account (default 1)
+ *   paapiThrottle/maxRetries  retries for a throttled (429) request (default 2)
+ */
+const loadThrottleSettings = () =>
+  new Promise((resolve) => {
+    listSettings('paapiThrottle', (err, rows) => {
+      const cfg = { ...THROTTLE_DEFAULTS };
+      if (err) {
+        log.error('DB error (loadThrottleSettings)', { err });
+        return resolve(cfg);
+      }
+      for (const { name, value } of rows || []) {
+        const n = Number(value);
+        if (name === 'tps' && n > 0) cfg.tps = n;
+        if (name === 'maxRetries' && Number.isInteger(n) && n >= 0) cfg.maxRetries = n;
+      }
+      resolve(cfg);
+    });
+  });
+
+// One limiter for the whole process: the job worker, the PA API routes,
+// pipelines and scheduled refreshes all draw from the same TPS budget of
+// an account. Keyed by access key, since the limit is per account.
+const paapiLimiter = createRateLimiter();
+
+// How many calls of one batch may usefully be in flight at `tps`.
+const batchConcurrency = (throttle) => Math.max(1, Math.ceil(throttle.tps));
+
+// ---------- Generic PA API call ----------
+/**
+ * POST `body` to a PA API operation and return the parsed response.
+ * Every attempt waits for a slot under the account's TPS limit, and
+ * throttled (429) responses are retried with a growing delay. Throws a
+ * paapiError carrying the HTTP status and the PA API error payload when
+ * the call is rejected.
+ */
+async function callPaapi(cfg, operation, body) {
+  const throttle = await loadThrottleSettings();
+  for (let attempt = 0; ; attempt++) {
+    await paapiLimiter.wait(cfg.accessKey, throttle.tps);
+    try {
+      return await sendPaapiRequest(cfg, operation, body);
+    } catch (e) {
+      if (e.status === 429 && attempt < throttle.maxRetries) {
+        await sleep(1000 * (attempt + 1));
+        continue;
+      }
+      throw e;
+    }
+  }
+}
+
+// One signed PA API request, without throttling.
+async function sendPaapiRequest(cfg, operation, body) {
+  const { region, host } = cfg;
+  const path = `/paapi5/${operation.toLowerCase()}`;
+
+  const { authorizationHeader, amzDate, payload } = signPaapiRequest({
+    accessKey: cfg.accessKey,
+    secretKey: cfg.secretKey,
+    region,
+    host,
+    path,
+    body,
+    operation
+  });
+
+  const url = `https://${host}${path}`;
+  const fetchFn = global.fetch ?? (await import('node-fetch')).default;
+
+  // ASINs the call is about, for the log entry.
+  const context = {
+    operation,
+    marketplace: cfg.marketplace,
+    ...(body.ItemIds ? { asins: body.ItemIds } : {}),
+    ...(body.ASIN ? { asin: body.ASIN } : {})
+  };
+  const started = Date.now();
+
+  let resp;
+  try {
+    resp = await fetchFn(url, {
+      method: 'POST',
+      headers: {
+        'content-encoding': 'amz-1.0',
+        'content-type': 'application/json; charset=utf-8',
+        host,
+        'x-amz-date': amzDate,
+        'x-amz-target': paapiTarget(operation),
+        Authorization: authorizationHeader
+      },
+      body: payload
+    });
+  } catch (err) {
+    recordPaapiCall(operation, 'network-error', Date.now() - started);
+    log.error(`PA API ${operation} request failed`, { ...context, durationMs: Date.now() - started, err });
+    throw err;
+  }
+
+  const data = await resp.json().catch(() => ({}));
+  context.status = resp.status;
+  context.durationMs = Date.now() - started;
+  recordPaapiCall(operation, resp.ok ? 'ok' : resp.status === 429 ? 'throttled' : 'error', context.durationMs);
+
+  if (!resp.ok) {
+    const err = paapiError(resp.status, 'PA API error', data);
+    // Throttling is retried by the caller, so it is only a warning.
+    (resp.status === 429 ? log.warn : log.error)(`PA API ${operation} failed: ${errorMessage(err)}`, {
+      ...context,
+      errors: data.Errors
+    });
+    throw err;
+  }
+  log.info(`PA API ${operation}`, context);
+  return data;
+}
+
+// ---------- PAAPI GetItems (single call, <= 10 ASINs) ----------
+async function getItemsChunk(cfg, asins) {
+  const data = await callPaapi(cfg, 'GetItems', {
+    ItemIds: asins,
+    Resources: GET_ITEMS_RESOURCES,
+    PartnerTag: cfg.partnerTag,
+    PartnerType: 'Associates',
+    Marketplace: cfg.marketplace
+  });
+
+  const items = (data.ItemsResult && data.ItemsResult.Items) || data.Items || [];
+  return { items, errors: data.Errors || [] };
+}
+
+const errorMessage = (e) => {
+  const first = e.details && Array.isArray(e.details.Errors) ? e.details.Errors[0] : null;
+  return (first && (first.Message || first.Code)) || e.message || 'PA API request failed';
+};
+
+/**
+ * Build one status entry per requested ASIN:
+ *   succeeded       item returned
+ *   not-accessible  PA API reported ItemNotAccessible
+ *   failed          any other per-item error, a failed chunk, or no item
+ * PA API only names the ASIN inside the error message, so errors are
+ * matched to ASINs by searching the message text.
+ */
+function buildStatuses(asins, items, errors, chunkFailures) {
+  const returned = new Set(items.map((it) => String(it.ASIN).toUpperCase()));
+
+  return asins.map((asin) => {
+    if (returned.has(asin)) return { asin, status: 'succeeded', error: null };
+
+    if (chunkFailures.has(asin)) {
+      return { asin, status: 'failed', error: chunkFailures.get(asin) };
+    }
+
+    const match = errors.find((e) => String(e.Message || '').toUpperCase().includes(asin));
+    if (match) {
+      return {
+        asin,
+        status: match.Code === 'ItemNotAccessible' ? 'not-accessible' : 'failed',
+        error: match.Message || match.Code
+      };
+    }
+
+    return { asin, status: 'failed', error: 'No item returned' };
+  });
+}
+
+// ---------- PAAPI GetItems (any number of ASINs) ----------
+/**
+ * Look up any number of ASINs: the list is de-duplicated, split into
+ * chunks of 10 and sent under the configured TPS limit, retrying
+ * throttled chunks. Items and Errors from all chunks are merged and a
+ * per-ASIN `statuses` list is returned alongside them.
+ *
+ * Returned items are upserted into the product catalog, and tracked
+ * ASINs get a price history snapshot.
+ *
+ * When every chunk fails (bad credentials, wrong host, ...) the first
+ * chunk's error is thrown so callers can surface the real cause.
+ * `onChunk(done, total)` reports progress.
+ */
+async function getItems(cfg, asins, { onChunk, isCancelled } = {}) {
+  const ids = Array.from(new Set(
+    asins.map((a) => String(a).trim().toUpperCase()).filter(Boolean)
+  ));
+
+  const chunks = [];
+  for (let i = 0; i < ids.length; i += GET_ITEMS_MAX_IDS) {
+    chunks.push(ids.slice(i, i + GET_ITEMS_MAX_IDS));
+  }
+
+  const throttle = await loadThrottleSettings();
+  const started = Date.now();
+
+  let done = 0;
+  const outcomes = await mapPool(chunks, batchConcurrency(throttle), async (chunk) => {
+    let outcome;
+    try {
+      outcome = await getItemsChunk(cfg, chunk);
+    } catch (e) {
+      outcome = { chunk, failure: e };
+    }
+    done += 1;
+    if (onChunk) await onChunk(done, chunks.length);
+    return outcome;
+  }, { isCancelled });
+
+  const finished = outcomes.filter(Boolean);
+  const failures = finished.filter((o) => o.failure);
+  if (finished.length && failures.length === finished.length) {
+    throw failures[0].failure;
+  }
+
+  const items = [];
+  const errors = [];
+  const chunkFailures = new Map();
+  for (const o of finished) {
+    if (o.failure) {
+      for (const asin of o.chunk) chunkFailures.set(asin, errorMessage(o.failure));
+    } else {
+      items.push(...o.items);
+      errors.push(...o.errors);
+    }
+  }
+
+  // Chunks skipped by a cancellation are reported as failed too.
+  outcomes.forEach((o, i) => {
+    if (!o) for (const asin of chunks[i]) chunkFailures.set(asin, 'Cancelled');
+  });
+
+  await saveItemsToCatalog(cfg.marketplace, items);
+  await recordTrackedPrices(cfg.marketplace, items);
+
+  const statuses = buildStatuses(ids, items, errors, chunkFailures);
+  const failed = statuses.filter((st) => st.status !== 'succeeded').map((st) => st.asin);
+  (failed.length ? log.warn : log.info)(`GetItems returned ${items.length} of ${ids.length} ASIN(s)`, {
+    marketplace: cfg.marketplace,
+    requested: ids.length,
+    returned: items.length,
+    ...(failed.length ? { failedAsins: failed } : {}),
+    durationMs: Date.now() - started
+  });
+
+  return { items, errors, statuses };
+}
+
+// ---------- PAAPI GetVariations ----------
+const GET_VARIATIONS_RESOURCES = [
+  'ItemInfo.Title',
+  'Images.Primary.Small',
+  'VariationSummary.VariationDimension',
+  'VariationSummary.Price.HighestPrice',
+  'VariationSummary.Price.LowestPrice'
+];
+
+const GET_VARIATIONS_PAGE_SIZE = 10;
+
+/**
+ * Fetch the whole variation family of one ASIN (child or parent), paging
+ * through every VariationPage. Resolves with the parent ASIN, the
+ * dimension definitions and one entry per sibling with its dimension
+ * values, or `null` when the ASIN has no variations.
+ */
+async function getVariationFamily(cfg, asin) {
+  const variations = [];
+  let summary = null;
+
+  for (let page = 1; ; page++) {
+    let data;
+    try {
+      data = await callPaapi(cfg, 'GetVariations', {
+        ASIN: asin,
+        Resources: GET_VARIATIONS_RESOURCES,
+        PartnerTag: cfg.partnerTag,
+        PartnerType: 'Associates',
+        Marketplace: cfg.marketplace,
+        VariationCount: GET_VARIATIONS_PAGE_SIZE,
+        VariationPage: page
+      });
+    } catch (e) {
+      const codes = (e.details && e.details.Errors || []).map((x) => x.Code);
+      if (page === 1 && codes.includes('NoResults')) return null;
+      throw e;
+    }
+
+    const result = data.VariationsResult || {};
+    summary = summary || result.VariationSummary || {};
+    for (const item of result.Items || []) {
+      const attributes = {};
+      for (const attr of item.VariationAttributes || []) {
+        attributes[attr.Name] = attr.Value;
+      }
+      variations.push({
+        asin: item.ASIN,
+        parentAsin: item.ParentASIN || null,
+        title: item.ItemInfo?.Title?.DisplayValue || null,
+        image: item.Images?.Primary?.Small?.URL || null,
+        url: item.DetailPageURL || null,
+        attributes
+      });
+    }
+
+    if (page >= (summary.PageCount || 1)) break;
+  }
+
+  if (!variations.length) return null;
+
+  return {
+    parentAsin: variations.find((v) => v.parentAsin)?.parentAsin || null,
+    dimensions: (summary.VariationDimensions || []).map((d) => ({
+      name: d.Name,
+      displayName: d.DisplayName || d.Name,
+      values: d.Values || []
+    })),
+    variationCount: summary.VariationCount || variations.length,
+    variations
+  };
+}
+
+/**
+ * Resolve the variation families behind a list of ASINs.
+ *
+ * Each input ASIN gets `{ asin, parentAsin, familyId, status, error }`;
+ * `familyId` is the parent ASIN, or the ASIN itself when it has no
+ * variations. ASINs already covered by a resolved family are not looked
+ * up again. `deduped` keeps one ASIN per family in input order: the first
+ * input ASIN of the family, or its parent when `prefer` is "parent".
+ */
+async function resolveVariations(cfg, asins, { prefer = 'first' } = {}) {
+  const ids = Array.from(new Set(
+    asins.map((a) => String(a).trim().toUpperCase()).filter(Boolean)
+  ));
+
+  const families = new Map();
+  const memberOf = new Map();
+  const results = [];
+
+  for (const asin of ids) {
+    if (memberOf.has(asin)) {
+      const family = families.get(memberOf.get(asin));
+      results.push({ asin, parentAsin: family.parentAsin, familyId: family.id, status: 'resolved', error: null });
+      continue;
+    }
+
+    let family;
+    try {
+      family = await getVariationFamily(cfg, asin);
+    } catch (e) {
+      // Rejected credentials affect every ASIN: fail fast.
+      if (e.status === 401 || e.status === 403) throw e;
+      results.push({ asin, parentAsin: null, familyId: asin, status: 'failed', error: errorMessage(e) });
+      continue;
+    }
+
+    if (!family) {
+      results.push({ asin, parentAsin: null, familyId: asin, status: 'no-variations', error: null });
+      continue;
+    }
+
+    const id = family.parentAsin || asin;
+    families.set(id, { id, ...family });
+    for (const v of family.variations) memberOf.set(v.asin, id);
+    memberOf.set(asin, id);
+    results.push({ asin, parentAsin: family.parentAsin, familyId: id, status: 'resolved', error: null });
+  }
+
+  const seen = new Set();
+  const deduped = [];
+  for (const r of results) {
+    if (seen.has(r.familyId)) continue;
+    seen.add(r.familyId);
+    deduped.push(prefer === 'parent' && r.parentAsin ? r.parentAsin : r.asin);
+  }
+
+  return { results, families: Array.from(families.values()), deduped };
+}
+
+// ---------- PAAPI SearchItems ----------
+const SEARCH_ITEMS_RESOURCES = [
+  'BrowseNodeInfo.BrowseNodes',
+  'CustomerReviews.Count',
+  'CustomerReviews.StarRating',
+  'Images.Primary.Large',
+  'Images.Primary.Small',
+  'ItemInfo.ByLineInfo',
+  'ItemInfo.Features',
+  'ItemInfo.Title',
+  'Offers.Listings.Price',
+  'SearchRefinements'
+];
+
+const SEARCH_SORT_OPTIONS = [
+  'AvgCustomerReviews',
+  'Featured',
+  'NewestArrivals',
+  'Price:HighToLow',
+  'Price:LowToHigh',
+  'Relevance'
+];
+
+// PA API pages SearchItems results 10 at a time and stops at page 10.
+const SEARCH_MAX_PAGE = 10;
+const SEARCH_PAGE_SIZE = 10;
+
+/**
+ * Validate search parameters and build the SearchItems request body.
+ * Prices are given in the marketplace currency (e.g. 19.99) and sent in
+ * its lowest denomination (1999; yen have no minor unit, so 1999 yen stay
+ * 1999). Returns `{ error }` or `{ body }`.
+ */
+function buildSearchBody(cfg, params = {}) {
+  for (const field of ['keywords', 'brand', 'searchIndex']) {
+    const value = params[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+  }
+  const keywords = (params.keywords || '').trim();
+  const brand = (params.brand || '').trim();
+  const browseNodeId = String(params.browseNodeId || '').trim();
+
+  if (!keywords && !brand && !browseNodeId) {
+    return { error: 'Provide keywords, brand or browseNodeId' };
+  }
+  if (browseNodeId && !/^\d+$/.test(browseNodeId)) {
+    return { error: 'browseNodeId must be numeric' };
+  }
+
+  const page = parseInt(params.page, 10) || 1;
+  if (page < 1 || page > SEARCH_MAX_PAGE) {
+    return { error: `page must be between 1 and ${SEARCH_MAX_PAGE}` };
+  }
+
+  const body = {
+    PartnerTag: cfg.partnerTag,
+    PartnerType: 'Associates',
+    Marketplace: cfg.marketplace,
+    Resources: SEARCH_ITEMS_RESOURCES,
+    SearchIndex: (params.searchIndex || 'All').trim() || 'All',
+    ItemCount: SEARCH_PAGE_SIZE,
+    ItemPage: page
+  };
+  if (keywords) body.Keywords = keywords;
+  if (brand) body.Brand = brand;
+  if (browseNodeId) body.BrowseNodeId = browseNodeId;
+
+  const priceFactor = 10 ** (findMarketplace(cfg.marketplace)?.decimals ?? 2);
+  for (const [field, key] of [['minPrice', 'MinPrice'], ['maxPrice', 'MaxPrice']]) {
+    const raw = params[field];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) return { error: `${field} must be a positive number` };
+    body[key] = Math.round(n * priceFactor);
+  }
+  if (body.MinPrice !== undefined && body.MaxPrice !== undefined && body.MinPrice > body.MaxPrice) {
+    return { error: 'minPrice cannot exceed maxPrice' };
+  }
+
+  if (params.sortBy) {
+    if (!SEARCH_SORT_OPTIONS.includes(params.sortBy)) {
+      return { error: `sortBy must be one of: ${SEARCH_SORT_OPTIONS.join(', ')}` };
+    }
+    body.SortBy = params.sortBy;
+  }
+
+  return { body };
+}
+
+/**
+ * Run one SearchItems page. Resolves with the page items, the total
+ * result count and the number of pages PA API will actually serve.
+ * An empty result set is returned as no items rather than an error.
+ */
+async function searchItems(cfg, body) {
+  let data;
+  try {
+    data = await callPaapi(cfg, 'SearchItems', body);
+  } catch (e) {
+    const codes = (e.details && e.details.Errors || []).map((x) => x.Code);
+    if (codes.includes('NoResults')) {
+      return { items: [], totalResultCount: 0, page: body.ItemPage, pageCount: 0 };
+    }
+    throw e;
+  }
+
+  const result = data.SearchResult || {};
+  const total = result.TotalResultCount || 0;
+  return {
+    items: result.Items || [],
+    totalResultCount: total,
+    searchUrl: result.SearchURL || null,
+    page: body.ItemPage,
+    pageCount: Math.min(SEARCH_MAX_PAGE, Math.ceil(total / SEARCH_PAGE_SIZE))
+  };
+}
+
+export {
+  DEFAULT_MARKETPLACE,
+  THROTTLE_DEFAULTS,
+  GET_ITEMS_RESOURCES,
+  GET_ITEMS_MAX_IDS,
+  credentialSecrets,
+  checkProfile,
+  paapiError,
+  loadPaapiConfig,
+  listProfiles,
+  getProfile,
+  createProfile,
+  updateProfile,
+  setDefaultProfile,
+  deleteProfile,
+  describeDefaultConfig,
+  saveDefaultConfig,
+  clearDefaultConfig,
+  migratePaapiCredentials,
+  SEARCH_SORT_OPTIONS,
+  signPaapiRequest,
+  callPaapi,
+  getItems,
+  resolveVariations,
+  buildSearchBody,
+  searchItems
+};
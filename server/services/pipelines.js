@@ -0,0 +1,249 @@
+import { expandUrls, extractAsin, parseUrls } from './amazon.js';
+import { loadPaapiConfig, getItems, resolveVariations } from './paapi.js';
+import { extractAsinAaid } from './extractor.js';
+import { renderExport } from './exporter.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/pipelines');
+
+// Book ASINs are ISBN-10s; a bare 10-digit number only counts when its
+// ISBN check digit is valid, so phone and order numbers are not picked up.
+const ASIN_TOKEN = /\b(B0[A-Z0-9]{8}|\d{9}[\dX])\b/gi;
+
+function isIsbn10(value) {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = value[i] === 'X' ? 10 : Number(value[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+const unique = (values) => Array.from(new Set(values.filter(Boolean)));
+
+/**
+ * Step registry. Every step receives the shared pipeline context and its
+ * own `options`, and returns the fields it adds to the context:
+ *
+ *   text       raw input text
+ *   urls       URLs to expand
+ *   expansions { url, finalUrl, asin, error }[] from the expander
+ *   asins      unique ASIN list
+ *   mappings   { asin, aaid, strategy }[] from editor HTML
+ *   items      PA API GetItems items
+ *   variations per-ASIN variation family resolution
+ *   export     { format, contentType, filename?, content }
+ */
+const STEPS = {
+  'expand-urls': {
+    label: 'Expand short URLs',
+    async run(ctx) {
+      const urls = ctx.urls && ctx.urls.length ? ctx.urls : parseUrls(ctx.text);
+      if (!urls.length) throw new Error('No URLs to expand');
+
+      const expansions = await expandUrls(urls);
+      return {
+        urls,
+        expansions,
+        summary: `${expansions.filter((r) => r.asin).length}/${urls.length} URLs resolved`
+      };
+    }
+  },
+
+  'extract-asins': {
+    label: 'Extract ASINs',
+    async run(ctx) {
+      const found = [...(ctx.asins || [])];
+
+      for (const r of ctx.expansions || []) {
+        if (r.asin) found.push(String(r.asin).toUpperCase());
+      }
+      for (const u of ctx.urls || []) {
+        found.push(extractAsin(u));
+      }
+      for (const m of String(ctx.text || '').matchAll(ASIN_TOKEN)) {
+        const token = m[1].toUpperCase();
+        if (token.startsWith('B0') || isIsbn10(token)) found.push(token);
+      }
+
+      const asins = unique(found);
+      return { asins, summary: `${asins.length} unique ASINs` };
+    }
+  },
+
+  'extract-aaid': {
+    label: 'Extract ASIN/AAID from editor HTML',
+    async run(ctx) {
+      const { mappings, counts } = extractAsinAaid(ctx.text);
+      if (!mappings.length) throw new Error('No ASIN/AAID pairs found in input HTML');
+
+      return {
+        mappings,
+        asins: unique([...(ctx.asins || []), ...mappings.map((m) => m.asin.toUpperCase())]),
+        summary: `${mappings.length} pairs (${counts.tile} by tile, ${counts.index} by index)`
+      };
+    }
+  },
+
+  'paapi-get-items': {
+    label: 'PA API GetItems',
+    async run(ctx, options = {}) {
+      const asins = ctx.asins || [];
+      if (!asins.length) throw new Error('No ASINs to look up');
+
+      const cfg = await loadPaapiConfig(options.profile);
+      const { items, errors, statuses } = await getItems(cfg, asins);
+      const failed = statuses.filter((st) => st.status !== 'succeeded').length;
+      return {
+        items,
+        paapiErrors: errors,
+        paapiStatuses: statuses,
+        summary: `${items.length} items returned, ${failed} ASINs not returned`
+      };
+    }
+  },
+
+  'dedupe-variations': {
+    label: 'Dedupe variation families',
+    async run(ctx, options = {}) {
+      const asins = ctx.asins || [];
+      if (!asins.length) throw new Error('No ASINs to dedupe');
+
+      const cfg = await loadPaapiConfig(options.profile);
+      const prefer = options.prefer === 'parent' ? 'parent' : 'first';
+      const { results, deduped } = await resolveVariations(cfg, asins, { prefer });
+      return {
+        asins: deduped,
+        variations: results,
+        summary: `${asins.length} ASINs -> ${deduped.length} families`
+      };
+    }
+  },
+
+  export: {
+    label: 'Export',
+    async run(ctx, options = {}) {
+      const format = options.format || 'json';
+      const asins = ctx.asins || [];
+      const items = ctx.items || [];
+
+      // Legacy name for asin-txt.
+      if (format === 'asin-list') {
+        return {
+          export: { format, contentType: 'text/plain', content: asins.join(',') },
+          summary: `${asins.length} ASINs exported`
+        };
+      }
+
+      if (format === 'json') {
+        const content = JSON.stringify({ asins, items }, null, 2);
+        return {
+          export: { format: 'json', contentType: 'application/json', content },
+          summary: `${items.length || asins.length} records exported`
+        };
+      }
+
+      // Richest result set in the context wins: items, then AAID
+      // mappings, then expansions, then the bare ASIN list.
+      let dataset = 'items';
+      let rows = items;
+      if (format === 'aaid-txt' || (!items.length && ctx.mappings && ctx.mappings.length)) {
+        dataset = 'mappings';
+        rows = ctx.mappings || [];
+      } else if (!items.length && ctx.expansions && ctx.expansions.length) {
+        dataset = 'expansions';
+        rows = ctx.expansions;
+      } else if (!items.length) {
+        rows = asins.map((asin) => ({ ASIN: asin }));
+      }
+
+      const file = renderExport(dataset, format, rows);
+      if (file.error) throw new Error(file.error);
+      return {
+        export: { format, contentType: file.contentType, filename: file.filename, content: file.content },
+        summary: `${rows.length} ${dataset} exported as ${format}`
+      };
+    }
+  }
+};
+
+const STEP_TYPES = Object.keys(STEPS);
+
+/**
+ * Validate a pipeline step list. Returns an error message, or null when
+ * every step has a known type.
+ */
+function validateSteps(steps) {
+  if (!Array.isArray(steps) || !steps.length) {
+    return 'steps must be a non-empty array';
+  }
+  for (const [i, step] of steps.entries()) {
+    if (!step || !STEPS[step.type]) {
+      return `step ${i + 1}: unknown type "${step && step.type}"`;
+    }
+    if (step.options !== undefined && (typeof step.options !== 'object' || step.options === null)) {
+      return `step ${i + 1}: options must be an object`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run the steps in order, feeding each step's output into the next.
+ * A failing step stops the run; results up to that point are kept.
+ * `onStep(done, total)` fires after every step; once `isCancelled()` is
+ * true no further step starts and the run ends as cancelled.
+ */
+async function runPipeline(steps, input = {}, { onStep, isCancelled } = {}) {
+  const ctx = {
+    text: input.text || '',
+    urls: Array.isArray(input.urls) ? input.urls : [],
+    asins: Array.isArray(input.asins) ? unique(input.asins.map((a) => String(a).trim().toUpperCase())) : []
+  };
+  const stepResults = [];
+
+  for (const [index, step] of steps.entries()) {
+    if (isCancelled && isCancelled()) {
+      return { status: 'cancelled', error: 'Cancelled', steps: stepResults, output: ctx };
+    }
+    const def = STEPS[step.type];
+    const started = Date.now();
+    try {
+      const { summary, ...out } = await def.run(ctx, step.options || {});
+      Object.assign(ctx, out);
+      stepResults.push({
+        index,
+        type: step.type,
+        status: 'succeeded',
+        summary,
+        durationMs: Date.now() - started
+      });
+      log.info(`Step ${index + 1} (${step.type}) succeeded`, {
+        step: step.type,
+        index,
+        summary,
+        durationMs: Date.now() - started
+      });
+    } catch (e) {
+      stepResults.push({
+        index,
+        type: step.type,
+        status: 'failed',
+        error: e.message || 'Step failed',
+        durationMs: Date.now() - started
+      });
+      log.error(`Step ${index + 1} (${step.type}) failed`, {
+        step: step.type,
+        index,
+        durationMs: Date.now() - started,
+        err: e
+      });
+      return { status: 'failed', error: `${def.label}: ${e.message}`, steps: stepResults, output: ctx };
+    }
+    if (onStep) await onStep(index + 1, steps.length);
+  }
+
+  return { status: 'succeeded', error: null, steps: stepResults, output: ctx };
+}
+
+export { STEPS, STEP_TYPES, validateSteps, runPipeline };
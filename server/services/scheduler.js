@@ -0,0 +1,233 @@
+import {
+  listDueSchedules,
+  startScheduleRun,
+  finishScheduleRun,
+  listRunningScheduleRuns
+} from '../db.js';
+import { parseCron, nextRun } from './cron.js';
+import {
+  TERMINAL_STATUSES,
+  jobEvents,
+  validateJobInput,
+  jobRole,
+  submitJob,
+  getJobById
+} from './jobs.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/scheduler');
+
+// ---------- Promisified wrappers ----------
+const listDueSchedulesAsync = (now) =>
+  new Promise((resolve, reject) => {
+    listDueSchedules(now, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const startScheduleRunAsync = (scheduleId, run) =>
+  new Promise((resolve, reject) => {
+    startScheduleRun(scheduleId, run, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const finishScheduleRunAsync = (runId, outcome) =>
+  new Promise((resolve, reject) => {
+    finishScheduleRun(runId, outcome, (err) => (err ? reject(err) : resolve()));
+  });
+
+const listRunningScheduleRunsAsync = () =>
+  new Promise((resolve, reject) => {
+    listRunningScheduleRuns((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+/**
+ * Operations a schedule can trigger. Each one queues a background job,
+ * so scheduled runs show up (and can be cancelled) like any other job.
+ */
+const OPERATIONS = {
+  'paapi-refresh': {
+    label: 'PA API refresh of a saved ASIN list',
+    params: 'asins: string[], profile?: string',
+    jobType: 'paapi-get-items',
+    input: (params) => ({ asins: params.asins, ...(params.profile ? { profile: params.profile } : {}) })
+  },
+  'refresh-prices': {
+    label: 'Refresh tracked prices',
+    params: '',
+    jobType: 'refresh-prices',
+    input: () => ({})
+  },
+  'expand-links': {
+    label: 'Re-expand short links',
+    params: 'urls: string[]',
+    jobType: 'expand-urls',
+    input: (params) => ({ urls: params.urls })
+  },
+  'prune-logs': {
+    label: 'Prune old logs',
+    params: 'olderThanDays: number',
+    jobType: 'prune-logs',
+    input: (params) => ({ olderThanDays: Number(params.olderThanDays) })
+  },
+  'log-retention': {
+    label: 'Apply log retention rules',
+    params: '',
+    jobType: 'apply-log-retention',
+    input: () => ({})
+  },
+  'backup-database': {
+    label: 'Back up the database',
+    params: '',
+    jobType: 'backup-database',
+    input: () => ({})
+  }
+};
+
+const OPERATION_TYPES = Object.keys(OPERATIONS);
+
+// Role needed to create, change, pause, delete or run a schedule: that of
+// the job it queues, so a schedule cannot do what its owner could not.
+const operationRole = (operation) => (OPERATIONS[operation] ? jobRole(OPERATIONS[operation].jobType) : 'editor');
+
+/**
+ * Validate a schedule definition. Returns an error message, or null when
+ * the cron expression parses and the params suit the operation.
+ */
+function validateSchedule({ cron, operation, params }) {
+  try {
+    parseCron(cron);
+  } catch (e) {
+    return `cron: ${e.message}`;
+  }
+  const op = OPERATIONS[operation];
+  if (!op) return `operation must be one of: ${OPERATION_TYPES.join(', ')}`;
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return 'params must be an object';
+  }
+  const invalid = validateJobInput(op.jobType, op.input(params));
+  return invalid ? `params: ${invalid}` : null;
+}
+
+// Next run time as an ISO string, or null for a paused or never-matching schedule.
+function computeNextRun(cron, enabled, from = new Date()) {
+  if (!enabled) return null;
+  const next = nextRun(parseCron(cron), from);
+  return next ? next.toISOString() : null;
+}
+
+// Schedule id -> run id of the run whose job has not finished yet.
+const activeRuns = new Map();
+
+// Mirror the job's final status onto the schedule run once it finishes.
+function followJob(scheduleId, runId, jobId) {
+  activeRuns.set(scheduleId, runId);
+
+  const finish = async (job) => {
+    if (!TERMINAL_STATUSES.includes(job.status)) return;
+    jobEvents.off(`job:${jobId}`, finish);
+    activeRuns.delete(scheduleId);
+    try {
+      await finishScheduleRunAsync(runId, { status: job.status, error: job.error });
+    } catch (e) {
+      log.error('DB error (finishScheduleRun)', { err: e });
+    }
+  };
+
+  jobEvents.on(`job:${jobId}`, finish);
+  return finish;
+}
+
+/**
+ * Fire a schedule now: queue its operation's job and record the run.
+ * Scheduled firings advance next_run_at; manual ones keep it. A schedule
+ * whose previous job is still running is skipped rather than stacked.
+ */
+async function fireSchedule(schedule, { manual = false } = {}) {
+  const nextRunAt = manual
+    ? schedule.next_run_at
+    : computeNextRun(schedule.cron, !!schedule.enabled);
+
+  if (activeRuns.has(schedule.id)) {
+    log.warn(`Schedule "${schedule.name}" skipped: previous run still in progress`, { scheduleId: schedule.id });
+    await startScheduleRunAsync(schedule.id, {
+      status: 'skipped',
+      error: 'Previous run still in progress',
+      nextRunAt
+    });
+    return { skipped: true };
+  }
+
+  const op = OPERATIONS[schedule.operation];
+  let submitted;
+  try {
+    if (!op) throw new Error(`Unknown operation "${schedule.operation}"`);
+    submitted = await submitJob(op.jobType, op.input(JSON.parse(schedule.params || '{}')));
+  } catch (e) {
+    submitted = { error: e.message };
+  }
+
+  if (submitted.error) {
+    log.error(`Schedule "${schedule.name}" failed to queue its job: ${submitted.error}`, { scheduleId: schedule.id });
+    await startScheduleRunAsync(schedule.id, { status: 'failed', error: submitted.error, nextRunAt });
+    return { error: submitted.error };
+  }
+
+  const runId = await startScheduleRunAsync(schedule.id, {
+    jobId: submitted.id,
+    status: 'running',
+    nextRunAt
+  });
+  followJob(schedule.id, runId, submitted.id);
+  log.info(`Schedule "${schedule.name}" fired`, {
+    scheduleId: schedule.id,
+    operation: schedule.operation,
+    jobId: submitted.id,
+    manual
+  });
+  return { runId, jobId: submitted.id };
+}
+
+let ticking = false;
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const due = await listDueSchedulesAsync(new Date().toISOString());
+    for (const schedule of due) {
+      await fireSchedule(schedule);
+    }
+  } catch (e) {
+    log.error('Scheduler error', { err: e });
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the scheduler loop. Runs left open by a restart are re-attached
+ * to their jobs (which the job worker re-queues). Schedules that came due
+ * while the server was down fire once, not once per missed slot.
+ */
+async function startScheduler({ intervalMs = 30000 } = {}) {
+  for (const run of await listRunningScheduleRunsAsync()) {
+    const job = run.job_id ? await getJobById(run.job_id) : null;
+    if (!job) {
+      await finishScheduleRunAsync(run.id, { status: 'failed', error: 'Job no longer exists' });
+      continue;
+    }
+    const finish = followJob(run.schedule_id, run.id, job.id);
+    await finish(job);
+  }
+
+  setInterval(tick, intervalMs).unref();
+  setImmediate(tick);
+}
+
+export {
+  OPERATIONS,
+  OPERATION_TYPES,
+  operationRole,
+  validateSchedule,
+  computeNextRun,
+  fireSchedule,
+  startScheduler
+};
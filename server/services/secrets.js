@@ -0,0 +1,348 @@
+// Encryption for the `secrets` table (AES-256-GCM) with versioned keys.
+//
+// Keys come from the environment:
+//   SECRET_ENC_KEYS  comma-separated "id=passphrase" list; the first entry
+//                    is the active key used for new values
+//   SECRET_ENC_KEY   single passphrase, available as key id "default"
+// Each passphrase is stretched with scrypt (salted with its key id) into
+// a 256-bit key. Values are serialized as "keyId:iv:ciphertext:tag", so
+// rows written under an older key still decrypt while that key is
+// configured. Rows from before key versioning ("iv:ciphertext:tag") used
+// the first 32 characters of the passphrase as the raw key; they remain
+// readable and are upgraded by reencryptAll().
+//
+// Secrets leaving the server (configuration bundles) are re-encrypted with
+// createPassphraseCipher() under a key derived from a passphrase the user
+// chooses, so a bundle never depends on this server's keys.
+
+import crypto from 'crypto';
+import { listSecrets, getSecret, upsertSecret, deleteSecret, reencryptSecrets } from '../db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/secrets');
+
+const MIN_PASSPHRASE_LENGTH = 32;
+const MIN_BUNDLE_PASSPHRASE_LENGTH = 12;
+const BUNDLE_KDF = { N: 16384, r: 8, p: 1 };
+const DEFAULT_KEY_ID = 'default';
+const LEGACY_KEY_ID = 'legacy';
+
+// ---------- Promisified wrappers ----------
+const listSecretsAsync = () =>
+  new Promise((resolve, reject) => {
+    listSecrets((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const getSecretAsync = (name) =>
+  new Promise((resolve, reject) => {
+    getSecret(name, (err, row) => (err ? reject(err) : resolve(row || null)));
+  });
+
+const upsertSecretAsync = (name, valueEncrypted) =>
+  new Promise((resolve, reject) => {
+    upsertSecret(name, valueEncrypted, (err) => (err ? reject(err) : resolve()));
+  });
+
+const deleteSecretAsync = (name) =>
+  new Promise((resolve, reject) => {
+    deleteSecret(name, (err) => (err ? reject(err) : resolve()));
+  });
+
+const reencryptSecretsAsync = (updates) =>
+  new Promise((resolve, reject) => {
+    reencryptSecrets(updates, (err) => (err ? reject(err) : resolve()));
+  });
+
+// ---------- Keyring ----------
+const deriveKey = (passphrase, keyId) =>
+  crypto.scryptSync(passphrase, `selji-secrets:${keyId}`, 32);
+
+function loadKeyring() {
+  const entries = [];
+  const seen = new Set();
+
+  const add = (id, passphrase) => {
+    if (!id || seen.has(id)) return;
+    if (!/^[A-Za-z0-9_.-]+$/.test(id) || id === LEGACY_KEY_ID) {
+      log.warn(`Ignoring secret key "${id}": ids may only use letters, digits, . _ - (not "${LEGACY_KEY_ID}")`, { keyId: id });
+      return;
+    }
+    if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      log.warn(`Ignoring secret key "${id}": passphrase must be >= ${MIN_PASSPHRASE_LENGTH} chars`, { keyId: id });
+      return;
+    }
+    seen.add(id);
+    entries.push({
+      id,
+      key: deriveKey(passphrase, id),
+      legacyKey: Buffer.from(passphrase.slice(0, 32), 'utf8')
+    });
+  };
+
+  for (const part of String(process.env.SECRET_ENC_KEYS || '').split(',')) {
+    const eq = part.indexOf('=');
+    if (eq > 0) add(part.slice(0, eq).trim(), part.slice(eq + 1).trim());
+  }
+  add(DEFAULT_KEY_ID, process.env.SECRET_ENC_KEY || null);
+
+  return entries;
+}
+
+// Derived once at startup; scrypt is deliberately slow.
+const KEYRING = loadKeyring();
+
+const NO_KEY_ERROR = 'No encryption key configured (set SECRET_ENC_KEY or SECRET_ENC_KEYS)';
+
+const activeKey = () => KEYRING[0] || null;
+
+const findKey = (id) => KEYRING.find((k) => k.id === id) || null;
+
+// ---------- Encrypt / decrypt ----------
+
+/**
+ * Encrypt under the active key, or under `keyId` when given.
+ */
+function encryptSecret(plaintext, keyId) {
+  const entry = keyId ? findKey(keyId) : activeKey();
+  if (!entry) throw new Error(keyId ? `Unknown key id "${keyId}"` : NO_KEY_ERROR);
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', entry.key, iv);
+  const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [entry.id, iv.toString('base64'), enc.toString('base64'), tag.toString('base64')].join(':');
+}
+
+function decryptWith(key, ivB64, encB64, tagB64) {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivB64, 'base64'));
+  decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+  const dec = Buffer.concat([decipher.update(Buffer.from(encB64, 'base64')), decipher.final()]);
+  return dec.toString('utf8');
+}
+
+// Key id a serialized value was written with ('legacy' before versioning).
+function secretKeyId(serialized) {
+  const parts = String(serialized || '').split(':');
+  return parts.length === 4 ? parts[0] : LEGACY_KEY_ID;
+}
+
+/**
+ * Decrypt a serialized value. Throws an Error naming the problem (key
+ * not configured, wrong key / tampered value) instead of returning null.
+ */
+function decryptSecret(serialized) {
+  const parts = String(serialized || '').split(':');
+
+  if (parts.length === 4) {
+    const [keyId, iv, enc, tag] = parts;
+    const entry = findKey(keyId);
+    if (!entry) throw new Error(`Encrypted with key "${keyId}", which is not configured`);
+    try {
+      return decryptWith(entry.key, iv, enc, tag);
+    } catch {
+      throw new Error(`Key "${keyId}" does not decrypt this value (changed passphrase?)`);
+    }
+  }
+
+  if (parts.length === 3) {
+    if (!KEYRING.length) throw new Error(NO_KEY_ERROR);
+    for (const entry of KEYRING) {
+      try {
+        return decryptWith(entry.legacyKey, ...parts);
+      } catch {
+        // try the next configured passphrase
+      }
+    }
+    throw new Error('None of the configured keys decrypts this unversioned value');
+  }
+
+  throw new Error('Malformed encrypted value');
+}
+
+// ---------- Passphrase encryption ----------
+
+/**
+ * AES-256-GCM keyed by a user passphrase, for secrets leaving the server.
+ * The key is derived with scrypt from the passphrase and kdf.salt (a new
+ * random salt when kdf is omitted); store `kdf` next to the values to
+ * decrypt them again. Values are serialized as "iv:ciphertext:tag".
+ * Returns { kdf, encrypt(plaintext), decrypt(serialized) }.
+ */
+function createPassphraseCipher(passphrase, kdf) {
+  if (typeof passphrase !== 'string' || passphrase.length < MIN_BUNDLE_PASSPHRASE_LENGTH) {
+    throw new Error(`passphrase must be at least ${MIN_BUNDLE_PASSPHRASE_LENGTH} characters`);
+  }
+  const params = kdf
+    ? { name: kdf.name, salt: kdf.salt, N: kdf.N, r: kdf.r, p: kdf.p }
+    : { name: 'scrypt', salt: crypto.randomBytes(16).toString('base64'), ...BUNDLE_KDF };
+  if (params.name !== 'scrypt') throw new Error(`Unsupported key derivation "${params.name}"`);
+
+  let key;
+  try {
+    key = crypto.scryptSync(passphrase, Buffer.from(String(params.salt), 'base64'), 32, {
+      N: params.N,
+      r: params.r,
+      p: params.p
+    });
+  } catch (err) {
+    throw new Error(`Invalid key derivation parameters: ${err.message}`);
+  }
+
+  return {
+    kdf: params,
+    encrypt(plaintext) {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+      const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+      return [iv.toString('base64'), enc.toString('base64'), cipher.getAuthTag().toString('base64')].join(':');
+    },
+    decrypt(serialized) {
+      const parts = String(serialized || '').split(':');
+      if (parts.length !== 3) throw new Error('Malformed encrypted value');
+      try {
+        return decryptWith(key, ...parts);
+      } catch {
+        throw new Error('Wrong passphrase, or the value was changed');
+      }
+    }
+  };
+}
+
+// ---------- Named secrets for other services ----------
+
+// Decrypted value of a stored secret, or null when it does not exist.
+// Throws when the value exists but cannot be decrypted.
+async function readSecret(name) {
+  const row = await getSecretAsync(name);
+  return row ? decryptSecret(row.value_encrypted) : null;
+}
+
+const hasSecret = async (name) => !!(await getSecretAsync(name));
+
+async function writeSecret(name, value) {
+  await upsertSecretAsync(name, encryptSecret(value));
+}
+
+async function removeSecret(name) {
+  await deleteSecretAsync(name);
+}
+
+/**
+ * Configured key ids and how many secrets each one protects, plus the
+ * number of unversioned rows and of rows under keys no longer configured.
+ */
+async function describeKeys() {
+  const rows = await listSecretsAsync();
+  const counts = {};
+  for (const row of rows) {
+    const id = secretKeyId(row.value_encrypted);
+    counts[id] = (counts[id] || 0) + 1;
+  }
+
+  const keys = KEYRING.map((k, i) => ({ id: k.id, active: i === 0, secrets: counts[k.id] || 0 }));
+  const unconfigured = Object.entries(counts)
+    .filter(([id]) => id !== LEGACY_KEY_ID && !findKey(id))
+    .map(([id, secrets]) => ({ id, secrets }));
+
+  return {
+    activeKeyId: activeKey()?.id || null,
+    keys,
+    legacy: counts[LEGACY_KEY_ID] || 0,
+    unconfigured
+  };
+}
+
+/**
+ * Check the keyring end to end: the active key must encrypt and decrypt
+ * a probe value, and every stored secret must decrypt. Returns
+ * { keyIds, activeKeyId, roundTrip, total, legacy, failed: [{ name, keyId, error }] }
+ * with roundTrip false when no key is configured.
+ */
+async function verifySecrets() {
+  let roundTrip = false;
+  if (activeKey()) {
+    const probe = crypto.randomBytes(16).toString('hex');
+    try {
+      roundTrip = decryptSecret(encryptSecret(probe)) === probe;
+    } catch {
+      roundTrip = false;
+    }
+  }
+
+  const rows = await listSecretsAsync();
+  const failed = [];
+  let legacy = 0;
+  for (const row of rows) {
+    const keyId = secretKeyId(row.value_encrypted);
+    if (keyId === LEGACY_KEY_ID) legacy++;
+    try {
+      decryptSecret(row.value_encrypted);
+    } catch (err) {
+      failed.push({ name: row.name, keyId, error: err.message });
+    }
+  }
+
+  return {
+    keyIds: KEYRING.map((k) => k.id),
+    activeKeyId: activeKey()?.id || null,
+    roundTrip,
+    total: rows.length,
+    legacy,
+    failed
+  };
+}
+
+/**
+ * Re-encrypt every secret under `targetKeyId` (default: the active key).
+ * Rows already on that key are left alone; rows that fail to decrypt are
+ * left untouched and reported. Successful rows are written in one
+ * transaction.
+ */
+async function reencryptAll(targetKeyId) {
+  const target = targetKeyId ? findKey(targetKeyId) : activeKey();
+  if (!target) {
+    return { error: targetKeyId ? `Unknown key id "${targetKeyId}"` : NO_KEY_ERROR };
+  }
+
+  const rows = await listSecretsAsync();
+  const updates = [];
+  const failed = [];
+  let unchanged = 0;
+
+  for (const row of rows) {
+    if (secretKeyId(row.value_encrypted) === target.id) {
+      unchanged++;
+      continue;
+    }
+    try {
+      const plaintext = decryptSecret(row.value_encrypted);
+      updates.push({ id: row.id, valueEncrypted: encryptSecret(plaintext, target.id) });
+    } catch (err) {
+      failed.push({ name: row.name, keyId: secretKeyId(row.value_encrypted), error: err.message });
+    }
+  }
+
+  if (updates.length) await reencryptSecretsAsync(updates);
+
+  return {
+    keyId: target.id,
+    total: rows.length,
+    reencrypted: updates.length,
+    unchanged,
+    failed
+  };
+}
+
+export {
+  encryptSecret,
+  decryptSecret,
+  secretKeyId,
+  createPassphraseCipher,
+  readSecret,
+  hasSecret,
+  writeSecret,
+  removeSecret,
+  describeKeys,
+  verifySecrets,
+  reencryptAll
+};
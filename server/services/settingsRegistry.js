@@ -0,0 +1,316 @@
+// Typed registry of the settings the server reads.
+//
+// Each section lists its settings as
+//   { name, type, default, min?, max?, values?, description, restartRequired }
+// with type one of
+//   integer, number   numeric, within min/max when given
+//   boolean           stored as "true" / "false"
+//   enum              one of `values`
+//   string            any non-empty text
+//   url               an http(s) URL, or one of `values` (e.g. "off")
+//   path              an absolute filesystem path
+// `default` is what the service uses while the setting is unset (null when
+// it has none) and comes from the service's own defaults. A name written
+// as rateLimit.<host> covers a family of names matching `pattern`.
+//
+// Writes to a section declared here must name one of its settings, so a
+// typo is rejected rather than stored as a new key; sections that are not
+// declared stay free-form. Every setting here is re-read while the server
+// runs; restartRequired marks any that is only read at startup.
+
+import path from 'path';
+import { EXPANDER_DEFAULTS } from './amazon.js';
+import { THROTTLE_DEFAULTS } from './paapi.js';
+import { TRACKING_DEFAULTS } from './tracking.js';
+import { LOG_LEVELS, DEFAULT_MIN_LEVEL } from './logger.js';
+import { RETENTION_DEFAULTS } from './logRetention.js';
+import { HEALTH_DEFAULTS } from './health.js';
+import { BACKUP_DEFAULTS } from './backup.js';
+
+const SECTIONS = [
+  {
+    section: 'expander',
+    label: 'Short-link expander',
+    settings: [
+      {
+        name: 'concurrency',
+        type: 'integer',
+        default: EXPANDER_DEFAULTS.concurrency,
+        min: 1,
+        max: 32,
+        description: 'Short links expanded in parallel'
+      },
+      {
+        name: 'jitterMs',
+        type: 'integer',
+        default: EXPANDER_DEFAULTS.jitterMs,
+        min: 0,
+        description: 'Random delay (ms) added before each request'
+      },
+      {
+        name: 'rateLimit.default',
+        type: 'number',
+        default: EXPANDER_DEFAULTS.defaultRate,
+        min: 0,
+        description: 'Requests per second for hosts without their own limit'
+      },
+      ...Object.entries(EXPANDER_DEFAULTS.rateLimits).map(([host, rate]) => ({
+        name: `rateLimit.${host}`,
+        type: 'number',
+        default: rate,
+        min: 0,
+        description: `Requests per second for ${host} and its subdomains`
+      })),
+      {
+        name: 'rateLimit.<host>',
+        pattern: /^rateLimit\.[A-Za-z0-9.-]+$/,
+        type: 'number',
+        default: null,
+        min: 0,
+        description: 'Requests per second for another host and its subdomains'
+      }
+    ]
+  },
+  {
+    section: 'paapiThrottle',
+    label: 'PA API throttling',
+    settings: [
+      {
+        name: 'tps',
+        type: 'number',
+        default: THROTTLE_DEFAULTS.tps,
+        min: 0.1,
+        description: 'Requests per second allowed by the account'
+      },
+      {
+        name: 'maxRetries',
+        type: 'integer',
+        default: THROTTLE_DEFAULTS.maxRetries,
+        min: 0,
+        max: 10,
+        description: 'Retries for a throttled (429) request'
+      }
+    ]
+  },
+  {
+    section: 'tracking',
+    label: 'Price tracking',
+    settings: [
+      {
+        name: 'intervalMinutes',
+        type: 'integer',
+        default: TRACKING_DEFAULTS.intervalMinutes,
+        min: 0,
+        description: 'Minutes between automatic price refreshes (0 = off)'
+      }
+    ]
+  },
+  {
+    section: 'logging',
+    label: 'Logging',
+    settings: [
+      {
+        name: 'minLevel',
+        type: 'enum',
+        values: LOG_LEVELS,
+        default: DEFAULT_MIN_LEVEL,
+        description: 'Lowest level written to the log'
+      }
+    ]
+  },
+  {
+    section: 'logRetention',
+    label: 'Log retention',
+    settings: [
+      {
+        name: 'maxAgeDays',
+        type: 'number',
+        default: RETENTION_DEFAULTS.maxAgeDays,
+        min: 0,
+        description: 'Delete log rows older than this many days (0 = keep)'
+      },
+      ...LOG_LEVELS.map((level) => ({
+        name: `maxAgeDays.${level}`,
+        type: 'number',
+        default: null,
+        min: 0,
+        description: `Age limit for ${level} rows, overriding maxAgeDays`
+      })),
+      ...LOG_LEVELS.map((level) => ({
+        name: `maxRows.${level}`,
+        type: 'integer',
+        default: 0,
+        min: 0,
+        description: `Keep at most this many ${level} rows (0 = no limit)`
+      })),
+      {
+        name: 'archive',
+        type: 'boolean',
+        default: RETENTION_DEFAULTS.archive,
+        description: 'Archive rows to a compressed file before deleting them'
+      },
+      {
+        name: 'intervalMinutes',
+        type: 'integer',
+        default: RETENTION_DEFAULTS.intervalMinutes,
+        min: 0,
+        description: 'Minutes between retention runs (0 = off)'
+      }
+    ]
+  },
+  {
+    section: 'health',
+    label: 'Health checks',
+    settings: [
+      {
+        name: 'probeUrl',
+        type: 'url',
+        values: ['off'],
+        default: HEALTH_DEFAULTS.probeUrl,
+        description: 'URL fetched to prove outbound HTTP works ("off" to skip)'
+      },
+      {
+        name: 'probeTimeoutMs',
+        type: 'integer',
+        default: HEALTH_DEFAULTS.probeTimeoutMs,
+        min: 100,
+        max: 60000,
+        description: 'Timeout (ms) for the outbound probe'
+      },
+      {
+        name: 'walWarnMb',
+        type: 'number',
+        default: HEALTH_DEFAULTS.walWarnMb,
+        min: 0,
+        description: 'Warn when the WAL file grows past this many MB (0 = never)'
+      },
+      {
+        name: 'minFreeDiskMb',
+        type: 'number',
+        default: HEALTH_DEFAULTS.minFreeDiskMb,
+        min: 0,
+        description: 'Fail below this much free disk (MB), warn below twice as much'
+      }
+    ]
+  },
+  {
+    section: 'backup',
+    label: 'Backups',
+    settings: [
+      {
+        name: 'dir',
+        type: 'path',
+        default: BACKUP_DEFAULTS.dir,
+        description: 'Directory the snapshots are written to'
+      },
+      {
+        name: 'keep',
+        type: 'integer',
+        default: BACKUP_DEFAULTS.keep,
+        min: 0,
+        description: 'Snapshots kept; older ones are deleted (0 = keep all)'
+      }
+    ]
+  }
+];
+
+const SECTION_INDEX = new Map(SECTIONS.map((s) => [s.section, s]));
+
+// The declaration of section/name: an exact name first, then a pattern.
+// Null for an unknown name, or any name of an undeclared section.
+function findSetting(section, name) {
+  const declared = SECTION_INDEX.get(section);
+  if (!declared) return null;
+  return (
+    declared.settings.find((s) => !s.pattern && s.name === name) ||
+    declared.settings.find((s) => s.pattern && s.pattern.test(name)) ||
+    null
+  );
+}
+
+const BOOLEAN_VALUES = { true: true, 1: true, yes: true, false: false, 0: false, no: false };
+
+function isHttpUrl(value) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function checkNumber(def, value) {
+  if (!value || !Number.isFinite(Number(value))) return 'must be a number';
+  const n = Number(value);
+  if (def.type === 'integer' && !Number.isInteger(n)) return 'must be a whole number';
+  if (def.min !== undefined && n < def.min) return `must be at least ${def.min}`;
+  if (def.max !== undefined && n > def.max) return `must be at most ${def.max}`;
+  return null;
+}
+
+function checkValue(def, value) {
+  switch (def.type) {
+    case 'integer':
+    case 'number':
+      return checkNumber(def, value);
+    case 'boolean':
+      return Object.hasOwn(BOOLEAN_VALUES, value.toLowerCase()) ? null : 'must be true or false';
+    case 'enum':
+      return def.values.includes(value) ? null : `must be one of ${def.values.join(', ')}`;
+    case 'url':
+      if ((def.values || []).includes(value) || isHttpUrl(value)) return null;
+      return `must be an http(s) URL${def.values ? ` or ${def.values.join(', ')}` : ''}`;
+    case 'path':
+      return path.isAbsolute(value) ? null : 'must be an absolute path';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a value (already trimmed) for section/name. Returns an error
+ * message, or null when the value may be stored.
+ */
+function validateSetting(section, name, value) {
+  if (!value) return 'value cannot be empty';
+  if (!SECTION_INDEX.has(section)) return null;
+
+  const def = findSetting(section, name);
+  if (!def) {
+    const known = SECTION_INDEX.get(section).settings.map((s) => s.name);
+    return `unknown setting ${section}/${name}; known settings: ${known.join(', ')}`;
+  }
+
+  const problem = checkValue(def, value);
+  return problem && `${section}/${name} ${problem}`;
+}
+
+/**
+ * The stored form of a valid value: numbers and booleans in canonical
+ * form ("2.50" -> "2.5", "yes" -> "true"), anything else as given.
+ */
+function normalizeSetting(section, name, value) {
+  const def = findSetting(section, name);
+  if (!def) return value;
+  if (def.type === 'integer' || def.type === 'number') return String(Number(value));
+  if (def.type === 'boolean') return String(BOOLEAN_VALUES[value.toLowerCase()]);
+  return value;
+}
+
+/**
+ * The registry as JSON for the Settings Manager: patterns are sent as
+ * regex source strings.
+ */
+function describeRegistry() {
+  return SECTIONS.map(({ section, label, settings }) => ({
+    section,
+    label,
+    settings: settings.map(({ pattern, ...def }) => ({
+      ...def,
+      values: def.values || null,
+      pattern: pattern ? pattern.source : null,
+      restartRequired: !!def.restartRequired
+    }))
+  }));
+}
+
+export { findSetting, validateSetting, normalizeSetting, describeRegistry };
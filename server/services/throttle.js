@@ -0,0 +1,62 @@
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `worker(item, index)` over `items` with at most `concurrency`
+ * calls in flight. Results keep the input order. Workers stop picking up
+ * new items once `isCancelled()` returns true; skipped slots stay
+ * undefined.
+ */
+async function mapPool(items, concurrency, worker, { isCancelled } = {}) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      if (isCancelled && isCancelled()) return;
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(concurrency || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+  return results;
+}
+
+/**
+ * Rate limiter keyed by an arbitrary string (a host, an API name).
+ *
+ * `limits` maps keys to requests per second; `defaultRate` applies to
+ * keys without an entry (0 or less disables limiting). `wait(key)`
+ * resolves when the caller may start its request, spacing calls evenly
+ * and adding up to `jitterMs` of random delay. `wait(key, rate)` uses the
+ * given rate instead, for limits that are read from settings at call time
+ * by a limiter shared across the process.
+ */
+function createRateLimiter({ limits = {}, defaultRate = 0, jitterMs = 0 } = {}) {
+  const nextSlot = new Map();
+
+  const rateFor = (key) => (key in limits ? limits[key] : defaultRate);
+
+  async function wait(key, override) {
+    const rate = override === undefined ? rateFor(key) : override;
+    const jitter = jitterMs > 0 ? Math.floor(Math.random() * jitterMs) : 0;
+
+    if (!(rate > 0)) {
+      if (jitter) await sleep(jitter);
+      return;
+    }
+
+    const interval = 1000 / rate;
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(key) || 0);
+    nextSlot.set(key, slot + interval);
+
+    const delay = slot - now + jitter;
+    if (delay > 0) await sleep(delay);
+  }
+
+  return { wait };
+}
+
+export { sleep, mapPool, createRateLimiter };
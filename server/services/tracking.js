@@ -0,0 +1,137 @@
+import {
+  listSettings,
+  listTrackedAsins,
+  insertPriceSnapshots
+} from '../db.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('services/tracking');
+
+// ---------- Promisified wrappers ----------
+const listTrackedAsinsAsync = () =>
+  new Promise((resolve, reject) => {
+    listTrackedAsins((err, rows) => (err ? reject(err) : resolve(rows || [])));
+  });
+
+const insertPriceSnapshotsAsync = (snapshots) =>
+  new Promise((resolve, reject) => {
+    insertPriceSnapshots(snapshots, (err, n) => (err ? reject(err) : resolve(n)));
+  });
+
+// ---------- Settings (section "tracking") ----------
+const TRACKING_DEFAULTS = {
+  intervalMinutes: 360
+};
+
+/**
+ * Read price tracking settings:
+ *   tracking/intervalMinutes  minutes between automatic refreshes (default 360, 0 = off)
+ */
+const loadTrackingSettings = () =>
+  new Promise((resolve) => {
+    listSettings('tracking', (err, rows) => {
+      const cfg = { ...TRACKING_DEFAULTS };
+      if (err) {
+        log.error('DB error (loadTrackingSettings)', { err });
+        return resolve(cfg);
+      }
+      for (const { name, value } of rows || []) {
+        const n = Number(value);
+        if (name === 'intervalMinutes' && Number.isFinite(n) && n >= 0) cfg.intervalMinutes = n;
+      }
+      resolve(cfg);
+    });
+  });
+
+// ---------- Snapshots ----------
+const OUT_OF_STOCK = /out of stock|unavailable/i;
+
+// Price and availability of the first (buy box) listing of a PA API item.
+function offerSnapshot(item, marketplace) {
+  const listing = item.Offers?.Listings?.[0];
+  return {
+    asin: String(item.ASIN).toUpperCase(),
+    marketplace,
+    amount: listing?.Price?.Amount ?? null,
+    currency: listing?.Price?.Currency || null,
+    displayAmount: listing?.Price?.DisplayAmount || null,
+    availabilityType: listing ? listing.Availability?.Type || null : 'NoOffer',
+    availabilityMessage: listing?.Availability?.Message || null
+  };
+}
+
+const isOutOfStock = (type, message) =>
+  type === 'OutOfStock' || type === 'NoOffer' || OUT_OF_STOCK.test(message || '');
+
+/**
+ * Store a price snapshot for every returned item whose ASIN is tracked
+ * (and active) in this marketplace. Never throws, like the catalog write.
+ */
+async function recordTrackedPrices(marketplace, items) {
+  try {
+    const tracked = new Set(
+      (await listTrackedAsinsAsync())
+        .filter((t) => t.active && t.marketplace === marketplace)
+        .map((t) => t.asin)
+    );
+    const snapshots = items
+      .filter((it) => it && it.ASIN && tracked.has(String(it.ASIN).toUpperCase()))
+      .map((it) => offerSnapshot(it, marketplace));
+    if (!snapshots.length) return 0;
+    return await insertPriceSnapshotsAsync(snapshots);
+  } catch (e) {
+    log.error('DB error (recordTrackedPrices)', { err: e });
+    return 0;
+  }
+}
+
+// Active tracked ASINs of one marketplace, for the refresh job.
+async function activeTrackedAsins(marketplace) {
+  const rows = await listTrackedAsinsAsync();
+  return rows.filter((t) => t.active && t.marketplace === marketplace).map((t) => t.asin);
+}
+
+/**
+ * Shape a tracked_asins row (joined with its last two snapshots) for the
+ * API, including the flags the UI highlights:
+ *   priceDrop   latest price is lower than the one before
+ *   outOfStock  latest snapshot has no offer or an out-of-stock availability
+ */
+function mapTrackedAsin(row) {
+  const checked = !!row.last_fetched_at;
+  const priceDrop = row.last_amount != null && row.prev_amount != null && row.last_amount < row.prev_amount;
+  return {
+    id: row.id,
+    asin: row.asin,
+    marketplace: row.marketplace,
+    label: row.label,
+    inContent: !!row.in_content,
+    active: !!row.active,
+    createdAt: row.created_at,
+    last: checked
+      ? {
+          amount: row.last_amount,
+          currency: row.last_currency,
+          displayAmount: row.last_display_amount,
+          availabilityType: row.last_availability_type,
+          availabilityMessage: row.last_availability_message,
+          fetchedAt: row.last_fetched_at
+        }
+      : null,
+    previousAmount: row.prev_amount,
+    flags: {
+      priceDrop,
+      dropPercent: priceDrop ? Math.round((1 - row.last_amount / row.prev_amount) * 1000) / 10 : 0,
+      outOfStock: checked && isOutOfStock(row.last_availability_type, row.last_availability_message)
+    }
+  };
+}
+
+export {
+  TRACKING_DEFAULTS,
+  loadTrackingSettings,
+  offerSnapshot,
+  recordTrackedPrices,
+  activeTrackedAsins,
+  mapTrackedAsin
+};
@@ -0,0 +1,65 @@
+// An /api app behind authorizeApi, with a logged-in user of each role,
+// for route tests. Import after ./helpers.js: this imports db.js.
+
+import express from 'express';
+import { createUser } from '../db.js';
+import { hashPassword, setupFirstAdmin, login, authorizeApi } from '../services/auth.js';
+
+const PASSWORD = 'correct horse battery';
+const ROLES = ['viewer', 'editor', 'admin'];
+
+const createUserAsync = (user) =>
+  new Promise((resolve, reject) => {
+    createUser(user, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+/**
+ * Create users "viewer", "editor" and "admin" (the first admin through
+ * setupFirstAdmin, so the database must have no users yet) and log them
+ * in. Returns { viewer, editor, admin } session tokens.
+ */
+async function createRoleSessions() {
+  if (!(await setupFirstAdmin('admin', PASSWORD))) throw new Error('Database already has users');
+  for (const role of ['viewer', 'editor']) {
+    await createUserAsync({ username: role, passwordHash: await hashPassword(PASSWORD), role });
+  }
+  const tokens = {};
+  for (const role of ROLES) tokens[role] = (await login(role, PASSWORD)).token;
+  return tokens;
+}
+
+/**
+ * Serve `handlers` under /api behind authorizeApi on a free port.
+ * Returns { baseUrl, request(method, path, token, body?), close() };
+ * request resolves to { status, body }.
+ */
+async function startApi(...handlers) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', authorizeApi, ...handlers);
+  const server = await new Promise((resolve) => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  async function request(method, path, token, body) {
+    const headers = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    const res = await fetch(`${baseUrl}/api${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  }
+
+  return {
+    baseUrl,
+    request,
+    close: () => new Promise((resolve) => server.close(resolve))
+  };
+}
+
+export { PASSWORD, ROLES, createRoleSessions, startApi };
@@ -0,0 +1,121 @@
+import { METRICS_TOKEN } from './helpers.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { PASSWORD, ROLES, createRoleSessions, startApi } from './api.js';
+import { setupFirstAdmin, login, logout } from '../services/auth.js';
+
+let api;
+let baseUrl;
+let tokens;
+
+// Status of an /api request as `role` (no token when role is null).
+async function status(method, path, role) {
+  return (await api.request(method, path, role ? tokens[role] : null)).status;
+}
+
+before(async () => {
+  tokens = await createRoleSessions();
+  // Every authorized request reaches the same handler: only the
+  // middleware decides the status.
+  api = await startApi((req, res) => res.json({ ok: true, user: req.user }));
+  baseUrl = api.baseUrl;
+});
+
+after(() => api.close());
+
+test('setupFirstAdmin only succeeds while there are no users', async () => {
+  assert.equal(await setupFirstAdmin('second', PASSWORD), null);
+});
+
+test('login rejects a wrong password', async () => {
+  assert.equal(await login('editor', 'not the password'), null);
+});
+
+test('public auth routes need no session', async () => {
+  assert.equal(await status('GET', '/auth/status', null), 200);
+  assert.equal(await status('POST', '/auth/login', null), 200);
+});
+
+test('other routes answer 401 without a valid session', async () => {
+  assert.equal(await status('GET', '/products', null), 401);
+  const res = await fetch(`${baseUrl}/api/products`, { headers: { Authorization: 'Bearer nope' } });
+  assert.equal(res.status, 401);
+  assert.deepEqual(await res.json(), { error: 'Session expired or invalid' });
+});
+
+test('the session resolves into req.user', async () => {
+  const res = await fetch(`${baseUrl}/api/products`, { headers: { Authorization: `Bearer ${tokens.editor}` } });
+  const body = await res.json();
+  assert.equal(body.user.username, 'editor');
+  assert.equal(body.user.role, 'editor');
+});
+
+test('route roles', async (t) => {
+  // [method, path, lowest role allowed]
+  const cases = [
+    ['GET', '/products', 'viewer'],
+    ['POST', '/products', 'editor'],
+    ['DELETE', '/tracking/1', 'editor'],
+    ['POST', '/export', 'viewer'],
+    ['POST', '/extract/asin-aaid', 'viewer'],
+    ['POST', '/auth/logout', 'viewer'],
+    ['GET', '/settings', 'viewer'],
+    ['PUT', '/settings/logging/minLevel', 'admin'],
+    ['GET', '/config/paapi/profiles', 'viewer'],
+    ['POST', '/config/paapi/profiles', 'admin'],
+    ['POST', '/config/export', 'admin'],
+    ['POST', '/config/import', 'admin'],
+    ['GET', '/secrets', 'admin'],
+    ['GET', '/users', 'admin'],
+    ['GET', '/audit', 'admin'],
+    ['GET', '/logs', 'viewer'],
+    ['POST', '/logs', 'editor'],
+    ['DELETE', '/logs', 'admin'],
+    ['POST', '/logs/retention/run', 'admin'],
+    ['GET', '/system/backups', 'admin'],
+    // Express matches routes case-insensitively, and so must the rules.
+    ['GET', '/Secrets', 'admin'],
+    ['GET', '/SECRETS?includeValues=1', 'admin'],
+    ['POST', '/Users', 'admin'],
+    ['PUT', '/Settings/logging/minLevel', 'admin'],
+    ['POST', '/Config/Export', 'admin'],
+    ['POST', '/config/IMPORT', 'admin'],
+    ['GET', '/Audit', 'admin'],
+    ['DELETE', '/Logs', 'admin'],
+    ['POST', '/logs/Retention/run', 'admin'],
+    ['POST', '/System/Backups', 'admin'],
+    ['PUT', '/Config/Paapi', 'admin']
+  ];
+  for (const [method, path, required] of cases) {
+    await t.test(`${method} ${path} requires ${required}`, async () => {
+      for (const role of ROLES) {
+        const expected = ROLES.indexOf(role) >= ROLES.indexOf(required) ? 200 : 403;
+        assert.equal(await status(method, path, role), expected, `${method} ${path} as ${role}`);
+      }
+    });
+  }
+});
+
+test('a denied request names the required role', async () => {
+  const res = await fetch(`${baseUrl}/api/secrets`, { headers: { Authorization: `Bearer ${tokens.editor}` } });
+  assert.equal(res.status, 403);
+  assert.deepEqual(await res.json(), { error: 'Requires admin role' });
+});
+
+test('the metrics token opens GET /metrics and nothing else', async () => {
+  const asScraper = (method, path) => api.request(method, path, METRICS_TOKEN).then((r) => r.status);
+  assert.equal(await asScraper('GET', '/metrics'), 200);
+  assert.equal(await asScraper('GET', '/Metrics?format=json'), 200);
+  assert.equal(await asScraper('POST', '/metrics'), 401);
+  assert.equal(await asScraper('GET', '/products'), 401);
+  assert.equal(await asScraper('GET', '/secrets'), 401);
+  assert.equal(await api.request('GET', '/metrics', 'not-the-metrics-token').then((r) => r.status), 401);
+});
+
+test('logout ends the session', async () => {
+  const session = await login('viewer', PASSWORD);
+  const headers = { Authorization: `Bearer ${session.token}` };
+  assert.equal((await fetch(`${baseUrl}/api/products`, { headers })).status, 200);
+  await logout(session.token);
+  assert.equal((await fetch(`${baseUrl}/api/products`, { headers })).status, 401);
+});
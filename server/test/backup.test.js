@@ -0,0 +1,123 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getSetting, upsertSetting, insertAuditEntry, listAuditEntries } from '../db.js';
+import { LATEST_VERSION } from '../migrations.js';
+import { BACKUP_DEFAULTS, listBackups, createBackup, deleteBackup, restoreBackup } from '../services/backup.js';
+
+const getSettingAsync = (section, name) =>
+  new Promise((resolve, reject) => {
+    getSetting(section, name, (err, row) => (err ? reject(err) : resolve(row ? row.value : null)));
+  });
+
+const upsertSettingAsync = (section, name, value) =>
+  new Promise((resolve, reject) => {
+    upsertSetting(section, name, value, (err) => (err ? reject(err) : resolve()));
+  });
+
+const insertAuditEntryAsync = (entry) =>
+  new Promise((resolve, reject) => {
+    insertAuditEntry(entry, (err, id) => (err ? reject(err) : resolve(id)));
+  });
+
+const listAuditAsync = () =>
+  new Promise((resolve, reject) => {
+    listAuditEntries({ limit: 0 }, (err, result) => (err ? reject(err) : resolve(result.rows)));
+  });
+
+// Snapshot names carry a millisecond timestamp; keep them apart.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+test('createBackup writes a verified snapshot and its sidecar', async () => {
+  const backup = await createBackup();
+  assert.match(backup.name, /^backup-[0-9TZ-]+\.db$/);
+  assert.equal(backup.reason, 'manual');
+  assert.equal(backup.integrity, 'ok');
+  assert.equal(backup.schemaVersion, LATEST_VERSION);
+  assert.deepEqual(backup.pruned, []);
+
+  const file = path.join(BACKUP_DEFAULTS.dir, backup.name);
+  assert.ok(fs.existsSync(file));
+  assert.equal(JSON.parse(fs.readFileSync(`${file}.json`, 'utf8')).reason, 'manual');
+  assert.ok(!fs.existsSync(`${file}.partial`));
+  assert.ok((await listBackups()).some((b) => b.name === backup.name));
+
+  await deleteBackup(backup.name);
+  assert.ok(!fs.existsSync(file));
+});
+
+test('a second backup is refused while one is running', async () => {
+  const first = createBackup();
+  await assert.rejects(createBackup(), (err) => err.status === 409);
+  await deleteBackup((await first).name);
+});
+
+test('restore brings back the snapshot but keeps newer audit entries', async () => {
+  await upsertSettingAsync('logging', 'minLevel', 'warn');
+  await tick();
+  const backup = await createBackup();
+
+  await upsertSettingAsync('logging', 'minLevel', 'debug');
+  const auditId = await insertAuditEntryAsync({
+    actor: 'admin',
+    action: 'setting.update',
+    targetType: 'setting',
+    target: 'logging/minLevel',
+    diff: { value: { before: 'warn', after: 'debug' } }
+  });
+
+  await tick();
+  const result = await restoreBackup(backup.name);
+  assert.equal(result.restored, backup.name);
+  assert.equal(result.schemaVersion, LATEST_VERSION);
+  assert.match(result.preRestore, /-pre-restore\.db$/);
+
+  assert.equal(await getSettingAsync('logging', 'minLevel'), 'warn');
+  const kept = (await listAuditAsync()).find((e) => e.id === auditId);
+  assert.ok(kept, 'audit entry written after the snapshot survives the restore');
+  assert.equal(kept.target, 'logging/minLevel');
+  assert.deepEqual(JSON.parse(kept.diff), { value: { before: 'warn', after: 'debug' } });
+
+  // The pre-restore snapshot holds the state that was replaced.
+  const preRestore = new Database(path.join(BACKUP_DEFAULTS.dir, result.preRestore), { readonly: true });
+  const row = preRestore.prepare("SELECT value FROM settings WHERE section='logging' AND name='minLevel'").get();
+  preRestore.close();
+  assert.equal(row.value, 'debug');
+});
+
+test('pruning keeps `keep` generations and never pre-restore snapshots', async () => {
+  const preRestore = (await listBackups()).filter((b) => b.reason === 'pre-restore').map((b) => b.name);
+  assert.equal(preRestore.length, 1);
+
+  await upsertSettingAsync('backup', 'keep', '2');
+  const taken = [];
+  for (let i = 0; i < 3; i++) {
+    await tick();
+    taken.push((await createBackup()).name);
+  }
+
+  const names = (await listBackups()).map((b) => b.name);
+  assert.deepEqual(names.filter((n) => !preRestore.includes(n)), [taken[2], taken[1]]);
+  assert.ok(names.includes(preRestore[0]));
+});
+
+test('restore refuses unknown names and snapshots from a newer release', async () => {
+  await assert.rejects(restoreBackup('backup-missing.db'), (err) => err.status === 404);
+  await assert.rejects(restoreBackup('../workflow.db'), (err) => err.status === 404);
+
+  const backups = await listBackups();
+  const future = path.join(BACKUP_DEFAULTS.dir, 'backup-future.db');
+  fs.copyFileSync(path.join(BACKUP_DEFAULTS.dir, backups[0].name), future);
+  const copy = new Database(future);
+  copy.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', ?)")
+    .run(LATEST_VERSION + 1, new Date().toISOString());
+  copy.close();
+
+  await assert.rejects(restoreBackup('backup-future.db'), (err) => err.status === 400 && /newer than this release/.test(err.message));
+  // Refused before the live database was snapshotted or touched.
+  const preRestores = (list) => list.filter((b) => b.reason === 'pre-restore').length;
+  assert.equal(preRestores(await listBackups()), preRestores(backups));
+});
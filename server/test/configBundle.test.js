@@ -0,0 +1,186 @@
+import './helpers.js';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, listSettings, upsertSetting } from '../db.js';
+import { createPassphraseCipher, readSecret, writeSecret } from '../services/secrets.js';
+import { listProfiles, createProfile } from '../services/paapi.js';
+import { BUNDLE_FORMAT, exportConfig, importConfig } from '../services/configBundle.js';
+
+const PASSPHRASE = 'bundle passphrase for tests';
+
+const upsertSettingAsync = (section, name, value) =>
+  new Promise((resolve, reject) => {
+    upsertSetting(section, name, value, (err) => (err ? reject(err) : resolve()));
+  });
+
+const settingsState = () =>
+  new Promise((resolve, reject) => {
+    listSettings(null, (err, rows) =>
+      err ? reject(err) : resolve(rows.map((r) => `${r.section}/${r.name}=${r.value}`).sort())
+    );
+  });
+
+// Everything an import can change, for before/after comparisons.
+async function configState() {
+  const profiles = (await listProfiles()).map(
+    (p) => `${p.name}:${p.marketplace}:${p.partnerTag}${p.isDefault ? ':default' : ''}`
+  );
+  const secrets = {};
+  for (const { name } of db.prepare("SELECT name FROM secrets ORDER BY name").all()) {
+    secrets[name] = await readSecret(name);
+  }
+  return { settings: await settingsState(), profiles: profiles.sort(), secrets };
+}
+
+// The current configuration as a bundle, changed by `edit` (which gets
+// the bundle and a cipher for its secrets).
+async function editedBundle(edit) {
+  const bundle = await exportConfig(PASSPHRASE);
+  edit(bundle, createPassphraseCipher(PASSPHRASE, bundle.secrets.kdf));
+  return bundle;
+}
+
+// Differs from the seeded configuration in every way an import can.
+const changedBundle = () =>
+  editedBundle((bundle, cipher) => {
+    bundle.settings = [
+      { section: 'logging', name: 'minLevel', value: 'debug' },
+      { section: 'paapiThrottle', name: 'tps', value: '2' }
+    ];
+    bundle.paapiProfiles = [
+      { name: 'us', marketplace: 'www.amazon.com', partnerTag: 'us-new-20', isDefault: true },
+      { name: 'uk', marketplace: 'www.amazon.co.uk', partnerTag: 'uk-21', isDefault: false }
+    ];
+    bundle.secrets.values = {
+      'paapi.us.accessKey': cipher.encrypt('AK-US-NEW'),
+      'paapi.us.secretKey': cipher.encrypt('SK-US'),
+      'paapi.uk.accessKey': cipher.encrypt('AK-UK'),
+      'paapi.uk.secretKey': cipher.encrypt('SK-UK')
+    };
+  });
+
+beforeEach(async () => {
+  db.exec("DELETE FROM settings; DELETE FROM paapi_profiles; DELETE FROM secrets;");
+  await upsertSettingAsync('logging', 'minLevel', 'warn');
+  await upsertSettingAsync('backup', 'keep', '3');
+  await createProfile({ name: 'us', marketplace: 'www.amazon.com', partnerTag: 'us-20', accessKey: 'AK-US', secretKey: 'SK-US' });
+  await createProfile({ name: 'de', marketplace: 'www.amazon.de', partnerTag: 'de-21', accessKey: 'AK-DE', secretKey: 'SK-DE' });
+  await writeSecret('app.token', 'hunter2');
+});
+
+test('an exported bundle holds no plaintext secrets and imports as unchanged', async () => {
+  const bundle = await exportConfig(PASSPHRASE);
+  assert.equal(bundle.format, BUNDLE_FORMAT);
+  assert.ok(!JSON.stringify(bundle).includes('AK-US'));
+
+  const plan = await importConfig({ bundle, passphrase: PASSPHRASE, mode: 'replace' });
+  for (const part of ['settings', 'profiles', 'secrets']) {
+    assert.deepEqual(
+      { added: plan[part].added, changed: plan[part].changed, removed: plan[part].removed },
+      { added: [], changed: [], removed: [] },
+      part
+    );
+  }
+  assert.equal(plan.settings.unchanged, 2);
+  assert.equal(plan.profiles.unchanged, 2);
+  assert.equal(plan.secrets.unchanged, 5);
+});
+
+test('a dry run reports the changes and applies nothing', async () => {
+  const before = await configState();
+  const bundle = await changedBundle();
+
+  const merge = await importConfig({ bundle, passphrase: PASSPHRASE, mode: 'merge' });
+  assert.equal(merge.dryRun, true);
+  assert.equal(merge.applied, false);
+  assert.deepEqual(merge.settings.added, [{ section: 'paapiThrottle', name: 'tps', value: '2' }]);
+  assert.deepEqual(merge.settings.changed, [{ section: 'logging', name: 'minLevel', before: 'warn', after: 'debug' }]);
+  assert.deepEqual(merge.settings.removed, []);
+  assert.deepEqual(merge.profiles.added, ['uk']);
+  assert.deepEqual(merge.profiles.changed, [{ name: 'us', fields: ['partnerTag'] }]);
+  assert.deepEqual(merge.profiles.removed, []);
+  assert.deepEqual(merge.secrets.added.sort(), ['paapi.uk.accessKey', 'paapi.uk.secretKey']);
+  assert.deepEqual(merge.secrets.changed, ['paapi.us.accessKey']);
+  assert.equal(merge.secrets.unchanged, 1);
+  assert.deepEqual(merge.secrets.removed, []);
+
+  const replace = await importConfig({ bundle, passphrase: PASSPHRASE, mode: 'replace', dryRun: true });
+  assert.equal(replace.applied, false);
+  assert.deepEqual(replace.settings.removed, [{ section: 'backup', name: 'keep', value: '3' }]);
+  assert.deepEqual(replace.profiles.removed, ['de']);
+  assert.deepEqual(replace.secrets.removed.sort(), ['app.token', 'paapi.de.accessKey', 'paapi.de.secretKey']);
+
+  assert.deepEqual(await configState(), before);
+});
+
+test('merge adds and updates but keeps what the bundle does not hold', async () => {
+  const result = await importConfig({ bundle: await changedBundle(), passphrase: PASSPHRASE, mode: 'merge', dryRun: false });
+  assert.equal(result.applied, true);
+
+  const state = await configState();
+  assert.deepEqual(state.settings, ['backup/keep=3', 'logging/minLevel=debug', 'paapiThrottle/tps=2']);
+  assert.deepEqual(state.profiles, ['de:www.amazon.de:de-21', 'uk:www.amazon.co.uk:uk-21', 'us:www.amazon.com:us-new-20:default']);
+  assert.equal(state.secrets['paapi.us.accessKey'], 'AK-US-NEW');
+  assert.equal(state.secrets['paapi.uk.secretKey'], 'SK-UK');
+  assert.equal(state.secrets['paapi.de.accessKey'], 'AK-DE');
+  assert.equal(state.secrets['app.token'], 'hunter2');
+});
+
+test('replace makes the configuration match the bundle', async () => {
+  const result = await importConfig({ bundle: await changedBundle(), passphrase: PASSPHRASE, mode: 'replace', dryRun: false });
+  assert.equal(result.applied, true);
+
+  assert.deepEqual(await configState(), {
+    settings: ['logging/minLevel=debug', 'paapiThrottle/tps=2'],
+    profiles: ['uk:www.amazon.co.uk:uk-21', 'us:www.amazon.com:us-new-20:default'],
+    secrets: {
+      'paapi.uk.accessKey': 'AK-UK',
+      'paapi.uk.secretKey': 'SK-UK',
+      'paapi.us.accessKey': 'AK-US-NEW',
+      'paapi.us.secretKey': 'SK-US'
+    }
+  });
+});
+
+test('a bundle with an invalid entry is reported and not applied', async () => {
+  const before = await configState();
+  const bundle = await editedBundle((b) => {
+    b.settings.push({ section: 'logging', name: 'minLevel', value: 'loud' });
+    b.paapiProfiles.push({ name: 'xx', marketplace: 'www.amazon.xx', partnerTag: 'xx-20' });
+  });
+
+  const plan = await importConfig({ bundle, passphrase: PASSPHRASE, mode: 'replace' });
+  assert.deepEqual(plan.invalid.map((i) => `${i.section}/${i.name}`), ['logging/minLevel', 'paapi-profile/xx']);
+
+  await assert.rejects(
+    importConfig({ bundle, passphrase: PASSPHRASE, mode: 'replace', dryRun: false }),
+    (err) => err.status === 400 && /2 invalid entries; nothing was imported/.test(err.message)
+  );
+  assert.deepEqual(await configState(), before);
+});
+
+test('a wrong passphrase or unknown mode is refused before anything is read', async () => {
+  const bundle = await exportConfig(PASSPHRASE);
+  await assert.rejects(
+    importConfig({ bundle, passphrase: 'not the passphrase', mode: 'merge' }),
+    (err) => err.status === 400 && err.message === 'Wrong passphrase for this bundle'
+  );
+  await assert.rejects(
+    importConfig({ bundle, passphrase: PASSPHRASE, mode: 'overwrite' }),
+    (err) => err.status === 400 && /mode must be one of merge, replace/.test(err.message)
+  );
+});
+
+test('a version 1 bundle imports its PA API config as the profile "default"', async () => {
+  const bundle = await editedBundle((b, cipher) => {
+    b.version = 1;
+    b.settings = [];
+    delete b.paapiProfiles;
+    b.paapi = { marketplace: 'www.amazon.fr', partnerTag: 'fr-21' };
+    b.secrets.values = { 'paapi.accessKey': cipher.encrypt('AK-FR') };
+  });
+
+  const plan = await importConfig({ bundle, passphrase: PASSPHRASE, mode: 'merge' });
+  assert.deepEqual(plan.profiles.added, ['default']);
+  assert.deepEqual(plan.secrets.added, ['paapi.default.accessKey']);
+});
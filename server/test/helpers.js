@@ -0,0 +1,34 @@
+// Shared test setup: a throwaway database and a fixed secrets keyring.
+//
+// db.js opens its database and services/secrets.js derives its keyring
+// when they are first imported, so test files import this module before
+// anything that imports either of them.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Secret keys, newest first: the first one is the active key.
+const ACTIVE_KEY_ID = 'k2';
+const PREVIOUS_KEY_ID = 'k1';
+const SECRET_KEYS = {
+  [ACTIVE_KEY_ID]: 'test-passphrase-active-0123456789abcdef',
+  [PREVIOUS_KEY_ID]: 'test-passphrase-previous-0123456789abcdef'
+};
+
+// Lets GET /metrics through without a session.
+const METRICS_TOKEN = 'test-metrics-token-0123456789abcdef';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'selji-test-'));
+
+process.env.EXTERNAL_DB_PATH = path.join(tmpDir, 'workflow.db');
+process.env.SECRET_ENC_KEYS = Object.entries(SECRET_KEYS)
+  .map(([id, passphrase]) => `${id}=${passphrase}`)
+  .join(',');
+delete process.env.SECRET_ENC_KEY;
+process.env.METRICS_TOKEN = METRICS_TOKEN;
+process.env.LOG_LEVEL = 'error';
+
+process.on('exit', () => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+export { tmpDir, ACTIVE_KEY_ID, PREVIOUS_KEY_ID, SECRET_KEYS, METRICS_TOKEN };
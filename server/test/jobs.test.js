@@ -0,0 +1,86 @@
+import './helpers.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRoleSessions, startApi } from './api.js';
+import jobRoutes from '../routes/jobs.js';
+import scheduleRoutes from '../routes/schedules.js';
+
+let api;
+let tokens;
+
+const PRUNE_LOGS = { type: 'prune-logs', input: { olderThanDays: 30 } };
+const pruneSchedule = (name) => ({ name, cron: '0 3 * * *', operation: 'prune-logs', params: { olderThanDays: 30 } });
+
+before(async () => {
+  tokens = await createRoleSessions();
+  api = await startApi(jobRoutes, scheduleRoutes);
+});
+
+after(() => api.close());
+
+test('editors can queue ordinary jobs', async () => {
+  const res = await api.request('POST', '/jobs', tokens.editor, { type: 'refresh-prices', input: {} });
+  assert.equal(res.status, 202);
+});
+
+test('jobs that purge logs need admin', async () => {
+  for (const job of [PRUNE_LOGS, { type: 'apply-log-retention', input: {} }]) {
+    const denied = await api.request('POST', '/jobs', tokens.editor, job);
+    assert.equal(denied.status, 403, job.type);
+    assert.deepEqual(denied.body, { error: 'Requires admin role' });
+    assert.equal((await api.request('POST', '/jobs', tokens.admin, job)).status, 202, job.type);
+  }
+});
+
+test('backup jobs need admin', async () => {
+  const denied = await api.request('POST', '/jobs', tokens.editor, { type: 'backup-database', input: {} });
+  assert.equal(denied.status, 403);
+  assert.deepEqual(denied.body, { error: 'Requires admin role' });
+  assert.equal((await api.request('POST', '/jobs', tokens.admin, { type: 'backup-database', input: {} })).status, 202);
+});
+
+test('editors cannot cancel an admin-only job', async () => {
+  const { body } = await api.request('POST', '/jobs', tokens.admin, PRUNE_LOGS);
+  assert.equal((await api.request('POST', `/jobs/${body.id}/cancel`, tokens.editor)).status, 403);
+  assert.equal((await api.request('POST', `/jobs/${body.id}/cancel`, tokens.admin)).status, 200);
+});
+
+test('the operation catalog names the role each operation needs', async () => {
+  const { body } = await api.request('GET', '/schedules/operations', tokens.viewer);
+  const roles = Object.fromEntries(body.map((op) => [op.type, op.role]));
+  assert.equal(roles['refresh-prices'], 'editor');
+  assert.equal(roles['prune-logs'], 'admin');
+  assert.equal(roles['log-retention'], 'admin');
+  assert.equal(roles['backup-database'], 'admin');
+});
+
+test('schedules of admin-only operations are managed by admins only', async () => {
+  const denied = await api.request('POST', '/schedules', tokens.editor, pruneSchedule('editor prune'));
+  assert.equal(denied.status, 403);
+  assert.deepEqual(denied.body, { error: 'Requires admin role' });
+  const retention = { name: 'editor retention', cron: '0 3 * * *', operation: 'log-retention', params: {} };
+  assert.equal((await api.request('POST', '/schedules', tokens.editor, retention)).status, 403);
+  const backup = { name: 'editor backup', cron: '*/5 * * * *', operation: 'backup-database', params: {} };
+  assert.equal((await api.request('POST', '/schedules', tokens.editor, backup)).status, 403);
+
+  const created = await api.request('POST', '/schedules', tokens.admin, pruneSchedule('nightly prune'));
+  assert.equal(created.status, 201);
+  const id = created.body.id;
+
+  // Switching it to a harmless operation is no way around the check.
+  const harmless = { name: 'nightly prune', cron: '0 3 * * *', operation: 'refresh-prices', params: {} };
+  assert.equal((await api.request('PUT', `/schedules/${id}`, tokens.editor, harmless)).status, 403);
+  for (const action of ['pause', 'resume', 'run']) {
+    assert.equal((await api.request('POST', `/schedules/${id}/${action}`, tokens.editor)).status, 403, action);
+  }
+  assert.equal((await api.request('DELETE', `/schedules/${id}`, tokens.editor)).status, 403);
+
+  // An editor's schedule cannot be turned into an admin-only one either.
+  const own = await api.request('POST', '/schedules', tokens.editor, { ...harmless, name: 'editor prices' });
+  assert.equal(own.status, 201);
+  const escalate = await api.request('PUT', `/schedules/${own.body.id}`, tokens.editor, pruneSchedule('editor prices'));
+  assert.equal(escalate.status, 403);
+
+  assert.equal((await api.request('POST', `/schedules/${id}/pause`, tokens.admin)).status, 200);
+  assert.equal((await api.request('DELETE', `/schedules/${id}`, tokens.admin)).status, 204);
+});
@@ -0,0 +1,99 @@
+import './helpers.js';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { db, upsertSetting } from '../db.js';
+import { ARCHIVE_DIR, purgeMatchingLogs, applyRetention } from '../services/logRetention.js';
+
+const OLD_ROWS = 2500;
+const OLD_FILTER = { levels: ['debug'], until: '2021-01-01T00:00:00.000Z' };
+
+const upsertSettingAsync = (section, name, value) =>
+  new Promise((resolve, reject) => {
+    upsertSetting(section, name, value, (err) => (err ? reject(err) : resolve()));
+  });
+
+const countOldRows = () =>
+  db.prepare("SELECT COUNT(*) AS n FROM logs WHERE level='debug' AND created_at < '2021-01-01'").get().n;
+
+// Block the archive directory with a plain file, so every archive write fails.
+function blockArchiveDir() {
+  fs.rmSync(ARCHIVE_DIR, { recursive: true, force: true });
+  fs.writeFileSync(ARCHIVE_DIR, '');
+}
+
+beforeEach(() => {
+  db.exec("DELETE FROM logs");
+  fs.rmSync(ARCHIVE_DIR, { recursive: true, force: true });
+  const insert = db.prepare("INSERT INTO logs (level, source, message, created_at) VALUES (?, 'test', ?, ?)");
+  db.transaction(() => {
+    for (let i = 0; i < OLD_ROWS; i++) insert.run('debug', `old ${i}`, '2020-01-01T00:00:00.000Z');
+    insert.run('debug', 'recent', new Date().toISOString());
+  })();
+});
+
+test('archived purges write every deleted row to the archive', async () => {
+  const result = await purgeMatchingLogs(OLD_FILTER, { archive: true });
+  assert.equal(result.deleted, OLD_ROWS);
+  assert.equal(countOldRows(), 0);
+
+  // One gzip member per batch, read back as one file.
+  const lines = zlib
+    .gunzipSync(fs.readFileSync(path.join(ARCHIVE_DIR, result.archive)))
+    .toString('utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  assert.equal(lines.length, OLD_ROWS);
+  assert.deepEqual(new Set(lines.map((row) => row.message)).size, OLD_ROWS);
+  assert.ok(lines.every((row) => row.level === 'debug' && row.message.startsWith('old ')));
+});
+
+test('a failed archive write deletes nothing and rejects', async () => {
+  blockArchiveDir();
+  await assert.rejects(purgeMatchingLogs(OLD_FILTER, { archive: true }), /Log archive .* failed/);
+  assert.equal(countOldRows(), OLD_ROWS);
+});
+
+test('a write that fails mid-purge keeps that batch and the rest', async (t) => {
+  // The disk fills up after the first batch of 1000 rows.
+  const open = fs.promises.open;
+  t.after(() => {
+    fs.promises.open = open;
+  });
+  fs.promises.open = async (...args) => {
+    const handle = await open(...args);
+    const appendFile = handle.appendFile.bind(handle);
+    let writes = 0;
+    handle.appendFile = async (data) => {
+      if (++writes > 1) throw Object.assign(new Error('ENOSPC: no space left on device, write'), { code: 'ENOSPC' });
+      return appendFile(data);
+    };
+    return handle;
+  };
+
+  await assert.rejects(purgeMatchingLogs(OLD_FILTER, { archive: true }), /Log archive .* failed: ENOSPC/);
+  assert.equal(countOldRows(), OLD_ROWS - 1000);
+
+  const [file] = fs.readdirSync(ARCHIVE_DIR);
+  const archived = zlib.gunzipSync(fs.readFileSync(path.join(ARCHIVE_DIR, file))).toString('utf8').trim().split('\n');
+  assert.equal(archived.length, 1000);
+});
+
+test('retention stops when the archive fails and catches up afterwards', async () => {
+  await upsertSettingAsync('logRetention', 'archive', 'true');
+  await upsertSettingAsync('logRetention', 'maxAgeDays', '30');
+
+  blockArchiveDir();
+  await assert.rejects(applyRetention(), /Log archive .* failed/);
+  assert.equal(countOldRows(), OLD_ROWS);
+
+  fs.rmSync(ARCHIVE_DIR);
+  const result = await applyRetention();
+  assert.equal(result.deleted.debug, OLD_ROWS);
+  assert.ok(result.archive);
+  assert.equal(countOldRows(), 0);
+  assert.equal(db.prepare("SELECT COUNT(*) AS n FROM logs WHERE message='recent'").get().n, 1);
+});
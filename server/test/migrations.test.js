@@ -0,0 +1,118 @@
+import { tmpDir } from './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { MIGRATIONS, LATEST_VERSION, SchemaVersionError, runMigrations, schemaStatus } from '../migrations.js';
+
+let counter = 0;
+
+// A database as the release that shipped migration 1 left it.
+function databaseAtVersion1() {
+  const db = new Database(path.join(tmpDir, `migrations-${++counter}.db`));
+  db.pragma('foreign_keys = ON');
+  MIGRATIONS.find((m) => m.version === 1).up(db);
+  db.exec(`
+  CREATE TABLE schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL,
+    duration_ms INTEGER
+  );
+  INSERT INTO schema_migrations (version, name, applied_at, duration_ms)
+  VALUES (1, 'baseline', '2024-01-01T00:00:00.000Z', 1);
+  `);
+  return db;
+}
+
+function insertSetting(db, section, name, value) {
+  db.prepare("INSERT INTO settings (section, name, value, created_at, updated_at) VALUES (?,?,?,?,?)")
+    .run(section, name, value, '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z');
+}
+
+function insertSecret(db, name, value) {
+  db.prepare("INSERT INTO secrets (name, value_encrypted, created_at, updated_at) VALUES (?,?,?,?)")
+    .run(name, value, '2024-01-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z');
+}
+
+test('v1 -> v2 turns the single PA API config into the default profile', () => {
+  const db = databaseAtVersion1();
+  insertSetting(db, 'paapi', 'partnerTag', ' shop-21 ');
+  insertSetting(db, 'paapi', 'marketplace', 'www.amazon.de');
+  insertSetting(db, 'paapi', 'region', 'eu-west-1');
+  insertSetting(db, 'paapi', 'host', '');
+  insertSetting(db, 'logging', 'minLevel', 'warn');
+  insertSecret(db, 'paapi.accessKey', 'k1:iv:access:tag');
+  insertSecret(db, 'paapi.secretKey', 'k1:iv:secret:tag');
+  insertSecret(db, 'other.token', 'k1:iv:other:tag');
+
+  runMigrations(db);
+
+  const status = schemaStatus(db);
+  assert.equal(status.version, LATEST_VERSION);
+  assert.deepEqual(status.migrations.map((m) => m.version), MIGRATIONS.map((m) => m.version));
+
+  const profiles = db.prepare("SELECT name, marketplace, partner_tag, region, host, is_default FROM paapi_profiles").all();
+  assert.deepEqual(profiles, [
+    { name: 'default', marketplace: 'www.amazon.de', partner_tag: 'shop-21', region: 'eu-west-1', host: null, is_default: 1 }
+  ]);
+
+  const secrets = db.prepare("SELECT name, value_encrypted FROM secrets ORDER BY name").all();
+  assert.deepEqual(secrets, [
+    { name: 'other.token', value_encrypted: 'k1:iv:other:tag' },
+    { name: 'paapi.default.accessKey', value_encrypted: 'k1:iv:access:tag' },
+    { name: 'paapi.default.secretKey', value_encrypted: 'k1:iv:secret:tag' }
+  ]);
+
+  const settings = db.prepare("SELECT section, name, value FROM settings ORDER BY section, name").all();
+  assert.deepEqual(settings, [{ section: 'logging', name: 'minLevel', value: 'warn' }]);
+  db.close();
+});
+
+test('v1 -> v2 creates a default profile from credentials alone', () => {
+  const db = databaseAtVersion1();
+  insertSecret(db, 'paapi.accessKey', 'k1:iv:access:tag');
+
+  runMigrations(db);
+
+  const profile = db.prepare("SELECT name, marketplace, partner_tag, is_default FROM paapi_profiles").get();
+  assert.deepEqual(profile, { name: 'default', marketplace: 'www.amazon.com', partner_tag: '', is_default: 1 });
+  assert.ok(db.prepare("SELECT 1 FROM secrets WHERE name='paapi.default.accessKey'").get());
+  db.close();
+});
+
+test('v1 -> v2 creates no profile without a PA API config', () => {
+  const db = databaseAtVersion1();
+
+  runMigrations(db);
+
+  assert.equal(schemaStatus(db).version, LATEST_VERSION);
+  assert.equal(db.prepare("SELECT COUNT(*) AS n FROM paapi_profiles").get().n, 0);
+  db.close();
+});
+
+test('running the migrations again changes nothing', () => {
+  const db = databaseAtVersion1();
+  insertSetting(db, 'paapi', 'partnerTag', 'shop-21');
+  runMigrations(db);
+  const applied = schemaStatus(db).migrations;
+
+  runMigrations(db);
+
+  assert.deepEqual(schemaStatus(db).migrations, applied);
+  assert.equal(db.prepare("SELECT COUNT(*) AS n FROM paapi_profiles").get().n, 1);
+  db.close();
+});
+
+test('a database from a newer release is refused', () => {
+  const db = databaseAtVersion1();
+  runMigrations(db);
+  db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', ?)")
+    .run(LATEST_VERSION + 1, new Date().toISOString());
+
+  assert.throws(
+    () => runMigrations(db),
+    (err) => err instanceof SchemaVersionError && err.version === LATEST_VERSION + 1
+  );
+  db.close();
+});
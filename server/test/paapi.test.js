@@ -0,0 +1,46 @@
+import './helpers.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchBody } from '../services/paapi.js';
+
+const US = { partnerTag: 'shop-20', marketplace: 'www.amazon.com' };
+const JP = { partnerTag: 'shop-22', marketplace: 'www.amazon.co.jp' };
+
+test('buildSearchBody builds a SearchItems request', () => {
+  const { body, error } = buildSearchBody(US, {
+    keywords: ' usb hub ',
+    brand: 'Anker',
+    browseNodeId: 172282,
+    searchIndex: 'Electronics',
+    minPrice: '9.99',
+    maxPrice: 25,
+    page: '2'
+  });
+  assert.equal(error, undefined);
+  assert.equal(body.Keywords, 'usb hub');
+  assert.equal(body.Brand, 'Anker');
+  assert.equal(body.BrowseNodeId, '172282');
+  assert.equal(body.SearchIndex, 'Electronics');
+  assert.equal(body.MinPrice, 999);
+  assert.equal(body.MaxPrice, 2500);
+  assert.equal(body.ItemPage, 2);
+});
+
+test('buildSearchBody scales prices by the marketplace currency', () => {
+  assert.equal(buildSearchBody(JP, { keywords: 'hub', minPrice: 1999 }).body.MinPrice, 1999);
+});
+
+test('buildSearchBody rejects non-string text fields instead of throwing', () => {
+  for (const field of ['keywords', 'brand', 'searchIndex']) {
+    for (const value of [42, ['usb'], { q: 'usb' }, true]) {
+      assert.deepEqual(buildSearchBody(US, { keywords: 'hub', [field]: value }), { error: `${field} must be a string` });
+    }
+  }
+  assert.deepEqual(buildSearchBody(US, { browseNodeId: { id: 1 } }), { error: 'browseNodeId must be numeric' });
+});
+
+test('buildSearchBody needs something to search for', () => {
+  assert.deepEqual(buildSearchBody(US, { keywords: '  ', brand: null }), {
+    error: 'Provide keywords, brand or browseNodeId'
+  });
+});
@@ -0,0 +1,99 @@
+import { ACTIVE_KEY_ID, PREVIOUS_KEY_ID, SECRET_KEYS } from './helpers.js';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { db, getSecret, upsertSecret } from '../db.js';
+import {
+  encryptSecret,
+  decryptSecret,
+  secretKeyId,
+  readSecret,
+  writeSecret,
+  reencryptAll
+} from '../services/secrets.js';
+
+const upsertSecretAsync = (name, valueEncrypted) =>
+  new Promise((resolve, reject) => {
+    upsertSecret(name, valueEncrypted, (err) => (err ? reject(err) : resolve()));
+  });
+
+const storedValue = (name) =>
+  new Promise((resolve, reject) => {
+    getSecret(name, (err, row) => (err ? reject(err) : resolve(row.value_encrypted)));
+  });
+
+// A value as written before key versioning: "iv:ciphertext:tag" under the
+// first 32 characters of the passphrase.
+function legacyEncrypt(plaintext, passphrase) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(passphrase.slice(0, 32), 'utf8'), iv);
+  const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, enc, cipher.getAuthTag()].map((b) => b.toString('base64')).join(':');
+}
+
+beforeEach(() => {
+  db.exec("DELETE FROM secrets");
+});
+
+test('new values are written under the active key', async () => {
+  await writeSecret('app.token', 'hunter2');
+  const stored = await storedValue('app.token');
+  assert.equal(secretKeyId(stored), ACTIVE_KEY_ID);
+  assert.equal(await readSecret('app.token'), 'hunter2');
+});
+
+test('values under an older or legacy key still decrypt', () => {
+  assert.equal(decryptSecret(encryptSecret('old value', PREVIOUS_KEY_ID)), 'old value');
+  const legacy = legacyEncrypt('legacy value', SECRET_KEYS[PREVIOUS_KEY_ID]);
+  assert.equal(secretKeyId(legacy), 'legacy');
+  assert.equal(decryptSecret(legacy), 'legacy value');
+});
+
+test('decrypting under a key that is not configured names the key', () => {
+  const orphan = encryptSecret('x').replace(/^[^:]+:/, 'retired:');
+  assert.throws(() => decryptSecret(orphan), /key "retired", which is not configured/);
+});
+
+test('reencryptAll moves every readable secret to the active key', async () => {
+  await upsertSecretAsync('a.previous', encryptSecret('value a', PREVIOUS_KEY_ID));
+  await upsertSecretAsync('b.legacy', legacyEncrypt('value b', SECRET_KEYS[ACTIVE_KEY_ID]));
+  await upsertSecretAsync('c.active', encryptSecret('value c'));
+  const orphan = encryptSecret('value d').replace(/^[^:]+:/, 'retired:');
+  await upsertSecretAsync('d.orphan', orphan);
+  const active = await storedValue('c.active');
+
+  const result = await reencryptAll();
+  assert.deepEqual(
+    { keyId: result.keyId, total: result.total, reencrypted: result.reencrypted, unchanged: result.unchanged },
+    { keyId: ACTIVE_KEY_ID, total: 4, reencrypted: 2, unchanged: 1 }
+  );
+  assert.deepEqual(result.failed.map((f) => [f.name, f.keyId]), [['d.orphan', 'retired']]);
+
+  for (const [name, value] of [['a.previous', 'value a'], ['b.legacy', 'value b'], ['c.active', 'value c']]) {
+    assert.equal(secretKeyId(await storedValue(name)), ACTIVE_KEY_ID, name);
+    assert.equal(await readSecret(name), value, name);
+  }
+  // Rows already on the key and rows that fail are left untouched.
+  assert.equal(await storedValue('c.active'), active);
+  assert.equal(await storedValue('d.orphan'), orphan);
+
+  const again = await reencryptAll();
+  assert.equal(again.reencrypted, 0);
+  assert.equal(again.unchanged, 3);
+});
+
+test('reencryptAll can target an older key', async () => {
+  await writeSecret('app.token', 'hunter2');
+  const result = await reencryptAll(PREVIOUS_KEY_ID);
+  assert.equal(result.keyId, PREVIOUS_KEY_ID);
+  assert.equal(result.reencrypted, 1);
+  assert.equal(secretKeyId(await storedValue('app.token')), PREVIOUS_KEY_ID);
+  assert.equal(await readSecret('app.token'), 'hunter2');
+});
+
+test('reencryptAll rejects an unknown key id without touching anything', async () => {
+  await writeSecret('app.token', 'hunter2');
+  const before = await storedValue('app.token');
+  assert.deepEqual(await reencryptAll('nope'), { error: 'Unknown key id "nope"' });
+  assert.equal(await storedValue('app.token'), before);
+});
@@ -0,0 +1,52 @@
+import { ACTIVE_KEY_ID } from './helpers.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { upsertSetting, upsertSecret } from '../db.js';
+import { encryptSecret, writeSecret } from '../services/secrets.js';
+import { createRoleSessions, startApi } from './api.js';
+import systemRoutes from '../routes/system.js';
+
+let api;
+let tokens;
+
+const upsertSettingAsync = (section, name, value) =>
+  new Promise((resolve, reject) => {
+    upsertSetting(section, name, value, (err) => (err ? reject(err) : resolve()));
+  });
+
+const upsertSecretAsync = (name, valueEncrypted) =>
+  new Promise((resolve, reject) => {
+    upsertSecret(name, valueEncrypted, (err) => (err ? reject(err) : resolve()));
+  });
+
+before(async () => {
+  tokens = await createRoleSessions();
+  await upsertSettingAsync('health', 'probeUrl', 'off');
+  await writeSecret('app.token', 'hunter2');
+  // Written under a key this server no longer has.
+  await upsertSecretAsync('orphan.secret', encryptSecret('x').replace(/^[^:]+:/, 'retired:'));
+  api = await startApi(systemRoutes);
+});
+
+after(() => api.close());
+
+test('viewers see encryption counts, not key ids or secret names', async () => {
+  const { status, body } = await api.request('GET', '/system/health', tokens.viewer);
+  assert.equal(status, 200);
+  const { encryption } = body.checks;
+  assert.equal(encryption.status, 'fail');
+  assert.equal(encryption.message, '1 secret(s) cannot be decrypted');
+  assert.deepEqual(encryption.details, { keys: 2, secrets: 2, legacy: 0, failed: 1 });
+
+  const text = JSON.stringify(body);
+  assert.ok(!text.includes(ACTIVE_KEY_ID), 'no key id');
+  assert.ok(!text.includes('retired'), 'no key id of failed secrets');
+  assert.ok(!text.includes('orphan.secret'), 'no secret names');
+});
+
+test('admins see which secrets fail and under which key', async () => {
+  const { body } = await api.request('GET', '/system/health', tokens.admin);
+  const { details } = body.checks.encryption;
+  assert.equal(details.activeKeyId, ACTIVE_KEY_ID);
+  assert.deepEqual(details.failed.map((f) => [f.name, f.keyId]), [['orphan.secret', 'retired']]);
+});
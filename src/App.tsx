@@ -17,6 +17,14 @@ import HealthAndSafetyIcon from '@mui/icons-material/HealthAndSafety';
 import ListAltIcon from '@mui/icons-material/ListAlt';
 import SecurityIcon from '@mui/icons-material/Security';
 import LinkIcon from '@mui/icons-material/Link';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
+import CategoryIcon from '@mui/icons-material/Category';
+import Inventory2Icon from '@mui/icons-material/Inventory2';
+import ShowChartIcon from '@mui/icons-material/ShowChart';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import GroupIcon from '@mui/icons-material/Group';
+import HistoryEduIcon from '@mui/icons-material/HistoryEdu';
 
 import ShortUrlAsinExpander from './components/ShortUrlAsinExpander';
 import AsinAaidExtractor from './components/AsinAaidExtractor';
@@ -26,6 +34,22 @@ import SettingsManager from './components/SettingsManager';
 import SystemHealth from './components/SystemHealth';
 import LogViewer from './components/LogViewer';
 import SecretsManager from './components/SecretsManager';
+import PipelineRunner from './components/PipelineRunner';
+import PaApiSearch from './components/PaApiSearch';
+import VariationResolver from './components/VariationResolver';
+import ProductCatalog from './components/ProductCatalog';
+import PriceTracker from './components/PriceTracker';
+import ScheduleManager from './components/ScheduleManager';
+import UserManager from './components/UserManager';
+import LoginScreen from './components/LoginScreen';
+import AccountMenu from './components/AccountMenu';
+import AuditLog from './components/AuditLog';
+
+import { apiFetch } from './utils/api';
+import { hasRole, useAuthStore } from './store/authStore';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -57,6 +81,26 @@ function a11yProps(index: number) {
 
 const App: React.FC = () => {
   const [value, setValue] = React.useState(0);
+  const { token, user, setSession } = useAuthStore();
+  const isAdmin = hasRole(user, 'admin');
+
+  // Refresh the stored user (role changes) and drop a token the server
+  // no longer accepts; apiFetch signs out on 401.
+  React.useEffect(() => {
+    if (!token) return;
+    apiFetch(`${API_BASE}/api/auth/me`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((me) => {
+        const { expiresAt } = useAuthStore.getState();
+        if (me && expiresAt) setSession({ token, expiresAt, user: me });
+      })
+      .catch(() => null);
+  }, [token]);
+
+  // Start on the first tab whenever a different user signs in.
+  React.useEffect(() => {
+    setValue(0);
+  }, [user?.id]);
 
   const handleChange = (_event: React.SyntheticEvent, newValue: number) => {
     setValue(newValue);
@@ -70,94 +114,174 @@ const App: React.FC = () => {
           <Typography variant="h6" sx={{ flexGrow: 1 }}>
             SELJI Workflow Engine
           </Typography>
+          <AccountMenu />
         </Toolbar>
       </AppBar>
 
-      <Container maxWidth="xl" sx={{ mt: 4, mb: 6 }}>
-        <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
-          <Tabs
-            value={value}
-            onChange={handleChange}
-            aria-label="SELJI workflow tabs"
-            variant="scrollable"
-            scrollButtons="auto"
-          >
-            <Tab
-              label="Short URL ASIN Expander"
-              icon={<LinkIcon />}
-              iconPosition="start"
-              {...a11yProps(0)}
-            />
-            <Tab
-              label="ASIN & AAID Extractor"
-              icon={<BuildIcon />}
-              iconPosition="start"
-              {...a11yProps(1)}
-            />
-            <Tab
-              label="PA API Executor"
-              icon={<ApiIcon />}
-              iconPosition="start"
-              {...a11yProps(2)}
-            />
-            <Tab
-              label="PA API Tester"
-              icon={<ApiIcon />}
-              iconPosition="start"
-              {...a11yProps(3)}
-            />
-            <Tab
-              label="Settings"
-              icon={<SettingsIcon />}
-              iconPosition="start"
-              {...a11yProps(4)}
-            />
-            <Tab
-              label="System Health"
-              icon={<HealthAndSafetyIcon />}
-              iconPosition="start"
-              {...a11yProps(5)}
-            />
-            <Tab
-              label="Logs"
-              icon={<ListAltIcon />}
-              iconPosition="start"
-              {...a11yProps(6)}
-            />
-            <Tab
-              label="Secrets"
-              icon={<SecurityIcon />}
-              iconPosition="start"
-              {...a11yProps(7)}
-            />
-          </Tabs>
-        </Box>
+      {token ? (
+        <Container maxWidth="xl" sx={{ mt: 4, mb: 6 }}>
+          <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}>
+            <Tabs
+              value={value}
+              onChange={handleChange}
+              aria-label="SELJI workflow tabs"
+              variant="scrollable"
+              scrollButtons="auto"
+            >
+              <Tab
+                label="Short URL ASIN Expander"
+                icon={<LinkIcon />}
+                iconPosition="start"
+                {...a11yProps(0)}
+              />
+              <Tab
+                label="ASIN & AAID Extractor"
+                icon={<BuildIcon />}
+                iconPosition="start"
+                {...a11yProps(1)}
+              />
+              <Tab
+                label="PA API Executor"
+                icon={<ApiIcon />}
+                iconPosition="start"
+                {...a11yProps(2)}
+              />
+              <Tab
+                label="PA API Search"
+                icon={<ManageSearchIcon />}
+                iconPosition="start"
+                {...a11yProps(3)}
+              />
+              <Tab
+                label="Variations"
+                icon={<CategoryIcon />}
+                iconPosition="start"
+                {...a11yProps(4)}
+              />
+              <Tab
+                label="Catalog"
+                icon={<Inventory2Icon />}
+                iconPosition="start"
+                {...a11yProps(5)}
+              />
+              <Tab
+                label="Price Tracking"
+                icon={<ShowChartIcon />}
+                iconPosition="start"
+                {...a11yProps(6)}
+              />
+              <Tab
+                label="PA API Tester"
+                icon={<ApiIcon />}
+                iconPosition="start"
+                {...a11yProps(7)}
+              />
+              <Tab
+                label="Pipelines"
+                icon={<AccountTreeIcon />}
+                iconPosition="start"
+                {...a11yProps(8)}
+              />
+              <Tab
+                label="Schedules"
+                icon={<ScheduleIcon />}
+                iconPosition="start"
+                {...a11yProps(9)}
+              />
+              <Tab
+                label="Settings"
+                icon={<SettingsIcon />}
+                iconPosition="start"
+                {...a11yProps(10)}
+              />
+              <Tab
+                label="System Health"
+                icon={<HealthAndSafetyIcon />}
+                iconPosition="start"
+                {...a11yProps(11)}
+              />
+              <Tab
+                label="Logs"
+                icon={<ListAltIcon />}
+                iconPosition="start"
+                {...a11yProps(12)}
+              />
+              <Tab
+                label="Secrets"
+                disabled={!isAdmin}
+                icon={<SecurityIcon />}
+                iconPosition="start"
+                {...a11yProps(13)}
+              />
+              <Tab
+                label="Users"
+                disabled={!isAdmin}
+                icon={<GroupIcon />}
+                iconPosition="start"
+                {...a11yProps(14)}
+              />
+              <Tab
+                label="Audit"
+                disabled={!isAdmin}
+                icon={<HistoryEduIcon />}
+                iconPosition="start"
+                {...a11yProps(15)}
+              />
+            </Tabs>
+          </Box>
 
-        <TabPanel value={value} index={0}>
-          <ShortUrlAsinExpander />
-        </TabPanel>
-        <TabPanel value={value} index={1}>
-          <AsinAaidExtractor />
-        </TabPanel>
-        <TabPanel value={value} index={2}>
-          <PaApiExecutor />
-        </TabPanel>
-        <TabPanel value={value} index={3}>
-          <PaApiTestPanel />
-        </TabPanel>
-        <TabPanel value={value} index={4}>
-          <SettingsManager />
-        </TabPanel>
-        <TabPanel value={value} index={5}>
-          <SystemHealth />
-        </TabPanel>
-        <TabPanel value={value} index={6}>
-          <LogViewer />
-        </TabPanel>
-        <TabPanel value={value} index={7}>
-          <SecretsManager />
-        </TabPanel>
-      </Container>
+          <TabPanel value={value} index={0}>
+            <ShortUrlAsinExpander />
+          </TabPanel>
+          <TabPanel value={value} index={1}>
+            <AsinAaidExtractor />
+          </TabPanel>
+          <TabPanel value={value} index={2}>
+            <PaApiExecutor />
+          </TabPanel>
+          <TabPanel value={value} index={3}>
+            <PaApiSearch />
+          </TabPanel>
+          <TabPanel value={value} index={4}>
+            <VariationResolver />
+          </TabPanel>
+          <TabPanel value={value} index={5}>
+            <ProductCatalog />
+          </TabPanel>
+          <TabPanel value={value} index={6}>
+            <PriceTracker />
+          </TabPanel>
+          <TabPanel value={value} index={7}>
+            <PaApiTestPanel />
+          </TabPanel>
+          <TabPanel value={value} index={8}>
+            <PipelineRunner />
+          </TabPanel>
+          <TabPanel value={value} index={9}>
+            <ScheduleManager />
+          </TabPanel>
+          <TabPanel value={value} index={10}>
+            <SettingsManager />
+          </TabPanel>
+          <TabPanel value={value} index={11}>
+            <SystemHealth />
+          </TabPanel>
+          <TabPanel value={value} index={12}>
+            <LogViewer />
+          </TabPanel>
+          <TabPanel value={value} index={13}>
+            <SecretsManager />
+          </TabPanel>
+          <TabPanel value={value} index={14}>
+            <UserManager />
+          </TabPanel>
+          <TabPanel value={value} index={15}>
+            <AuditLog />
+          </TabPanel>
+        </Container>
+      ) : (
+        <LoginScreen />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  ListItemIcon,
+  Menu,
+  MenuItem,
+  TextField
+} from '@mui/material';
+
+import AccountCircleIcon from '@mui/icons-material/AccountCircle';
+import KeyIcon from '@mui/icons-material/Key';
+import LogoutIcon from '@mui/icons-material/Logout';
+
+import { apiFetch } from '../utils/api';
+import { useAuthStore } from '../store/authStore';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+/**
+ * AppBar menu for the signed-in user: change password and sign out.
+ */
+const AccountMenu: React.FC = () => {
+  const { user, setSession, clearSession } = useAuthStore();
+
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [passwordOpen, setPasswordOpen] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const signOut = async () => {
+    setAnchor(null);
+    await apiFetch(`${API_BASE}/api/auth/logout`, { method: 'POST' }).catch(() => null);
+    clearSession();
+  };
+
+  const closePassword = () => {
+    setPasswordOpen(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    setError(null);
+  };
+
+  const changePassword = async () => {
+    const res = await apiFetch(`${API_BASE}/api/auth/password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ currentPassword, newPassword })
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(json?.error || 'Failed to change password');
+      return;
+    }
+    // The server ended all sessions and issued a new one for this client.
+    setSession(json);
+    closePassword();
+  };
+
+  return (
+    <>
+      <Button color="inherit" startIcon={<AccountCircleIcon />} onClick={(e) => setAnchor(e.currentTarget)}>
+        {user.username} · {user.role}
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        <MenuItem
+          onClick={() => {
+            setAnchor(null);
+            setPasswordOpen(true);
+          }}
+        >
+          <ListItemIcon>
+            <KeyIcon fontSize="small" />
+          </ListItemIcon>
+          Change Password
+        </MenuItem>
+        <MenuItem onClick={signOut}>
+          <ListItemIcon>
+            <LogoutIcon fontSize="small" />
+          </ListItemIcon>
+          Sign Out
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={passwordOpen} onClose={closePassword} fullWidth maxWidth="xs">
+        <DialogTitle>Change Password</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mt: 1 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            label="Current Password"
+            type="password"
+            autoComplete="current-password"
+            fullWidth
+            margin="normal"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+          <TextField
+            label="New Password"
+            type="password"
+            autoComplete="new-password"
+            fullWidth
+            margin="normal"
+            helperText="At least 8 characters. Other devices will be signed out."
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closePassword}>Cancel</Button>
+          <Button variant="contained" onClick={changePassword} disabled={!currentPassword || !newPassword}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default AccountMenu;
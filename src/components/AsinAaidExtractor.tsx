@@ -6,23 +6,114 @@ import {
   Card,
   CardContent,
   CardHeader,
+  Chip,
   Divider,
   IconButton,
   Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
   TextField,
   Typography
 } from '@mui/material';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import DeleteIcon from '@mui/icons-material/Delete';
 
+import ExportMenu from './ExportMenu';
+
+type PairStrategy = 'tile' | 'index';
+
 interface Mapping {
   asin: string;
   aaid: string;
+  strategy: PairStrategy;
+}
+
+interface Extraction {
+  mappings: Mapping[];
+  counts: { asinButtons: number; idButtons: number; tile: number; index: number };
+  unpaired: { asins: string[]; ids: string[] };
 }
 
+const ASIN_BUTTON = 'button.input.tocopy[data-prefix="ASIN"]';
+const ID_BUTTON = 'button.input.tocopy[data-prefix="ID"]';
+const TILE_SELECTOR = '.product_tile_editorbar, .product_tile';
+
+const depth = (el: Element) => {
+  let n = 0;
+  for (let p = el.parentElement; p; p = p.parentElement) n++;
+  return n;
+};
+
+/**
+ * Pair ASIN and ID buttons per product tile, innermost tile first, and
+ * fall back to global index pairing for buttons outside a usable tile
+ * (no tile, or unequal ASIN/ID counts in it). Same algorithm as the
+ * server's POST /api/extract/asin-aaid (server/services/extractor.js).
+ */
+const extractMappings = (doc: Document): Extraction => {
+  const asinButtons = Array.from(doc.querySelectorAll(ASIN_BUTTON));
+  const idButtons = Array.from(doc.querySelectorAll(ID_BUTTON));
+  const order = new Map(Array.from(doc.querySelectorAll('button')).map((el, i) => [el as Element, i]));
+  const value = (el: Element) => (el.getAttribute('value') || '').trim();
+
+  const used = new Set<Element>();
+  const pairs: { asinEl: Element; idEl: Element; strategy: PairStrategy }[] = [];
+
+  const tiles = Array.from(doc.querySelectorAll(TILE_SELECTOR)).sort((a, b) => depth(b) - depth(a));
+
+  for (const tile of tiles) {
+    const asins = Array.from(tile.querySelectorAll(ASIN_BUTTON)).filter((el) => !used.has(el));
+    const ids = Array.from(tile.querySelectorAll(ID_BUTTON)).filter((el) => !used.has(el));
+    if (!asins.length || asins.length !== ids.length) continue;
+
+    asins.forEach((el, i) => {
+      pairs.push({ asinEl: el, idEl: ids[i], strategy: 'tile' });
+      used.add(el);
+      used.add(ids[i]);
+    });
+  }
+
+  const restAsins = asinButtons.filter((el) => !used.has(el));
+  const restIds = idButtons.filter((el) => !used.has(el));
+  const len = Math.min(restAsins.length, restIds.length);
+  for (let i = 0; i < len; i++) {
+    pairs.push({ asinEl: restAsins[i], idEl: restIds[i], strategy: 'index' });
+  }
+
+  pairs.sort((a, b) => (order.get(a.asinEl) ?? 0) - (order.get(b.asinEl) ?? 0));
+
+  const seen = new Set<string>();
+  const mappings: Mapping[] = [];
+  for (const p of pairs) {
+    const asin = value(p.asinEl);
+    const aaid = value(p.idEl);
+    if (!asin || !aaid || seen.has(asin)) continue;
+    seen.add(asin);
+    mappings.push({ asin, aaid, strategy: p.strategy });
+  }
+
+  return {
+    mappings,
+    counts: {
+      asinButtons: asinButtons.length,
+      idButtons: idButtons.length,
+      tile: mappings.filter((m) => m.strategy === 'tile').length,
+      index: mappings.filter((m) => m.strategy === 'index').length
+    },
+    unpaired: {
+      asins: restAsins.slice(len).map(value).filter(Boolean),
+      ids: restIds.slice(len).map(value).filter(Boolean)
+    }
+  };
+};
+
 const AsinAaidExtractor: React.FC = () => {
   const [input, setInput] = useState('');
   const [mappings, setMappings] = useState<Mapping[]>([]);
+  const [extraction, setExtraction] = useState<Extraction | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
     open: false,
@@ -38,33 +129,10 @@ const AsinAaidExtractor: React.FC = () => {
       const parser = new DOMParser();
       const doc = parser.parseFromString(input, 'text/html');
 
-      const asinButtons = Array.from(
-        doc.querySelectorAll<HTMLButtonElement>('button.input.tocopy[data-prefix="ASIN"]')
-      );
-      const idButtons = Array.from(
-        doc.querySelectorAll<HTMLButtonElement>('button.input.tocopy[data-prefix="ID"]')
-      );
-
-      const asinValues = asinButtons.map((b) => b.getAttribute('value') || '');
-      const idValues = idButtons.map((b) => b.getAttribute('value') || '');
-
-      const len = Math.min(asinValues.length, idValues.length);
-      const map: Record<string, string> = {};
-
-      for (let i = 0; i < len; i++) {
-        const asin = asinValues[i].trim();
-        const aaid = idValues[i].trim();
-        if (!asin || !aaid) continue;
-        map[asin] = aaid;
-      }
-
-      const result: Mapping[] = Object.entries(map).map(([asin, aaid]) => ({
-        asin,
-        aaid
-      }));
-
-      setMappings(result);
-      showSnack(`Extracted ${result.length} unique mappings`);
+      const result = extractMappings(doc);
+      setMappings(result.mappings);
+      setExtraction(result);
+      showSnack(`Extracted ${result.mappings.length} unique mappings`);
     } catch (e) {
       console.error(e);
       setError('Failed to parse HTML');
@@ -74,6 +142,7 @@ const AsinAaidExtractor: React.FC = () => {
   const clearAll = () => {
     setInput('');
     setMappings([]);
+    setExtraction(null);
     setError(null);
   };
 
@@ -146,9 +215,17 @@ const AsinAaidExtractor: React.FC = () => {
       <Card elevation={3}>
         <CardHeader
           title="Results"
+          action={
+            <ExportMenu
+              dataset="mappings"
+              rows={mappings}
+              formats={['aaid-txt', 'asin-txt', 'csv', 'xlsx-csv', 'json']}
+              onError={setError}
+            />
+          }
           subheader={
-            mappings.length
-              ? `Unique pairs discovered: ${mappings.length}`
+            extraction && mappings.length
+              ? `Unique pairs discovered: ${mappings.length} (${extraction.counts.tile} by tile, ${extraction.counts.index} by index)`
               : 'No results yet.'
           }
         />
@@ -160,8 +237,50 @@ const AsinAaidExtractor: React.FC = () => {
             </Typography>
           )}
 
+          {extraction &&
+            (extraction.unpaired.asins.length > 0 || extraction.unpaired.ids.length > 0) && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Unpaired buttons: {extraction.unpaired.asins.length} ASIN
+                {extraction.unpaired.asins.length ? ` (${extraction.unpaired.asins.join(', ')})` : ''},{' '}
+                {extraction.unpaired.ids.length} ID
+                {extraction.unpaired.ids.length ? ` (${extraction.unpaired.ids.join(', ')})` : ''}
+              </Alert>
+            )}
+
           {mappings.length > 0 && (
             <Box sx={{ display: 'grid', gap: 1 }}>
+              {extraction && extraction.counts.index > 0 && (
+                <Alert severity="info">
+                  {extraction.counts.index} pairs were matched by global index because their
+                  buttons are not inside a matching product tile. Check these before use.
+                </Alert>
+              )}
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>ASIN</TableCell>
+                    <TableCell>AAID</TableCell>
+                    <TableCell>Strategy</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {mappings.map((m) => (
+                    <TableRow key={m.asin}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{m.asin}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{m.aaid}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={m.strategy}
+                          color={m.strategy === 'tile' ? 'success' : 'warning'}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
               <Typography
                 variant="subtitle2"
                 sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 1 }}
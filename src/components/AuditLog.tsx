@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  Menu,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import HistoryEduIcon from '@mui/icons-material/HistoryEdu';
+import DownloadIcon from '@mui/icons-material/Download';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import { apiFetch } from '../utils/api';
+import { saveFile, EXPORT_FORMAT_LABELS, ExportFormat } from '../utils/export';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface AuditEntry {
+  id: number;
+  createdAt: string;
+  actor: string;
+  actorId: number | null;
+  action: string;
+  targetType: string;
+  target: string;
+  diff: Record<string, { before: any; after: any }>;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx-csv', 'json'];
+
+const formatValue = (v: any) => (v === null || v === undefined ? '∅' : typeof v === 'string' ? v : JSON.stringify(v));
+
+/**
+ * Read-only view of the append-only audit trail (admins only).
+ */
+const AuditLog: React.FC = () => {
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+
+  const [facets, setFacets] = useState<{ actors: string[]; actions: string[] }>({ actors: [], actions: [] });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+
+  // Dates are whole UTC days, matching the stored ISO timestamps.
+  const filterParams = () => {
+    const params = new URLSearchParams();
+    if (actor) params.set('actor', actor);
+    if (action) params.set('action', action);
+    if (search) params.set('q', search);
+    if (from) params.set('since', `${from}T00:00:00.000Z`);
+    if (to) params.set('until', `${to}T23:59:59.999Z`);
+    return params;
+  };
+
+  const loadFacets = async () => {
+    const res = await apiFetch(`${API_BASE}/api/audit/facets`);
+    if (res.ok) setFacets(await res.json());
+  };
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = filterParams();
+      params.set('limit', String(rowsPerPage));
+      params.set('offset', String(page * rowsPerPage));
+      const res = await apiFetch(`${API_BASE}/api/audit?${params}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load audit trail');
+      setEntries(json.entries || []);
+      setTotal(json.total || 0);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load audit trail');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFacets();
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [actor, action, search, from, to, page, rowsPerPage]);
+
+  const exportEntries = async (format: ExportFormat) => {
+    setExportAnchor(null);
+    const params = filterParams();
+    params.set('format', format);
+    const res = await apiFetch(`${API_BASE}/api/audit/export?${params}`);
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      setError(json?.error || 'Export failed');
+      return;
+    }
+    const match = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '');
+    saveFile(match ? match[1] : 'audit.csv', await res.blob());
+  };
+
+  const filtered = !!(actor || action || search || from || to);
+
+  return (
+    <Box>
+      <Card elevation={3}>
+        <CardHeader
+          avatar={<HistoryEduIcon color="primary" />}
+          title="Audit Trail"
+          subheader="Who changed settings, secrets, PA API credentials and users, and what changed. Secret values are redacted."
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                startIcon={<RefreshIcon />}
+                onClick={() => {
+                  loadFacets();
+                  load();
+                }}
+              >
+                Refresh
+              </Button>
+              <Button
+                startIcon={<DownloadIcon />}
+                disabled={!total}
+                onClick={(e) => setExportAnchor(e.currentTarget)}
+              >
+                Export
+              </Button>
+              <Menu anchorEl={exportAnchor} open={!!exportAnchor} onClose={() => setExportAnchor(null)}>
+                {EXPORT_FORMATS.map((f) => (
+                  <MenuItem key={f} onClick={() => exportEntries(f)}>
+                    {EXPORT_FORMAT_LABELS[f]}
+                  </MenuItem>
+                ))}
+              </Menu>
+            </Box>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+            <TextField
+              select
+              size="small"
+              label="Actor"
+              sx={{ minWidth: 160 }}
+              value={actor}
+              onChange={(e) => {
+                setActor(e.target.value);
+                setPage(0);
+              }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {facets.actors.map((a) => (
+                <MenuItem key={a} value={a}>
+                  {a}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Action"
+              sx={{ minWidth: 200 }}
+              value={action}
+              onChange={(e) => {
+                setAction(e.target.value);
+                setPage(0);
+              }}
+            >
+              <MenuItem value="">All</MenuItem>
+              {facets.actions.map((a) => (
+                <MenuItem key={a} value={a}>
+                  {a}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label="Target"
+              placeholder="Search targets"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  setPage(0);
+                  setSearch(query.trim());
+                }
+              }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="From"
+              InputLabelProps={{ shrink: true }}
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(0);
+              }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="To"
+              InputLabelProps={{ shrink: true }}
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setPage(0);
+              }}
+            />
+          </Box>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Time</TableCell>
+                <TableCell>Actor</TableCell>
+                <TableCell>Action</TableCell>
+                <TableCell>Target</TableCell>
+                <TableCell>Changes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map((e) => (
+                <TableRow key={e.id}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(e.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{e.actor}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={e.action} />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="text.secondary">
+                      {e.targetType}
+                    </Typography>
+                    <Typography variant="body2">{e.target}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    {Object.entries(e.diff || {}).map(([field, change]) => (
+                      <Typography key={field} variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                        {field}: {formatValue(change.before)} → {formatValue(change.after)}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!loading && entries.length === 0 && (
+            <Typography color="text.secondary" sx={{ mt: 2 }}>
+              {filtered ? 'No audit entries match these filters.' : 'No changes have been recorded yet.'}
+            </Typography>
+          )}
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_e, p) => setPage(p)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+          />
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default AuditLog;
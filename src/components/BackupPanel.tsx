@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+
+import BackupIcon from '@mui/icons-material/Backup';
+import DownloadIcon from '@mui/icons-material/Download';
+import RestoreIcon from '@mui/icons-material/Restore';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import { apiFetch } from '../utils/api';
+import { saveFile } from '../utils/export';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface Backup {
+  name: string;
+  createdAt: string;
+  reason: string | null;
+  sizeBytes: number;
+  schemaVersion: number | null;
+  integrity: 'ok' | 'unknown' | string[];
+  durationMs: number | null;
+}
+
+interface BackupList {
+  dir: string;
+  keep: number;
+  backups: Backup[];
+}
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Database snapshots (admins only): take, download, restore and delete.
+ * Where snapshots go and how many are kept are the backup/dir and
+ * backup/keep settings; schedules use the "Back up the database" operation.
+ */
+const BackupPanel: React.FC = () => {
+  const [data, setData] = useState<BackupList | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<Backup | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Backup | null>(null);
+  const [snack, setSnack] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/system/backups`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load backups');
+      setData(json);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load backups');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Runs one backup action, reporting its error and reloading the list.
+  const act = async (fn: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setSnack(await fn());
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Request failed');
+    } finally {
+      setBusy(false);
+      load();
+    }
+  };
+
+  const backupNow = () =>
+    act(async () => {
+      const res = await apiFetch(`${API_BASE}/api/system/backups`, { method: 'POST' });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Backup failed');
+      return `Saved ${json.name}${json.pruned.length ? `, removed ${json.pruned.length} old backup(s)` : ''}`;
+    });
+
+  const download = (b: Backup) =>
+    act(async () => {
+      const res = await apiFetch(`${API_BASE}/api/system/backups/${encodeURIComponent(b.name)}/download`);
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || 'Download failed');
+      }
+      saveFile(b.name, await res.blob());
+      return `Downloaded ${b.name}`;
+    });
+
+  const restore = (b: Backup) =>
+    act(async () => {
+      setRestoreTarget(null);
+      const res = await apiFetch(`${API_BASE}/api/system/backups/${encodeURIComponent(b.name)}/restore`, {
+        method: 'POST'
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Restore failed');
+      return `Restored ${json.restored}; the previous state is saved as ${json.preRestore}`;
+    });
+
+  const remove = (b: Backup) =>
+    act(async () => {
+      setDeleteTarget(null);
+      const res = await apiFetch(`${API_BASE}/api/system/backups/${encodeURIComponent(b.name)}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error || 'Delete failed');
+      }
+      return `Deleted ${b.name}`;
+    });
+
+  const integrityChip = (b: Backup) =>
+    b.integrity === 'ok' ? (
+      <Chip size="small" color="success" label="Verified" />
+    ) : b.integrity === 'unknown' ? (
+      <Chip size="small" label="Not checked" />
+    ) : (
+      <Tooltip title={b.integrity.join('; ')}>
+        <Chip size="small" color="error" label="Corrupt" />
+      </Tooltip>
+    );
+
+  return (
+    <Card elevation={3}>
+      <CardHeader
+        avatar={<BackupIcon color="primary" />}
+        title="Backups"
+        subheader={
+          data
+            ? `Verified online snapshots in ${data.dir}, keeping the newest ${data.keep || 'all'}`
+            : 'Verified online snapshots of the database'
+        }
+        action={
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<RefreshIcon />} onClick={load} disabled={busy}>
+              Refresh
+            </Button>
+            <Button variant="contained" startIcon={<BackupIcon />} onClick={backupNow} disabled={busy}>
+              Back Up Now
+            </Button>
+          </Box>
+        }
+      />
+      <Divider />
+      <CardContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {data && data.backups.length === 0 && (
+          <Typography color="text.secondary">
+            No backups yet. Take one now, or schedule the "Back up the database" operation.
+          </Typography>
+        )}
+        {data && data.backups.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Created</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell align="right">Schema</TableCell>
+                <TableCell>Integrity</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.backups.map((b) => (
+                <TableRow key={b.name}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(b.createdAt).toLocaleString()}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{b.name}</TableCell>
+                  <TableCell>{b.reason || '—'}</TableCell>
+                  <TableCell align="right">{megabytes(b.sizeBytes)}</TableCell>
+                  <TableCell align="right">{b.schemaVersion ?? '—'}</TableCell>
+                  <TableCell>{integrityChip(b)}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Download">
+                      <IconButton size="small" onClick={() => download(b)} disabled={busy}>
+                        <DownloadIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Restore">
+                      <IconButton size="small" onClick={() => setRestoreTarget(b)} disabled={busy}>
+                        <RestoreIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" onClick={() => setDeleteTarget(b)} disabled={busy}>
+                        <DeleteIcon color="error" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!restoreTarget} onClose={() => setRestoreTarget(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Restore Backup</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            Replace the whole database with <strong>{restoreTarget?.name}</strong>?
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Everything written since then (settings, jobs, logs, users and sessions) is replaced. The current state is
+            saved as a pre-restore backup first, so the restore can be undone. Users whose session is not in the
+            backup will have to sign in again.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRestoreTarget(null)}>Cancel</Button>
+          <Button variant="contained" color="warning" onClick={() => restoreTarget && restore(restoreTarget)}>
+            Restore
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Backup</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete <strong>{deleteTarget?.name}</strong>? This cannot be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={() => deleteTarget && remove(deleteTarget)}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar open={!!snack} autoHideDuration={4000} onClose={() => setSnack(null)} message={snack} />
+    </Card>
+  );
+};
+
+export default BackupPanel;
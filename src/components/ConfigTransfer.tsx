@@ -0,0 +1,357 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+
+import { apiFetch } from '../utils/api';
+import { saveFile } from '../utils/export';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+type ImportMode = 'merge' | 'replace';
+
+interface SettingRef {
+  section: string;
+  name: string;
+}
+
+// Response of POST /api/config/import.
+interface ImportPlan {
+  mode: ImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  bundle: { version: number; exportedAt: string | null };
+  settings: {
+    added: (SettingRef & { value: string })[];
+    changed: (SettingRef & { before: string; after: string })[];
+    removed: (SettingRef & { value: string })[];
+    unchanged: number;
+  };
+  profiles: {
+    added: string[];
+    changed: { name: string; fields: string[] }[];
+    removed: string[];
+    unchanged: number;
+  };
+  secrets: { added: string[]; changed: string[]; removed: string[]; unchanged: number };
+  invalid: (SettingRef & { error: string })[];
+}
+
+const DiffLine: React.FC<{ sign: '+' | '~' | '-'; children: React.ReactNode }> = ({ sign, children }) => (
+  <Typography
+    variant="body2"
+    sx={{
+      fontFamily: 'monospace',
+      color: sign === '+' ? 'success.main' : sign === '-' ? 'error.main' : 'warning.main'
+    }}
+  >
+    {sign} {children}
+  </Typography>
+);
+
+const PlanSummary: React.FC<{ plan: ImportPlan }> = ({ plan }) => {
+  const { settings, profiles, secrets } = plan;
+  const changes =
+    settings.added.length + settings.changed.length + settings.removed.length +
+    profiles.added.length + profiles.changed.length + profiles.removed.length +
+    secrets.added.length + secrets.changed.length + secrets.removed.length;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      {plan.invalid.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {plan.invalid.map((i) => (
+            <div key={`${i.section}/${i.name}`}>{i.error}</div>
+          ))}
+        </Alert>
+      )}
+      <Typography variant="subtitle2" gutterBottom>
+        {changes ? `${changes} change(s)` : 'Nothing to change'}; {settings.unchanged} setting(s),{' '}
+        {profiles.unchanged} PA API profile(s) and {secrets.unchanged} secret(s) unchanged
+      </Typography>
+      <Box sx={{ maxHeight: 320, overflow: 'auto' }}>
+        {settings.added.map((s) => (
+          <DiffLine key={`a:${s.section}/${s.name}`} sign="+">
+            {s.section}/{s.name} = {s.value}
+          </DiffLine>
+        ))}
+        {settings.changed.map((s) => (
+          <DiffLine key={`c:${s.section}/${s.name}`} sign="~">
+            {s.section}/{s.name}: {s.before} → {s.after}
+          </DiffLine>
+        ))}
+        {settings.removed.map((s) => (
+          <DiffLine key={`r:${s.section}/${s.name}`} sign="-">
+            {s.section}/{s.name} (was {s.value})
+          </DiffLine>
+        ))}
+        {profiles.added.map((name) => (
+          <DiffLine key={`pa:${name}`} sign="+">
+            PA API profile {name}
+          </DiffLine>
+        ))}
+        {profiles.changed.map((p) => (
+          <DiffLine key={`pc:${p.name}`} sign="~">
+            PA API profile {p.name} ({p.fields.join(', ')})
+          </DiffLine>
+        ))}
+        {profiles.removed.map((name) => (
+          <DiffLine key={`pr:${name}`} sign="-">
+            PA API profile {name}
+          </DiffLine>
+        ))}
+        {secrets.added.map((name) => (
+          <DiffLine key={`sa:${name}`} sign="+">
+            secret {name}
+          </DiffLine>
+        ))}
+        {secrets.changed.map((name) => (
+          <DiffLine key={`sc:${name}`} sign="~">
+            secret {name} (new value)
+          </DiffLine>
+        ))}
+        {secrets.removed.map((name) => (
+          <DiffLine key={`sr:${name}`} sign="-">
+            secret {name}
+          </DiffLine>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * Export and Import buttons for configuration bundles (admins): settings,
+ * PA API profiles and secrets in one JSON file, secrets encrypted with
+ * a passphrase chosen at export. Import previews the changes first.
+ */
+const ConfigTransfer: React.FC<{ onImported: (message: string) => void }> = ({ onImported }) => {
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirm, setExportConfirm] = useState('');
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [bundle, setBundle] = useState<any>(null);
+  const [fileName, setFileName] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openExport = () => {
+    setExportPassphrase('');
+    setExportConfirm('');
+    setError(null);
+    setExportOpen(true);
+  };
+
+  const openImport = () => {
+    setBundle(null);
+    setFileName('');
+    setImportPassphrase('');
+    setMode('merge');
+    setPlan(null);
+    setError(null);
+    setImportOpen(true);
+  };
+
+  const runExport = async () => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/config/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase: exportPassphrase })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Export failed');
+      const stamp = json.exportedAt.slice(0, 19).replace(/[:T]/g, '-');
+      saveFile(`selji-config-${stamp}.json`, JSON.stringify(json, null, 2), 'application/json');
+      setExportOpen(false);
+    } catch (e: any) {
+      setError(e.message || 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pickFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPlan(null);
+    setFileName(file.name);
+    try {
+      setBundle(JSON.parse(await file.text()));
+      setError(null);
+    } catch {
+      setBundle(null);
+      setError(`${file.name} is not a JSON file`);
+    }
+  };
+
+  // Previews with dryRun; applies only what was previewed.
+  const runImport = async (dryRun: boolean) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/config/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bundle, passphrase: importPassphrase, mode, dryRun })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Import failed');
+      setError(null);
+      if (dryRun) {
+        setPlan(json);
+      } else {
+        setImportOpen(false);
+        onImported(`Imported ${fileName} (${json.mode})`);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportReady =
+    exportPassphrase.length >= MIN_PASSPHRASE_LENGTH && exportPassphrase === exportConfirm;
+
+  return (
+    <>
+      <Button startIcon={<FileDownloadIcon />} onClick={openExport}>
+        Export
+      </Button>
+      <Button startIcon={<FileUploadIcon />} onClick={openImport}>
+        Import
+      </Button>
+
+      <Dialog open={exportOpen} onClose={() => setExportOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Export Configuration</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Saves all settings, the PA API profiles and every secret to a JSON file. Secrets are encrypted with
+            this passphrase; anyone with the file and the passphrase can read them, and the passphrase is needed
+            to import the file.
+          </Typography>
+          {error && (
+            <Alert severity="error" sx={{ my: 1 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            label="Passphrase"
+            type="password"
+            fullWidth
+            margin="normal"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+          />
+          <TextField
+            label="Repeat passphrase"
+            type="password"
+            fullWidth
+            margin="normal"
+            value={exportConfirm}
+            onChange={(e) => setExportConfirm(e.target.value)}
+            error={!!exportConfirm && exportConfirm !== exportPassphrase}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExportOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={runExport} disabled={!exportReady || busy}>
+            Export
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={importOpen} onClose={() => setImportOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Import Configuration</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 1 }}>
+              {error}
+            </Alert>
+          )}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+            <Button variant="outlined" component="label">
+              Choose File
+              <input hidden type="file" accept=".json,application/json" onChange={pickFile} />
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {fileName || 'No bundle selected'}
+              {bundle?.exportedAt && ` · exported ${new Date(bundle.exportedAt).toLocaleString()}`}
+            </Typography>
+          </Box>
+          <TextField
+            label="Passphrase"
+            type="password"
+            fullWidth
+            margin="normal"
+            value={importPassphrase}
+            onChange={(e) => {
+              setImportPassphrase(e.target.value);
+              setPlan(null);
+            }}
+          />
+          <RadioGroup
+            value={mode}
+            onChange={(e) => {
+              setMode(e.target.value as ImportMode);
+              setPlan(null);
+            }}
+          >
+            <FormControlLabel
+              value="merge"
+              control={<Radio />}
+              label="Merge: add and update what the file holds, keep everything else"
+            />
+            <FormControlLabel
+              value="replace"
+              control={<Radio />}
+              label="Replace: also delete settings, profiles and secrets the file does not hold"
+            />
+          </RadioGroup>
+          {plan && <PlanSummary plan={plan} />}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImportOpen(false)}>Cancel</Button>
+          <Button onClick={() => runImport(true)} disabled={!bundle || !importPassphrase || busy}>
+            Preview
+          </Button>
+          <Button
+            variant="contained"
+            color={mode === 'replace' ? 'warning' : 'primary'}
+            onClick={() => runImport(false)}
+            disabled={!plan || plan.invalid.length > 0 || busy}
+          >
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ConfigTransfer;
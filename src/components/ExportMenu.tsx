@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Button, Menu, MenuItem } from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+
+import {
+  downloadExport,
+  EXPORT_FORMAT_LABELS,
+  ExportDataset,
+  ExportFormat
+} from '../utils/export';
+
+interface ExportMenuProps {
+  dataset: ExportDataset;
+  rows: any[];
+  formats: ExportFormat[];
+  filename?: string;
+  onError?: (message: string) => void;
+}
+
+/**
+ * "Download" button with one menu entry per export format.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ dataset, rows, formats, filename, onError }) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  const pick = async (format: ExportFormat) => {
+    setAnchor(null);
+    try {
+      await downloadExport(dataset, format, rows, filename);
+    } catch (e: any) {
+      onError?.(e?.message || 'Export failed');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<DownloadIcon />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+        disabled={!rows.length}
+      >
+        Download
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {formats.map((f) => (
+          <MenuItem key={f} onClick={() => pick(f)}>
+            {EXPORT_FORMAT_LABELS[f]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { Fragment, useEffect, useRef, useState } from 'react';
 import {
   Alert,
   Box,
@@ -6,46 +6,134 @@ import {
   Card,
   CardHeader,
   CardContent,
+  Checkbox,
+  Collapse,
   Dialog,
   DialogTitle,
   DialogContent,
   DialogActions,
   Divider,
+  FormControlLabel,
   IconButton,
+  MenuItem,
   Snackbar,
+  Switch,
   Table,
   TableBody,
   TableCell,
   TableHead,
   TableRow,
   TextField,
+  Tooltip,
   Typography,
   Chip
 } from '@mui/material';
 
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import AutoDeleteIcon from '@mui/icons-material/AutoDelete';
+
+import { apiFetch, withAccessToken } from '../utils/api';
+import { hasRole, useAuthStore } from '../store/authStore';
 
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
 
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+// Context keys the server's logger uses; any other key can be typed in.
+const CONTEXT_KEYS = ['asin', 'url', 'jobId', 'scheduleId', 'status', 'user', 'operation'];
+
+const PAGE_SIZE = 100;
+
+// Rows kept in memory while following the live stream; older ones are
+// dropped and can be paged back in with Load More.
+const MAX_LIVE_ROWS = 1000;
+
 interface LogEntry {
   id: number;
   level: string;
+  source: string | null;
   message: string;
-  context: string | null;
+  context: Record<string, any> | null;
   created_at: string;
 }
 
+interface LogFilters {
+  levels: string[];
+  source: string;
+  q: string;
+  from: string;
+  to: string;
+  contextKey: string;
+  contextValue: string;
+}
+
+interface RetentionPolicy {
+  maxAgeDays: Record<string, number>;
+  maxRows: Record<string, number>;
+  archive: boolean;
+  intervalMinutes: number;
+}
+
+interface RetentionInfo {
+  policy: RetentionPolicy;
+  counts: Record<string, number>;
+  archiveDir: string;
+}
+
+const EMPTY_FILTERS: LogFilters = {
+  levels: [],
+  source: '',
+  q: '',
+  from: '',
+  to: '',
+  contextKey: 'asin',
+  contextValue: ''
+};
+
+const levelColor = (level: string) =>
+  level === 'error' ? 'error' : level === 'warn' ? 'warning' : level === 'debug' ? 'default' : 'info';
+
+// datetime-local values are local time; the API expects ISO timestamps.
+const toIso = (local: string) => (local ? new Date(local).toISOString() : '');
+
 const LogViewer: React.FC = () => {
+  const isAdmin = useAuthStore((s) => hasRole(s.user, 'admin'));
+
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
+  // `draft` is edited in the form; `filters` is what the list shows.
+  const [draft, setDraft] = useState<LogFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<LogFilters>(EMPTY_FILTERS);
+  const [sources, setSources] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const [follow, setFollow] = useState(false);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const latestId = useRef(0);
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
   const [modal, setModal] = useState(false);
   const [msg, setMsg] = useState('');
   const [level, setLevel] = useState('info');
 
+  const [purgeOpen, setPurgeOpen] = useState(false);
+  const [purgeArchive, setPurgeArchive] = useState(true);
+  const [purging, setPurging] = useState(false);
+
+  const [retention, setRetention] = useState<RetentionInfo | null>(null);
+  const [retentionDraft, setRetentionDraft] = useState<RetentionPolicy | null>(null);
+  const [savingRetention, setSavingRetention] = useState(false);
+
   const [snack, setSnack] = useState<{ open: boolean; msg: string; severity: 'success' | 'error' | 'info' }>({
     open: false,
     msg: '',
@@ -55,12 +143,31 @@ const LogViewer: React.FC = () => {
   const show = (m: string, s: 'success' | 'error' | 'info' = 'success') =>
     setSnack({ open: true, msg: m, severity: s });
 
-  const loadLogs = async () => {
+  const queryParams = (f: LogFilters) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (f.levels.length) params.set('level', f.levels.join(','));
+    if (f.source) params.set('source', f.source);
+    if (f.q.trim()) params.set('q', f.q.trim());
+    if (f.from) params.set('since', toIso(f.from));
+    if (f.to) params.set('until', toIso(f.to));
+    if (f.contextKey.trim() && f.contextValue.trim()) {
+      params.set(`ctx.${f.contextKey.trim()}`, f.contextValue.trim());
+    }
+    return params;
+  };
+
+  // Load the first page, or the page after `cursor` appended to the list.
+  const loadLogs = async (cursor: number | null = null) => {
+    setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/api/logs?limit=200`);
-      if (!res.ok) throw new Error('Failed to fetch logs');
-      const json: LogEntry[] = await res.json();
-      setLogs(json);
+      const params = queryParams(filters);
+      params.set('paged', '1');
+      if (cursor) params.set('before', String(cursor));
+      const res = await apiFetch(`${API_BASE}/api/logs?${params}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to fetch logs');
+      setLogs((prev) => (cursor ? [...prev, ...json.entries] : json.entries));
+      setNextCursor(json.nextCursor);
       setErr(null);
     } catch (e: any) {
       setErr(e.message || 'Failed to fetch logs');
@@ -69,15 +176,80 @@ const LogViewer: React.FC = () => {
     }
   };
 
+  const loadSources = async () => {
+    const res = await apiFetch(`${API_BASE}/api/logs/sources`);
+    if (res.ok) setSources(await res.json());
+  };
+
   useEffect(() => {
-    loadLogs();
+    loadSources();
   }, []);
 
+  useEffect(() => {
+    setExpanded(new Set());
+    loadLogs();
+  }, [filters]);
+
+  // Search, time and context filters run on the server, so live rows can
+  // only be matched against levels and source.
+  const canFollow = !filters.q.trim() && !filters.from && !filters.to && !filters.contextValue.trim();
+
+  // Live tail: resumes after the newest row shown, so pausing and
+  // resuming catches up on what was written in between.
+  useEffect(() => {
+    if (!follow || !canFollow) return;
+
+    setStreamError(null);
+    const after = latestId.current;
+    const source = new EventSource(
+      withAccessToken(`${API_BASE}/api/logs/stream${after ? `?after=${after}` : ''}`)
+    );
+
+    source.onmessage = (e) => {
+      const entry: LogEntry = JSON.parse(e.data);
+      const f = filtersRef.current;
+      if (f.levels.length && !f.levels.includes(entry.level)) return;
+      if (f.source && entry.source !== f.source) return;
+      setLogs((prev) => (prev.length && entry.id <= prev[0].id ? prev : [entry, ...prev]));
+    };
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setStreamError('Lost connection to the live log stream');
+      }
+    };
+
+    return () => source.close();
+  }, [follow, canFollow, filters]);
+
+  useEffect(() => {
+    latestId.current = logs.length ? logs[0].id : 0;
+    if (follow && logs.length > MAX_LIVE_ROWS) {
+      const kept = logs.slice(0, MAX_LIVE_ROWS);
+      setLogs(kept);
+      setNextCursor(kept[kept.length - 1].id);
+    }
+  }, [logs, follow]);
+
+  const applyFilters = () => setFilters(draft);
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const toggleExpanded = (id: number) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
   const deleteLog = async (id: number) => {
     try {
-      await fetch(`${API_BASE}/api/logs/${id}`, { method: 'DELETE' });
+      await apiFetch(`${API_BASE}/api/logs/${id}`, { method: 'DELETE' });
       show('Log deleted');
-      loadLogs();
+      setLogs((prev) => prev.filter((l) => l.id !== id));
     } catch {
       show('Delete failed', 'error');
     }
@@ -85,7 +257,7 @@ const LogViewer: React.FC = () => {
 
   const addLog = async () => {
     try {
-      await fetch(`${API_BASE}/api/logs`, {
+      await apiFetch(`${API_BASE}/api/logs`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message: msg, level, context: { ui: true } })
@@ -99,31 +271,268 @@ const LogViewer: React.FC = () => {
     }
   };
 
+  const filtered =
+    filters.levels.length > 0 ||
+    !!filters.source ||
+    !!filters.q.trim() ||
+    !!filters.from ||
+    !!filters.to ||
+    !!(filters.contextKey.trim() && filters.contextValue.trim());
+
+  // Deletes everything matching the applied filters, not just loaded rows.
+  const purgeLogs = async () => {
+    setPurging(true);
+    try {
+      const params = queryParams(filters);
+      params.delete('limit');
+      if (!filtered) params.set('all', '1');
+      if (purgeArchive) params.set('archive', '1');
+      const res = await apiFetch(`${API_BASE}/api/logs?${params}`, { method: 'DELETE' });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Delete failed');
+      setPurgeOpen(false);
+      show(`Deleted ${json.deleted} log(s)${json.archive ? `, archived to ${json.archive}` : ''}`);
+      loadSources();
+      loadLogs();
+    } catch (e: any) {
+      show(e.message || 'Delete failed', 'error');
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  const openRetention = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/logs/retention`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load retention policy');
+      setRetention(json);
+      setRetentionDraft(json.policy);
+    } catch (e: any) {
+      show(e.message || 'Failed to load retention policy', 'error');
+    }
+  };
+
+  const closeRetention = () => {
+    setRetention(null);
+    setRetentionDraft(null);
+  };
+
+  // Only changed values are written, each as a logRetention setting.
+  const saveRetention = async () => {
+    if (!retention || !retentionDraft) return;
+    const changes: [string, string][] = [];
+    for (const l of LOG_LEVELS) {
+      if (retentionDraft.maxAgeDays[l] !== retention.policy.maxAgeDays[l]) {
+        changes.push([`maxAgeDays.${l}`, String(retentionDraft.maxAgeDays[l])]);
+      }
+      if (retentionDraft.maxRows[l] !== retention.policy.maxRows[l]) {
+        changes.push([`maxRows.${l}`, String(retentionDraft.maxRows[l])]);
+      }
+    }
+    if (retentionDraft.archive !== retention.policy.archive) {
+      changes.push(['archive', String(retentionDraft.archive)]);
+    }
+    if (retentionDraft.intervalMinutes !== retention.policy.intervalMinutes) {
+      changes.push(['intervalMinutes', String(retentionDraft.intervalMinutes)]);
+    }
+
+    setSavingRetention(true);
+    try {
+      for (const [name, value] of changes) {
+        const res = await apiFetch(`${API_BASE}/api/settings/logRetention/${encodeURIComponent(name)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ value })
+        });
+        if (!res.ok) {
+          const json = await res.json().catch(() => null);
+          throw new Error(`Failed to save ${name}${json?.error ? `: ${json.error}` : ''}`);
+        }
+      }
+      show(changes.length ? 'Retention policy saved' : 'No changes');
+      closeRetention();
+    } catch (e: any) {
+      show(e.message || 'Failed to save retention policy', 'error');
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  const runRetention = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/logs/retention/run`, { method: 'POST' });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to start retention');
+      show(`Retention job #${json.id} queued`, 'info');
+    } catch (e: any) {
+      show(e.message || 'Failed to start retention', 'error');
+    }
+  };
+
+  const setRetentionLimit = (key: 'maxAgeDays' | 'maxRows', l: string, value: string) => {
+    if (!retentionDraft) return;
+    const n = Math.max(0, Math.floor(Number(value) || 0));
+    setRetentionDraft({ ...retentionDraft, [key]: { ...retentionDraft[key], [l]: n } });
+  };
+
   const closeSnack = () => setSnack({ ...snack, open: false });
 
+  const onEnter = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') applyFilters();
+  };
+
   return (
     <Card elevation={3}>
       <CardHeader
         title="Log Viewer"
-        subheader="View and manage backend logs"
+        subheader="Search and filter backend logs"
         action={
-          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setModal(true)}>
-            Add Log
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Tooltip title={canFollow ? 'Stream new entries as they are written' : 'Clear search, time and context filters to follow'}>
+              <FormControlLabel
+                control={
+                  <Switch checked={follow && canFollow} disabled={!canFollow} onChange={(e) => setFollow(e.target.checked)} />
+                }
+                label={follow && canFollow ? 'Following' : 'Follow'}
+              />
+            </Tooltip>
+            <Button
+              startIcon={<RefreshIcon />}
+              onClick={() => {
+                loadSources();
+                loadLogs();
+              }}
+            >
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button startIcon={<AutoDeleteIcon />} onClick={openRetention}>
+                Retention
+              </Button>
+            )}
+            {isAdmin && (
+              <Button color="error" startIcon={<DeleteSweepIcon />} onClick={() => setPurgeOpen(true)}>
+                {filtered ? 'Delete Matching' : 'Delete All'}
+              </Button>
+            )}
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => setModal(true)}>
+              Add Log
+            </Button>
+          </Box>
         }
       />
       <Divider />
       <CardContent>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Levels"
+            sx={{ minWidth: 160 }}
+            SelectProps={{
+              multiple: true,
+              renderValue: (v) => ((v as string[]).length ? (v as string[]).join(', ') : 'All')
+            }}
+            value={draft.levels}
+            onChange={(e) => {
+              const value = e.target.value as unknown as string[];
+              setDraft({ ...draft, levels: value });
+              setFilters({ ...filters, levels: value });
+            }}
+          >
+            {LOG_LEVELS.map((l) => (
+              <MenuItem key={l} value={l}>
+                {l}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Source"
+            sx={{ minWidth: 180 }}
+            value={draft.source}
+            onChange={(e) => {
+              setDraft({ ...draft, source: e.target.value });
+              setFilters({ ...filters, source: e.target.value });
+            }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {sources.map((s) => (
+              <MenuItem key={s} value={s}>
+                {s}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Search"
+            placeholder="Message or context"
+            value={draft.q}
+            onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+            onKeyDown={onEnter}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="From"
+            InputLabelProps={{ shrink: true }}
+            value={draft.from}
+            onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+          />
+          <TextField
+            size="small"
+            type="datetime-local"
+            label="To"
+            InputLabelProps={{ shrink: true }}
+            value={draft.to}
+            onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+          />
+          <TextField
+            select
+            size="small"
+            label="Context Key"
+            sx={{ minWidth: 140 }}
+            value={draft.contextKey}
+            onChange={(e) => setDraft({ ...draft, contextKey: e.target.value })}
+          >
+            {CONTEXT_KEYS.map((k) => (
+              <MenuItem key={k} value={k}>
+                {k}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            size="small"
+            label="Context Value"
+            value={draft.contextValue}
+            onChange={(e) => setDraft({ ...draft, contextValue: e.target.value })}
+            onKeyDown={onEnter}
+          />
+          <Button variant="outlined" onClick={applyFilters}>
+            Apply
+          </Button>
+          <Button onClick={resetFilters}>Reset</Button>
+        </Box>
+
         {err && <Alert severity="error">{err}</Alert>}
-        {loading && <Typography>Loading…</Typography>}
+        {streamError && follow && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {streamError}
+          </Alert>
+        )}
+        {loading && logs.length === 0 && <Typography>Loading…</Typography>}
         {!loading && logs.length === 0 && (
-          <Typography color="text.secondary">No logs yet.</Typography>
+          <Typography color="text.secondary">No logs match these filters.</Typography>
         )}
-        {!loading && logs.length > 0 && (
+        {logs.length > 0 && (
           <Table size="small">
             <TableHead>
               <TableRow>
+                <TableCell padding="checkbox" />
                 <TableCell>Level</TableCell>
+                <TableCell>Source</TableCell>
                 <TableCell>Message</TableCell>
                 <TableCell>Created</TableCell>
                 <TableCell align="right">Actions</TableCell>
@@ -131,39 +540,60 @@ const LogViewer: React.FC = () => {
             </TableHead>
             <TableBody>
               {logs.map((l) => (
-                <TableRow key={l.id}>
-                  <TableCell>
-                    <Chip
-                      label={l.level}
-                      size="small"
-                      color={
-                        l.level === 'error'
-                          ? 'error'
-                          : l.level === 'warn'
-                          ? 'warning'
-                          : 'info'
-                      }
-                    />
-                  </TableCell>
-                  <TableCell>{l.message}</TableCell>
-                  <TableCell>{l.created_at}</TableCell>
-                  <TableCell align="right">
-                    <IconButton onClick={() => deleteLog(l.id)}>
-                      <DeleteIcon color="error" />
-                    </IconButton>
-                  </TableCell>
-                </TableRow>
+                <Fragment key={l.id}>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      {l.context && (
+                        <IconButton size="small" onClick={() => toggleExpanded(l.id)}>
+                          {expanded.has(l.id) ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+                        </IconButton>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={l.level} size="small" color={levelColor(l.level)} />
+                    </TableCell>
+                    <TableCell>{l.source || '—'}</TableCell>
+                    <TableCell>{l.message}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(l.created_at).toLocaleString()}</TableCell>
+                    <TableCell align="right">
+                      <IconButton onClick={() => deleteLog(l.id)}>
+                        <DeleteIcon color="error" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                  {l.context && (
+                    <TableRow>
+                      <TableCell colSpan={6} sx={{ py: 0, borderBottom: expanded.has(l.id) ? undefined : 'none' }}>
+                        <Collapse in={expanded.has(l.id)} unmountOnExit>
+                          <Box
+                            component="pre"
+                            sx={{ m: 0, py: 1, fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}
+                          >
+                            {JSON.stringify(l.context, null, 2)}
+                          </Box>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
               ))}
             </TableBody>
           </Table>
         )}
+        {nextCursor && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+            <Button onClick={() => loadLogs(nextCursor)} disabled={loading}>
+              Load More
+            </Button>
+          </Box>
+        )}
       </CardContent>
 
       <Dialog open={modal} onClose={() => setModal(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Add Log Entry</DialogTitle>
         <DialogContent>
           <TextField
-            label="Level (info, warn, error)"
+            label="Level (debug, info, warn, error)"
             fullWidth
             margin="normal"
             value={level}
@@ -185,6 +615,108 @@ const LogViewer: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      <Dialog open={purgeOpen} onClose={() => setPurgeOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{filtered ? 'Delete Matching Logs' : 'Delete All Logs'}</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            {filtered
+              ? 'Every log entry matching the applied filters will be deleted, including rows not loaded on this page.'
+              : 'No filters are applied: every log entry will be deleted.'}
+          </Typography>
+          <FormControlLabel
+            control={<Checkbox checked={purgeArchive} onChange={(e) => setPurgeArchive(e.target.checked)} />}
+            label="Archive to a compressed file first"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPurgeOpen(false)}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={purgeLogs} disabled={purging}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!retentionDraft} onClose={closeRetention} maxWidth="sm" fullWidth>
+        <DialogTitle>Log Retention</DialogTitle>
+        {retention && retentionDraft && (
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              0 means no limit. Rows older than the max age, and the oldest rows beyond the max row count, are
+              deleted every {retentionDraft.intervalMinutes || '—'} minute(s).
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Level</TableCell>
+                  <TableCell align="right">Rows</TableCell>
+                  <TableCell>Max Age (days)</TableCell>
+                  <TableCell>Max Rows</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {LOG_LEVELS.map((l) => (
+                  <TableRow key={l}>
+                    <TableCell>
+                      <Chip label={l} size="small" color={levelColor(l)} />
+                    </TableCell>
+                    <TableCell align="right">{retention.counts[l] || 0}</TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        inputProps={{ min: 0 }}
+                        value={retentionDraft.maxAgeDays[l]}
+                        onChange={(e) => setRetentionLimit('maxAgeDays', l, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        inputProps={{ min: 0 }}
+                        value={retentionDraft.maxRows[l]}
+                        onChange={(e) => setRetentionLimit('maxRows', l, e.target.value)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TextField
+              label="Run every (minutes, 0 = off)"
+              type="number"
+              fullWidth
+              margin="normal"
+              inputProps={{ min: 0 }}
+              value={retentionDraft.intervalMinutes}
+              onChange={(e) =>
+                setRetentionDraft({ ...retentionDraft, intervalMinutes: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+              }
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={retentionDraft.archive}
+                  onChange={(e) => setRetentionDraft({ ...retentionDraft, archive: e.target.checked })}
+                />
+              }
+              label="Archive purged rows"
+            />
+            <Typography variant="caption" color="text.secondary" display="block">
+              Archives are gzip-compressed NDJSON files in {retention.archiveDir}
+            </Typography>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={runRetention}>Apply Now</Button>
+          <Box sx={{ flex: 1 }} />
+          <Button onClick={closeRetention}>Cancel</Button>
+          <Button variant="contained" onClick={saveRetention} disabled={savingRetention}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       <Snackbar
         open={snack.open}
         autoHideDuration={2500}
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CircularProgress,
+  Divider,
+  TextField
+} from '@mui/material';
+
+import LockIcon from '@mui/icons-material/Lock';
+
+import { useAuthStore } from '../store/authStore';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+/**
+ * Sign-in form. While the server has no users yet it asks for the first
+ * admin account instead (POST /api/auth/setup).
+ */
+const LoginScreen: React.FC = () => {
+  const setSession = useAuthStore((s) => s.setSession);
+
+  const [setupRequired, setSetupRequired] = useState<boolean | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`${API_BASE}/api/auth/status`)
+      .then((res) => res.json())
+      .then((json) => setSetupRequired(!!json.setupRequired))
+      .catch(() => {
+        setSetupRequired(false);
+        setError('Cannot reach the server');
+      });
+  }, []);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setupRequired && password !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/auth/${setupRequired ? 'setup' : 'login'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Sign in failed');
+      setSession(json);
+    } catch (e: any) {
+      setError(e?.message || 'Sign in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (setupRequired === null) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+      <Card elevation={3} sx={{ width: 400 }}>
+        <CardHeader
+          avatar={<LockIcon color="primary" />}
+          title={setupRequired ? 'Create Admin Account' : 'Sign In'}
+          subheader={
+            setupRequired
+              ? 'No users exist yet. This account will administer the workflow engine.'
+              : 'SELJI Workflow Engine'
+          }
+        />
+        <Divider />
+        <CardContent>
+          <Box component="form" onSubmit={submit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField
+              label="Username"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+            <TextField
+              label="Password"
+              type="password"
+              autoComplete={setupRequired ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              helperText={setupRequired ? 'At least 8 characters' : undefined}
+            />
+            {setupRequired && (
+              <TextField
+                label="Confirm Password"
+                type="password"
+                autoComplete="new-password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+              />
+            )}
+            <Button type="submit" variant="contained" disabled={busy || !username || !password}>
+              {busy ? <CircularProgress size={20} /> : setupRequired ? 'Create Account' : 'Sign In'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default LoginScreen;
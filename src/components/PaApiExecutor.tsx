@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import {
   Alert,
   Box,
@@ -11,48 +11,46 @@ import {
   Snackbar,
   TextField,
   Typography,
-  Collapse,
-  IconButton
+  IconButton,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
-import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import SaveIcon from '@mui/icons-material/Save';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import { useWorkflowStore } from '../store/workflowStore';
-
-const API_BASE =
-  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
-
-interface PaapiConfig {
-  accessKey: string;
-  secretKey: string;
-  partnerTag: string;
-  marketplace: string;
-  region: string;
-  host: string;
+import { useJobStream, submitJob, cancelJob, isJobFinished } from '../hooks/useJobStream';
+import ExportMenu from './ExportMenu';
+import PaApiProfiles from './PaApiProfiles';
+import PaApiProfileSelect from './PaApiProfileSelect';
+
+interface AsinStatus {
+  asin: string;
+  status: 'succeeded' | 'failed' | 'not-accessible';
+  error: string | null;
 }
 
-const DEFAULT_MARKETPLACE = 'www.amazon.com';
-const DEFAULT_REGION = 'us-east-1';
-const DEFAULT_HOST = 'webservices.amazon.com';
+const STATUS_COLORS: Record<AsinStatus['status'], 'success' | 'error' | 'warning'> = {
+  succeeded: 'success',
+  failed: 'error',
+  'not-accessible': 'warning'
+};
 
 const PaApiExecutor: React.FC = () => {
   // Zustand-backed fields
-  const accessKey = useWorkflowStore((s) => s.paapi.accessKey);
-  const secretKey = useWorkflowStore((s) => s.paapi.secretKey);
-  const partnerTag = useWorkflowStore((s) => s.paapi.partnerTag);
-  const marketplace = useWorkflowStore((s) => s.paapi.marketplace);
-  const region = useWorkflowStore((s) => s.paapi.region);
-  const host = useWorkflowStore((s) => s.paapi.host);
+  const profile = useWorkflowStore((s) => s.paapi.profile);
   const asins = useWorkflowStore((s) => s.paapi.asins);
   const response = useWorkflowStore((s) => s.paapi.response);
   const error = useWorkflowStore((s) => s.paapi.error);
+  const jobId = useWorkflowStore((s) => s.paapi.jobId ?? null);
   const setPaapiField = useWorkflowStore((s) => s.setPaapiField);
 
   // Local UI state
-  const [loading, setLoading] = useState(false);
-  const [credOpen, setCredOpen] = useState(false);
-  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [profilesVersion, setProfilesVersion] = useState(0);
   const [snack, setSnack] = useState<{
     open: boolean;
     msg: string;
@@ -72,58 +70,25 @@ const PaApiExecutor: React.FC = () => {
   const setError = (value: string | null) => setPaapiField('error', value);
   const setResponse = (value: any | null) => setPaapiField('response', value);
 
-  // Always load config from backend on mount (DB is source of truth)
-  useEffect(() => {
-    const loadConfig = async () => {
-      try {
-        const res = await fetch(`${API_BASE}/api/config/paapi`);
-        if (!res.ok) return;
-
-        const data: PaapiConfig | null = await res.json();
-        if (data) {
-          setPaapiField('accessKey', data.accessKey ?? '');
-          setPaapiField('secretKey', data.secretKey ?? '');
-          setPaapiField('partnerTag', data.partnerTag ?? '');
-          setPaapiField('marketplace', data.marketplace || DEFAULT_MARKETPLACE);
-          setPaapiField('region', data.region || DEFAULT_REGION);
-          setPaapiField('host', data.host || DEFAULT_HOST);
-        }
-      } catch {
-        // ignore UI-side; user can still type manually
-      }
-    };
-
-    loadConfig();
-  }, [setPaapiField]);
-
-  const saveConfig = async () => {
-    try {
-      setError(null);
-      const res = await fetch(`${API_BASE}/api/config/paapi`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accessKey: (accessKey || '').trim(),
-          secretKey: (secretKey || '').trim(),
-          partnerTag: (partnerTag || '').trim(),
-          marketplace: (marketplace || '').trim() || DEFAULT_MARKETPLACE,
-          region: (region || '').trim() || DEFAULT_REGION,
-          host: (host || '').trim() || DEFAULT_HOST
-        })
-      });
+  // Follow the background GetItems job (reattaches after a reload)
+  const { job } = useJobStream(jobId, (update) => {
+    if (!isJobFinished(update)) return;
+    setPaapiField('jobId', null);
+    if (update.status === 'succeeded') {
+      setResponse(update.result);
+      show('PA API request successful');
+    } else {
+      const msg = update.error || 'PA API job ' + update.status;
+      setError(msg);
+      show(msg, 'error');
+    }
+  });
 
-      const j = await res.json().catch(() => null as any);
+  const loading = submitting || !!jobId;
 
-      if (!res.ok) {
-        show(j?.error || 'Failed to save PA API config', 'error');
-        return;
-      }
-
-      show('PA API configuration saved');
-    } catch (e: any) {
-      show(e?.message || 'Failed to save PA API config', 'error');
-    }
-  };
+  const statuses: AsinStatus[] = Array.isArray(response?.statuses) ? response.statuses : [];
+  const countStatus = (st: AsinStatus['status']) =>
+    statuses.filter((x) => x.status === st).length;
 
   const execute = async () => {
     setError(null);
@@ -139,36 +104,19 @@ const PaApiExecutor: React.FC = () => {
       return;
     }
 
-    setLoading(true);
+    setSubmitting(true);
     try {
-      const res = await fetch(`${API_BASE}/api/paapi/get-items`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          accessKey: (accessKey || '').trim(),
-          secretKey: (secretKey || '').trim(),
-          partnerTag: (partnerTag || '').trim(),
-          marketplace: (marketplace || '').trim() || DEFAULT_MARKETPLACE,
-          region: (region || '').trim() || DEFAULT_REGION,
-          host: (host || '').trim() || DEFAULT_HOST,
-          asins: asinList
-        })
+      const id = await submitJob('paapi-get-items', {
+        asins: asinList,
+        ...(profile ? { profile } : {})
       });
-
-      const json = await res.json().catch(() => null);
-
-      if (!res.ok) {
-        throw new Error(json?.error || 'Request failed');
-      }
-
-      setResponse(json);
-      show('PA API request successful');
+      setPaapiField('jobId', id);
     } catch (e: any) {
       const msg = e?.message || 'Failed to execute';
       setError(msg);
       show(msg, 'error');
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
@@ -189,117 +137,21 @@ const PaApiExecutor: React.FC = () => {
 
   return (
     <Box>
+      <PaApiProfiles onChanged={() => setProfilesVersion((v) => v + 1)} />
+
       <Card elevation={3} sx={{ mb: 3 }}>
         <CardHeader
           title="PA API Executor"
-          subheader="Execute Amazon Product Advertising API 5.0 calls with your stored credentials."
+          subheader="Execute Amazon Product Advertising API 5.0 calls with the credentials of a stored profile."
         />
         <Divider />
         <CardContent>
-          {/* Credentials section (collapsible) */}
-          <Box
-            sx={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              cursor: 'pointer',
-              mb: 1,
-              mt: 1
-            }}
-            onClick={() => setCredOpen((o) => !o)}
-          >
-            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
-              Credentials
-            </Typography>
-            <IconButton
-              size="small"
-              sx={{
-                transform: credOpen ? 'rotate(180deg)' : 'rotate(0deg)',
-                transition: 'transform 0.25s ease'
-              }}
-            >
-              <ExpandMoreIcon />
-            </IconButton>
-          </Box>
-
-          <Collapse in={credOpen} timeout="auto" unmountOnExit>
-            <Box sx={{ display: 'grid', gap: 2, mb: 3, mt: 1 }}>
-              <TextField
-                label="Access Key"
-                fullWidth
-                value={accessKey}
-                onChange={(e) => setPaapiField('accessKey', e.target.value)}
-              />
-              <TextField
-                label="Secret Key"
-                fullWidth
-                type="password"
-                value={secretKey}
-                onChange={(e) => setPaapiField('secretKey', e.target.value)}
-              />
-              <TextField
-                label="Partner Tag (Associate Tag)"
-                fullWidth
-                value={partnerTag}
-                onChange={(e) => setPaapiField('partnerTag', e.target.value)}
-                helperText="Example: selji0c-20"
-              />
-            </Box>
-          </Collapse>
-
-          {/* Settings section (collapsible) */}
-          <Box
-            sx={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              cursor: 'pointer',
-              mb: 1,
-              mt: 2
-            }}
-            onClick={() => setSettingsOpen((o) => !o)}
-          >
-            <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
-              PA API Settings
-            </Typography>
-            <IconButton
-              size="small"
-              sx={{
-                transform: settingsOpen ? 'rotate(180deg)' : 'rotate(0deg)',
-                transition: 'transform 0.25s ease'
-              }}
-            >
-              <ExpandMoreIcon />
-            </IconButton>
-          </Box>
-
-          <Collapse in={settingsOpen} timeout="auto" unmountOnExit>
-            <Box sx={{ display: 'grid', gap: 2, mb: 3 }}>
-              <TextField
-                label="Marketplace"
-                fullWidth
-                value={marketplace}
-                onChange={(e) => setPaapiField('marketplace', e.target.value)}
-                helperText={`Default: ${DEFAULT_MARKETPLACE}`}
-              />
-              <TextField
-                label="Region"
-                fullWidth
-                value={region}
-                onChange={(e) => setPaapiField('region', e.target.value)}
-                helperText={`Default: ${DEFAULT_REGION}`}
-              />
-              <TextField
-                label="Host"
-                fullWidth
-                value={host}
-                onChange={(e) => setPaapiField('host', e.target.value)}
-                helperText={`Default: ${DEFAULT_HOST}`}
-              />
-            </Box>
-          </Collapse>
-
-          <Divider sx={{ my: 2 }} />
+          <PaApiProfileSelect
+            value={profile}
+            onChange={(value) => setPaapiField('profile', value)}
+            refreshKey={profilesVersion}
+            sx={{ mt: 1, mb: 2 }}
+          />
 
           {/* ASIN input */}
           <Typography variant="subtitle2" sx={{ mb: 1 }}>
@@ -330,26 +182,73 @@ const PaApiExecutor: React.FC = () => {
             >
               Execute
             </Button>
-            <Button
-              variant="outlined"
-              startIcon={<SaveIcon />}
-              onClick={saveConfig}
-              disabled={loading}
-            >
-              Save Config
-            </Button>
+            {jobId && (
+              <Button variant="text" color="error" onClick={() => cancelJob(jobId)}>
+                Cancel
+              </Button>
+            )}
             {loading && <CircularProgress size={24} />}
+            {job && !isJobFinished(job) && (
+              <Typography variant="body2" color="text.secondary">
+                Job #{job.id} {job.status}
+                {job.progress.total > 0 &&
+                  ` — batch ${job.progress.done} / ${job.progress.total}`}
+              </Typography>
+            )}
           </Box>
         </CardContent>
       </Card>
 
+      {statuses.length > 0 && (
+        <Card elevation={3} sx={{ mb: 3 }}>
+          <CardHeader
+            title="Per-ASIN Status"
+            subheader={`Succeeded: ${countStatus('succeeded')} | Failed: ${countStatus(
+              'failed'
+            )} | Not accessible: ${countStatus('not-accessible')}`}
+          />
+          <Divider />
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>ASIN</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {statuses.map((st) => (
+                  <TableRow key={st.asin}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{st.asin}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={st.status} color={STATUS_COLORS[st.status]} />
+                    </TableCell>
+                    <TableCell>{st.error || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card elevation={3}>
         <CardHeader
           title="PA API Response"
           action={
-            <IconButton onClick={handleCopyResponse} aria-label="Copy response JSON">
-              <ContentCopyIcon />
-            </IconButton>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <ExportMenu
+                dataset="items"
+                rows={Array.isArray(response?.items) ? response.items : []}
+                formats={['csv', 'xlsx-csv', 'json', 'asin-txt']}
+                filename="paapi-items"
+                onError={(msg) => show(msg, 'error')}
+              />
+              <IconButton onClick={handleCopyResponse} aria-label="Copy response JSON">
+                <ContentCopyIcon />
+              </IconButton>
+            </Box>
           }
         />
         <Divider />
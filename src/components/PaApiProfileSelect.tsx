@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { MenuItem, TextField } from '@mui/material';
+
+import { apiFetch } from '../utils/api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface ProfileOption {
+  name: string;
+  isDefault: boolean;
+  marketplace: string;
+}
+
+interface PaApiProfileSelectProps {
+  value: string; // profile name, '' for the default profile
+  onChange: (value: string) => void;
+  size?: 'small' | 'medium';
+  fullWidth?: boolean;
+  disabled?: boolean;
+  sx?: Record<string, any>;
+  refreshKey?: number; // change to reload the profile list
+}
+
+/**
+ * PA API profile picker for any call. The empty value means "the default
+ * profile", so a saved choice keeps following the default when it moves.
+ */
+const PaApiProfileSelect: React.FC<PaApiProfileSelectProps> = ({
+  value,
+  onChange,
+  size,
+  fullWidth,
+  disabled,
+  sx,
+  refreshKey
+}) => {
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiFetch(`${API_BASE}/api/config/paapi/profiles`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        if (cancelled || !json) return;
+        setProfiles(json.profiles || []);
+        setLoaded(true);
+      })
+      .catch(() => {
+        // the default option still works without the list
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const fallback = profiles.find((p) => p.isDefault);
+  // Keep a stored choice selectable until the list shows it is gone.
+  const missing = value && !profiles.some((p) => p.name === value);
+
+  return (
+    <TextField
+      select
+      label="PA API profile"
+      size={size}
+      fullWidth={fullWidth}
+      disabled={disabled}
+      sx={{ minWidth: 220, ...sx }}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      SelectProps={{ displayEmpty: true }}
+      InputLabelProps={{ shrink: true }}
+    >
+      <MenuItem value="">
+        <em>Default{fallback ? ` (${fallback.name} · ${fallback.marketplace})` : ''}</em>
+      </MenuItem>
+      {profiles.map((p) => (
+        <MenuItem key={p.name} value={p.name}>
+          {p.name} · {p.marketplace}
+        </MenuItem>
+      ))}
+      {missing && <MenuItem value={value}>{loaded ? `${value} (deleted)` : value}</MenuItem>}
+    </TextField>
+  );
+};
+
+export default PaApiProfileSelect;
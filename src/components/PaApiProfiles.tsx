@@ -0,0 +1,456 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Switch,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+
+import { apiFetch } from '../utils/api';
+import { hasRole, useAuthStore } from '../store/authStore';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface Marketplace {
+  marketplace: string;
+  country: string;
+  label: string;
+  host: string;
+  region: string;
+}
+
+// Credentials are write-only: the server only reports whether they are set.
+interface PaapiProfile {
+  name: string;
+  isDefault: boolean;
+  marketplace: string;
+  partnerTag: string;
+  region: string | null; // override; null uses the marketplace catalog
+  host: string | null;
+  endpoint: { region: string | null; host: string | null };
+  accessKeySet: boolean;
+  secretKeySet: boolean;
+  updatedAt: string;
+}
+
+interface ProfileForm {
+  name: string;
+  marketplace: string;
+  partnerTag: string;
+  region: string;
+  host: string;
+  accessKey: string;
+  secretKey: string;
+  isDefault: boolean;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  marketplace: 'www.amazon.com',
+  partnerTag: '',
+  region: '',
+  host: '',
+  accessKey: '',
+  secretKey: '',
+  isDefault: false
+};
+
+// Marketplaces outside the catalog need their own region and host.
+const OTHER_MARKETPLACE = '__other__';
+
+/**
+ * Named PA API profiles (marketplace, partner tag and credentials); any
+ * PA API call can pick one, the default profile is used otherwise.
+ * Admins can edit them, everyone else only sees them.
+ */
+const PaApiProfiles: React.FC<{ onChanged?: () => void }> = ({ onChanged }) => {
+  const isAdmin = useAuthStore((s) => hasRole(s.user, 'admin'));
+
+  const [profiles, setProfiles] = useState<PaapiProfile[]>([]);
+  const [marketplaces, setMarketplaces] = useState<Marketplace[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // editing: null while closed, '' when adding a profile, else its name
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [customMarketplace, setCustomMarketplace] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({ open: false, msg: '' });
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const load = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/config/paapi/profiles`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load PA API profiles');
+      setProfiles(json.profiles || []);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load PA API profiles');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    apiFetch(`${API_BASE}/api/paapi/marketplaces`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => json && setMarketplaces(json.marketplaces || []))
+      .catch(() => {
+        // the marketplace can still be typed in
+      });
+  }, []);
+
+  const changed = (msg: string) => {
+    showSnack(msg);
+    load();
+    onChanged?.();
+  };
+
+  const catalogEntry = (marketplace: string) => marketplaces.find((m) => m.marketplace === marketplace);
+
+  const openAdd = () => {
+    setForm({ ...EMPTY_FORM, isDefault: profiles.length === 0 });
+    setCustomMarketplace(false);
+    setFormError(null);
+    setEditing('');
+  };
+
+  const openEdit = (p: PaapiProfile) => {
+    setForm({
+      name: p.name,
+      marketplace: p.marketplace,
+      partnerTag: p.partnerTag,
+      region: p.region || '',
+      host: p.host || '',
+      accessKey: '',
+      secretKey: '',
+      isDefault: p.isDefault
+    });
+    setCustomMarketplace(marketplaces.length > 0 && !catalogEntry(p.marketplace));
+    setFormError(null);
+    setEditing(p.name);
+  };
+
+  const pickMarketplace = (value: string) => {
+    if (value === OTHER_MARKETPLACE) {
+      setCustomMarketplace(true);
+      setForm({ ...form, marketplace: '' });
+      return;
+    }
+    // Catalog marketplaces bring their own host and region.
+    setCustomMarketplace(false);
+    setForm({ ...form, marketplace: value, region: '', host: '' });
+  };
+
+  const save = async () => {
+    const adding = editing === '';
+    setSaving(true);
+    try {
+      const res = await apiFetch(
+        adding
+          ? `${API_BASE}/api/config/paapi/profiles`
+          : `${API_BASE}/api/config/paapi/profiles/${encodeURIComponent(editing || '')}`,
+        {
+          method: adding ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          // Empty credential fields keep the stored values
+          body: JSON.stringify(adding ? form : { ...form, name: undefined })
+        }
+      );
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to save profile');
+      setEditing(null);
+      changed(`Profile ${json.name} saved`);
+    } catch (e: any) {
+      setFormError(e?.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const makeDefault = async (p: PaapiProfile) => {
+    const res = await apiFetch(
+      `${API_BASE}/api/config/paapi/profiles/${encodeURIComponent(p.name)}/default`,
+      { method: 'POST' }
+    );
+    if (res.ok) {
+      changed(`${p.name} is now the default profile`);
+    } else {
+      const json = await res.json().catch(() => null);
+      setError(json?.error || 'Failed to change the default profile');
+    }
+  };
+
+  const remove = async (p: PaapiProfile) => {
+    if (!window.confirm(`Delete PA API profile ${p.name} and its stored credentials?`)) return;
+    const res = await apiFetch(`${API_BASE}/api/config/paapi/profiles/${encodeURIComponent(p.name)}`, {
+      method: 'DELETE'
+    });
+    if (res.ok) {
+      changed(`Profile ${p.name} deleted`);
+    } else {
+      const json = await res.json().catch(() => null);
+      setError(json?.error || 'Failed to delete profile');
+    }
+  };
+
+  const known = catalogEntry(form.marketplace);
+  const adding = editing === '';
+  const editedProfile = profiles.find((p) => p.name === editing);
+
+  return (
+    <Box>
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          title="PA API Profiles"
+          subheader="One profile per marketplace and partner tag; calls use the default profile unless another is picked."
+          action={
+            isAdmin && (
+              <Button variant="contained" startIcon={<AddIcon />} onClick={openAdd}>
+                Add Profile
+              </Button>
+            )
+          }
+        />
+        <Divider />
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {profiles.length === 0 ? (
+            <Typography color="text.secondary">
+              No PA API profile yet{isAdmin ? ': add one with your credentials and partner tag.' : '.'}
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Profile</TableCell>
+                  <TableCell>Marketplace</TableCell>
+                  <TableCell>Partner Tag</TableCell>
+                  <TableCell>Endpoint</TableCell>
+                  <TableCell>Credentials</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {profiles.map((p) => {
+                  const credentialsSet = p.accessKeySet && p.secretKeySet;
+                  return (
+                    <TableRow key={p.name}>
+                      <TableCell>
+                        {p.name}
+                        {p.isDefault && <Chip size="small" color="primary" label="Default" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell>
+                        {p.marketplace}
+                        {catalogEntry(p.marketplace) && (
+                          <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                            {catalogEntry(p.marketplace)?.label}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{p.partnerTag || '—'}</TableCell>
+                      <TableCell>
+                        {p.endpoint.host} · {p.endpoint.region}
+                        {(p.host || p.region) && (
+                          <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                            (custom)
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          color={credentialsSet ? 'success' : 'warning'}
+                          label={credentialsSet ? 'Set' : 'Not configured'}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={p.isDefault ? 'Default profile' : 'Make default'}>
+                          <span>
+                            <IconButton disabled={!isAdmin || p.isDefault} onClick={() => makeDefault(p)}>
+                              {p.isDefault ? <StarIcon color="primary" /> : <StarBorderIcon />}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Edit">
+                          <span>
+                            <IconButton disabled={!isAdmin} onClick={() => openEdit(p)}>
+                              <EditIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <span>
+                            <IconButton color="error" disabled={!isAdmin} onClick={() => remove(p)}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onClose={() => setEditing(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{adding ? 'Add PA API Profile' : `Edit Profile ${editing}`}</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ my: 1 }}>
+              {formError}
+            </Alert>
+          )}
+          <TextField
+            label="Name"
+            fullWidth
+            margin="normal"
+            disabled={!adding}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            helperText={adding ? 'Letters, digits, "-" and "_", e.g. us or uk-blog; cannot be renamed later' : ''}
+          />
+          <TextField
+            select
+            label="Marketplace"
+            fullWidth
+            margin="normal"
+            value={customMarketplace || !known ? OTHER_MARKETPLACE : form.marketplace}
+            onChange={(e) => pickMarketplace(e.target.value)}
+            helperText={known ? `${known.host} · ${known.region}` : ''}
+          >
+            {marketplaces.map((m) => (
+              <MenuItem key={m.marketplace} value={m.marketplace}>
+                {m.label} — {m.marketplace}
+              </MenuItem>
+            ))}
+            <MenuItem value={OTHER_MARKETPLACE}>Other…</MenuItem>
+          </TextField>
+          {(customMarketplace || !known) && (
+            <TextField
+              label="Marketplace domain"
+              fullWidth
+              margin="normal"
+              value={form.marketplace}
+              onChange={(e) => setForm({ ...form, marketplace: e.target.value })}
+              helperText="Not in the catalog: give its region and host below"
+            />
+          )}
+          <TextField
+            label="Partner Tag (Associate Tag)"
+            fullWidth
+            margin="normal"
+            value={form.partnerTag}
+            onChange={(e) => setForm({ ...form, partnerTag: e.target.value })}
+            helperText="Example: selji0c-20"
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Region"
+              fullWidth
+              margin="normal"
+              value={form.region}
+              onChange={(e) => setForm({ ...form, region: e.target.value })}
+              placeholder={known?.region || ''}
+              helperText={known ? 'Leave empty to use the catalog value' : 'Required'}
+            />
+            <TextField
+              label="Host"
+              fullWidth
+              margin="normal"
+              value={form.host}
+              onChange={(e) => setForm({ ...form, host: e.target.value })}
+              placeholder={known?.host || ''}
+              helperText={known ? 'Leave empty to use the catalog value' : 'Required'}
+            />
+          </Box>
+          <TextField
+            label="Access Key"
+            fullWidth
+            margin="normal"
+            autoComplete="off"
+            value={form.accessKey}
+            onChange={(e) => setForm({ ...form, accessKey: e.target.value })}
+            placeholder={editedProfile?.accessKeySet ? 'Stored — leave blank to keep' : ''}
+            helperText={editedProfile?.accessKeySet ? 'Set (stored encrypted)' : 'Not set'}
+          />
+          <TextField
+            label="Secret Key"
+            fullWidth
+            margin="normal"
+            type="password"
+            autoComplete="new-password"
+            value={form.secretKey}
+            onChange={(e) => setForm({ ...form, secretKey: e.target.value })}
+            placeholder={editedProfile?.secretKeySet ? 'Stored — leave blank to keep' : ''}
+            helperText={editedProfile?.secretKeySet ? 'Set (stored encrypted)' : 'Not set'}
+          />
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={
+              <Switch
+                checked={form.isDefault}
+                disabled={!!editedProfile?.isDefault}
+                onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+              />
+            }
+            label="Default profile"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={save}
+            disabled={saving || !form.name.trim() || !form.marketplace.trim() || !form.partnerTag.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+    </Box>
+  );
+};
+
+export default PaApiProfiles;
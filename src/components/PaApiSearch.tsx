@@ -0,0 +1,429 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Checkbox,
+  CircularProgress,
+  Divider,
+  MenuItem,
+  Pagination,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import SearchIcon from '@mui/icons-material/Search';
+import SendIcon from '@mui/icons-material/Send';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+
+import { useWorkflowStore } from '../store/workflowStore';
+import ExportMenu from './ExportMenu';
+import PaApiProfileSelect from './PaApiProfileSelect';
+import { apiFetch } from '../utils/api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface SearchForm {
+  keywords: string;
+  brand: string;
+  browseNodeId: string;
+  searchIndex: string;
+  minPrice: string;
+  maxPrice: string;
+  sortBy: string;
+}
+
+interface SearchResult {
+  items: any[];
+  totalResultCount: number;
+  searchUrl: string | null;
+  page: number;
+  pageCount: number;
+}
+
+const SEARCH_INDEXES = [
+  'All',
+  'Apparel',
+  'Automotive',
+  'Baby',
+  'Beauty',
+  'Books',
+  'Electronics',
+  'GardenAndOutdoor',
+  'HealthPersonalCare',
+  'HomeAndKitchen',
+  'Industrial',
+  'OfficeProducts',
+  'PetSupplies',
+  'SportsAndOutdoors',
+  'ToolsAndHomeImprovement',
+  'ToysAndGames',
+  'VideoGames'
+];
+
+const EMPTY_FORM: SearchForm = {
+  keywords: '',
+  brand: '',
+  browseNodeId: '',
+  searchIndex: 'All',
+  minPrice: '',
+  maxPrice: '',
+  sortBy: ''
+};
+
+// Merge ASINs into a comma separated list without duplicates.
+const mergeAsinList = (existing: string, asins: string[]) => {
+  const current = existing
+    .split(/[\s,]+/)
+    .map((a) => a.trim())
+    .filter(Boolean);
+  return Array.from(new Set([...current, ...asins])).join(', ');
+};
+
+const PaApiSearch: React.FC = () => {
+  const [form, setForm] = useState<SearchForm>(EMPTY_FORM);
+  const [sortOptions, setSortOptions] = useState<string[]>([]);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = useWorkflowStore((s) => s.paapi.profile);
+  const executorAsins = useWorkflowStore((s) => s.paapi.asins);
+  const setPaapiField = useWorkflowStore((s) => s.setPaapiField);
+  const pipelineInput = useWorkflowStore((s) => s.pipelines.input);
+  const setPipelinesField = useWorkflowStore((s) => s.setPipelinesField);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  useEffect(() => {
+    apiFetch(`${API_BASE}/api/paapi/search-options`)
+      .then((res) => (res.ok ? res.json() : { sortBy: [] }))
+      .then((json) => setSortOptions(json.sortBy || []))
+      .catch(() => setSortOptions([]));
+  }, []);
+
+  const setField = (field: keyof SearchForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const canSearch =
+    !loading && !!(form.keywords.trim() || form.brand.trim() || form.browseNodeId.trim());
+
+  const search = async (page: number) => {
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/paapi/search-items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, page, ...(profile ? { profile } : {}) })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        const err = json?.error;
+        throw new Error(
+          typeof err === 'string'
+            ? err
+            : err?.Errors?.[0]?.Message || 'Search failed'
+        );
+      }
+      setResult(json);
+      if (page === 1) setSelected(new Set());
+    } catch (e: any) {
+      setError(e?.message || 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const items = result?.items || [];
+
+  const toggle = (asin: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(asin)) next.delete(asin);
+      else next.add(asin);
+      return next;
+    });
+
+  const allOnPageSelected = items.length > 0 && items.every((it) => selected.has(it.ASIN));
+
+  const togglePage = () =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const it of items) {
+        if (allOnPageSelected) next.delete(it.ASIN);
+        else next.add(it.ASIN);
+      }
+      return next;
+    });
+
+  const selectedAsins = Array.from(selected);
+
+  const sendToExecutor = () => {
+    setPaapiField('asins', mergeAsinList(executorAsins || '', selectedAsins));
+    showSnack(`${selectedAsins.length} ASINs sent to PA API Executor`);
+  };
+
+  const sendToPipelines = () => {
+    setPipelinesField('input', mergeAsinList(pipelineInput || '', selectedAsins));
+    showSnack(`${selectedAsins.length} ASINs sent to Pipelines`);
+  };
+
+  const copySelected = async () => {
+    await navigator.clipboard.writeText(selectedAsins.join(','));
+    showSnack('ASIN list copied');
+  };
+
+  return (
+    <Box>
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          title="PA API Search"
+          subheader="Find products with SearchItems by keyword, brand, browse node and price range."
+        />
+        <Divider />
+        <CardContent>
+          <Box
+            sx={{
+              display: 'grid',
+              gap: 2,
+              gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }
+            }}
+          >
+            <TextField
+              label="Keywords"
+              value={form.keywords}
+              onChange={(e) => setField('keywords', e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && canSearch && search(1)}
+            />
+            <TextField
+              label="Brand"
+              value={form.brand}
+              onChange={(e) => setField('brand', e.target.value)}
+            />
+            <TextField
+              label="Browse Node ID"
+              value={form.browseNodeId}
+              onChange={(e) => setField('browseNodeId', e.target.value)}
+            />
+            <TextField
+              select
+              label="Search Index"
+              value={form.searchIndex}
+              onChange={(e) => setField('searchIndex', e.target.value)}
+            >
+              {SEARCH_INDEXES.map((idx) => (
+                <MenuItem key={idx} value={idx}>
+                  {idx}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label="Min Price"
+                type="number"
+                fullWidth
+                value={form.minPrice}
+                onChange={(e) => setField('minPrice', e.target.value)}
+              />
+              <TextField
+                label="Max Price"
+                type="number"
+                fullWidth
+                value={form.maxPrice}
+                onChange={(e) => setField('maxPrice', e.target.value)}
+              />
+            </Box>
+            <TextField
+              select
+              label="Sort By"
+              value={form.sortBy}
+              onChange={(e) => setField('sortBy', e.target.value)}
+            >
+              <MenuItem value="">Default</MenuItem>
+              {sortOptions.map((opt) => (
+                <MenuItem key={opt} value={opt}>
+                  {opt}
+                </MenuItem>
+              ))}
+            </TextField>
+            <PaApiProfileSelect value={profile} onChange={(value) => setPaapiField('profile', value)} />
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ mt: 2, display: 'flex', gap: 2, alignItems: 'center' }}>
+            <Button
+              variant="contained"
+              startIcon={<SearchIcon />}
+              onClick={() => search(1)}
+              disabled={!canSearch}
+            >
+              Search
+            </Button>
+            <Button variant="text" onClick={() => setForm(EMPTY_FORM)} disabled={loading}>
+              Reset
+            </Button>
+            {loading && <CircularProgress size={24} />}
+          </Box>
+        </CardContent>
+      </Card>
+
+      <Card elevation={3}>
+        <CardHeader
+          title="Results"
+          subheader={
+            result
+              ? `${result.totalResultCount} results · ${selected.size} selected`
+              : 'Run a search to see matching products.'
+          }
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                size="small"
+                startIcon={<SendIcon />}
+                onClick={sendToExecutor}
+                disabled={!selected.size}
+              >
+                To PA API Executor
+              </Button>
+              <Button
+                size="small"
+                startIcon={<SendIcon />}
+                onClick={sendToPipelines}
+                disabled={!selected.size}
+              >
+                To Pipelines
+              </Button>
+              <Button
+                size="small"
+                startIcon={<ContentCopyIcon />}
+                onClick={copySelected}
+                disabled={!selected.size}
+              >
+                Copy
+              </Button>
+              <ExportMenu
+                dataset="items"
+                rows={items}
+                formats={['csv', 'xlsx-csv', 'json', 'asin-txt']}
+                filename="search-results"
+                onError={setError}
+              />
+            </Box>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {result && items.length === 0 && (
+            <Typography color="text.secondary">No products matched this search.</Typography>
+          )}
+
+          {items.length > 0 && (
+            <>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={allOnPageSelected} onChange={togglePage} />
+                    </TableCell>
+                    <TableCell />
+                    <TableCell>ASIN</TableCell>
+                    <TableCell>Title</TableCell>
+                    <TableCell>Brand</TableCell>
+                    <TableCell align="right">Price</TableCell>
+                    <TableCell align="right">Rating</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {items.map((it) => (
+                    <TableRow
+                      key={it.ASIN}
+                      hover
+                      selected={selected.has(it.ASIN)}
+                      onClick={() => toggle(it.ASIN)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell padding="checkbox">
+                        <Checkbox checked={selected.has(it.ASIN)} />
+                      </TableCell>
+                      <TableCell>
+                        {it.Images?.Primary?.Small?.URL && (
+                          <img
+                            src={it.Images.Primary.Small.URL}
+                            alt=""
+                            style={{ width: 40, height: 40, objectFit: 'contain' }}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{it.ASIN}</TableCell>
+                      <TableCell>
+                        <a
+                          href={it.DetailPageURL}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {it.ItemInfo?.Title?.DisplayValue || '—'}
+                        </a>
+                      </TableCell>
+                      <TableCell>{it.ItemInfo?.ByLineInfo?.Brand?.DisplayValue || '—'}</TableCell>
+                      <TableCell align="right">
+                        {it.Offers?.Listings?.[0]?.Price?.DisplayAmount || '—'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {it.CustomerReviews?.StarRating?.Value ?? '—'}
+                        {it.CustomerReviews?.Count ? ` (${it.CustomerReviews.Count})` : ''}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {result && result.pageCount > 1 && (
+                <Box sx={{ mt: 2, display: 'flex', justifyContent: 'center' }}>
+                  <Pagination
+                    count={result.pageCount}
+                    page={result.page}
+                    onChange={(_e, page) => search(page)}
+                    disabled={loading}
+                  />
+                </Box>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2500}
+        onClose={closeSnack}
+        message={snack.msg}
+      />
+    </Box>
+  );
+};
+
+export default PaApiSearch;
@@ -20,11 +20,15 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 
+import { apiFetch } from '../utils/api';
+import PaApiProfileSelect from './PaApiProfileSelect';
+
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
 
 const PaApiTestPanel: React.FC = () => {
   const [asin, setAsin] = useState('');
+  const [profile, setProfile] = useState('');
   const [expanded, setExpanded] = useState(true);
   const [loading, setLoading] = useState(false);
 
@@ -61,10 +65,10 @@ const PaApiTestPanel: React.FC = () => {
     const start = performance.now();
 
     try {
-      const res = await fetch(`${API_BASE}/api/paapi/get-items`, {
+      const res = await apiFetch(`${API_BASE}/api/paapi/get-items`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ asins: [asin.trim()] })
+        body: JSON.stringify({ asins: [asin.trim()], ...(profile ? { profile } : {}) })
       });
 
       const json = await res.json().catch(() => null);
@@ -80,6 +84,7 @@ const PaApiTestPanel: React.FC = () => {
       const items = Array.isArray(json.items) ? json.items : [];
       setResponse({
         asin,
+        profile: json.profile,
         itemCount: items.length,
         durationMs: Math.round(duration),
         item: items[0] || null
@@ -108,7 +113,7 @@ const PaApiTestPanel: React.FC = () => {
       <Card elevation={3} sx={{ mb: 3 }}>
         <CardHeader
           title="PA API Live Tester"
-          subheader="Test a single ASIN using your backend-connected PA API."
+          subheader="Test a single ASIN against the PA API with any stored profile."
         />
         <CardContent>
           <TextField
@@ -119,6 +124,7 @@ const PaApiTestPanel: React.FC = () => {
             margin="normal"
             autoComplete="off"
           />
+          <PaApiProfileSelect value={profile} onChange={setProfile} fullWidth sx={{ mt: 1 }} />
 
           {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
 
@@ -162,6 +168,9 @@ const PaApiTestPanel: React.FC = () => {
                 <Typography variant="body2">
                   ASIN: <strong>{response.asin}</strong>
                 </Typography>
+                <Typography variant="body2">
+                  Profile: <strong>{response.profile}</strong>
+                </Typography>
                 <Typography variant="body2">
                   Items Returned: <strong>{response.itemCount}</strong>
                 </Typography>
@@ -0,0 +1,610 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DownloadIcon from '@mui/icons-material/Download';
+
+import { useWorkflowStore } from '../store/workflowStore';
+import { saveFile } from '../utils/export';
+import { apiFetch } from '../utils/api';
+import { useJobStream, cancelJob, isJobFinished } from '../hooks/useJobStream';
+import PaApiProfileSelect from './PaApiProfileSelect';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface PipelineStep {
+  type: string;
+  options: Record<string, any>;
+}
+
+interface Pipeline {
+  id: number;
+  name: string;
+  description: string;
+  steps: PipelineStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface StepType {
+  type: string;
+  label: string;
+}
+
+interface StepResult {
+  index: number;
+  type: string;
+  status: 'succeeded' | 'failed';
+  summary?: string;
+  error?: string;
+  durationMs: number;
+}
+
+interface PipelineRun {
+  id: number;
+  pipeline_id: number;
+  status: string;
+  output: {
+    asins?: string[];
+    items?: any[];
+    export?: { format: string; contentType: string; filename?: string; content: string };
+  } | null;
+  steps: StepResult[];
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+const EXPORT_FORMATS = ['json', 'csv', 'xlsx-csv', 'asin-txt', 'aaid-txt', 'asin-list'];
+
+const DEFAULT_STEPS: PipelineStep[] = [
+  { type: 'expand-urls', options: {} },
+  { type: 'extract-asins', options: {} },
+  { type: 'paapi-get-items', options: {} },
+  { type: 'export', options: { format: 'csv' } }
+];
+
+const PipelineRunner: React.FC = () => {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [stepTypes, setStepTypes] = useState<StepType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editor dialog
+  const [editOpen, setEditOpen] = useState(false);
+  const [editId, setEditId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editSteps, setEditSteps] = useState<PipelineStep[]>([]);
+
+  // Run panel
+  const [selected, setSelected] = useState<Pipeline | null>(null);
+  const runInput = useWorkflowStore((s) => s.pipelines.input);
+  const setPipelinesField = useWorkflowStore((s) => s.setPipelinesField);
+  const setRunInput = (value: string) => setPipelinesField('input', value);
+  const jobId = useWorkflowStore((s) => s.pipelines.jobId);
+  const [run, setRun] = useState<PipelineRun | null>(null);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string; severity: 'success' | 'error' | 'info' }>({
+    open: false,
+    msg: '',
+    severity: 'success'
+  });
+
+  const show = (msg: string, severity: 'success' | 'error' | 'info' = 'success') =>
+    setSnack({ open: true, msg, severity });
+
+  const closeSnack = () => setSnack({ ...snack, open: false });
+
+  const labelFor = (type: string) => stepTypes.find((t) => t.type === type)?.label || type;
+
+  const loadPipelines = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/pipelines`);
+      if (!res.ok) throw new Error('Failed to load pipelines');
+      const json: Pipeline[] = await res.json();
+      setPipelines(json);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load pipelines');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPipelines();
+    apiFetch(`${API_BASE}/api/pipelines/steps`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((json: StepType[]) => setStepTypes(json))
+      .catch(() => setStepTypes([]));
+  }, []);
+
+  const openNew = () => {
+    setEditId(null);
+    setEditName('');
+    setEditDescription('');
+    setEditSteps(DEFAULT_STEPS);
+    setEditOpen(true);
+  };
+
+  const openEdit = (p: Pipeline) => {
+    setEditId(p.id);
+    setEditName(p.name);
+    setEditDescription(p.description);
+    setEditSteps(p.steps);
+    setEditOpen(true);
+  };
+
+  const updateStep = (index: number, step: PipelineStep) =>
+    setEditSteps((prev) => prev.map((s, i) => (i === index ? step : s)));
+
+  const moveStep = (index: number, delta: number) =>
+    setEditSteps((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const removeStep = (index: number) =>
+    setEditSteps((prev) => prev.filter((_, i) => i !== index));
+
+  const addStep = () =>
+    setEditSteps((prev) => [...prev, { type: stepTypes[0]?.type || 'extract-asins', options: {} }]);
+
+  const savePipeline = async () => {
+    if (!editName.trim() || !editSteps.length) {
+      show('A name and at least one step are required', 'error');
+      return;
+    }
+
+    try {
+      const res = await apiFetch(
+        editId ? `${API_BASE}/api/pipelines/${editId}` : `${API_BASE}/api/pipelines`,
+        {
+          method: editId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: editName,
+            description: editDescription,
+            steps: editSteps
+          })
+        }
+      );
+      const j = await res.json().catch(() => null as any);
+      if (!res.ok) throw new Error(j?.error || 'Failed to save pipeline');
+      setEditOpen(false);
+      show('Pipeline saved');
+      loadPipelines();
+    } catch (e: any) {
+      show(e.message || 'Failed to save pipeline', 'error');
+    }
+  };
+
+  const deletePipeline = async (p: Pipeline) => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/pipelines/${p.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete');
+      if (selected?.id === p.id) {
+        setSelected(null);
+        setRun(null);
+      }
+      show('Pipeline deleted');
+      loadPipelines();
+    } catch (e: any) {
+      show(e.message || 'Delete failed', 'error');
+    }
+  };
+
+  // Runs are background jobs; the finished run is read by the id the job
+  // reports, also when the job failed.
+  const { job } = useJobStream<{ runId: number }>(jobId, async (update) => {
+    if (!isJobFinished(update)) return;
+    setPipelinesField('jobId', null);
+    if (update.result?.runId) {
+      try {
+        const res = await apiFetch(`${API_BASE}/api/pipeline-runs/${update.result.runId}`);
+        if (res.ok) setRun(await res.json());
+      } catch {
+        // the message below still reports the outcome
+      }
+    }
+    if (update.status === 'succeeded') show('Pipeline finished');
+    else if (update.status === 'cancelled') show('Pipeline cancelled', 'info');
+    else show(update.error || 'Pipeline failed', 'error');
+  });
+  const running = !!jobId;
+
+  // After a reload, show the pipeline whose run is still in progress.
+  useEffect(() => {
+    const pipelineId = job?.input?.pipelineId;
+    if (pipelineId && !selected) {
+      setSelected(pipelines.find((p) => p.id === pipelineId) || null);
+    }
+  }, [job, pipelines]);
+
+  const runPipeline = async () => {
+    if (!selected) return;
+    setRun(null);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/pipelines/${selected.id}/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: { text: runInput } })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Pipeline run failed');
+      setPipelinesField('jobId', json.jobId);
+    } catch (e: any) {
+      show(e.message || 'Pipeline run failed', 'error');
+    }
+  };
+
+  const copyExport = async () => {
+    const content = run?.output?.export?.content;
+    if (!content) return;
+    await navigator.clipboard.writeText(content);
+    show('Export copied');
+  };
+
+  const downloadRunExport = () => {
+    const exp = run?.output?.export;
+    if (!exp?.content) return;
+    const ext = exp.format === 'json' ? 'json' : 'txt';
+    saveFile(exp.filename || `${selected?.name || 'pipeline'}-export.${ext}`, exp.content, exp.contentType);
+  };
+
+  return (
+    <Box>
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          title="Workflow Pipelines"
+          subheader="Chain expander, extractor, PA API and export steps; each step feeds the next."
+          action={
+            <Button variant="contained" startIcon={<AddIcon />} onClick={openNew}>
+              New Pipeline
+            </Button>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {error && <Alert severity="error">{error}</Alert>}
+          {loading && <Typography>Loading…</Typography>}
+          {!loading && pipelines.length === 0 && (
+            <Typography color="text.secondary">No pipelines defined yet.</Typography>
+          )}
+          {!loading && pipelines.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Steps</TableCell>
+                  <TableCell>Updated</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {pipelines.map((p) => (
+                  <TableRow key={p.id} selected={selected?.id === p.id}>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                        {p.name}
+                      </Typography>
+                      {p.description && (
+                        <Typography variant="caption" color="text.secondary">
+                          {p.description}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {p.steps.map((s, i) => (
+                          <Chip key={i} size="small" label={`${i + 1}. ${labelFor(s.type)}`} />
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{p.updated_at}</TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        onClick={() => {
+                          setSelected(p);
+                          setRun(null);
+                        }}
+                        aria-label="Select pipeline to run"
+                      >
+                        <PlayArrowIcon color="primary" />
+                      </IconButton>
+                      <IconButton onClick={() => openEdit(p)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton onClick={() => deletePipeline(p)}>
+                        <DeleteIcon color="error" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card elevation={3}>
+          <CardHeader
+            title={`Run: ${selected.name}`}
+            subheader="Paste short URLs, product URLs or ASINs as pipeline input."
+          />
+          <Divider />
+          <CardContent>
+            <TextField
+              label="Pipeline input"
+              multiline
+              minRows={5}
+              fullWidth
+              value={runInput}
+              onChange={(e) => setRunInput(e.target.value)}
+            />
+
+            <Box sx={{ mt: 2, display: 'flex', gap: 2, alignItems: 'center' }}>
+              <Button
+                variant="contained"
+                startIcon={<PlayArrowIcon />}
+                onClick={runPipeline}
+                disabled={running || !runInput.trim()}
+              >
+                Run Pipeline
+              </Button>
+              {running && (
+                <>
+                  <Box sx={{ flexGrow: 1 }}>
+                    <LinearProgress
+                      variant={job?.progress.total ? 'determinate' : 'indeterminate'}
+                      value={job?.progress.total ? (job.progress.done / job.progress.total) * 100 : 0}
+                    />
+                  </Box>
+                  {job?.progress.total ? (
+                    <Typography variant="caption" color="text.secondary">
+                      Step {Math.min(job.progress.done + 1, job.progress.total)} of {job.progress.total}
+                    </Typography>
+                  ) : null}
+                  <Button size="small" onClick={() => jobId && cancelJob(jobId)}>
+                    Cancel
+                  </Button>
+                </>
+              )}
+            </Box>
+
+            {run && (
+              <Box sx={{ mt: 3, display: 'grid', gap: 1.5 }}>
+                {run.error && <Alert severity="error">{run.error}</Alert>}
+
+                {run.steps.map((s) => (
+                  <Box
+                    key={s.index}
+                    sx={{
+                      p: 1.5,
+                      borderRadius: 1,
+                      border: '1px solid rgba(0,0,0,0.08)',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 1.5
+                    }}
+                  >
+                    <Chip
+                      size="small"
+                      label={s.status}
+                      color={s.status === 'succeeded' ? 'success' : 'error'}
+                    />
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                      {s.index + 1}. {labelFor(s.type)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                      {s.summary || s.error}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {s.durationMs} ms
+                    </Typography>
+                  </Box>
+                ))}
+
+                {run.output?.asins && run.output.asins.length > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    ASINs: <strong>{run.output.asins.join(', ')}</strong>
+                  </Typography>
+                )}
+
+                {run.output?.export && (
+                  <>
+                    <Typography
+                      variant="subtitle2"
+                      sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1 }}
+                    >
+                      Export ({run.output.export.format})
+                      <IconButton size="small" onClick={copyExport}>
+                        <ContentCopyIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={downloadRunExport} aria-label="Download export">
+                        <DownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Typography>
+                    <Box
+                      component="pre"
+                      sx={{
+                        backgroundColor: '#f5f5f5',
+                        p: 2,
+                        borderRadius: 1,
+                        maxHeight: 400,
+                        overflow: 'auto',
+                        fontFamily: 'monospace',
+                        fontSize: 13
+                      }}
+                    >
+                      {run.output.export.content}
+                    </Box>
+                  </>
+                )}
+              </Box>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Edit dialog */}
+      <Dialog open={editOpen} onClose={() => setEditOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editId ? 'Edit Pipeline' : 'New Pipeline'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Name"
+            fullWidth
+            margin="normal"
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+          />
+          <TextField
+            label="Description"
+            fullWidth
+            margin="normal"
+            value={editDescription}
+            onChange={(e) => setEditDescription(e.target.value)}
+          />
+
+          <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+            Steps
+          </Typography>
+          <Box sx={{ display: 'grid', gap: 1.5 }}>
+            {editSteps.map((step, i) => (
+              <Box key={i} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <Typography variant="body2" sx={{ width: 24 }}>
+                  {i + 1}.
+                </Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="Step"
+                  value={step.type}
+                  onChange={(e) => updateStep(i, { type: e.target.value, options: {} })}
+                  sx={{ minWidth: 220 }}
+                >
+                  {stepTypes.map((t) => (
+                    <MenuItem key={t.type} value={t.type}>
+                      {t.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                {step.type === 'export' && (
+                  <TextField
+                    select
+                    size="small"
+                    label="Format"
+                    value={step.options.format || 'json'}
+                    onChange={(e) =>
+                      updateStep(i, { ...step, options: { ...step.options, format: e.target.value } })
+                    }
+                    sx={{ minWidth: 140 }}
+                  >
+                    {EXPORT_FORMATS.map((f) => (
+                      <MenuItem key={f} value={f}>
+                        {f}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                {step.type === 'dedupe-variations' && (
+                  <TextField
+                    select
+                    size="small"
+                    label="Keep per family"
+                    value={step.options.prefer || 'first'}
+                    onChange={(e) =>
+                      updateStep(i, { ...step, options: { ...step.options, prefer: e.target.value } })
+                    }
+                    sx={{ minWidth: 180 }}
+                  >
+                    <MenuItem value="first">First listed ASIN</MenuItem>
+                    <MenuItem value="parent">Parent ASIN</MenuItem>
+                  </TextField>
+                )}
+                {(step.type === 'paapi-get-items' || step.type === 'dedupe-variations') && (
+                  <PaApiProfileSelect
+                    size="small"
+                    value={step.options.profile || ''}
+                    onChange={(value) => {
+                      const { profile, ...options } = step.options;
+                      updateStep(i, { ...step, options: value ? { ...options, profile: value } : options });
+                    }}
+                  />
+                )}
+                <Box sx={{ flexGrow: 1 }} />
+                <IconButton size="small" onClick={() => moveStep(i, -1)} disabled={i === 0}>
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  onClick={() => moveStep(i, 1)}
+                  disabled={i === editSteps.length - 1}
+                >
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => removeStep(i)}>
+                  <DeleteIcon fontSize="small" color="error" />
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+          <Button startIcon={<AddIcon />} onClick={addStep} sx={{ mt: 1.5 }}>
+            Add Step
+          </Button>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={savePipeline}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2500}
+        onClose={closeSnack}
+        message={snack.msg}
+      />
+    </Box>
+  );
+};
+
+export default PipelineRunner;
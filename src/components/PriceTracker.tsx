@@ -0,0 +1,458 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Snackbar,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import ShowChartIcon from '@mui/icons-material/ShowChart';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import { useJobStream, submitJob, isJobFinished } from '../hooks/useJobStream';
+import { apiFetch } from '../utils/api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface PriceSnapshot {
+  amount: number | null;
+  currency: string | null;
+  displayAmount: string | null;
+  availabilityType: string | null;
+  availabilityMessage: string | null;
+  fetchedAt: string;
+}
+
+interface TrackedAsin {
+  id: number;
+  asin: string;
+  marketplace: string;
+  label: string | null;
+  inContent: boolean;
+  active: boolean;
+  createdAt: string;
+  last: PriceSnapshot | null;
+  previousAmount: number | null;
+  flags: { priceDrop: boolean; dropPercent: number; outOfStock: boolean };
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const CHART_PAD = 40;
+
+/**
+ * Minimal SVG line chart of price over time. Snapshots without a price
+ * (no offer) are drawn as red markers on the baseline.
+ */
+const PriceChart: React.FC<{ history: PriceSnapshot[] }> = ({ history }) => {
+  const priced = history.filter((h) => h.amount != null);
+  if (history.length < 2 || !priced.length) {
+    return (
+      <Typography color="text.secondary">
+        Not enough price history yet. Snapshots are added on every refresh.
+      </Typography>
+    );
+  }
+
+  const times = history.map((h) => Date.parse(h.fetchedAt));
+  const t0 = Math.min(...times);
+  const t1 = Math.max(...times);
+  const amounts = priced.map((h) => h.amount as number);
+  const lo = Math.min(...amounts);
+  const hi = Math.max(...amounts);
+  const span = hi - lo || 1;
+
+  const x = (t: number) =>
+    CHART_PAD + ((t - t0) / (t1 - t0 || 1)) * (CHART_WIDTH - 2 * CHART_PAD);
+  const y = (a: number) =>
+    CHART_HEIGHT - CHART_PAD - ((a - lo) / span) * (CHART_HEIGHT - 2 * CHART_PAD);
+
+  const path = priced
+    .map((h, i) => `${i ? 'L' : 'M'}${x(Date.parse(h.fetchedAt))},${y(h.amount as number)}`)
+    .join(' ');
+  const currency = priced[0].currency || '';
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      style={{ width: '100%', maxWidth: CHART_WIDTH, display: 'block' }}
+    >
+      <line
+        x1={CHART_PAD}
+        y1={CHART_HEIGHT - CHART_PAD}
+        x2={CHART_WIDTH - CHART_PAD}
+        y2={CHART_HEIGHT - CHART_PAD}
+        stroke="#bbb"
+      />
+      <text x={4} y={y(hi) + 4} fontSize={11} fill="#666">
+        {hi.toFixed(2)}
+      </text>
+      <text x={4} y={y(lo) + 4} fontSize={11} fill="#666">
+        {lo.toFixed(2)}
+      </text>
+      <text x={CHART_PAD} y={CHART_HEIGHT - 12} fontSize={11} fill="#666">
+        {new Date(t0).toLocaleDateString()}
+      </text>
+      <text x={CHART_WIDTH - CHART_PAD} y={CHART_HEIGHT - 12} fontSize={11} fill="#666" textAnchor="end">
+        {new Date(t1).toLocaleDateString()} · {currency}
+      </text>
+      <path d={path} fill="none" stroke="#1976d2" strokeWidth={2} />
+      {history.map((h, i) =>
+        h.amount != null ? (
+          <circle key={i} cx={x(Date.parse(h.fetchedAt))} cy={y(h.amount)} r={3} fill="#1976d2">
+            <title>
+              {`${h.displayAmount || h.amount} · ${h.availabilityMessage || h.availabilityType || ''} · ${new Date(
+                h.fetchedAt
+              ).toLocaleString()}`}
+            </title>
+          </circle>
+        ) : (
+          <circle
+            key={i}
+            cx={x(Date.parse(h.fetchedAt))}
+            cy={CHART_HEIGHT - CHART_PAD}
+            r={4}
+            fill="#d32f2f"
+          >
+            <title>{`No offer · ${new Date(h.fetchedAt).toLocaleString()}`}</title>
+          </circle>
+        )
+      )}
+    </svg>
+  );
+};
+
+const PriceTracker: React.FC = () => {
+  const [tracked, setTracked] = useState<TrackedAsin[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [asinInput, setAsinInput] = useState('');
+  const [label, setLabel] = useState('');
+  const [inContent, setInContent] = useState(true);
+
+  const [selected, setSelected] = useState<TrackedAsin | null>(null);
+  const [history, setHistory] = useState<PriceSnapshot[]>([]);
+  const [days, setDays] = useState(90);
+
+  const [refreshJobId, setRefreshJobId] = useState<number | null>(null);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/tracking`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load tracked ASINs');
+      setTracked(json.tracked || []);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load tracked ASINs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!selected) return;
+    apiFetch(`${API_BASE}/api/tracking/${selected.id}/history?days=${days}`)
+      .then((res) => (res.ok ? res.json() : { history: [] }))
+      .then((json) => setHistory(json.history || []))
+      .catch(() => setHistory([]));
+  }, [selected, days]);
+
+  const { job: refreshJob } = useJobStream(refreshJobId, (update) => {
+    if (!isJobFinished(update)) return;
+    setRefreshJobId(null);
+    if (update.status === 'succeeded') {
+      showSnack(`Refreshed ${update.result?.returned ?? 0}/${update.result?.checked ?? 0} ASINs`);
+    } else {
+      setError(update.error || 'Price refresh failed');
+    }
+    load();
+  });
+
+  const asinList = asinInput
+    .split(/[\s,]+/)
+    .map((a) => a.trim().toUpperCase())
+    .filter(Boolean);
+
+  const addAsins = async () => {
+    setError(null);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/tracking`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asins: asinList, label, inContent })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to add ASINs');
+      showSnack(`${json.added} ASINs added${json.skipped ? `, ${json.skipped} already tracked` : ''}`);
+      setAsinInput('');
+      setLabel('');
+      load();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to add ASINs');
+    }
+  };
+
+  const update = async (t: TrackedAsin, fields: Partial<Pick<TrackedAsin, 'inContent' | 'active'>>) => {
+    const res = await apiFetch(`${API_BASE}/api/tracking/${t.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields)
+    });
+    if (!res.ok) setError('Failed to update tracked ASIN');
+    load();
+  };
+
+  const remove = async (t: TrackedAsin) => {
+    if (!window.confirm(`Stop tracking ${t.asin}? Its price history is kept.`)) return;
+    await apiFetch(`${API_BASE}/api/tracking/${t.id}`, { method: 'DELETE' });
+    if (selected?.id === t.id) setSelected(null);
+    load();
+  };
+
+  const refreshNow = async () => {
+    setError(null);
+    try {
+      setRefreshJobId(await submitJob('refresh-prices', {}));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to start refresh');
+    }
+  };
+
+  // Flags only matter for ASINs that appear in SELJI content.
+  const alerts = tracked.filter(
+    (t) => t.inContent && t.active && (t.flags.priceDrop || t.flags.outOfStock)
+  );
+
+  const refreshing = !!refreshJobId && !isJobFinished(refreshJob);
+  const progress = refreshJob?.progress;
+
+  return (
+    <Box>
+      {alerts.length > 0 && (
+        <Card elevation={3} sx={{ mb: 3 }}>
+          <CardHeader
+            title="Content Alerts"
+            subheader="Tracked ASINs used in SELJI content whose latest snapshot dropped in price or went out of stock."
+          />
+          <Divider />
+          <CardContent>
+            {alerts.map((t) => (
+              <Alert
+                key={t.id}
+                severity={t.flags.outOfStock ? 'error' : 'warning'}
+                sx={{ mb: 1, cursor: 'pointer' }}
+                onClick={() => setSelected(t)}
+              >
+                <strong>{t.asin}</strong>
+                {t.label ? ` (${t.label})` : ''}:{' '}
+                {t.flags.outOfStock
+                  ? t.last?.availabilityMessage || 'out of stock'
+                  : `price dropped ${t.flags.dropPercent}% to ${t.last?.displayAmount}`}
+              </Alert>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          avatar={<ShowChartIcon color="primary" />}
+          title="Price Tracking"
+          subheader="Tracked ASINs are refreshed on a timer (settings: tracking/intervalMinutes) and on every GetItems call."
+          action={
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <Button
+                size="small"
+                startIcon={<RefreshIcon />}
+                onClick={refreshNow}
+                disabled={refreshing || !tracked.length}
+              >
+                Refresh Now
+              </Button>
+              {loading && <CircularProgress size={20} />}
+            </Box>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {refreshing && (
+            <Box sx={{ mb: 2 }}>
+              <LinearProgress
+                variant={progress?.total ? 'determinate' : 'indeterminate'}
+                value={progress?.total ? (progress.done / progress.total) * 100 : 0}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Refreshing prices{progress?.total ? ` (${progress.done}/${progress.total} batches)` : ''}
+              </Typography>
+            </Box>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              label="ASINs to track"
+              placeholder="B001JZ5PZA, B07XJ8C8F7"
+              value={asinInput}
+              onChange={(e) => setAsinInput(e.target.value)}
+              sx={{ flex: 2, minWidth: 260 }}
+            />
+            <TextField
+              size="small"
+              label="Label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              sx={{ flex: 1, minWidth: 160 }}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={inContent} onChange={(e) => setInContent(e.target.checked)} />}
+              label="Used in SELJI content"
+            />
+            <Button variant="contained" onClick={addAsins} disabled={!asinList.length}>
+              Track
+            </Button>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Table size="small" sx={{ mt: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>ASIN</TableCell>
+                <TableCell>Label</TableCell>
+                <TableCell align="right">Price</TableCell>
+                <TableCell>Availability</TableCell>
+                <TableCell>Flags</TableCell>
+                <TableCell>In Content</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell>Last Checked</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {tracked.map((t) => (
+                <TableRow
+                  key={t.id}
+                  hover
+                  selected={selected?.id === t.id}
+                  onClick={() => setSelected(t)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{t.asin}</TableCell>
+                  <TableCell>{t.label || '—'}</TableCell>
+                  <TableCell align="right">{t.last?.displayAmount || '—'}</TableCell>
+                  <TableCell>{t.last?.availabilityMessage || t.last?.availabilityType || '—'}</TableCell>
+                  <TableCell>
+                    {t.flags.priceDrop && (
+                      <Chip size="small" color="warning" label={`-${t.flags.dropPercent}%`} sx={{ mr: 0.5 }} />
+                    )}
+                    {t.flags.outOfStock && <Chip size="small" color="error" label="out of stock" />}
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      size="small"
+                      checked={t.inContent}
+                      onChange={(e) => update(t, { inContent: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Switch
+                      size="small"
+                      checked={t.active}
+                      onChange={(e) => update(t, { active: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {t.last ? new Date(t.last.fetchedAt).toLocaleString() : 'never'}
+                  </TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <IconButton size="small" onClick={() => remove(t)} aria-label={`Stop tracking ${t.asin}`}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!loading && tracked.length === 0 && (
+            <Typography color="text.secondary" sx={{ mt: 2 }}>
+              No ASINs are tracked yet.
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card elevation={3}>
+          <CardHeader
+            title={`Price History · ${selected.asin}`}
+            subheader={selected.label || selected.marketplace}
+            action={
+              <TextField
+                select
+                size="small"
+                label="Range"
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                sx={{ minWidth: 140 }}
+              >
+                <MenuItem value={7}>7 days</MenuItem>
+                <MenuItem value={30}>30 days</MenuItem>
+                <MenuItem value={90}>90 days</MenuItem>
+                <MenuItem value={365}>1 year</MenuItem>
+              </TextField>
+            }
+          />
+          <Divider />
+          <CardContent>
+            <PriceChart history={history} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+    </Box>
+  );
+};
+
+export default PriceTracker;
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CircularProgress,
+  Divider,
+  IconButton,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import Inventory2Icon from '@mui/icons-material/Inventory2';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import { apiFetch } from '../utils/api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface ProductSummary {
+  asin: string;
+  marketplace: string;
+  title: string | null;
+  brand: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  fetchedAt: string;
+  updatedAt: string;
+}
+
+interface ProductDetail extends ProductSummary {
+  features: string[];
+  createdAt: string;
+  raw: any;
+}
+
+type SortKey = 'asin' | 'title' | 'brand' | 'rating' | 'reviews' | 'fetched_at';
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' }[] = [
+  { key: 'asin', label: 'ASIN' },
+  { key: 'title', label: 'Title' },
+  { key: 'brand', label: 'Brand' },
+  { key: 'rating', label: 'Rating', align: 'right' },
+  { key: 'reviews', label: 'Reviews', align: 'right' },
+  { key: 'fetched_at', label: 'Last Fetched' }
+];
+
+const ProductCatalog: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<SortKey>('fetched_at');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [detail, setDetail] = useState<ProductDetail | null>(null);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        q: search,
+        sort,
+        order,
+        limit: String(rowsPerPage),
+        offset: String(page * rowsPerPage)
+      });
+      const res = await apiFetch(`${API_BASE}/api/products?${params}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load catalog');
+      setProducts(json.products || []);
+      setTotal(json.total || 0);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load catalog');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [search, sort, order, page, rowsPerPage]);
+
+  const applySearch = () => {
+    setPage(0);
+    setSearch(query.trim());
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (sort === key) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(key);
+      setOrder(key === 'rating' || key === 'reviews' || key === 'fetched_at' ? 'desc' : 'asc');
+    }
+    setPage(0);
+  };
+
+  const openDetail = async (p: ProductSummary) => {
+    setError(null);
+    try {
+      const res = await apiFetch(
+        `${API_BASE}/api/products/${p.asin}?marketplace=${encodeURIComponent(p.marketplace)}`
+      );
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load product');
+      setDetail(json);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load product');
+    }
+  };
+
+  const removeProduct = async (p: ProductSummary) => {
+    if (!window.confirm(`Remove ${p.asin} from the catalog?`)) return;
+    const res = await apiFetch(
+      `${API_BASE}/api/products/${p.asin}?marketplace=${encodeURIComponent(p.marketplace)}`,
+      { method: 'DELETE' }
+    );
+    if (res.ok) {
+      showSnack(`${p.asin} removed`);
+      setDetail(null);
+      load();
+    } else {
+      setError('Failed to remove product');
+    }
+  };
+
+  if (detail) {
+    const image = detail.raw?.Images?.Primary?.Large?.URL || detail.raw?.Images?.Primary?.Medium?.URL;
+    return (
+      <Box>
+        <Card elevation={3} sx={{ mb: 3 }}>
+          <CardHeader
+            avatar={
+              <IconButton onClick={() => setDetail(null)} aria-label="Back to catalog">
+                <ArrowBackIcon />
+              </IconButton>
+            }
+            title={detail.title || detail.asin}
+            subheader={`${detail.asin} · ${detail.marketplace} · fetched ${new Date(
+              detail.fetchedAt
+            ).toLocaleString()}`}
+            action={
+              <Button color="error" startIcon={<DeleteIcon />} onClick={() => removeProduct(detail)}>
+                Remove
+              </Button>
+            }
+          />
+          <Divider />
+          <CardContent>
+            <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start' }}>
+              {image && (
+                <img src={image} alt="" style={{ width: 160, height: 160, objectFit: 'contain' }} />
+              )}
+              <Box>
+                <Typography>
+                  <strong>Brand:</strong> {detail.brand || '—'}
+                </Typography>
+                <Typography>
+                  <strong>Rating:</strong> {detail.rating ?? '—'}
+                  {detail.reviewCount ? ` (${detail.reviewCount} reviews)` : ''}
+                </Typography>
+                <Typography>
+                  <strong>First seen:</strong> {new Date(detail.createdAt).toLocaleString()}
+                </Typography>
+                {detail.raw?.DetailPageURL && (
+                  <Typography>
+                    <a href={detail.raw.DetailPageURL} target="_blank" rel="noreferrer">
+                      Amazon detail page
+                    </a>
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+
+            {detail.features.length > 0 && (
+              <>
+                <Typography variant="subtitle1" sx={{ mt: 3 }}>
+                  Features
+                </Typography>
+                <Box component="ul" sx={{ mt: 1 }}>
+                  {detail.features.map((f, i) => (
+                    <li key={i}>
+                      <Typography variant="body2">{f}</Typography>
+                    </li>
+                  ))}
+                </Box>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card elevation={3}>
+          <CardHeader title="Raw PA API Item" />
+          <Divider />
+          <CardContent>
+            <Box
+              component="pre"
+              sx={{
+                backgroundColor: '#f5f5f5',
+                p: 2,
+                borderRadius: 1,
+                maxHeight: 500,
+                overflow: 'auto',
+                fontFamily: 'monospace',
+                fontSize: 13
+              }}
+            >
+              {JSON.stringify(detail.raw, null, 2)}
+            </Box>
+          </CardContent>
+        </Card>
+
+        <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Card elevation={3}>
+        <CardHeader
+          avatar={<Inventory2Icon color="primary" />}
+          title="Product Catalog"
+          subheader="Every product returned by GetItems is stored here, so known ASINs don't need a new API call."
+          action={
+            <IconButton onClick={load} aria-label="Refresh catalog">
+              <RefreshIcon />
+            </IconButton>
+          }
+        />
+        <Divider />
+        <CardContent>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+            <TextField
+              size="small"
+              label="Search ASIN, title or brand"
+              fullWidth
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applySearch()}
+            />
+            <Button variant="contained" onClick={applySearch}>
+              Search
+            </Button>
+            {loading && <CircularProgress size={24} />}
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {COLUMNS.map((col) => (
+                  <TableCell key={col.key} align={col.align}>
+                    <TableSortLabel
+                      active={sort === col.key}
+                      direction={sort === col.key ? order : 'asc'}
+                      onClick={() => toggleSort(col.key)}
+                    >
+                      {col.label}
+                    </TableSortLabel>
+                  </TableCell>
+                ))}
+                <TableCell>Marketplace</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {products.map((p) => (
+                <TableRow
+                  key={`${p.marketplace}:${p.asin}`}
+                  hover
+                  onClick={() => openDetail(p)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{p.asin}</TableCell>
+                  <TableCell>{p.title || '—'}</TableCell>
+                  <TableCell>{p.brand || '—'}</TableCell>
+                  <TableCell align="right">{p.rating ?? '—'}</TableCell>
+                  <TableCell align="right">{p.reviewCount ?? '—'}</TableCell>
+                  <TableCell>{new Date(p.fetchedAt).toLocaleString()}</TableCell>
+                  <TableCell>{p.marketplace}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!loading && products.length === 0 && (
+            <Typography color="text.secondary" sx={{ mt: 2 }}>
+              {search ? 'No products match this search.' : 'The catalog is empty. Run GetItems to populate it.'}
+            </Typography>
+          )}
+
+          <TablePagination
+            component="div"
+            count={total}
+            page={page}
+            onPageChange={(_e, p) => setPage(p)}
+            rowsPerPage={rowsPerPage}
+            onRowsPerPageChange={(e) => {
+              setRowsPerPage(parseInt(e.target.value, 10));
+              setPage(0);
+            }}
+            rowsPerPageOptions={[25, 50, 100]}
+          />
+        </CardContent>
+      </Card>
+
+      <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+    </Box>
+  );
+};
+
+export default ProductCatalog;
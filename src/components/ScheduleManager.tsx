@@ -0,0 +1,457 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  Divider,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import HistoryIcon from '@mui/icons-material/History';
+
+import { apiFetch } from '../utils/api';
+import { hasRole, useAuthStore, UserRole } from '../store/authStore';
+import PaApiProfileSelect from './PaApiProfileSelect';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface Operation {
+  type: string;
+  label: string;
+  params: string;
+  role: UserRole;
+}
+
+interface Schedule {
+  id: number;
+  name: string;
+  cron: string;
+  operation: string;
+  params: Record<string, any>;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+}
+
+interface ScheduleRun {
+  id: number;
+  job_id: number | null;
+  status: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface ScheduleForm {
+  id: number | null;
+  name: string;
+  cron: string;
+  operation: string;
+  list: string; // ASINs or URLs, one per line or comma separated
+  profile: string; // PA API profile, '' for the default
+  olderThanDays: string;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  id: null,
+  name: '',
+  cron: '0 3 * * *',
+  operation: 'paapi-refresh',
+  list: '',
+  profile: '',
+  olderThanDays: '30'
+};
+
+const CRON_EXAMPLES = [
+  ['*/15 * * * *', 'every 15 minutes'],
+  ['0 3 * * *', 'daily at 03:00'],
+  ['30 8 * * 1-5', 'weekdays at 08:30'],
+  ['0 0 * * 0', 'Sundays at midnight']
+];
+
+const STATUS_COLORS: Record<string, 'success' | 'error' | 'warning' | 'info' | 'default'> = {
+  succeeded: 'success',
+  failed: 'error',
+  cancelled: 'warning',
+  skipped: 'warning',
+  running: 'info'
+};
+
+const splitList = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+// Build the operation params from the form fields.
+const formParams = (form: ScheduleForm): Record<string, any> => {
+  switch (form.operation) {
+    case 'paapi-refresh':
+      return {
+        asins: splitList(form.list).map((a) => a.toUpperCase()),
+        ...(form.profile ? { profile: form.profile } : {})
+      };
+    case 'expand-links':
+      return { urls: splitList(form.list) };
+    case 'prune-logs':
+      return { olderThanDays: Number(form.olderThanDays) };
+    default:
+      return {};
+  }
+};
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const ScheduleManager: React.FC = () => {
+  const user = useAuthStore((s) => s.user);
+  const [operations, setOperations] = useState<Operation[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const [runsFor, setRunsFor] = useState<Schedule | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const load = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/schedules`);
+      if (!res.ok) throw new Error('Failed to load schedules');
+      setSchedules(await res.json());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load schedules');
+    }
+  };
+
+  const loadRuns = async (schedule: Schedule) => {
+    const res = await apiFetch(`${API_BASE}/api/schedules/${schedule.id}/runs`);
+    setRuns(res.ok ? await res.json() : []);
+  };
+
+  useEffect(() => {
+    apiFetch(`${API_BASE}/api/schedules/operations`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setOperations)
+      .catch(() => setOperations([]));
+    load();
+
+    // Keep last/next run times current while the tab is open.
+    const timer = setInterval(load, 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (runsFor) loadRuns(runsFor);
+  }, [runsFor, schedules]);
+
+  const setField = (field: keyof ScheduleForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const save = async () => {
+    setError(null);
+    try {
+      const payload = {
+        name: form.name,
+        cron: form.cron,
+        operation: form.operation,
+        params: formParams(form),
+        enabled: form.id ? schedules.find((s) => s.id === form.id)?.enabled ?? true : true
+      };
+      const res = await apiFetch(
+        form.id ? `${API_BASE}/api/schedules/${form.id}` : `${API_BASE}/api/schedules`,
+        {
+          method: form.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload)
+        }
+      );
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to save schedule');
+      showSnack(`Saved · next run ${formatTime(json.next_run_at)}`);
+      setForm(EMPTY_FORM);
+      load();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save schedule');
+    }
+  };
+
+  const edit = (s: Schedule) =>
+    setForm({
+      id: s.id,
+      name: s.name,
+      cron: s.cron,
+      operation: s.operation,
+      list: (s.params.asins || s.params.urls || []).join('\n'),
+      profile: s.params.profile || '',
+      olderThanDays: String(s.params.olderThanDays ?? 30)
+    });
+
+  const toggle = async (s: Schedule) => {
+    await apiFetch(`${API_BASE}/api/schedules/${s.id}/${s.enabled ? 'pause' : 'resume'}`, {
+      method: 'POST'
+    });
+    load();
+  };
+
+  const runNow = async (s: Schedule) => {
+    setError(null);
+    const res = await apiFetch(`${API_BASE}/api/schedules/${s.id}/run`, { method: 'POST' });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(json?.error || 'Failed to start run');
+      return;
+    }
+    showSnack(`${s.name} started as job #${json.job_id}`);
+    load();
+  };
+
+  const remove = async (s: Schedule) => {
+    if (!window.confirm(`Delete schedule "${s.name}"?`)) return;
+    await apiFetch(`${API_BASE}/api/schedules/${s.id}`, { method: 'DELETE' });
+    if (runsFor?.id === s.id) setRunsFor(null);
+    if (form.id === s.id) setForm(EMPTY_FORM);
+    load();
+  };
+
+  const operationLabel = (type: string) => operations.find((o) => o.type === type)?.label || type;
+
+  return (
+    <Box>
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          avatar={<ScheduleIcon color="primary" />}
+          title={form.id ? `Edit Schedule · ${form.name}` : 'New Schedule'}
+          subheader="Run operations on a cron expression (minute hour day-of-month month day-of-week, server time)."
+        />
+        <Divider />
+        <CardContent>
+          <Box
+            sx={{
+              display: 'grid',
+              gap: 2,
+              gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }
+            }}
+          >
+            <TextField label="Name" value={form.name} onChange={(e) => setField('name', e.target.value)} />
+            <TextField
+              label="Cron"
+              value={form.cron}
+              onChange={(e) => setField('cron', e.target.value)}
+              InputProps={{ sx: { fontFamily: 'monospace' } }}
+            />
+            <TextField
+              select
+              label="Operation"
+              value={form.operation}
+              onChange={(e) => setField('operation', e.target.value)}
+            >
+              {operations.map((o) => (
+                <MenuItem key={o.type} value={o.type} disabled={!hasRole(user, o.role)}>
+                  {o.label}
+                  {o.role === 'admin' ? ' (admin)' : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
+          <Box sx={{ mt: 1, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {CRON_EXAMPLES.map(([expr, text]) => (
+              <Chip
+                key={expr}
+                size="small"
+                variant="outlined"
+                label={`${expr} · ${text}`}
+                onClick={() => setField('cron', expr)}
+              />
+            ))}
+          </Box>
+
+          {(form.operation === 'paapi-refresh' || form.operation === 'expand-links') && (
+            <TextField
+              label={form.operation === 'paapi-refresh' ? 'Saved ASIN list' : 'Short links to re-expand'}
+              fullWidth
+              multiline
+              minRows={3}
+              sx={{ mt: 2 }}
+              value={form.list}
+              onChange={(e) => setField('list', e.target.value)}
+            />
+          )}
+
+          {form.operation === 'paapi-refresh' && (
+            <PaApiProfileSelect
+              value={form.profile}
+              onChange={(value) => setField('profile', value)}
+              sx={{ mt: 2 }}
+            />
+          )}
+
+          {form.operation === 'prune-logs' && (
+            <TextField
+              label="Delete logs older than (days)"
+              type="number"
+              sx={{ mt: 2 }}
+              value={form.olderThanDays}
+              onChange={(e) => setField('olderThanDays', e.target.value)}
+            />
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ mt: 2, display: 'flex', gap: 2 }}>
+            <Button variant="contained" onClick={save} disabled={!form.name.trim() || !form.cron.trim()}>
+              {form.id ? 'Update Schedule' : 'Create Schedule'}
+            </Button>
+            {form.id && (
+              <Button variant="text" onClick={() => setForm(EMPTY_FORM)}>
+                Cancel Edit
+              </Button>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader title="Schedules" subheader={`${schedules.length} configured`} />
+        <Divider />
+        <CardContent>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Active</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Operation</TableCell>
+                <TableCell>Cron</TableCell>
+                <TableCell>Next Run</TableCell>
+                <TableCell>Last Run</TableCell>
+                <TableCell>Outcome</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {schedules.map((s) => (
+                <TableRow key={s.id} selected={runsFor?.id === s.id}>
+                  <TableCell>
+                    <Switch size="small" checked={s.enabled} onChange={() => toggle(s)} />
+                  </TableCell>
+                  <TableCell>{s.name}</TableCell>
+                  <TableCell>{operationLabel(s.operation)}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{s.cron}</TableCell>
+                  <TableCell>{s.enabled ? formatTime(s.next_run_at) : 'paused'}</TableCell>
+                  <TableCell>{formatTime(s.last_run_at)}</TableCell>
+                  <TableCell>
+                    {s.last_status ? (
+                      <Tooltip title={s.last_error || ''}>
+                        <Chip
+                          size="small"
+                          label={s.last_status}
+                          color={STATUS_COLORS[s.last_status] || 'default'}
+                        />
+                      </Tooltip>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" onClick={() => runNow(s)} aria-label={`Run ${s.name} now`}>
+                      <PlayArrowIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => setRunsFor(s)} aria-label={`Runs of ${s.name}`}>
+                      <HistoryIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => edit(s)} aria-label={`Edit ${s.name}`}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => remove(s)} aria-label={`Delete ${s.name}`}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {schedules.length === 0 && (
+            <Typography color="text.secondary" sx={{ mt: 2 }}>
+              No schedules yet.
+            </Typography>
+          )}
+        </CardContent>
+      </Card>
+
+      {runsFor && (
+        <Card elevation={3}>
+          <CardHeader title={`Recent Runs · ${runsFor.name}`} />
+          <Divider />
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Started</TableCell>
+                  <TableCell>Finished</TableCell>
+                  <TableCell>Job</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Error</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {runs.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell>{formatTime(r.started_at)}</TableCell>
+                    <TableCell>{formatTime(r.finished_at)}</TableCell>
+                    <TableCell>{r.job_id ? `#${r.job_id}` : '—'}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={r.status} color={STATUS_COLORS[r.status] || 'default'} />
+                    </TableCell>
+                    <TableCell>{r.error || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {runs.length === 0 && (
+              <Typography color="text.secondary" sx={{ mt: 2 }}>
+                This schedule has not run yet.
+              </Typography>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+    </Box>
+  );
+};
+
+export default ScheduleManager;
@@ -3,6 +3,7 @@ import {
   Alert,
   Box,
   Button,
+  Chip,
   Card,
   CardHeader,
   CardContent,
@@ -24,6 +25,9 @@ import {
 
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
+import SyncLockIcon from '@mui/icons-material/SyncLock';
+
+import { apiFetch } from '../utils/api';
 
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
@@ -31,11 +35,28 @@ const API_BASE =
 interface Secret {
   id: number;
   name: string;
-  value?: string;
+  key_id: string;
+  value?: string | null;
+  error?: string;
   created_at: string;
   updated_at: string;
 }
 
+interface KeyInfo {
+  activeKeyId: string | null;
+  keys: { id: string; active: boolean; secrets: number }[];
+  legacy: number;
+  unconfigured: { id: string; secrets: number }[];
+}
+
+interface ReencryptResult {
+  keyId: string;
+  total: number;
+  reencrypted: number;
+  unchanged: number;
+  failed: { name: string; keyId: string; error: string }[];
+}
+
 const SecretsManager: React.FC = () => {
   const [secrets, setSecrets] = useState<Secret[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,6 +66,10 @@ const SecretsManager: React.FC = () => {
   const [name, setName] = useState('');
   const [value, setValue] = useState('');
 
+  const [keyInfo, setKeyInfo] = useState<KeyInfo | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [rotation, setRotation] = useState<ReencryptResult | null>(null);
+
   const [snack, setSnack] = useState<{ open: boolean; msg: string; severity: 'success' | 'error' | 'info' }>({
     open: false,
     msg: '',
@@ -58,7 +83,7 @@ const SecretsManager: React.FC = () => {
 
   const loadSecrets = async () => {
     try {
-      const res = await fetch(`${API_BASE}/api/secrets?includeValues=1`);
+      const res = await apiFetch(`${API_BASE}/api/secrets?includeValues=1`);
       if (!res.ok) throw new Error('Failed to load secrets');
       const json: Secret[] = await res.json();
       setSecrets(json);
@@ -70,13 +95,44 @@ const SecretsManager: React.FC = () => {
     }
   };
 
+  const loadKeys = async () => {
+    const res = await apiFetch(`${API_BASE}/api/secrets/keys`);
+    if (res.ok) setKeyInfo(await res.json());
+  };
+
   useEffect(() => {
     loadSecrets();
+    loadKeys();
   }, []);
 
+  const reencrypt = async () => {
+    if (!window.confirm(`Re-encrypt all secrets under key "${keyInfo?.activeKeyId}"?`)) return;
+    setRotating(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/secrets/reencrypt`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Re-encryption failed');
+      setRotation(json);
+      show(
+        `${json.reencrypted} re-encrypted, ${json.failed.length} failed`,
+        json.failed.length ? 'error' : 'success'
+      );
+      loadSecrets();
+      loadKeys();
+    } catch (e: any) {
+      show(e?.message || 'Re-encryption failed', 'error');
+    } finally {
+      setRotating(false);
+    }
+  };
+
   const saveSecret = async () => {
     try {
-      await fetch(`${API_BASE}/api/secrets/${encodeURIComponent(name)}`, {
+      await apiFetch(`${API_BASE}/api/secrets/${encodeURIComponent(name)}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ value })
@@ -86,6 +142,7 @@ const SecretsManager: React.FC = () => {
       setValue('');
       show('Secret saved');
       loadSecrets();
+      loadKeys();
     } catch {
       show('Failed to save secret', 'error');
     }
@@ -93,11 +150,12 @@ const SecretsManager: React.FC = () => {
 
   const deleteSecret = async (n: string) => {
     try {
-      await fetch(`${API_BASE}/api/secrets/${encodeURIComponent(n)}`, {
+      await apiFetch(`${API_BASE}/api/secrets/${encodeURIComponent(n)}`, {
         method: 'DELETE'
       });
       show('Secret deleted');
       loadSecrets();
+      loadKeys();
     } catch {
       show('Failed to delete secret', 'error');
     }
@@ -109,14 +167,65 @@ const SecretsManager: React.FC = () => {
         title="Secrets Manager"
         subheader="Values are encrypted at rest in SQLite"
         action={
-          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setModal(true)}>
-            Add Secret
-          </Button>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<SyncLockIcon />}
+              onClick={reencrypt}
+              disabled={rotating || !keyInfo?.activeKeyId}
+            >
+              Re-encrypt All
+            </Button>
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => setModal(true)}>
+              Add Secret
+            </Button>
+          </Box>
         }
       />
       <Divider />
       <CardContent>
         {err && <Alert severity="error">{err}</Alert>}
+
+        {keyInfo && (
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              Encryption keys:
+            </Typography>
+            {keyInfo.keys.map((k) => (
+              <Chip
+                key={k.id}
+                size="small"
+                color={k.active ? 'primary' : 'default'}
+                label={`${k.id}${k.active ? ' (active)' : ''} · ${k.secrets}`}
+              />
+            ))}
+            {keyInfo.legacy > 0 && (
+              <Chip size="small" color="warning" label={`unversioned · ${keyInfo.legacy}`} />
+            )}
+            {keyInfo.unconfigured.map((k) => (
+              <Chip key={k.id} size="small" color="error" label={`${k.id} (missing) · ${k.secrets}`} />
+            ))}
+            {keyInfo.keys.length === 0 && (
+              <Alert severity="warning" sx={{ width: '100%' }}>
+                No encryption key configured. Set SECRET_ENC_KEY or SECRET_ENC_KEYS on the server.
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {rotation && rotation.failed.length > 0 && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setRotation(null)}>
+            {rotation.failed.length} of {rotation.total} secrets could not be re-encrypted under "
+            {rotation.keyId}":
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {rotation.failed.map((f) => (
+                <li key={f.name}>
+                  {f.name}: {f.error}
+                </li>
+              ))}
+            </Box>
+          </Alert>
+        )}
         {loading && <Typography>Loading…</Typography>}
         {!loading && secrets.length === 0 && (
           <Typography color="text.secondary">No secrets stored.</Typography>
@@ -128,6 +237,7 @@ const SecretsManager: React.FC = () => {
               <TableRow>
                 <TableCell>Name</TableCell>
                 <TableCell>Value</TableCell>
+                <TableCell>Key</TableCell>
                 <TableCell>Updated</TableCell>
                 <TableCell align="right">Actions</TableCell>
               </TableRow>
@@ -137,10 +247,17 @@ const SecretsManager: React.FC = () => {
                 <TableRow key={s.id}>
                   <TableCell>{s.name}</TableCell>
                   <TableCell>
-                    <Typography fontFamily="monospace">
-                      {s.value || '(not decrypted)'}
-                    </Typography>
+                    {s.error ? (
+                      <Typography color="error" variant="body2">
+                        {s.error}
+                      </Typography>
+                    ) : (
+                      <Typography fontFamily="monospace">
+                        {s.value || '(not decrypted)'}
+                      </Typography>
+                    )}
                   </TableCell>
+                  <TableCell>{s.key_id}</TableCell>
                   <TableCell>{s.updated_at}</TableCell>
                   <TableCell align="right">
                     <IconButton onClick={() => deleteSecret(s.name)}>
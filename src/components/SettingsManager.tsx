@@ -6,25 +6,35 @@ import {
   Card,
   CardHeader,
   CardContent,
+  Chip,
   Dialog,
   DialogTitle,
   DialogContent,
   DialogActions,
   Divider,
   IconButton,
+  MenuItem,
   Snackbar,
+  Switch,
   Table,
   TableBody,
   TableCell,
   TableHead,
   TableRow,
   TextField,
+  Tooltip,
   Typography
 } from '@mui/material';
 
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import SaveIcon from '@mui/icons-material/Save';
+
+import { apiFetch } from '../utils/api';
+import { hasRole, useAuthStore } from '../store/authStore';
+import ConfigTransfer from './ConfigTransfer';
 
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
@@ -37,11 +47,103 @@ interface SettingRow {
   updated_at: string;
 }
 
+// One declared setting, as served by GET /api/settings/registry.
+interface SettingDef {
+  name: string;
+  type: 'integer' | 'number' | 'boolean' | 'enum' | 'string' | 'url' | 'path';
+  default: string | number | boolean | null;
+  min?: number;
+  max?: number;
+  values: string[] | null;
+  pattern: string | null;
+  description: string;
+  restartRequired: boolean;
+}
+
+interface RegistrySection {
+  section: string;
+  label: string;
+  settings: SettingDef[];
+}
+
+const settingKey = (section: string, name: string) => `${section}/${name}`;
+
+// Same lookup as the server: an exact name first, then a pattern.
+const findDef = (sec: RegistrySection, name: string) =>
+  sec.settings.find((d) => !d.pattern && d.name === name) ||
+  sec.settings.find((d) => d.pattern && new RegExp(d.pattern).test(name)) ||
+  null;
+
+const showDefault = (def: SettingDef) => (def.default === null ? '—' : String(def.default));
+
+/**
+ * The typed control for one declared setting. An empty value means unset:
+ * the service then uses the default, shown as the placeholder.
+ */
+const SettingControl: React.FC<{
+  def: SettingDef;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}> = ({ def, value, error, onChange }) => {
+  if (def.type === 'boolean') {
+    return (
+      <Switch
+        checked={(value || String(def.default)) === 'true'}
+        onChange={(e) => onChange(String(e.target.checked))}
+      />
+    );
+  }
+  if (def.type === 'enum') {
+    return (
+      <TextField
+        select
+        size="small"
+        fullWidth
+        value={value}
+        error={!!error}
+        helperText={error}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <MenuItem value="">
+          <em>Default ({showDefault(def)})</em>
+        </MenuItem>
+        {(def.values || []).map((v) => (
+          <MenuItem key={v} value={v}>
+            {v}
+          </MenuItem>
+        ))}
+      </TextField>
+    );
+  }
+  const numeric = def.type === 'integer' || def.type === 'number';
+  return (
+    <TextField
+      size="small"
+      fullWidth
+      type={numeric ? 'number' : 'text'}
+      inputProps={numeric ? { min: def.min, max: def.max, step: def.type === 'integer' ? 1 : 'any' } : undefined}
+      placeholder={def.default === null ? '' : String(def.default)}
+      value={value}
+      error={!!error}
+      helperText={error}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+};
+
 const SettingsManager: React.FC = () => {
+  const isAdmin = useAuthStore((s) => hasRole(s.user, 'admin'));
   const [settings, setSettings] = useState<SettingRow[]>([]);
+  const [registry, setRegistry] = useState<RegistrySection[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Unsaved edits and server-side validation errors, by section/name.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [savingSection, setSavingSection] = useState<string | null>(null);
+
   const [snack, setSnack] = useState<{ open: boolean; msg: string; severity: 'success' | 'error' | 'info' }>({
     open: false,
     msg: '',
@@ -62,10 +164,14 @@ const SettingsManager: React.FC = () => {
   const loadSettings = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/api/settings`);
-      if (!res.ok) throw new Error('Failed to load settings');
-      const json: SettingRow[] = await res.json();
+      const [settingsRes, registryRes] = await Promise.all([
+        apiFetch(`${API_BASE}/api/settings`),
+        apiFetch(`${API_BASE}/api/settings/registry`)
+      ]);
+      if (!settingsRes.ok || !registryRes.ok) throw new Error('Failed to load settings');
+      const json: SettingRow[] = await settingsRes.json();
       setSettings(json);
+      setRegistry(await registryRes.json());
       setError(null);
     } catch (e: any) {
       setError(e.message || 'Failed to load settings');
@@ -78,6 +184,108 @@ const SettingsManager: React.FC = () => {
     loadSettings();
   }, []);
 
+  const stored = new Map(settings.map((s) => [settingKey(s.section, s.name), s]));
+  const storedValue = (section: string, name: string) => stored.get(settingKey(section, name))?.value ?? '';
+
+  // Rows of a declared section: every fixed setting, plus stored settings
+  // matching one of its patterns (e.g. rateLimit.example.com).
+  const sectionRows = (sec: RegistrySection) => [
+    ...sec.settings.filter((d) => !d.pattern).map((def) => ({ name: def.name, def })),
+    ...settings
+      .filter((s) => s.section === sec.section)
+      .map((s) => ({ name: s.name, def: findDef(sec, s.name) }))
+      .filter((r): r is { name: string; def: SettingDef } => !!r.def?.pattern)
+  ];
+
+  // Stored settings the registry does not declare: undeclared sections,
+  // and leftovers in declared ones.
+  const otherSettings = settings.filter((s) => {
+    const sec = registry.find((r) => r.section === s.section);
+    return !sec || !findDef(sec, s.name);
+  });
+
+  const changedRows = (sec: RegistrySection) =>
+    sectionRows(sec).filter(({ name }) => {
+      const draft = drafts[settingKey(sec.section, name)];
+      return draft !== undefined && draft.trim() !== storedValue(sec.section, name);
+    });
+
+  const setDraft = (section: string, name: string, value: string) => {
+    const key = settingKey(section, name);
+    setDrafts((d) => ({ ...d, [key]: value }));
+    setFieldErrors((e) => {
+      const { [key]: _cleared, ...rest } = e;
+      return rest;
+    });
+  };
+
+  const putSetting = async (section: string, name: string, value: string) => {
+    const res = await apiFetch(`${API_BASE}/api/settings/${encodeURIComponent(section)}/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value })
+    });
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      throw new Error(json?.error || 'Failed to save');
+    }
+  };
+
+  const removeSetting = async (section: string, name: string) => {
+    const res = await apiFetch(`${API_BASE}/api/settings/${encodeURIComponent(section)}/${encodeURIComponent(name)}`, {
+      method: 'DELETE'
+    });
+    if (!res.ok) throw new Error('Failed to delete');
+  };
+
+  // Writes each changed value of the section; a cleared value is deleted,
+  // so the service falls back to its default.
+  const saveSection = async (sec: RegistrySection) => {
+    const changes = changedRows(sec);
+    if (!changes.length) return;
+
+    setSavingSection(sec.section);
+    const errors: Record<string, string> = {};
+    for (const { name } of changes) {
+      const key = settingKey(sec.section, name);
+      const value = drafts[key].trim();
+      try {
+        if (value) await putSetting(sec.section, name, value);
+        else await removeSetting(sec.section, name);
+      } catch (e: any) {
+        errors[key] = e.message || 'Failed to save';
+      }
+    }
+    setSavingSection(null);
+
+    setFieldErrors((e) => ({ ...e, ...errors }));
+    setDrafts((d) => {
+      const next = { ...d };
+      for (const { name } of changes) {
+        if (!errors[settingKey(sec.section, name)]) delete next[settingKey(sec.section, name)];
+      }
+      return next;
+    });
+    const failed = Object.keys(errors).length;
+    if (failed) show(`${failed} setting(s) were not saved`, 'error');
+    else show(`${sec.label} saved`);
+    loadSettings();
+  };
+
+  const resetSetting = async (section: string, name: string) => {
+    try {
+      await removeSetting(section, name);
+      setDrafts((d) => {
+        const { [settingKey(section, name)]: _reset, ...rest } = d;
+        return rest;
+      });
+      show(`${section}/${name} reset to its default`);
+      loadSettings();
+    } catch (e: any) {
+      show(e.message || 'Reset failed', 'error');
+    }
+  };
+
   const openNew = () => {
     setEditSection('');
     setEditName('');
@@ -99,15 +307,7 @@ const SettingsManager: React.FC = () => {
     }
 
     try {
-      const res = await fetch(
-        `${API_BASE}/api/settings/${encodeURIComponent(editSection)}/${encodeURIComponent(editName)}`,
-        {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ value: editValue })
-        }
-      );
-      if (!res.ok) throw new Error('Failed to save');
+      await putSetting(editSection, editName, editValue);
       setEditOpen(false);
       show('Setting saved');
       loadSettings();
@@ -119,11 +319,7 @@ const SettingsManager: React.FC = () => {
   const confirmDelete = async () => {
     if (!deleteTarget) return;
     try {
-      const res = await fetch(
-        `${API_BASE}/api/settings/${encodeURIComponent(deleteTarget.section)}/${encodeURIComponent(deleteTarget.name)}`,
-        { method: 'DELETE' }
-      );
-      if (!res.ok) throw new Error('Failed to delete');
+      await removeSetting(deleteTarget.section, deleteTarget.name);
       show('Setting deleted');
       setDeleteTarget(null);
       loadSettings();
@@ -132,26 +328,129 @@ const SettingsManager: React.FC = () => {
     }
   };
 
+  const editDef = (() => {
+    const sec = registry.find((r) => r.section === editSection.trim());
+    return sec ? findDef(sec, editName.trim()) : null;
+  })();
+
   return (
-    <Box>
+    <Box sx={{ display: 'grid', gap: 3 }}>
       <Card elevation={3}>
         <CardHeader
           title="Settings Manager"
-          subheader="View, edit, and create stored workflow settings."
+          subheader="Typed settings by area; a cleared field falls back to its default."
           action={
-            <Button variant="contained" startIcon={<AddIcon />} onClick={openNew}>
-              Add Setting
-            </Button>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {isAdmin && (
+                <ConfigTransfer
+                  onImported={(msg) => {
+                    show(msg);
+                    loadSettings();
+                  }}
+                />
+              )}
+              <Button variant="contained" startIcon={<AddIcon />} onClick={openNew}>
+                Add Setting
+              </Button>
+            </Box>
           }
         />
         <Divider />
         <CardContent>
           {error && <Alert severity="error">{error}</Alert>}
-          {loading && <Typography>Loading…</Typography>}
-          {!loading && settings.length === 0 && (
-            <Typography color="text.secondary">No settings stored.</Typography>
+          {loading && registry.length === 0 && <Typography>Loading…</Typography>}
+          {registry.map((sec) => {
+            const patterns = sec.settings.filter((d) => d.pattern);
+            return (
+              <Box key={sec.section} sx={{ mb: 4 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                  <Typography variant="h6">
+                    {sec.label}{' '}
+                    <Typography component="span" variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                      {sec.section}
+                    </Typography>
+                  </Typography>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<SaveIcon />}
+                    disabled={!changedRows(sec).length || savingSection === sec.section}
+                    onClick={() => saveSection(sec)}
+                  >
+                    Save
+                  </Button>
+                </Box>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ width: '40%' }}>Setting</TableCell>
+                      <TableCell>Value</TableCell>
+                      <TableCell>Default</TableCell>
+                      <TableCell align="right" />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sectionRows(sec).map(({ name, def }) => {
+                      const key = settingKey(sec.section, name);
+                      const isStored = stored.has(key);
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                              {name}
+                              {def.restartRequired && (
+                                <Chip size="small" color="warning" label="Restart required" sx={{ ml: 1 }} />
+                              )}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {def.description}
+                            </Typography>
+                          </TableCell>
+                          <TableCell sx={{ minWidth: 200 }}>
+                            <SettingControl
+                              def={def}
+                              value={drafts[key] ?? storedValue(sec.section, name)}
+                              error={fieldErrors[key]}
+                              onChange={(v) => setDraft(sec.section, name, v)}
+                            />
+                          </TableCell>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{showDefault(def)}</TableCell>
+                          <TableCell align="right">
+                            {isStored && (
+                              <Tooltip title="Reset to default">
+                                <IconButton size="small" onClick={() => resetSetting(sec.section, name)}>
+                                  <RestartAltIcon />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {patterns.map((def) => (
+                  <Typography key={def.name} variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+                    Add <code>{def.name}</code> with Add Setting: {def.description.toLowerCase()}.
+                  </Typography>
+                ))}
+              </Box>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card elevation={3}>
+        <CardHeader
+          title="Other Settings"
+          subheader="Stored settings the registry does not declare, edited as raw values."
+        />
+        <Divider />
+        <CardContent>
+          {!loading && otherSettings.length === 0 && (
+            <Typography color="text.secondary">No other settings stored.</Typography>
           )}
-          {!loading && settings.length > 0 && (
+          {otherSettings.length > 0 && (
             <Table size="small">
               <TableHead>
                 <TableRow>
@@ -163,7 +462,7 @@ const SettingsManager: React.FC = () => {
                 </TableRow>
               </TableHead>
               <TableBody>
-                {settings.map((s) => (
+                {otherSettings.map((s) => (
                   <TableRow key={`${s.section}:${s.name}`}>
                     <TableCell>{s.section}</TableCell>
                     <TableCell>{s.name}</TableCell>
@@ -204,6 +503,7 @@ const SettingsManager: React.FC = () => {
             margin="normal"
             value={editName}
             onChange={(e) => setEditName(e.target.value)}
+            helperText={editDef ? `${editDef.type}: ${editDef.description}` : undefined}
           />
           <TextField
             label="Value"
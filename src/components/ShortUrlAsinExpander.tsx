@@ -21,14 +21,9 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import DeleteIcon from '@mui/icons-material/Delete';
 import LinkIcon from '@mui/icons-material/Link';
 
-import { useWorkflowStore } from '../store/workflowStore';
-
-interface UrlResult {
-  url: string;
-  finalUrl?: string | null;
-  asin?: string | null;
-  error?: string | null;
-}
+import { useWorkflowStore, AsinExpanderResult as UrlResult } from '../store/workflowStore';
+import { useJobStream, submitJob, cancelJob, isJobFinished, Job } from '../hooks/useJobStream';
+import ExportMenu from './ExportMenu';
 
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
@@ -64,11 +59,12 @@ const parseInputToUrls = (raw: string): string[] => {
 const ShortUrlAsinExpander: React.FC = () => {
   // Global persistent state
   const rawInput = useWorkflowStore((s) => s.asinExpander.rawInput);
-  const results = useWorkflowStore((s) => s.asinExpander.results as UrlResult[]);
+  const results = useWorkflowStore((s) => s.asinExpander.results);
+  const jobId = useWorkflowStore((s) => s.asinExpander.jobId ?? null);
   const setExpanderField = useWorkflowStore((s) => s.setAsinExpanderField);
 
   // Local UI state
-  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
     open: false,
@@ -76,6 +72,27 @@ const ShortUrlAsinExpander: React.FC = () => {
   });
   const [copiedAsin, setCopiedAsin] = useState<string | null>(null);
 
+  // Follow the background expansion job (reattaches after a reload)
+  const { job, streamError } = useJobStream<{ results: UrlResult[] }>(
+    jobId,
+    (update: Job<{ results: UrlResult[] }>) => {
+      if (update.result?.results) {
+        setExpanderField('results', update.result.results);
+      }
+      if (isJobFinished(update)) {
+        setExpanderField('jobId', null);
+        if (update.status === 'failed') {
+          setError(update.error || 'Expansion job failed');
+        } else if (update.status === 'cancelled') {
+          showSnack('Expansion cancelled');
+        }
+      }
+    }
+  );
+
+  const loading = submitting || !!jobId;
+  const progress = job?.progress;
+
   const urls = parseInputToUrls(rawInput);
   const hasInput = urls.length > 0;
 
@@ -85,6 +102,8 @@ const ShortUrlAsinExpander: React.FC = () => {
   const asinListString = uniqueAsins.join(', ');
 
   const clearAll = () => {
+    if (jobId) cancelJob(jobId);
+    setExpanderField('jobId', null);
     setExpanderField('rawInput', '');
     setExpanderField('results', []);
     setError(null);
@@ -104,25 +123,18 @@ const ShortUrlAsinExpander: React.FC = () => {
       return;
     }
 
-    setLoading(true);
+    setSubmitting(true);
     try {
-      const resp = await fetch(`${API_BASE}/api/expand-amazon-urls`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ urls: parsedUrls })
-      });
-
-      const data = await resp.json();
-
-      if (!resp.ok) {
-        setError(data.error || 'Server error while expanding URLs');
-      } else {
-        setExpanderField('results', data.results || []);
-      }
+      const id = await submitJob('expand-urls', { urls: parsedUrls });
+      setExpanderField('jobId', id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Network error');
     }
-    setLoading(false);
+    setSubmitting(false);
+  };
+
+  const handleCancel = async () => {
+    if (jobId) await cancelJob(jobId);
   };
 
   const handleCopyAsins = async () => {
@@ -213,9 +225,9 @@ Comma, space, or newline separated are all supported.`}
             }}
           />
 
-          {error && (
+          {(error || streamError) && (
             <Alert severity="error" sx={{ mt: 2 }}>
-              {error}
+              {error || streamError}
             </Alert>
           )}
 
@@ -244,9 +256,23 @@ Comma, space, or newline separated are all supported.`}
               Copy ASIN List
             </Button>
 
+            {jobId && (
+              <Button variant="text" color="error" onClick={handleCancel}>
+                Cancel
+              </Button>
+            )}
+
             {loading && (
               <Box sx={{ flexGrow: 1 }}>
-                <LinearProgress />
+                <LinearProgress
+                  variant={progress && progress.total ? 'determinate' : 'indeterminate'}
+                  value={progress && progress.total ? (progress.done / progress.total) * 100 : 0}
+                />
+                {progress && progress.total > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    {progress.done} / {progress.total} URLs
+                  </Typography>
+                )}
               </Box>
             )}
           </Box>
@@ -276,6 +302,14 @@ Comma, space, or newline separated are all supported.`}
               ? 'Review each short URL, its expanded target, and extracted ASIN.'
               : 'Run an expansion to see per-URL details.'
           }
+          action={
+            <ExportMenu
+              dataset="expansions"
+              rows={results}
+              formats={['asin-txt', 'csv', 'xlsx-csv', 'json']}
+              onError={setError}
+            />
+          }
         />
         <Divider />
         <CardContent>
@@ -2,37 +2,157 @@ import React, { useEffect, useState } from 'react';
 import {
   Alert,
   Box,
+  Button,
   Card,
   CardHeader,
   CardContent,
+  Chip,
   CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
   Typography,
   Divider
 } from '@mui/material';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { apiFetch } from '../utils/api';
+import { hasRole, useAuthStore } from '../store/authStore';
+import BackupPanel from './BackupPanel';
 
 const API_BASE =
   (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
 
+// Deep checks write to the DB and may probe the network, so they are
+// polled less often than the old SELECT 1.
+const POLL_MS = 15000;
+
+// Routes shown in the metrics table, busiest first.
+const MAX_ROUTES = 15;
+
+type CheckStatus = 'ok' | 'warn' | 'fail';
+
+interface HealthCheck {
+  status: CheckStatus;
+  message: string;
+  details?: Record<string, any>;
+  durationMs: number;
+}
+
 interface HealthResponse {
-  status: string;
+  status: 'ok' | 'degraded' | 'down';
   uptimeSeconds: number;
   timestamp: string;
   startedAt: string;
-  db: { ok: boolean };
+  db: { ok: boolean; path: string };
+  checks?: Record<string, HealthCheck>;
 }
 
+interface DbInfo {
+  dbPath: string;
+  schemaVersion: number;
+  schema: {
+    version: number;
+    latest: number;
+    migrations: { version: number; name: string; appliedAt: string }[];
+  };
+}
+
+interface RouteMetrics {
+  method: string;
+  route: string;
+  count: number;
+  errors: number;
+  clientErrors: number;
+  errorRate: number;
+  avgMs: number | null;
+  p95Ms: number | null;
+  maxMs: number;
+}
+
+interface OperationMetrics {
+  operation: string;
+  calls: number;
+  ok: number;
+  throttled: number;
+  errors: number;
+  errorRate: number;
+  avgMs: number | null;
+  p95Ms: number | null;
+}
+
+interface MetricsResponse {
+  since: string;
+  requests: {
+    total: number;
+    errors: number;
+    clientErrors: number;
+    errorRate: number;
+    avgMs: number | null;
+    p95Ms: number | null;
+    routes: RouteMetrics[];
+  };
+  paapi: {
+    calls: number;
+    errors: number;
+    throttled: number;
+    errorRate: number;
+    operations: OperationMetrics[];
+  };
+  process: { uptimeSeconds: number; rssBytes: number; heapUsedBytes: number };
+}
+
+const CHECK_LABELS: Record<string, string> = {
+  database: 'Database writable',
+  storage: 'Journal / WAL',
+  disk: 'Free disk',
+  encryption: 'Encryption keys',
+  paapi: 'PA API profiles',
+  outbound: 'Outbound HTTP'
+};
+
+const STATUS_COLORS = { ok: 'green', degraded: 'orange', down: 'red' };
+
+const checkColor = (s: CheckStatus) => (s === 'ok' ? 'success' : s === 'warn' ? 'warning' : 'error');
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const ms = (v: number | null) => (v === null ? '—' : `${v} ms`);
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <Box sx={{ minWidth: 140 }}>
+    <Typography variant="caption" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="h6">{value}</Typography>
+  </Box>
+);
+
 const SystemHealth: React.FC = () => {
+  const isAdmin = useAuthStore((s) => hasRole(s.user, 'admin'));
   const [data, setData] = useState<HealthResponse | null>(null);
+  const [metrics, setMetrics] = useState<MetricsResponse | null>(null);
+  const [dbInfo, setDbInfo] = useState<DbInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
   const fetchHealth = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${API_BASE}/api/system/health`);
-      if (!res.ok) throw new Error('Failed to load system health');
-      const json: HealthResponse = await res.json();
-      setData(json);
+      const [healthRes, metricsRes, dbInfoRes] = await Promise.all([
+        apiFetch(`${API_BASE}/api/system/health`),
+        apiFetch(`${API_BASE}/api/metrics?format=json`),
+        apiFetch(`${API_BASE}/api/system/db-info`)
+      ]);
+      if (!healthRes.ok) throw new Error('Failed to load system health');
+      if (!metricsRes.ok) throw new Error('Failed to load metrics');
+      setData(await healthRes.json());
+      setMetrics(await metricsRes.json());
+      if (dbInfoRes.ok) setDbInfo(await dbInfoRes.json());
       setErr(null);
     } catch (e: any) {
       setErr(e.message || 'Failed to fetch');
@@ -43,44 +163,174 @@ const SystemHealth: React.FC = () => {
 
   useEffect(() => {
     fetchHealth();
-    const interval = setInterval(fetchHealth, 5000);
+    const interval = setInterval(fetchHealth, POLL_MS);
     return () => clearInterval(interval);
   }, []);
 
   return (
-    <Card elevation={3}>
-      <CardHeader title="System Health" subheader="Live backend and database status" />
-      <Divider />
-      <CardContent>
-        {loading && <CircularProgress />}
-        {err && <Alert severity="error">{err}</Alert>}
-        {data && !loading && (
-          <Box sx={{ display: 'grid', gap: 2 }}>
-            <Typography variant="h6">
-              Status:{' '}
-              <strong style={{ color: data.status === 'ok' ? 'green' : 'orange' }}>
-                {data.status.toUpperCase()}
-              </strong>
-            </Typography>
-            <Typography>
-              Uptime: <strong>{Math.round(data.uptimeSeconds)} seconds</strong>
-            </Typography>
-            <Typography>
-              Started: <strong>{data.startedAt}</strong>
-            </Typography>
-            <Typography>
-              Timestamp: <strong>{data.timestamp}</strong>
-            </Typography>
-            <Typography>
-              Database:{' '}
-              <strong style={{ color: data.db.ok ? 'green' : 'red' }}>
-                {data.db.ok ? 'Connected' : 'ERROR'}
-              </strong>
+    <Box sx={{ display: 'grid', gap: 3 }}>
+      <Card elevation={3}>
+        <CardHeader
+          title="System Health"
+          subheader="Component checks for the backend, database, keys and network"
+          action={
+            <Button startIcon={<RefreshIcon />} onClick={fetchHealth} disabled={loading}>
+              Refresh
+            </Button>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {loading && !data && <CircularProgress />}
+          {err && <Alert severity="error">{err}</Alert>}
+          {data && (
+            <Box sx={{ display: 'grid', gap: 2 }}>
+              <Typography variant="h6">
+                Status:{' '}
+                <strong style={{ color: STATUS_COLORS[data.status] || 'orange' }}>
+                  {data.status.toUpperCase()}
+                </strong>
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
+                <Stat label="Uptime" value={`${Math.round(data.uptimeSeconds)} s`} />
+                <Stat label="Started" value={new Date(data.startedAt).toLocaleString()} />
+                <Stat label="Checked" value={new Date(data.timestamp).toLocaleTimeString()} />
+                <Stat label="Database" value={data.db.path} />
+                {dbInfo && (
+                  <Tooltip
+                    title={dbInfo.schema.migrations
+                      .map((m) => `${m.version} ${m.name} (${new Date(m.appliedAt).toLocaleString()})`)
+                      .join(' · ')}
+                  >
+                    <Box>
+                      <Stat label="Schema version" value={`${dbInfo.schemaVersion} of ${dbInfo.schema.latest}`} />
+                    </Box>
+                  </Tooltip>
+                )}
+              </Box>
+
+              {data.checks && (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Check</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Details</TableCell>
+                      <TableCell align="right">Took</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {Object.entries(data.checks).map(([name, check]) => (
+                      <TableRow key={name}>
+                        <TableCell>{CHECK_LABELS[name] || name}</TableCell>
+                        <TableCell>
+                          <Chip size="small" label={check.status.toUpperCase()} color={checkColor(check.status)} />
+                        </TableCell>
+                        <TableCell>{check.message}</TableCell>
+                        <TableCell align="right">{check.durationMs} ms</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      {metrics && (
+        <Card elevation={3}>
+          <CardHeader
+            title="Metrics"
+            subheader={`Since ${new Date(metrics.since).toLocaleString()} · also at /api/metrics in Prometheus format`}
+          />
+          <Divider />
+          <CardContent>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mb: 3 }}>
+              <Stat label="Requests" value={metrics.requests.total} />
+              <Stat label="5xx rate" value={percent(metrics.requests.errorRate)} />
+              <Stat label="4xx responses" value={metrics.requests.clientErrors} />
+              <Stat label="Avg latency" value={ms(metrics.requests.avgMs)} />
+              <Stat label="p95 latency" value={ms(metrics.requests.p95Ms)} />
+              <Stat label="PA API calls" value={metrics.paapi.calls} />
+              <Stat label="PA API error rate" value={percent(metrics.paapi.errorRate)} />
+              <Stat label="PA API throttled" value={metrics.paapi.throttled} />
+              <Stat label="Memory (RSS)" value={megabytes(metrics.process.rssBytes)} />
+            </Box>
+
+            {metrics.paapi.operations.length > 0 && (
+              <>
+                <Typography variant="subtitle1" gutterBottom>
+                  PA API
+                </Typography>
+                <Table size="small" sx={{ mb: 3 }}>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Operation</TableCell>
+                      <TableCell align="right">Calls</TableCell>
+                      <TableCell align="right">OK</TableCell>
+                      <TableCell align="right">Throttled</TableCell>
+                      <TableCell align="right">Errors</TableCell>
+                      <TableCell align="right">Error rate</TableCell>
+                      <TableCell align="right">Avg</TableCell>
+                      <TableCell align="right">p95</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {metrics.paapi.operations.map((o) => (
+                      <TableRow key={o.operation}>
+                        <TableCell>{o.operation}</TableCell>
+                        <TableCell align="right">{o.calls}</TableCell>
+                        <TableCell align="right">{o.ok}</TableCell>
+                        <TableCell align="right">{o.throttled}</TableCell>
+                        <TableCell align="right">{o.errors}</TableCell>
+                        <TableCell align="right">{percent(o.errorRate)}</TableCell>
+                        <TableCell align="right">{ms(o.avgMs)}</TableCell>
+                        <TableCell align="right">{ms(o.p95Ms)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+
+            <Typography variant="subtitle1" gutterBottom>
+              Busiest routes
             </Typography>
-          </Box>
-        )}
-      </CardContent>
-    </Card>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Route</TableCell>
+                  <TableCell align="right">Requests</TableCell>
+                  <TableCell align="right">4xx</TableCell>
+                  <TableCell align="right">5xx</TableCell>
+                  <TableCell align="right">Avg</TableCell>
+                  <TableCell align="right">p95</TableCell>
+                  <TableCell align="right">Max</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {metrics.requests.routes.slice(0, MAX_ROUTES).map((r) => (
+                  <TableRow key={`${r.method} ${r.route}`}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {r.method} {r.route}
+                    </TableCell>
+                    <TableCell align="right">{r.count}</TableCell>
+                    <TableCell align="right">{r.clientErrors}</TableCell>
+                    <TableCell align="right">{r.errors}</TableCell>
+                    <TableCell align="right">{ms(r.avgMs)}</TableCell>
+                    <TableCell align="right">{ms(r.p95Ms)}</TableCell>
+                    <TableCell align="right">{ms(r.maxMs)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && <BackupPanel />}
+    </Box>
   );
 };
 
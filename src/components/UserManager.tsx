@@ -0,0 +1,306 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip
+} from '@mui/material';
+
+import GroupIcon from '@mui/icons-material/Group';
+import AddIcon from '@mui/icons-material/Add';
+import KeyIcon from '@mui/icons-material/Key';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+import { apiFetch } from '../utils/api';
+import { useAuthStore, UserRole } from '../store/authStore';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Viewer — read-only',
+  editor: 'Editor — run workflows and edit data',
+  admin: 'Admin — also secrets, PA API profiles, settings and users'
+};
+
+const UserManager: React.FC = () => {
+  const currentUser = useAuthStore((s) => s.user);
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState<{ username: string; password: string; role: UserRole }>({
+    username: '',
+    password: '',
+    role: 'viewer'
+  });
+
+  const [passwordTarget, setPasswordTarget] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const load = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/api/users`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || 'Failed to load users');
+      setUsers(json);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load users');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const updateUser = async (user: User, fields: Partial<{ role: UserRole; disabled: boolean; password: string }>) => {
+    const res = await apiFetch(`${API_BASE}/api/users/${user.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields)
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(json?.error || 'Failed to update user');
+      return false;
+    }
+    setError(null);
+    load();
+    return true;
+  };
+
+  const createUser = async () => {
+    const res = await apiFetch(`${API_BASE}/api/users`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...form, username: form.username.trim() })
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      setError(json?.error || 'Failed to create user');
+      return;
+    }
+    setCreateOpen(false);
+    setForm({ username: '', password: '', role: 'viewer' });
+    setError(null);
+    showSnack(`User ${form.username.trim()} created`);
+    load();
+  };
+
+  const resetPassword = async () => {
+    if (!passwordTarget) return;
+    if (await updateUser(passwordTarget, { password: newPassword })) {
+      showSnack(`Password changed for ${passwordTarget.username}`);
+      setPasswordTarget(null);
+      setNewPassword('');
+    }
+  };
+
+  const deleteUser = async (user: User) => {
+    if (!window.confirm(`Delete user ${user.username}?`)) return;
+    const res = await apiFetch(`${API_BASE}/api/users/${user.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      showSnack(`User ${user.username} deleted`);
+      load();
+    } else {
+      const json = await res.json().catch(() => null);
+      setError(json?.error || 'Failed to delete user');
+    }
+  };
+
+  return (
+    <Box>
+      <Card elevation={3}>
+        <CardHeader
+          avatar={<GroupIcon color="primary" />}
+          title="Users"
+          subheader="Accounts that can sign in to the workflow engine and what they are allowed to do"
+          action={
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => setCreateOpen(true)}>
+              Add User
+            </Button>
+          }
+        />
+        <Divider />
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Username</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell>Last Login</TableCell>
+                <TableCell>Created</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {users.map((u) => (
+                <TableRow key={u.id}>
+                  <TableCell>
+                    {u.username}
+                    {u.id === currentUser?.id ? ' (you)' : ''}
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={u.role}
+                      onChange={(e) => updateUser(u, { role: e.target.value as UserRole })}
+                    >
+                      {(Object.keys(ROLE_DESCRIPTIONS) as UserRole[]).map((r) => (
+                        <MenuItem key={r} value={r}>
+                          {r}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={!u.disabled}
+                      disabled={u.id === currentUser?.id}
+                      onChange={() => updateUser(u, { disabled: !u.disabled })}
+                    />
+                  </TableCell>
+                  <TableCell>{u.last_login_at ? new Date(u.last_login_at).toLocaleString() : '—'}</TableCell>
+                  <TableCell>{new Date(u.created_at).toLocaleString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Set password">
+                      <IconButton onClick={() => setPasswordTarget(u)}>
+                        <KeyIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <span>
+                        <IconButton
+                          color="error"
+                          disabled={u.id === currentUser?.id}
+                          onClick={() => deleteUser(u)}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Add User</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Username"
+            fullWidth
+            margin="normal"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+          />
+          <TextField
+            label="Password"
+            type="password"
+            autoComplete="new-password"
+            fullWidth
+            margin="normal"
+            helperText="At least 8 characters"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+          />
+          <TextField
+            select
+            label="Role"
+            fullWidth
+            margin="normal"
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+          >
+            {(Object.keys(ROLE_DESCRIPTIONS) as UserRole[]).map((r) => (
+              <MenuItem key={r} value={r}>
+                {ROLE_DESCRIPTIONS[r]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={createUser} disabled={!form.username || !form.password}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!passwordTarget} onClose={() => setPasswordTarget(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Set Password for {passwordTarget?.username}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="New Password"
+            type="password"
+            autoComplete="new-password"
+            fullWidth
+            margin="normal"
+            helperText="Signs the user out everywhere"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPasswordTarget(null)}>Cancel</Button>
+          <Button variant="contained" onClick={resetPassword} disabled={!newPassword}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar open={snack.open} autoHideDuration={2500} onClose={closeSnack} message={snack.msg} />
+    </Box>
+  );
+};
+
+export default UserManager;
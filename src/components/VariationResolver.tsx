@@ -0,0 +1,327 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Divider,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+
+import CategoryIcon from '@mui/icons-material/Category';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import SendIcon from '@mui/icons-material/Send';
+
+import { useWorkflowStore } from '../store/workflowStore';
+import { apiFetch } from '../utils/api';
+import PaApiProfileSelect from './PaApiProfileSelect';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+interface VariationDimension {
+  name: string;
+  displayName: string;
+  values: string[];
+}
+
+interface Variation {
+  asin: string;
+  parentAsin: string | null;
+  title: string | null;
+  image: string | null;
+  url: string | null;
+  attributes: Record<string, string>;
+}
+
+interface Family {
+  id: string;
+  parentAsin: string | null;
+  dimensions: VariationDimension[];
+  variationCount: number;
+  variations: Variation[];
+}
+
+interface AsinResolution {
+  asin: string;
+  parentAsin: string | null;
+  familyId: string;
+  status: 'resolved' | 'no-variations' | 'failed';
+  error: string | null;
+}
+
+interface VariationsResponse {
+  results: AsinResolution[];
+  families: Family[];
+  deduped: string[];
+}
+
+const VariationResolver: React.FC = () => {
+  const [input, setInput] = useState('');
+  const [prefer, setPrefer] = useState<'first' | 'parent'>('first');
+  const [data, setData] = useState<VariationsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = useWorkflowStore((s) => s.paapi.profile);
+  const setPaapiField = useWorkflowStore((s) => s.setPaapiField);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: ''
+  });
+
+  const showSnack = (msg: string) => setSnack({ open: true, msg });
+  const closeSnack = () => setSnack({ open: false, msg: '' });
+
+  const asinList = input
+    .split(/[\s,]+/)
+    .map((a) => a.trim().toUpperCase())
+    .filter(Boolean);
+
+  const resolve = async () => {
+    setError(null);
+    setData(null);
+    setLoading(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/api/paapi/variations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ asins: asinList, prefer, ...(profile ? { profile } : {}) })
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        const err = json?.error;
+        throw new Error(
+          typeof err === 'string' ? err : err?.Errors?.[0]?.Message || 'Request failed'
+        );
+      }
+      setData(json);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to resolve variations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyDeduped = async () => {
+    if (!data?.deduped.length) return;
+    await navigator.clipboard.writeText(data.deduped.join(','));
+    showSnack('Deduplicated ASIN list copied');
+  };
+
+  const sendToExecutor = () => {
+    if (!data?.deduped.length) return;
+    setPaapiField('asins', data.deduped.join(', '));
+    showSnack(`${data.deduped.length} ASINs sent to PA API Executor`);
+  };
+
+  const inputSet = new Set(asinList);
+  const dedupedSet = new Set(data?.deduped || []);
+
+  return (
+    <Box>
+      <Card elevation={3} sx={{ mb: 3 }}>
+        <CardHeader
+          avatar={<CategoryIcon color="primary" />}
+          title="Variation Families"
+          subheader="Resolve parent ASINs and sibling variations, then dedupe to one ASIN per family."
+        />
+        <Divider />
+        <CardContent>
+          <TextField
+            label="ASINs"
+            placeholder="B001JZ5PZA, B07XJ8C8F7, ..."
+            fullWidth
+            multiline
+            minRows={3}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ mt: 2, display: 'flex', gap: 2, alignItems: 'center' }}>
+            <TextField
+              select
+              size="small"
+              label="Keep per family"
+              value={prefer}
+              onChange={(e) => setPrefer(e.target.value as 'first' | 'parent')}
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="first">First listed ASIN</MenuItem>
+              <MenuItem value="parent">Parent ASIN</MenuItem>
+            </TextField>
+            <PaApiProfileSelect
+              size="small"
+              value={profile}
+              onChange={(value) => setPaapiField('profile', value)}
+            />
+            <Button variant="contained" onClick={resolve} disabled={loading || !asinList.length}>
+              Resolve Variations
+            </Button>
+            {loading && <CircularProgress size={24} />}
+          </Box>
+        </CardContent>
+      </Card>
+
+      {data && (
+        <Card elevation={3} sx={{ mb: 3 }}>
+          <CardHeader
+            title="Deduplicated List"
+            subheader={`${data.results.length} ASINs → ${data.deduped.length} families`}
+            action={
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button size="small" startIcon={<SendIcon />} onClick={sendToExecutor}>
+                  To PA API Executor
+                </Button>
+                <IconButton onClick={copyDeduped} aria-label="Copy deduplicated ASINs">
+                  <ContentCopyIcon />
+                </IconButton>
+              </Box>
+            }
+          />
+          <Divider />
+          <CardContent>
+            <Box
+              component="pre"
+              sx={{
+                backgroundColor: '#f5f5f5',
+                p: 2,
+                borderRadius: 1,
+                maxHeight: 200,
+                overflow: 'auto',
+                fontFamily: 'monospace',
+                fontSize: 13
+              }}
+            >
+              {data.deduped.join(',')}
+            </Box>
+
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>ASIN</TableCell>
+                  <TableCell>Parent</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {data.results.map((r) => (
+                  <TableRow key={r.asin}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{r.asin}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{r.parentAsin || '—'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={r.status}
+                        color={
+                          r.status === 'resolved'
+                            ? 'success'
+                            : r.status === 'failed'
+                            ? 'error'
+                            : 'default'
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>{r.error || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {data?.families.map((family) => (
+        <Card elevation={3} sx={{ mb: 3 }} key={family.id}>
+          <CardHeader
+            title={`Family ${family.parentAsin || family.id}`}
+            subheader={`${family.variationCount} variations · dimensions: ${
+              family.dimensions.map((d) => d.displayName).join(', ') || '—'
+            }`}
+          />
+          <Divider />
+          <CardContent>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>ASIN</TableCell>
+                  {family.dimensions.map((d) => (
+                    <TableCell key={d.name}>{d.displayName}</TableCell>
+                  ))}
+                  <TableCell>Title</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {family.variations.map((v) => (
+                  <TableRow key={v.asin} selected={inputSet.has(v.asin)}>
+                    <TableCell>
+                      {v.image && (
+                        <img
+                          src={v.image}
+                          alt=""
+                          style={{ width: 32, height: 32, objectFit: 'contain' }}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {v.asin}
+                      {dedupedSet.has(v.asin) && (
+                        <Chip size="small" label="kept" color="primary" sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    {family.dimensions.map((d) => (
+                      <TableCell key={d.name}>{v.attributes[d.name] || '—'}</TableCell>
+                    ))}
+                    <TableCell>
+                      {v.url ? (
+                        <a href={v.url} target="_blank" rel="noreferrer">
+                          {v.title || '—'}
+                        </a>
+                      ) : (
+                        v.title || '—'
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {family.variations.length === 0 && (
+              <Typography color="text.secondary">No variations returned.</Typography>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2500}
+        onClose={closeSnack}
+        message={snack.msg}
+      />
+    </Box>
+  );
+};
+
+export default VariationResolver;
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { apiFetch, withAccessToken } from '../utils/api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+export interface Job<TResult = any> {
+  id: number;
+  type: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  input: any;
+  progress: { done: number; total: number };
+  result: TResult | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export const isJobFinished = (job: Job | null) =>
+  !!job && ['succeeded', 'failed', 'cancelled'].includes(job.status);
+
+/**
+ * Queue a background job on the server and return its id.
+ */
+export async function submitJob(type: string, input: any): Promise<number> {
+  const res = await apiFetch(`${API_BASE}/api/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, input })
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(json?.error || 'Failed to submit job');
+  return json.id;
+}
+
+export async function cancelJob(id: number): Promise<void> {
+  await apiFetch(`${API_BASE}/api/jobs/${id}/cancel`, { method: 'POST' });
+}
+
+/**
+ * Follow a job's progress over Server-Sent Events.
+ *
+ * Passing a persisted job id after a reload reattaches to the running
+ * job: the server replays the current state first. `onUpdate` fires for
+ * every event, including the final one; the stream closes once the job
+ * is finished. Pass `null` to stop following.
+ */
+export function useJobStream<TResult = any>(
+  jobId: number | null,
+  onUpdate: (job: Job<TResult>) => void
+) {
+  const [job, setJob] = useState<Job<TResult> | null>(null);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!jobId) {
+      setJob(null);
+      return;
+    }
+
+    setStreamError(null);
+    const source = new EventSource(withAccessToken(`${API_BASE}/api/jobs/${jobId}/events`));
+
+    source.onmessage = (e) => {
+      const update: Job<TResult> = JSON.parse(e.data);
+      setJob(update);
+      onUpdateRef.current(update);
+      if (isJobFinished(update)) source.close();
+    };
+
+    source.onerror = () => {
+      // EventSource retries on its own while the server is reachable;
+      // a closed stream means the job is gone (404) or the server is down.
+      if (source.readyState === EventSource.CLOSED) {
+        setStreamError('Lost connection to job progress stream');
+      }
+    };
+
+    return () => source.close();
+  }, [jobId]);
+
+  return { job, streamError };
+}
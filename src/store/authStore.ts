@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * Signed-in user and API token. Kept apart from the workflow store so
+ * clearing workflow data never signs the user out (and vice versa).
+ */
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+interface AuthState {
+  token: string | null;
+  expiresAt: string | null;
+  user: AuthUser | null;
+  setSession: (session: AuthSession) => void;
+  clearSession: () => void;
+}
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export const hasRole = (user: AuthUser | null, role: UserRole) =>
+  !!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(role);
+
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set) => ({
+      token: null,
+      expiresAt: null,
+      user: null,
+
+      setSession: ({ token, expiresAt, user }) => set({ token, expiresAt, user }),
+
+      clearSession: () => set({ token: null, expiresAt: null, user: null }),
+    }),
+    {
+      name: 'selji-workflow-engine-auth', // localStorage key
+      version: 1,
+    }
+  )
+);
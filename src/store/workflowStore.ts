@@ -9,22 +9,62 @@ import { persist } from 'zustand/middleware';
  * or until a server restart (if you add a clear button).
  */
 
-export const useWorkflowStore = create(
+// PA API profiles (and their credentials) live on the server; only the
+// picked profile name is kept here.
+export interface PaapiState {
+  profile: string; // '' = the default profile
+  asins: string;
+  response: any | null;
+  error: string | null;
+  jobId: number | null; // background GetItems job, reattached after reload
+}
+
+export interface AsinExpanderResult {
+  url: string;
+  finalUrl?: string | null;
+  asin?: string | null;
+  error?: string | null;
+}
+
+export interface AsinExpanderState {
+  rawInput: string;
+  results: AsinExpanderResult[];
+  jobId: number | null; // background expansion job, reattached after reload
+}
+
+export interface PipelinesState {
+  input: string; // run input text, also filled from other modules
+  jobId: number | null; // background pipeline run, reattached after reload
+}
+
+interface WorkflowState {
+  paapi: PaapiState;
+  setPaapiField: <K extends keyof PaapiState>(field: K, value: PaapiState[K]) => void;
+  clearPaapi: () => void;
+
+  asinExpander: AsinExpanderState;
+  setAsinExpanderField: <K extends keyof AsinExpanderState>(
+    field: K,
+    value: AsinExpanderState[K]
+  ) => void;
+  clearAsinExpander: () => void;
+
+  pipelines: PipelinesState;
+  setPipelinesField: <K extends keyof PipelinesState>(field: K, value: PipelinesState[K]) => void;
+}
+
+export const useWorkflowStore = create<WorkflowState>()(
   persist(
     (set, get) => ({
       /* ----------------------------------------------------------
        * PA API EXECUTOR STATE
        * --------------------------------------------------------*/
       paapi: {
-        accessKey: '',
-        secretKey: '',
-        partnerTag: '',
-        marketplace: '',
-        region: '',
-        host: '',
+        profile: '',
         asins: '',
         response: null,
         error: null,
+        jobId: null,
       },
 
       setPaapiField: (field, value) =>
@@ -38,15 +78,11 @@ export const useWorkflowStore = create(
       clearPaapi: () =>
         set({
           paapi: {
-            accessKey: '',
-            secretKey: '',
-            partnerTag: '',
-            marketplace: '',
-            region: '',
-            host: '',
+            profile: '',
             asins: '',
             response: null,
             error: null,
+            jobId: null,
           },
         }),
 
@@ -56,6 +92,7 @@ export const useWorkflowStore = create(
       asinExpander: {
         rawInput: '',
         results: [], // list of { url, finalUrl, asin, error }
+        jobId: null,
       },
 
       setAsinExpanderField: (field, value) =>
@@ -71,6 +108,23 @@ export const useWorkflowStore = create(
           asinExpander: {
             rawInput: '',
             results: [],
+            jobId: null,
+          },
+        }),
+
+      /* ----------------------------------------------------------
+       * WORKFLOW PIPELINES
+       * --------------------------------------------------------*/
+      pipelines: {
+        input: '',
+        jobId: null,
+      },
+
+      setPipelinesField: (field, value) =>
+        set({
+          pipelines: {
+            ...get().pipelines,
+            [field]: value,
           },
         }),
 
@@ -80,7 +134,20 @@ export const useWorkflowStore = create(
     }),
     {
       name: 'selji-workflow-engine', // localStorage key
-      version: 1,
+      version: 4,
+      // v2: drop PA API credentials persisted by older versions
+      // v3: the single PA API config became server-side profiles
+      // v4: pipeline runs became background jobs
+      migrate: (persisted: any) => {
+        if (persisted?.paapi) {
+          const { accessKey, secretKey, partnerTag, marketplace, region, host, ...paapi } = persisted.paapi;
+          persisted.paapi = { profile: '', ...paapi };
+        }
+        if (persisted?.pipelines) {
+          persisted.pipelines = { jobId: null, ...persisted.pipelines };
+        }
+        return persisted;
+      },
     }
   )
-);
\ No newline at end of file
+);
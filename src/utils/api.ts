@@ -0,0 +1,25 @@
+import { useAuthStore } from '../store/authStore';
+
+/**
+ * fetch() for the backend API: sends the session token and signs the
+ * user out when the server no longer accepts it (401).
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { token, clearSession } = useAuthStore.getState();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const res = await fetch(input, { ...init, headers });
+  if (res.status === 401 && token) clearSession();
+  return res;
+}
+
+/**
+ * Add the session token to a URL as ?access_token=, for clients that
+ * cannot send headers (EventSource).
+ */
+export function withAccessToken(url: string): string {
+  const { token } = useAuthStore.getState();
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+}
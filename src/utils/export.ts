@@ -0,0 +1,56 @@
+import { apiFetch } from './api';
+
+const API_BASE =
+  (import.meta as any).env.VITE_API_BASE_URL || 'http://localhost:4000';
+
+export type ExportDataset = 'mappings' | 'expansions' | 'items';
+export type ExportFormat = 'csv' | 'xlsx-csv' | 'json' | 'aaid-txt' | 'asin-txt';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  'aaid-txt': 'aaid.txt (ASIN=AAID)',
+  'asin-txt': 'asin.txt (ASIN list)',
+  csv: 'CSV',
+  'xlsx-csv': 'CSV for Excel',
+  json: 'JSON'
+};
+
+/**
+ * Save content as a file through a temporary object URL.
+ */
+export function saveFile(filename: string, content: Blob | string, contentType = 'text/plain') {
+  const blob = typeof content === 'string' ? new Blob([content], { type: contentType }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Render rows with the server's export service (POST /api/export) and
+ * download the result, so browser downloads and server exports produce
+ * byte-identical files.
+ */
+export async function downloadExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  rows: any[],
+  filename?: string
+): Promise<void> {
+  const res = await apiFetch(`${API_BASE}/api/export`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dataset, format, rows, filename })
+  });
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    throw new Error(json?.error || 'Export failed');
+  }
+
+  const disposition = res.headers.get('Content-Disposition') || '';
+  const match = /filename="([^"]+)"/.exec(disposition);
+  saveFile(match ? match[1] : `${dataset}.txt`, await res.blob());
+}